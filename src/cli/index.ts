@@ -0,0 +1,85 @@
+import { relative } from "node:path";
+import { parseArgs } from "node:util";
+import color from "picocolors";
+import { formatPackResult, packPackage } from "../rslib/pack/pack-package.js";
+
+const USAGE = `Usage: rslib-builder pack [directory] [options]
+
+Packs the files npm would publish from a built package directory into a tarball and checks its contents.
+
+Arguments:
+  directory                Package directory to pack (default: dist/npm)
+
+Options:
+  -d, --destination <dir>  Directory to write the tarball to (default: .)
+      --dry-run            List and check the contents without writing the tarball
+      --json               Print the result as JSON
+  -h, --help               Show this help`;
+
+/**
+ * Runs the `pack` command.
+ *
+ * @returns The process exit code
+ */
+async function pack(args: string[]): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			destination: { type: "string", short: "d" },
+			"dry-run": { type: "boolean", default: false },
+			json: { type: "boolean", default: false },
+			help: { type: "boolean", short: "h", default: false },
+		},
+	});
+	if (values.help) {
+		console.log(USAGE);
+		return 0;
+	}
+	if (positionals.length > 1) {
+		console.error(USAGE);
+		return 1;
+	}
+
+	const result = await packPackage({
+		directory: positionals[0],
+		destination: values.destination,
+		dryRun: values["dry-run"],
+	});
+
+	if (values.json) {
+		console.log(JSON.stringify(result, null, "\t"));
+	} else {
+		console.log(formatPackResult(result));
+		if (result.path) {
+			console.log(`\n${color.green("Wrote")} ${relative(process.cwd(), result.path)}`);
+		}
+	}
+	return result.issues.length > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+	const [command, ...args] = argv;
+	switch (command) {
+		case "pack":
+			return pack(args);
+		case undefined:
+		case "-h":
+		case "--help":
+			console.log(USAGE);
+			return command === undefined ? 1 : 0;
+		default:
+			console.error(`Unknown command "${command}"\n\n${USAGE}`);
+			return 1;
+	}
+}
+
+main(process.argv.slice(2)).then(
+	(code) => {
+		process.exitCode = code;
+	},
+	(error: unknown) => {
+		console.error(color.red(error instanceof Error ? error.message : String(error)));
+		process.exitCode = 1;
+	},
+);
@@ -1,11 +1,23 @@
 import { describe, expect, it } from "vitest";
 import {
 	AutoEntryPlugin,
+	AutoExternalsPlugin,
+	BinPlugin,
+	BuildInfoPlugin,
+	DependencyReportPlugin,
 	DtsPlugin,
 	FilesArrayPlugin,
+	JsrPlugin,
 	NodeLibraryBuilder,
 	PackageJsonTransformPlugin,
+	PublishLintPlugin,
+	ReadmeLinksPlugin,
+	SbomPlugin,
+	SideEffectsPlugin,
+	SizeBudgetPlugin,
+	ThirdPartyNoticesPlugin,
 	TsDocConfigBuilder,
+	packPackage,
 } from "./index.js";
 
 describe("@savvy-web/rslib-builder public API", () => {
@@ -22,6 +34,26 @@ describe("@savvy-web/rslib-builder public API", () => {
 			expect(typeof AutoEntryPlugin).toBe("function");
 		});
 
+		it("should export AutoExternalsPlugin", () => {
+			expect(AutoExternalsPlugin).toBeDefined();
+			expect(typeof AutoExternalsPlugin).toBe("function");
+		});
+
+		it("should export BinPlugin", () => {
+			expect(BinPlugin).toBeDefined();
+			expect(typeof BinPlugin).toBe("function");
+		});
+
+		it("should export BuildInfoPlugin", () => {
+			expect(BuildInfoPlugin).toBeDefined();
+			expect(typeof BuildInfoPlugin).toBe("function");
+		});
+
+		it("should export DependencyReportPlugin", () => {
+			expect(DependencyReportPlugin).toBeDefined();
+			expect(typeof DependencyReportPlugin).toBe("function");
+		});
+
 		it("should export DtsPlugin", () => {
 			expect(DtsPlugin).toBeDefined();
 			expect(typeof DtsPlugin).toBe("function");
@@ -32,10 +64,52 @@ describe("@savvy-web/rslib-builder public API", () => {
 			expect(typeof FilesArrayPlugin).toBe("function");
 		});
 
+		it("should export JsrPlugin", () => {
+			expect(JsrPlugin).toBeDefined();
+			expect(typeof JsrPlugin).toBe("function");
+		});
+
 		it("should export PackageJsonTransformPlugin", () => {
 			expect(PackageJsonTransformPlugin).toBeDefined();
 			expect(typeof PackageJsonTransformPlugin).toBe("function");
 		});
+
+		it("should export PublishLintPlugin", () => {
+			expect(PublishLintPlugin).toBeDefined();
+			expect(typeof PublishLintPlugin).toBe("function");
+		});
+
+		it("should export ReadmeLinksPlugin", () => {
+			expect(ReadmeLinksPlugin).toBeDefined();
+			expect(typeof ReadmeLinksPlugin).toBe("function");
+		});
+
+		it("should export SbomPlugin", () => {
+			expect(SbomPlugin).toBeDefined();
+			expect(typeof SbomPlugin).toBe("function");
+		});
+
+		it("should export SideEffectsPlugin", () => {
+			expect(SideEffectsPlugin).toBeDefined();
+			expect(typeof SideEffectsPlugin).toBe("function");
+		});
+
+		it("should export SizeBudgetPlugin", () => {
+			expect(SizeBudgetPlugin).toBeDefined();
+			expect(typeof SizeBudgetPlugin).toBe("function");
+		});
+
+		it("should export ThirdPartyNoticesPlugin", () => {
+			expect(ThirdPartyNoticesPlugin).toBeDefined();
+			expect(typeof ThirdPartyNoticesPlugin).toBe("function");
+		});
+	});
+
+	describe("packPackage", () => {
+		it("should export packPackage function", () => {
+			expect(packPackage).toBeDefined();
+			expect(typeof packPackage).toBe("function");
+		});
 	});
 
 	describe("TsDocConfigBuilder", () => {
@@ -45,15 +45,36 @@
 export type {
 	BuildTarget,
 	CopyPatternConfig,
+	CustomTargetOptions,
 	NodeLibraryBuilderOptions,
 	RslibConfigAsyncFn,
+	TargetName,
 	TransformPackageJsonFn,
 } from "./rslib/builders/node-library-builder.js";
 
 export { NodeLibraryBuilder } from "./rslib/builders/node-library-builder.js";
+// Utilities - Packing
+export type {
+	PackEntry,
+	PackIssue,
+	PackIssueType,
+	PackOptions,
+	PackResult,
+} from "./rslib/pack/pack-package.js";
+export { packPackage } from "./rslib/pack/pack-package.js";
 export type { AutoEntryPluginOptions } from "./rslib/plugins/auto-entry-plugin.js";
 // Plugins
 export { AutoEntryPlugin } from "./rslib/plugins/auto-entry-plugin.js";
+export { AutoExternalsPlugin } from "./rslib/plugins/auto-externals-plugin.js";
+export type { BinPluginOptions } from "./rslib/plugins/bin-plugin.js";
+export { BinPlugin } from "./rslib/plugins/bin-plugin.js";
+export type { BuildInfoPluginOptions } from "./rslib/plugins/build-info-plugin.js";
+export { BuildInfoPlugin } from "./rslib/plugins/build-info-plugin.js";
+export type {
+	DependencyReportBehavior,
+	DependencyReportPluginOptions,
+} from "./rslib/plugins/dependency-report-plugin.js";
+export { DependencyReportPlugin } from "./rslib/plugins/dependency-report-plugin.js";
 export type {
 	ApiModelOptions,
 	DtsPluginOptions,
@@ -65,14 +86,34 @@ export type {
 export { DtsPlugin, TsDocConfigBuilder } from "./rslib/plugins/dts-plugin.js";
 export type { FilesArrayPluginOptions } from "./rslib/plugins/files-array-plugin.js";
 export { FilesArrayPlugin } from "./rslib/plugins/files-array-plugin.js";
+export type { JsrPluginOptions, JsrSlowTypesBehavior } from "./rslib/plugins/jsr-plugin.js";
+export { JsrPlugin } from "./rslib/plugins/jsr-plugin.js";
 export type { PackageJsonTransformPluginOptions } from "./rslib/plugins/package-json-transform-plugin.js";
 export { PackageJsonTransformPlugin } from "./rslib/plugins/package-json-transform-plugin.js";
+export type { PublishLintFailLevel, PublishLintPluginOptions } from "./rslib/plugins/publish-lint-plugin.js";
+export { PublishLintPlugin } from "./rslib/plugins/publish-lint-plugin.js";
+export type { ReadmeLinksPluginOptions } from "./rslib/plugins/readme-links-plugin.js";
+export { ReadmeLinksPlugin } from "./rslib/plugins/readme-links-plugin.js";
+export type { SbomPluginOptions } from "./rslib/plugins/sbom-plugin.js";
+export { SbomPlugin } from "./rslib/plugins/sbom-plugin.js";
+export type { SideEffectsMode, SideEffectsPluginOptions } from "./rslib/plugins/side-effects-plugin.js";
+export { SideEffectsPlugin } from "./rslib/plugins/side-effects-plugin.js";
+export type {
+	SizeBudgetPluginOptions,
+	SizeBudgets,
+	SizeLimit,
+} from "./rslib/plugins/size-budget-plugin.js";
+export { SizeBudgetPlugin } from "./rslib/plugins/size-budget-plugin.js";
+export type {
+	ThirdPartyNoticesFormat,
+	ThirdPartyNoticesPluginOptions,
+} from "./rslib/plugins/third-party-notices-plugin.js";
+export { ThirdPartyNoticesPlugin } from "./rslib/plugins/third-party-notices-plugin.js";
 export type {
 	TsDocLintErrorBehavior,
 	TsDocLintPluginOptions,
 } from "./rslib/plugins/tsdoc-lint-plugin.js";
 export { TsDocLintPlugin } from "./rslib/plugins/tsdoc-lint-plugin.js";
-
 // Utilities - Import Graph Analysis
 export type {
 	ImportGraphError,
@@ -82,6 +123,12 @@ export type {
 } from "./rslib/plugins/utils/import-graph.js";
 export { ImportGraph } from "./rslib/plugins/utils/import-graph.js";
 
+// Utilities - package.json Transformation
+export type { ManifestPolicy } from "./rslib/plugins/utils/package-json-transformer.js";
+
+// Utilities - Standard Files
+export type { StandardFileConfig, StandardFilesOption } from "./rslib/plugins/utils/standard-files.js";
+
 // Type utilities
 export type {
 	JsonArray,
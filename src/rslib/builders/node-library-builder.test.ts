@@ -1,5 +1,6 @@
 import { existsSync } from "node:fs";
 import { join } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { NodeLibraryBuilder } from "./node-library-builder.js";
 
@@ -134,4 +135,239 @@ describe("NodeLibraryBuilder", () => {
 			expect(result.targets).toEqual(["npm"]);
 		});
 	});
+
+	describe("createCjsLib", () => {
+		it("should emit .cjs files into the target dist directory without cleaning it", () => {
+			const lib = NodeLibraryBuilder.createCjsLib("npm", "npm", "dist/npm", {
+				entry: undefined,
+				define: { FOO: "1" },
+				externals: ["@rslib/core"],
+				tsconfigPath: undefined,
+			});
+
+			expect(lib).toMatchObject({
+				id: "npm-cjs",
+				format: "cjs",
+				bundle: true,
+				output: {
+					cleanDistPath: false,
+					sourceMap: false,
+					distPath: { root: "dist/npm" },
+					filename: { js: "[name].cjs" },
+					externals: ["@rslib/core"],
+				},
+				source: { define: { FOO: "1" } },
+			});
+		});
+
+		it("should externalize runtime dependencies unless autoExternals is disabled", () => {
+			const options = { define: {}, tsconfigPath: undefined };
+
+			expect(NodeLibraryBuilder.createCjsLib("npm", "npm", "dist/npm", options).autoExternal).toEqual({
+				dependencies: true,
+				peerDependencies: true,
+				optionalDependencies: true,
+				devDependencies: false,
+			});
+			expect(
+				NodeLibraryBuilder.createCjsLib("npm", "npm", "dist/npm", { ...options, autoExternals: false }).autoExternal,
+			).toBe(false);
+		});
+
+		it("should mirror the source tree in bundleless builds", () => {
+			const lib = NodeLibraryBuilder.createCjsLib("npm", "npm", "dist/npm", {
+				bundle: false,
+				entry: NodeLibraryBuilder.BUNDLELESS_ENTRY,
+				define: {},
+				tsconfigPath: undefined,
+			});
+
+			expect(lib).toMatchObject({
+				bundle: false,
+				outBase: "src",
+				source: { entry: NodeLibraryBuilder.BUNDLELESS_ENTRY },
+			});
+		});
+
+		it("should only collect files without writing package.json", () => {
+			const lib = NodeLibraryBuilder.createCjsLib("dev", "dev", "dist/dev", {
+				entry: undefined,
+				define: {},
+				tsconfigPath: undefined,
+			});
+
+			expect(lib.output?.sourceMap).toBe(true);
+			expect(lib.plugins?.map((plugin) => (plugin as { name: string }).name)).toEqual([
+				"auto-entry-plugin",
+				"files-array-plugin",
+			]);
+		});
+	});
+
+	describe("resolveExternals", () => {
+		it("should keep Node.js builtins external by default", () => {
+			const externals = NodeLibraryBuilder.resolveExternals({ externals: ["react"] });
+
+			expect(externals?.[0]).toEqual(/^node:/);
+			expect(externals).toContain("fs/promises");
+			expect(externals?.at(-1)).toBe("react");
+		});
+
+		it("should only use the user externals without autoExternals", () => {
+			expect(NodeLibraryBuilder.resolveExternals({ externals: ["react"], autoExternals: false })).toEqual(["react"]);
+			expect(NodeLibraryBuilder.resolveExternals({ autoExternals: false })).toBeUndefined();
+		});
+	});
+
+	describe("resolveTarget", () => {
+		it("should use options as-is for built-in targets", () => {
+			vi.mocked(existsSync).mockReturnValue(false);
+
+			const { base, options } = NodeLibraryBuilder.resolveTarget("npm", NodeLibraryBuilder.mergeOptions());
+
+			expect(base).toBe("npm");
+			expect(options).toEqual(NodeLibraryBuilder.DEFAULT_OPTIONS);
+		});
+
+		it("should apply custom target overrides on top of the top-level options", () => {
+			vi.mocked(existsSync).mockReturnValue(false);
+
+			const { base, options } = NodeLibraryBuilder.resolveTarget(
+				"staging",
+				NodeLibraryBuilder.mergeOptions({
+					externals: ["a"],
+					define: { A: "1" },
+					customTargets: {
+						staging: { base: "npm", externals: ["b"] },
+					},
+				}),
+			);
+
+			expect(base).toBe("npm");
+			expect(options.externals).toEqual(["b"]);
+			expect(options.define).toEqual({ A: "1" });
+		});
+
+		it("should reject custom targets that shadow built-in targets", () => {
+			expect(() =>
+				NodeLibraryBuilder.resolveTarget(
+					"npm",
+					NodeLibraryBuilder.mergeOptions({ customTargets: { npm: { base: "dev" } } }),
+				),
+			).toThrow('Custom target "npm" conflicts with the built-in target');
+		});
+
+		it("should reject custom target names that are not valid directory names", () => {
+			expect(() =>
+				NodeLibraryBuilder.resolveTarget(
+					"dev",
+					NodeLibraryBuilder.mergeOptions({ customTargets: { "../escape": { base: "dev" } } }),
+				),
+			).toThrow('Invalid custom target name: "../escape"');
+		});
+
+		it("should reject unknown base targets", () => {
+			expect(() =>
+				NodeLibraryBuilder.resolveTarget(
+					"canary",
+					NodeLibraryBuilder.mergeOptions({
+						customTargets: { canary: { base: "staging" as "dev" } },
+					}),
+				),
+			).toThrow('Invalid base for custom target "canary": "staging"');
+		});
+	});
+
+	describe("scopePlugin", () => {
+		function createApi(): RsbuildPluginAPI {
+			const exposed = new Map<string | symbol, unknown>();
+			return {
+				expose: (id: string | symbol, value: unknown) => exposed.set(id, value),
+				useExposed: (id: string | symbol) => exposed.get(id),
+			} as unknown as RsbuildPluginAPI;
+		}
+
+		const sharingPlugin: RsbuildPlugin = {
+			name: "sharing-plugin",
+			setup(api: RsbuildPluginAPI): void {
+				const files = (api.useExposed("files-array") as Set<string> | undefined) ?? new Set<string>();
+				api.expose("files-array", files);
+				files.add("index.js");
+			},
+		};
+
+		it("should prefix exposed ids with the scope", async () => {
+			const api = createApi();
+
+			await NodeLibraryBuilder.scopePlugin(sharingPlugin, "npm").setup(api);
+
+			expect(api.useExposed("files-array")).toBeUndefined();
+			expect(api.useExposed("npm:files-array")).toEqual(new Set(["index.js"]));
+		});
+
+		it("should keep state separate between scopes and shared within one", async () => {
+			const api = createApi();
+			const reader: RsbuildPlugin = {
+				name: "reader-plugin",
+				setup(scopedApi: RsbuildPluginAPI): void {
+					(scopedApi.useExposed("files-array") as Set<string>).add("index.cjs");
+				},
+			};
+
+			await NodeLibraryBuilder.scopePlugin(sharingPlugin, "dev").setup(api);
+			await NodeLibraryBuilder.scopePlugin(sharingPlugin, "npm").setup(api);
+			await NodeLibraryBuilder.scopePlugin(reader, "npm").setup(api);
+
+			expect(api.useExposed("dev:files-array")).toEqual(new Set(["index.js"]));
+			expect(api.useExposed("npm:files-array")).toEqual(new Set(["index.js", "index.cjs"]));
+		});
+
+		it("should keep the plugin name", () => {
+			expect(NodeLibraryBuilder.scopePlugin(sharingPlugin, "dev").name).toBe("sharing-plugin");
+		});
+	});
+
+	describe("createTargetLibs", () => {
+		it("should reject buildInfo in bundleless builds", async () => {
+			await expect(
+				NodeLibraryBuilder.createTargetLibs(
+					"npm",
+					NodeLibraryBuilder.mergeOptions({ bundle: false, buildInfo: true }),
+					{ tsdocLint: false },
+				),
+			).rejects.toThrow('Target "npm" enables buildInfo in a bundleless build');
+		});
+	});
+
+	describe("create", () => {
+		it("should reject unknown targets when no env-mode is given", async () => {
+			vi.mocked(existsSync).mockReturnValue(false);
+
+			const config = NodeLibraryBuilder.create({ targets: ["dev", "staging"] });
+
+			await expect(config({ env: "production", envMode: "production", command: "build" })).rejects.toThrow(
+				'Invalid target in targets: "staging"',
+			);
+		});
+
+		it("should reject an empty targets list when no env-mode is given", async () => {
+			vi.mocked(existsSync).mockReturnValue(false);
+
+			const config = NodeLibraryBuilder.create({ targets: [] });
+
+			await expect(config({ env: "production", envMode: "production", command: "build" })).rejects.toThrow(
+				"No build targets configured",
+			);
+		});
+
+		it("should validate an explicit env-mode", async () => {
+			vi.mocked(existsSync).mockReturnValue(false);
+
+			const config = NodeLibraryBuilder.create();
+
+			await expect(config({ env: "production", envMode: "staging", command: "build" })).rejects.toThrow(
+				'Invalid env-mode: "staging"',
+			);
+		});
+	});
 });
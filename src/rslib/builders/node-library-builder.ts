@@ -1,17 +1,44 @@
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import type { RsbuildPlugin, SourceConfig } from "@rsbuild/core";
+import type { RsbuildPlugin, RsbuildPluginAPI, SourceConfig } from "@rsbuild/core";
 import type { ConfigParams, LibConfig, RslibConfig } from "@rslib/core";
 import { defineConfig } from "@rslib/core";
-import type { PackageJson } from "../../types/package-json.js";
+import type { LiteralUnion, PackageJson } from "../../types/package-json.js";
 import { AutoEntryPlugin } from "../plugins/auto-entry-plugin.js";
+import {
+	AUTO_EXTERNAL_DEPENDENCIES,
+	AutoExternalsPlugin,
+	NODE_BUILTIN_EXTERNALS,
+} from "../plugins/auto-externals-plugin.js";
+import { BinPlugin } from "../plugins/bin-plugin.js";
+import type { BuildInfoPluginOptions } from "../plugins/build-info-plugin.js";
+import { BuildInfoPlugin } from "../plugins/build-info-plugin.js";
+import type { DependencyReportPluginOptions } from "../plugins/dependency-report-plugin.js";
+import { DependencyReportPlugin } from "../plugins/dependency-report-plugin.js";
 import type { ApiModelOptions } from "../plugins/dts-plugin.js";
 import { DtsPlugin } from "../plugins/dts-plugin.js";
 import { FilesArrayPlugin } from "../plugins/files-array-plugin.js";
+import type { JsrPluginOptions } from "../plugins/jsr-plugin.js";
+import { JsrPlugin } from "../plugins/jsr-plugin.js";
 import { PackageJsonTransformPlugin } from "../plugins/package-json-transform-plugin.js";
+import type { PublishLintPluginOptions } from "../plugins/publish-lint-plugin.js";
+import { PublishLintPlugin } from "../plugins/publish-lint-plugin.js";
+import type { ReadmeLinksPluginOptions } from "../plugins/readme-links-plugin.js";
+import { ReadmeLinksPlugin } from "../plugins/readme-links-plugin.js";
+import type { SbomPluginOptions } from "../plugins/sbom-plugin.js";
+import { SbomPlugin } from "../plugins/sbom-plugin.js";
+import type { SideEffectsMode } from "../plugins/side-effects-plugin.js";
+import { SideEffectsPlugin } from "../plugins/side-effects-plugin.js";
+import type { SizeBudgetPluginOptions } from "../plugins/size-budget-plugin.js";
+import { SizeBudgetPlugin } from "../plugins/size-budget-plugin.js";
+import type { ThirdPartyNoticesPluginOptions } from "../plugins/third-party-notices-plugin.js";
+import { ThirdPartyNoticesPlugin } from "../plugins/third-party-notices-plugin.js";
 import type { TsDocLintPluginOptions } from "../plugins/tsdoc-lint-plugin.js";
 import { TsDocLintPlugin } from "../plugins/tsdoc-lint-plugin.js";
 import { packageJsonVersion } from "../plugins/utils/file-utils.js";
+import type { ManifestPolicy } from "../plugins/utils/package-json-transformer.js";
+import { NPM_MANIFEST_POLICY, mergeManifestPolicies } from "../plugins/utils/package-json-transformer.js";
+import type { StandardFilesOption } from "../plugins/utils/standard-files.js";
 
 /**
  * Async RSLib configuration function type.
@@ -26,17 +53,53 @@ export type RslibConfigAsyncFn = (env: ConfigParams) => Promise<RslibConfig>;
  * Each target produces different output optimizations:
  * - `"dev"`: Development build with source maps for debugging
  * - `"npm"`: Production build optimized for npm publishing
+ * - `"jsr"`: Production build with a `jsr.json` for publishing to JSR
  *
  * @example
  * Specifying targets via CLI:
  * ```bash
  * rslib build --env-mode dev
  * rslib build --env-mode npm
+ * rslib build --env-mode jsr
  * ```
  *
  * @public
  */
-export type BuildTarget = "dev" | "npm";
+export type BuildTarget = "dev" | "npm" | "jsr";
+
+/**
+ * Name of a build target: a built-in {@link BuildTarget} or a name declared in
+ * {@link NodeLibraryBuilderOptions.customTargets}.
+ *
+ * @public
+ */
+export type TargetName = LiteralUnion<BuildTarget, string>;
+
+/**
+ * A user-defined build target.
+ *
+ * @remarks
+ * Inherits the behavior of its `base` target (source maps and private flag for
+ * `dev`, pnpm resolution and API model for `npm`, jsr.json for `jsr`). Any other
+ * option replaces the top-level value for this target only. Output goes to
+ * `dist/<name>`.
+ *
+ * @example
+ * ```typescript
+ * import type { CustomTargetOptions } from '@savvy-web/rslib-builder';
+ *
+ * const staging: CustomTargetOptions = {
+ *   base: 'npm',
+ *   define: { 'process.env.API_URL': JSON.stringify('https://staging.example.com') },
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface CustomTargetOptions extends Partial<Omit<NodeLibraryBuilderOptions, "targets" | "customTargets">> {
+	/** Built-in target whose behavior this target inherits */
+	base: BuildTarget;
+}
 
 /**
  * Function to transform package.json during the build process.
@@ -47,7 +110,7 @@ export type BuildTarget = "dev" | "npm";
  * Mutations to the `pkg` object are also supported.
  *
  * @param context - Transform context containing:
- *   - `target`: The current build target ("dev" or "npm")
+ *   - `target`: The current build target ("dev", "npm", "jsr" or a custom target name)
  *   - `pkg`: The package.json object to transform
  * @returns The modified package.json object
  *
@@ -65,7 +128,7 @@ export type BuildTarget = "dev" | "npm";
  * ```
  * @public
  */
-export type TransformPackageJsonFn = (context: { target: BuildTarget; pkg: PackageJson }) => PackageJson;
+export type TransformPackageJsonFn = (context: { target: TargetName; pkg: PackageJson }) => PackageJson;
 
 /**
  * Configuration for copying files during the build process.
@@ -155,8 +218,104 @@ export interface NodeLibraryBuilderOptions {
 	define: SourceConfig["define"];
 	/** Path to tsconfig for build (default: ./tsconfig.build.json) */
 	tsconfigPath: string | undefined;
-	/** Build targets to include (default: ["dev", "npm"]) */
-	targets?: BuildTarget[];
+	/**
+	 * Build targets to include when `rslib build` runs without `--env-mode`.
+	 *
+	 * @remarks
+	 * Every listed target is built in a single rslib run, each into its own
+	 * `dist/<target>` directory. Custom target names from `customTargets` may be
+	 * listed too. Passing `--env-mode` builds only that target.
+	 *
+	 * @defaultValue ["dev", "npm"]
+	 */
+	targets?: TargetName[];
+	/**
+	 * Module format of the build output.
+	 *
+	 * @remarks
+	 * - `"esm"`: ES modules only (`.js`)
+	 * - `"dual"`: ES modules plus CommonJS (`.cjs`) next to them, with matching
+	 *   `.d.cts` declarations and `import`/`require` export conditions
+	 *
+	 * @defaultValue "esm"
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   format: 'dual',
+	 * });
+	 * ```
+	 */
+	format?: "esm" | "dual";
+	/**
+	 * Whether to bundle each entry point into a single file.
+	 *
+	 * @remarks
+	 * When `false`, the build runs in bundleless mode: every module under `src/`
+	 * is compiled to its own `.js` and `.d.ts` file, mirroring the source tree
+	 * (`src/utils/index.ts` becomes `utils/index.js`). Use this for packages whose
+	 * consumers deep-import or tree-shake per file. Export paths in package.json
+	 * follow the mirrored layout, and API model generation is skipped since it
+	 * needs declaration rollups.
+	 *
+	 * Without an explicit `entry`, all TypeScript files under `src/` are compiled,
+	 * except tests.
+	 *
+	 * @defaultValue true
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   bundle: false,
+	 * });
+	 * ```
+	 */
+	bundle?: boolean;
+	/**
+	 * Options for the `jsr` build target.
+	 *
+	 * @remarks
+	 * Only applies when building with `--env-mode jsr`. By default the bundled
+	 * output is published with `@ts-self-types` headers and slow types fail the build.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   jsr: {
+	 *     name: '@scope/my-package',
+	 *     slowTypes: 'warn',
+	 *   },
+	 * });
+	 * ```
+	 */
+	jsr?: Pick<JsrPluginOptions, "name" | "sources" | "slowTypes">;
+	/**
+	 * Additional named build targets.
+	 *
+	 * @remarks
+	 * Each target is selected with `--env-mode <name>`, builds into `dist/<name>`,
+	 * and inherits the behavior of its `base` target. Other options in the target
+	 * replace the top-level values for that target only.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   customTargets: {
+	 *     staging: { base: 'npm', externals: ['@internal/telemetry'] },
+	 *     canary: { base: 'dev', apiModel: false },
+	 *   },
+	 * });
+	 * ```
+	 */
+	customTargets?: Record<string, CustomTargetOptions>;
 	/**
 	 * External dependencies that should not be bundled.
 	 * These modules will be imported at runtime instead of being included in the bundle.
@@ -175,6 +334,30 @@ export interface NodeLibraryBuilderOptions {
 	 * ```
 	 */
 	externals?: (string | RegExp)[];
+	/**
+	 * Whether runtime dependencies and Node.js builtins are kept out of the bundle automatically.
+	 *
+	 * @remarks
+	 * Everything in `dependencies`, `peerDependencies` and `optionalDependencies`
+	 * is external, including deep subpaths such as `lodash/fp`, along with every
+	 * Node.js builtin. `devDependencies` are bundled. A warning is logged when a
+	 * module from a runtime dependency is still bundled, for example through a
+	 * relative path into `node_modules`. When disabled, dependencies are bundled
+	 * unless listed in `externals`. Bundleless builds never bundle packages.
+	 *
+	 * @defaultValue true
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   autoExternals: false,
+	 *   externals: ['react'],
+	 * });
+	 * ```
+	 */
+	autoExternals?: boolean;
 	/**
 	 * Packages whose type declarations should be bundled into the output .d.ts files.
 	 *
@@ -202,7 +385,7 @@ export interface NodeLibraryBuilderOptions {
 	 * @param context - Transform context with properties:
 	 *   - `compilation`: Rspack compilation object with assets
 	 *   - `filesArray`: Set of files that will be included in package.json files field
-	 *   - `target`: Current build target (dev/npm/jsr)
+	 *   - `target`: Current build target (dev/npm/jsr or a custom target name)
 	 *
 	 * @example
 	 * ```typescript
@@ -226,8 +409,56 @@ export interface NodeLibraryBuilderOptions {
 			assets: Record<string, unknown>;
 		};
 		filesArray: Set<string>;
-		target: BuildTarget;
+		target: TargetName;
 	}) => void | Promise<void>;
+	/**
+	 * Whether to collapse the generated `files` array into directories and globs.
+	 *
+	 * @remarks
+	 * Packages with many outputs otherwise list every file. Fully included
+	 * directories become one entry, files sharing an extension become a
+	 * `*.ext` glob, and negations such as `!tsdoc.json` come last. The
+	 * collapsed array is checked against the emitted assets, and the full list
+	 * is kept if it would add or drop a file.
+	 *
+	 * @defaultValue false
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   collapseFiles: true,
+	 * });
+	 * ```
+	 */
+	collapseFiles?: boolean;
+	/**
+	 * Standard files copied from the package directory into every output.
+	 *
+	 * @remarks
+	 * Each entry is a glob matched case-insensitively, or a config that can
+	 * fall back to the workspace root found by `workspace-tools` and limit the
+	 * file to some targets. Matches keep their name, so `License.md` ships as
+	 * `License.md`. Pass `false` to copy none.
+	 *
+	 * @defaultValue README and CHANGELOG from the package, and the LICENSE from
+	 * the package or else the workspace root
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   standardFiles: [
+	 *     'readme{,.*}',
+	 *     { pattern: 'licen[cs]e{,.*}', workspaceFallback: true },
+	 *     { pattern: 'changelog{,.*}', targets: ['npm'] },
+	 *   ],
+	 * });
+	 * ```
+	 */
+	standardFiles?: StandardFilesOption;
 	/**
 	 * Optional transform function to modify package.json before it's saved.
 	 * Called after all standard transformations are applied.
@@ -251,6 +482,31 @@ export interface NodeLibraryBuilderOptions {
 	 * ```
 	 */
 	transform?: TransformPackageJsonFn;
+	/**
+	 * Declarative rules for the output package.json, per target.
+	 *
+	 * @remarks
+	 * Each target's `omit`, `keep` and `set` rules run before `transform`. Targets
+	 * based on `npm` start from defaults that drop `devDependencies` and other
+	 * repository-only fields while keeping the install lifecycle scripts; a
+	 * `keep` entry opts back in to an omitted field. See {@link ManifestPolicy}.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   manifest: {
+	 *     npm: {
+	 *       omit: ['publishConfig.provenance'],
+	 *       keep: ['scripts.prepare'],
+	 *       set: { 'publishConfig.tag': 'next' },
+	 *     },
+	 *   },
+	 * });
+	 * ```
+	 */
+	manifest?: Partial<Record<TargetName, ManifestPolicy>>;
 	/**
 	 * Options for API model generation.
 	 * When enabled, generates an `<unscopedPackageName>.api.json` file in the dist directory.
@@ -321,6 +577,186 @@ export interface NodeLibraryBuilderOptions {
 	 * ```
 	 */
 	tsdocLint?: TsDocLintPluginOptions | boolean;
+	/**
+	 * Options for checking that the generated package.json is ready to publish.
+	 *
+	 * @remarks
+	 * Enabled by default. After every package.json transform, checks that each
+	 * `exports`, `types`, `bin` and `main` path was emitted, that `types` comes
+	 * first in conditions objects, that `private` matches the target, that no
+	 * `workspace:` or `catalog:` versions are left, and that `license` and
+	 * `repository` are set. Set to `false` to skip the check.
+	 *
+	 * @example
+	 * Fail on warnings too:
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   publishLint: { failOn: 'warning' },
+	 * });
+	 * ```
+	 */
+	publishLint?: Pick<PublishLintPluginOptions, "failOn"> | boolean;
+	/**
+	 * Options for reporting unused, missing and misplaced dependencies of npm targets.
+	 *
+	 * @remarks
+	 * Enabled by default for npm targets. After the build, compares the bare
+	 * imports left in the emitted JavaScript and declarations with the
+	 * dependencies of package.json, after `catalog:` and `workspace:`
+	 * resolution. Reports `dependencies` the output never imports, imports with
+	 * no declared dependency, and imports only listed in `devDependencies`.
+	 * Issues are logged as warnings unless `onIssue` says otherwise. Set to
+	 * `false` to skip the report.
+	 *
+	 * @example
+	 * Fail the build on any issue:
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   dependencyReport: { onIssue: 'throw', ignore: ['esbuild'] },
+	 * });
+	 * ```
+	 */
+	dependencyReport?: DependencyReportPluginOptions | boolean;
+	/**
+	 * Options for the typed `virtual:build-info` module.
+	 *
+	 * @remarks
+	 * When enabled, sources can import the package `name` and `version`, the
+	 * build `target`, the build `timestamp`, and the git `commit` and `branch`
+	 * read from the local `.git` directory. Type declarations are written to
+	 * `src/build-info.d.ts` by default. `SOURCE_DATE_EPOCH` pins the timestamp;
+	 * `reproducible: true` makes it required. Only available in bundle mode,
+	 * since bundleless output keeps every import as written.
+	 *
+	 * @defaultValue false
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   buildInfo: { reproducible: true },
+	 * });
+	 * ```
+	 */
+	buildInfo?: Omit<BuildInfoPluginOptions, "target"> | boolean;
+	/**
+	 * How to handle the package.json `sideEffects` field of npm targets.
+	 *
+	 * @remarks
+	 * The source modules reachable from the exports are checked for top-level
+	 * side effects, such as polyfill imports, global assignments, top-level
+	 * calls and stylesheet imports, and mapped to the emitted files containing
+	 * them. Without a `sideEffects` field, `"suggest"` logs the inferred value
+	 * (`false` or an explicit file list) and `"write"` writes it to the output
+	 * package.json. A hand-written value is kept and checked against the
+	 * analysis. Set to `false` to skip the analysis.
+	 *
+	 * @defaultValue "suggest"
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   sideEffects: 'write',
+	 * });
+	 * ```
+	 */
+	sideEffects?: SideEffectsMode | false;
+	/**
+	 * Options for the license notices of third-party packages bundled into npm targets.
+	 *
+	 * @remarks
+	 * Enabled by default for bundled npm targets. Every package under
+	 * `node_modules` that ends up in the bundle, such as a bundled
+	 * `devDependency`, is listed with its `license` field and LICENSE file in
+	 * `THIRD_PARTY_NOTICES.md`, which is added to the `files` array. No file is
+	 * emitted when nothing was bundled. `allow` and `deny` lists of SPDX
+	 * identifiers fail the build on incompatible licenses. Set to `false` to
+	 * skip the notices.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   thirdPartyNotices: { allow: ['MIT', 'ISC', 'Apache-2.0', 'BSD-3-Clause'] },
+	 * });
+	 * ```
+	 */
+	thirdPartyNotices?: ThirdPartyNoticesPluginOptions | boolean;
+	/**
+	 * Options for rewriting the relative links of the README in npm targets.
+	 *
+	 * @remarks
+	 * Enabled by default for npm targets. Links such as `./docs/guide.md` and
+	 * images such as `./assets/logo.png` break on npmjs.com, so they are
+	 * rewritten to absolute URLs built from the `repository` field's `url`
+	 * and `directory` and the `ref` option, which defaults to `v{version}`.
+	 * Anchors and absolute URLs are left alone. Set to `false` to keep the
+	 * links as they are.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   readmeLinks: { ref: '{name}@{version}' },
+	 * });
+	 * ```
+	 */
+	readmeLinks?: ReadmeLinksPluginOptions | boolean;
+	/**
+	 * Options for the CycloneDX SBOM of npm targets.
+	 *
+	 * @remarks
+	 * Opt-in. Emits `sbom.cdx.json`, a CycloneDX 1.5 document built without
+	 * network access. It lists the package from the published package.json,
+	 * its runtime dependencies with the versions and integrity values of the
+	 * local `pnpm-lock.yaml`, and the third-party packages in the bundle. The
+	 * SBOM is published unless `publish` is `false`, which keeps it out of the
+	 * `files` array like the API model.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   sbom: { publish: false },
+	 * });
+	 * ```
+	 */
+	sbom?: SbomPluginOptions | boolean;
+	/**
+	 * Size budgets of npm targets.
+	 *
+	 * @remarks
+	 * When set, every npm build logs a size table with each entry's JavaScript,
+	 * each declaration file, the total size of the `files` array and the
+	 * estimated gzipped tarball, and fails when a size exceeds its budget.
+	 * Limits are bytes or strings such as `"10 kB"`. With `snapshot`, the table
+	 * also shows the change of each size since a snapshot committed in the
+	 * repository.
+	 *
+	 * @example
+	 * ```typescript
+	 * import { NodeLibraryBuilder } from '@savvy-web/rslib-builder';
+	 *
+	 * export default NodeLibraryBuilder.create({
+	 *   budgets: {
+	 *     entry: { index: '20 kB' },
+	 *     tarball: '50 kB',
+	 *     snapshot: '.size-snapshot.json',
+	 *   },
+	 * });
+	 * ```
+	 */
+	budgets?: Omit<SizeBudgetPluginOptions, "target">;
 }
 
 /**
@@ -367,6 +803,9 @@ export interface NodeLibraryBuilderOptions {
  * @example
  * Build commands:
  * ```bash
+ * # All configured targets in one run
+ * rslib build
+ *
  * # Development build (with source maps)
  * rslib build --env-mode dev
  *
@@ -379,6 +818,11 @@ export interface NodeLibraryBuilderOptions {
 /* v8 ignore next -- @preserve */
 // biome-ignore lint/complexity/noStaticOnlyClass: <This is a nicety for the API>
 export class NodeLibraryBuilder {
+	static readonly BUILT_IN_TARGETS: readonly TargetName[] = ["dev", "npm", "jsr"];
+	/** Entry used by bundleless builds when no explicit entry is configured */
+	static BUNDLELESS_ENTRY: NonNullable<NodeLibraryBuilderOptions["entry"]> = {
+		index: ["./src/**/*.{ts,tsx,mts,cts}", "!./src/**/*.test.*", "!./src/**/__test__/**"],
+	};
 	static DEFAULT_OPTIONS: NodeLibraryBuilderOptions = {
 		entry: undefined,
 		plugins: [],
@@ -403,19 +847,75 @@ export class NodeLibraryBuilder {
 		}
 		return merged;
 	}
+	/**
+	 * Resolves a target name to its base target and effective options.
+	 *
+	 * @remarks
+	 * Built-in targets use the options as-is. Custom targets apply their
+	 * overrides on top of the top-level options.
+	 *
+	 * @throws Error when a custom target has an invalid name or shadows a built-in target
+	 */
+	static resolveTarget(
+		target: TargetName,
+		opts: NodeLibraryBuilderOptions,
+	): { base: BuildTarget; options: NodeLibraryBuilderOptions } {
+		for (const name of Object.keys(opts.customTargets ?? {})) {
+			if (NodeLibraryBuilder.BUILT_IN_TARGETS.includes(name)) {
+				throw new Error(`Custom target "${name}" conflicts with the built-in target of the same name`);
+			}
+			if (!/^[a-z0-9][a-z0-9._-]*$/i.test(name)) {
+				throw new Error(
+					`Invalid custom target name: "${name}". Use letters, digits, ".", "_" or "-" so it can be used as a directory name`,
+				);
+			}
+		}
+
+		const custom = opts.customTargets?.[target];
+		if (!custom) {
+			return { base: target as BuildTarget, options: NodeLibraryBuilder.mergeOptions(opts) };
+		}
+
+		const { base, ...overrides } = custom;
+		if (!NodeLibraryBuilder.BUILT_IN_TARGETS.includes(base)) {
+			throw new Error(
+				`Invalid base for custom target "${target}": "${base}". Must be one of: ${NodeLibraryBuilder.BUILT_IN_TARGETS.join(", ")}`,
+			);
+		}
+		return { base, options: NodeLibraryBuilder.mergeOptions({ ...opts, ...overrides }) };
+	}
 	/**
 	 * Creates an async RSLib configuration function that determines build target from envMode.
 	 * This provides a clean API where users don't need to handle environment logic.
+	 *
+	 * @remarks
+	 * Without an envMode, every target in `options.targets` is built in a single run.
 	 */
 	static create(options: Partial<NodeLibraryBuilderOptions> = {}): RslibConfigAsyncFn {
 		const mergedOptions = NodeLibraryBuilder.mergeOptions(options);
 
-		return async ({ envMode }: { envMode?: string }): Promise<RslibConfig> => {
-			// Use envMode to determine build target, default to "dev"
-			const target = (envMode as BuildTarget) || "dev";
+		return async ({ env, envMode }: { env?: string; envMode?: string }): Promise<RslibConfig> => {
+			const validTargets: TargetName[] = [
+				...NodeLibraryBuilder.BUILT_IN_TARGETS,
+				...Object.keys(mergedOptions.customTargets ?? {}),
+			];
+
+			// Without --env-mode, rsbuild passes NODE_ENV as the envMode
+			if (!envMode || envMode === env) {
+				const targets = [...new Set(mergedOptions.targets ?? [])];
+				if (targets.length === 0) {
+					throw new Error("No build targets configured. Set the targets option or pass --env-mode");
+				}
+				for (const target of targets) {
+					if (!validTargets.includes(target)) {
+						throw new Error(`Invalid target in targets: "${target}". Must be one of: ${validTargets.join(", ")}`);
+					}
+				}
+				return NodeLibraryBuilder.createMultiTarget(targets, mergedOptions);
+			}
 
 			// Validate target
-			const validTargets: BuildTarget[] = ["dev", "npm"];
+			const target: TargetName = envMode;
 			if (!validTargets.includes(target)) {
 				throw new Error(
 					`Invalid env-mode: "${target}". Must be one of: ${validTargets.join(", ")}\n` +
@@ -433,16 +933,81 @@ export class NodeLibraryBuilder {
 	 * Creates a single-target build configuration.
 	 * This allows proper plugin isolation per build target.
 	 */
-	static async createSingleTarget(target: BuildTarget, opts: NodeLibraryBuilderOptions): Promise<RslibConfig> {
-		const options = NodeLibraryBuilder.mergeOptions(opts);
+	static async createSingleTarget(target: TargetName, opts: NodeLibraryBuilderOptions): Promise<RslibConfig> {
+		const { options } = NodeLibraryBuilder.resolveTarget(target, opts);
+		const libs = await NodeLibraryBuilder.createTargetLibs(target, opts);
+
+		return NodeLibraryBuilder.createConfig(libs, options.tsconfigPath, target);
+	}
+	/**
+	 * Creates a configuration that builds several targets in one rslib run.
+	 *
+	 * @remarks
+	 * Each target's plugins are scoped with {@link NodeLibraryBuilder.scopePlugin} so
+	 * their exposed state stays separate. TSDoc lint only runs once, with the first
+	 * target that enables it.
+	 */
+	static async createMultiTarget(targets: TargetName[], opts: NodeLibraryBuilderOptions): Promise<RslibConfig> {
+		const libs: LibConfig[] = [];
+		let tsdocLinted = false;
+
+		for (const target of targets) {
+			const targetLibs = await NodeLibraryBuilder.createTargetLibs(target, opts, { tsdocLint: !tsdocLinted });
+			tsdocLinted ||= Boolean(NodeLibraryBuilder.resolveTarget(target, opts).options.tsdocLint);
+
+			for (const lib of targetLibs) {
+				// createTargetLibs only produces flat plugin arrays
+				const plugins = lib.plugins as RsbuildPlugin[] | undefined;
+				libs.push({
+					...lib,
+					plugins: plugins?.map((plugin) => NodeLibraryBuilder.scopePlugin(plugin, target)),
+				});
+			}
+		}
+
+		return NodeLibraryBuilder.createConfig(libs, opts.tsconfigPath, targets.join("-"));
+	}
+	/**
+	 * Namespaces the state a plugin shares through `api.expose` and `api.useExposed`.
+	 *
+	 * @remarks
+	 * Rsbuild keeps one exposed map per run, so plugins of different libs would
+	 * otherwise share keys such as `files-array` and `entrypoints`. Plugins wrapped
+	 * with the same scope still see each other's state.
+	 */
+	static scopePlugin(plugin: RsbuildPlugin, scope: string): RsbuildPlugin {
+		return {
+			...plugin,
+			setup(api: RsbuildPluginAPI): ReturnType<RsbuildPlugin["setup"]> {
+				return plugin.setup({
+					...api,
+					expose: (id: string | symbol, value: unknown): void => api.expose(`${scope}:${String(id)}`, value),
+					useExposed: <T = unknown>(id: string | symbol): T | undefined => api.useExposed<T>(`${scope}:${String(id)}`),
+				});
+			},
+		};
+	}
+	/**
+	 * Creates the lib configs of one target: the main lib, plus the CommonJS lib
+	 * for dual format builds.
+	 */
+	static async createTargetLibs(
+		target: TargetName,
+		opts: NodeLibraryBuilderOptions,
+		{ tsdocLint = true }: { tsdocLint?: boolean } = {},
+	): Promise<LibConfig[]> {
+		const { base, options } = NodeLibraryBuilder.resolveTarget(target, opts);
 
 		const VERSION = await packageJsonVersion();
+		// JSR only supports ES modules
+		const dualFormat = options.format === "dual" && base !== "jsr";
+		const bundle = options.bundle !== false;
 
 		// Create target-specific plugins
 		const plugins: RsbuildPlugin[] = [];
 
 		// Add TSDoc lint plugin if enabled (runs before build via onBeforeBuild)
-		if (options.tsdocLint) {
+		if (tsdocLint && options.tsdocLint) {
 			const lintOptions: TsDocLintPluginOptions = options.tsdocLint === true ? {} : options.tsdocLint;
 			// Share tsdoc config with apiModel if configured
 			if (!lintOptions.tsdoc && typeof options.apiModel === "object" && options.apiModel.tsdoc) {
@@ -452,12 +1017,14 @@ export class NodeLibraryBuilder {
 		}
 
 		// Standard plugins for dev and npm targets
-		if (target === "dev" || target === "npm") {
+		if (base === "dev" || base === "npm" || base === "jsr") {
 			// Add auto-entry plugin if no explicit entries provided
 			if (!options.entry) {
 				plugins.push(
 					AutoEntryPlugin({
 						exportsAsIndexes: options.exportsAsIndexes,
+						bundle,
+						publishConfig: base !== "dev",
 					}),
 				);
 			}
@@ -469,9 +1036,15 @@ export class NodeLibraryBuilder {
 
 			plugins.push(
 				PackageJsonTransformPlugin({
-					forcePrivate: target === "dev",
-					bundle: true,
+					forcePrivate: base === "dev",
+					production: base !== "dev",
+					bundle,
+					dualFormat,
+					sourceCondition: base === "dev",
+					tsconfigPath: options.tsconfigPath,
 					target,
+					manifest: mergeManifestPolicies(base === "npm" ? NPM_MANIFEST_POLICY : undefined, options.manifest?.[target]),
+					standardFiles: options.standardFiles,
 					transform: transformFn,
 				}),
 			);
@@ -481,8 +1054,69 @@ export class NodeLibraryBuilder {
 				FilesArrayPlugin({
 					target,
 					transformFiles: options.transformFiles,
+					collapse: options.collapseFiles,
+					standardFiles: options.standardFiles,
 				}),
 			);
+
+			// Add shebangs and executable bits to bin outputs
+			plugins.push(BinPlugin({ bundle, publishConfig: base !== "dev" }));
+
+			// Bundleless builds leave every package import alone
+			if (bundle && options.autoExternals !== false) {
+				plugins.push(AutoExternalsPlugin());
+			}
+		}
+
+		// Emit jsr.json and validate slow types for the JSR target
+		if (base === "jsr") {
+			plugins.push(
+				JsrPlugin({
+					...options.jsr,
+					bundle,
+					exportsAsIndexes: options.exportsAsIndexes,
+					tsconfigPath: options.tsconfigPath,
+				}),
+			);
+		}
+
+		// Plugin instances shared with the CommonJS lib; build info is resolved once so both halves agree on it
+		const sharedPlugins: RsbuildPlugin[] = [];
+		if (options.buildInfo) {
+			if (!bundle) {
+				throw new Error(
+					`Target "${target}" enables buildInfo in a bundleless build; virtual:build-info can only be bundled`,
+				);
+			}
+			sharedPlugins.push(BuildInfoPlugin({ ...(options.buildInfo === true ? {} : options.buildInfo), target }));
+		}
+		// Both halves of a dual format build report the files they emit with side effects
+		if (options.sideEffects !== false && base === "npm") {
+			sharedPlugins.push(
+				SideEffectsPlugin({
+					mode: options.sideEffects,
+					exportsAsIndexes: options.exportsAsIndexes,
+					tsconfigPath: options.tsconfigPath,
+				}),
+			);
+		}
+		// Both halves of a dual format build bundle third-party code
+		if (options.thirdPartyNotices !== false && base === "npm" && bundle) {
+			sharedPlugins.push(ThirdPartyNoticesPlugin(options.thirdPartyNotices === true ? {} : options.thirdPartyNotices));
+		}
+		// The SBOM lists the packages bundled into either half
+		if (options.sbom && base === "npm") {
+			sharedPlugins.push(SbomPlugin(options.sbom === true ? {} : options.sbom));
+		}
+		// Entries of both halves count toward the budgets
+		if (options.budgets && base === "npm") {
+			sharedPlugins.push(SizeBudgetPlugin({ ...options.budgets, target }));
+		}
+		plugins.push(...sharedPlugins);
+
+		// Relative README links only work next to the repository
+		if (options.readmeLinks !== false && base === "npm") {
+			plugins.push(ReadmeLinksPlugin(options.readmeLinks === true ? {} : options.readmeLinks));
 		}
 
 		// Add user-provided plugins
@@ -490,76 +1124,218 @@ export class NodeLibraryBuilder {
 			plugins.push(...options.plugins);
 		}
 
+		// Compare the imports of the published output with its dependencies
+		if (options.dependencyReport !== false && base === "npm") {
+			plugins.push(DependencyReportPlugin(options.dependencyReport === true ? {} : options.dependencyReport));
+		}
+
+		// Check the final package.json once every transform above has run
+		if (options.publishLint !== false && (base === "dev" || base === "npm" || base === "jsr")) {
+			plugins.push(
+				PublishLintPlugin({
+					...(options.publishLint === true ? {} : options.publishLint),
+					// JSR publishes from jsr.json, which has no private flag
+					private: base === "jsr" ? undefined : base === "dev",
+				}),
+			);
+		}
+
 		// Build output configuration
 		const outputDir = `dist/${target}`;
 
-		const entry = options.entry;
+		// Bundleless builds compile every source module; AutoEntryPlugin still tracks the exported ones
+		const entry = options.entry ?? (bundle ? undefined : NodeLibraryBuilder.BUNDLELESS_ENTRY);
+		// Mirror src/ into the dist root in bundleless mode
+		const outBase = bundle ? outputDir : "src";
 
 		// Add our custom DTS plugin that uses tsgo and emits through asset pipeline
 		// The plugin will generate the temp tsconfig itself since it needs access to api.context.rootPath
-		// Only enable API model generation for npm target (not dev)
-		const apiModelForTarget = target === "npm" ? options.apiModel : undefined;
+		// Only enable API model generation for npm target (not dev); it needs declaration rollups
+		const apiModelForTarget = base === "npm" && bundle ? options.apiModel : undefined;
 
 		plugins.push(
 			DtsPlugin({
 				tsconfigPath: options.tsconfigPath, // Pass through user's tsconfig if provided
 				abortOnError: true,
-				bundle: true,
+				bundle,
 				bundledPackages: options.dtsBundledPackages,
-				buildTarget: target,
+				buildTarget: base,
 				apiModel: apiModelForTarget,
+				cjsDeclarations: dualFormat,
 			}),
 		);
 
+		const define = {
+			"process.env.__PACKAGE_VERSION__": JSON.stringify(VERSION),
+			...options.define,
+		};
+		const externals = NodeLibraryBuilder.resolveExternals(options);
+		const autoExternal = options.autoExternals === false ? false : AUTO_EXTERNAL_DEPENDENCIES;
+
 		const lib: LibConfig = {
 			id: target,
-			outBase: outputDir,
+			outBase,
 			output: {
 				target: "node",
 				module: true,
 				cleanDistPath: true,
-				sourceMap: target === "dev", // Only enable source maps for dev target
+				sourceMap: base === "dev", // Only enable source maps for dev target
 				distPath: {
 					root: outputDir,
 				},
 				copy: {
 					patterns: options.copyPatterns,
 				},
-				externals: options.externals && options.externals.length > 0 ? options.externals : undefined,
+				externals,
 			},
+			autoExternal,
 			format: "esm",
 			experiments: {
 				advancedEsm: true,
 			},
-			bundle: true,
+			bundle,
 			plugins,
 			source: {
 				// Don't set tsconfigPath here - DtsPlugin will generate and use its own temp config
 				// RSLib will use its default tsconfig resolution for JS compilation
 				tsconfigPath: options.tsconfigPath, // Only pass through if user explicitly provided one
 				entry,
-				define: {
-					"process.env.__PACKAGE_VERSION__": JSON.stringify(VERSION),
-					...options.define,
-				},
+				define,
 			},
 		};
 
+		const libs: LibConfig[] = [lib];
+
+		if (dualFormat) {
+			const cjsLib = NodeLibraryBuilder.createCjsLib(
+				target,
+				base,
+				outputDir,
+				{
+					bundle,
+					entry,
+					define,
+					externals,
+					autoExternals: options.autoExternals,
+					tsconfigPath: options.tsconfigPath,
+					collapseFiles: options.collapseFiles,
+					exportsAsIndexes: options.exportsAsIndexes,
+				},
+				sharedPlugins,
+			);
+			// The ESM lib writes package.json, so it waits for the CommonJS assets to land in the shared files array
+			lib.tools = {
+				rspack: {
+					dependencies: [`${target}-cjs`],
+				},
+			};
+			libs.unshift(cjsLib);
+		}
+
+		return libs;
+	}
+	/**
+	 * Combines the user externals with the Node.js builtins kept external by `autoExternals`.
+	 */
+	static resolveExternals(
+		options: Pick<NodeLibraryBuilderOptions, "externals" | "autoExternals">,
+	): (string | RegExp)[] | undefined {
+		const externals = [
+			...(options.autoExternals === false ? [] : NODE_BUILTIN_EXTERNALS),
+			...(options.externals ?? []),
+		];
+		return externals.length > 0 ? externals : undefined;
+	}
+	/**
+	 * Wraps lib configs into the final rslib configuration.
+	 */
+	static createConfig(libs: LibConfig[], tsconfigPath: string | undefined, cacheName: string): RslibConfig {
 		// TypeScript declarations are now handled by our custom DtsPlugin (added to plugins above)
 		// which uses tsgo and emits through the asset pipeline instead of RSLib's default DTS plugin
 
 		return defineConfig({
-			lib: [lib],
+			lib: libs,
 			// RSLib will use its default tsconfig resolution for JS compilation
 			// Declaration generation is handled by DtsPlugin
 			source: {
-				tsconfigPath: options.tsconfigPath, // Only pass through if user explicitly provided one
+				tsconfigPath, // Only pass through if user explicitly provided one
 			},
 			performance: {
 				buildCache: {
-					cacheDirectory: `.rslib/cache/${target}`,
+					cacheDirectory: `.rslib/cache/${cacheName}`,
 				},
 			},
 		});
 	}
+	/**
+	 * Creates the CommonJS half of a dual format build.
+	 *
+	 * @remarks
+	 * Emits `.cjs` files into the same dist directory as the ESM lib. Package.json,
+	 * declarations and copied files are left to the ESM lib; only the compiled
+	 * assets are added to the shared files array. Without configured entries,
+	 * the lib discovers them from package.json itself. `sharedPlugins` are plugin
+	 * instances also used by the ESM lib.
+	 */
+	static createCjsLib(
+		target: TargetName,
+		base: BuildTarget,
+		outputDir: string,
+		options: Pick<
+			NodeLibraryBuilderOptions,
+			| "bundle"
+			| "entry"
+			| "define"
+			| "externals"
+			| "autoExternals"
+			| "tsconfigPath"
+			| "collapseFiles"
+			| "exportsAsIndexes"
+		>,
+		sharedPlugins: RsbuildPlugin[] = [],
+	): LibConfig {
+		const bundle = options.bundle !== false;
+		return {
+			id: `${target}-cjs`,
+			outBase: bundle ? outputDir : "src",
+			output: {
+				target: "node",
+				cleanDistPath: false,
+				sourceMap: base === "dev",
+				distPath: {
+					root: outputDir,
+				},
+				filename: {
+					js: "[name].cjs",
+				},
+				externals: options.externals,
+			},
+			autoExternal: options.autoExternals === false ? false : AUTO_EXTERNAL_DEPENDENCIES,
+			format: "cjs",
+			bundle,
+			plugins: [
+				// Each lib discovers its own entries unless they are configured; executables are only built as ESM
+				...(options.entry
+					? []
+					: [
+							AutoEntryPlugin({
+								exportsAsIndexes: options.exportsAsIndexes,
+								bin: false,
+								publishConfig: base !== "dev",
+							}),
+						]),
+				FilesArrayPlugin({
+					target,
+					updatePackageJson: false,
+					collapse: options.collapseFiles,
+				}),
+				...sharedPlugins,
+			],
+			source: {
+				tsconfigPath: options.tsconfigPath,
+				entry: options.entry,
+				define: options.define,
+			},
+		};
+	}
 }
@@ -0,0 +1,259 @@
+import { chmod, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import type { PackResult } from "./pack-package.js";
+import {
+	findUnexpectedFiles,
+	formatPackResult,
+	getTarballName,
+	packPackage,
+	resolvePackFiles,
+} from "./pack-package.js";
+
+// Strip colors so the output can be compared
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape sequences
+const stripAnsi = (text: string): string => text.replace(/\u001b\[\d+m/g, "");
+
+// Track created test directories for cleanup
+const testDirs: string[] = [];
+
+async function createTestDir(files: Record<string, string> = {}): Promise<string> {
+	const dir = join(tmpdir(), `pack-package-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+	testDirs.push(dir);
+	for (const [file, content] of Object.entries(files)) {
+		await mkdir(dirname(join(dir, file)), { recursive: true });
+		await writeFile(join(dir, file), content);
+	}
+	return dir;
+}
+
+const packageJson: PackageJson = {
+	name: "@scope/lib",
+	version: "1.0.0",
+	exports: { ".": { types: "./index.d.ts", import: "./index.js" } },
+	bin: { lib: "./bin/lib.js" },
+	files: ["index.d.ts", "index.js", "bin/lib.js"],
+};
+
+describe("pack-package", () => {
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	describe("getTarballName", () => {
+		it("should name tarballs like npm pack", () => {
+			expect(getTarballName("lib", "1.0.0")).toBe("lib-1.0.0.tgz");
+			expect(getTarballName("@scope/lib", "2.0.0-beta.1")).toBe("scope-lib-2.0.0-beta.1.tgz");
+		});
+	});
+
+	describe("resolvePackFiles", () => {
+		it("should expand directories and globs and apply negations in order", async () => {
+			const dir = await createTestDir({
+				"package.json": "{}",
+				"index.js": "",
+				"lib/a.js": "",
+				"lib/b.js": "",
+				"lib/internal/c.js": "",
+				"types/index.d.ts": "",
+				"sbom.cdx.json": "",
+			});
+
+			const { files, unmatched } = await resolvePackFiles(dir, {
+				files: ["index.js", "lib/", "!lib/internal", "types/*.d.ts", "sbom.cdx.json", "!sbom.cdx.json"],
+			});
+
+			expect(files).toEqual(["index.js", "lib/a.js", "lib/b.js", "package.json", "types/index.d.ts"]);
+			expect(unmatched).toEqual([]);
+		});
+
+		it("should always pack package.json, README, LICENSE and the main and bin files", async () => {
+			const dir = await createTestDir({
+				"package.json": "{}",
+				"README.md": "",
+				"license.txt": "",
+				"CHANGELOG.md": "",
+				"index.js": "",
+				"cli.js": "",
+			});
+
+			const { files, implicit } = await resolvePackFiles(dir, {
+				main: "./index.js",
+				bin: "./cli.js",
+				files: ["README.md"],
+			});
+
+			expect(files).toEqual(["README.md", "cli.js", "index.js", "license.txt", "package.json"]);
+			expect(implicit).toEqual(["cli.js", "index.js", "license.txt", "package.json"]);
+		});
+
+		it("should pack everything but npm's ignored files without a files array", async () => {
+			const dir = await createTestDir({
+				"package.json": "{}",
+				"index.js": "",
+				".npmrc": "",
+				"node_modules/dep/index.js": "",
+				"lib/.DS_Store": "",
+				"lib/.hidden.js": "",
+			});
+
+			expect((await resolvePackFiles(dir, {})).files).toEqual(["index.js", "lib/.hidden.js", "package.json"]);
+		});
+
+		it("should report files entries that match nothing", async () => {
+			const dir = await createTestDir({ "package.json": "{}", "index.js": "" });
+
+			const { unmatched } = await resolvePackFiles(dir, { files: ["index.js", "missing.js", "!gone.js"] });
+
+			expect(unmatched).toEqual(["missing.js"]);
+		});
+	});
+
+	describe("findUnexpectedFiles", () => {
+		it("should flag source maps, environment files and tsconfigs", () => {
+			const issues = findUnexpectedFiles([
+				"index.js",
+				"index.js.map",
+				".env",
+				"config/.env.production",
+				"environment.js",
+				"tsconfig.json",
+				"src/tsconfig.build.json",
+				"tsconfig/root.json",
+			]);
+
+			expect(issues.map((issue) => issue.path)).toEqual([
+				"index.js.map",
+				".env",
+				"config/.env.production",
+				"tsconfig.json",
+				"src/tsconfig.build.json",
+			]);
+			expect(issues[0]).toEqual({
+				type: "unexpected_file",
+				message: "index.js.map is packed, but source maps are not published",
+				path: "index.js.map",
+			});
+		});
+	});
+
+	describe("packPackage", () => {
+		it("should write the tarball of a valid package", async () => {
+			const dir = await createTestDir({
+				"dist/npm/package.json": JSON.stringify(packageJson),
+				"dist/npm/index.js": "export {};\n",
+				"dist/npm/index.d.ts": "export {};\n",
+				"dist/npm/bin/lib.js": "#!/usr/bin/env node\n",
+				"dist/npm/README.md": "# lib\n",
+			});
+			await chmod(join(dir, "dist/npm/bin/lib.js"), 0o755);
+
+			const result = await packPackage({ cwd: dir, destination: "artifacts" });
+
+			expect(result.issues).toEqual([]);
+			expect(result.filename).toBe("scope-lib-1.0.0.tgz");
+			expect(result.path).toBe(join(dir, "artifacts", "scope-lib-1.0.0.tgz"));
+			expect(result.files.map((file) => [file.path, file.executable])).toEqual([
+				["README.md", false],
+				["bin/lib.js", true],
+				["index.d.ts", false],
+				["index.js", false],
+				["package.json", false],
+			]);
+			expect(result.implicit).toEqual(["README.md", "package.json"]);
+			expect(result.integrity).toMatch(/^sha512-/);
+
+			const tarball = await readFile(result.path as string);
+			expect(tarball.length).toBe(result.size);
+		});
+
+		it("should report missing entry points and unexpected files without writing", async () => {
+			const dir = await createTestDir({
+				"package.json": JSON.stringify({ ...packageJson, files: ["index.js", "index.js.map", "index.d.ts"] }),
+				"index.js": "export {};\n",
+				"index.js.map": "{}",
+			});
+
+			const result = await packPackage({ cwd: dir, directory: "." });
+
+			expect(result.path).toBeUndefined();
+			expect(result.issues).toEqual([
+				{
+					type: "missing_file",
+					message: 'exports["."]["types"] points at ./index.d.ts, which is not packed',
+					path: "./index.d.ts",
+				},
+				{
+					type: "missing_file",
+					message: 'bin["lib"] points at ./bin/lib.js, which is not packed',
+					path: "./bin/lib.js",
+				},
+				{ type: "unmatched_pattern", message: expect.stringContaining("files lists index.d.ts"), path: "index.d.ts" },
+				{ type: "unexpected_file", message: expect.stringContaining("source maps"), path: "index.js.map" },
+			]);
+		});
+
+		it("should not write the tarball in a dry run", async () => {
+			const dir = await createTestDir({ "package.json": JSON.stringify({ name: "lib", version: "1.0.0" }) });
+
+			const result = await packPackage({ cwd: dir, directory: ".", dryRun: true });
+
+			expect(result.issues).toEqual([]);
+			expect(result.path).toBeUndefined();
+		});
+
+		it("should fail without a readable package.json", async () => {
+			const dir = await createTestDir({ "index.js": "" });
+
+			await expect(packPackage({ cwd: dir, directory: "." })).rejects.toThrow(`Cannot pack ${dir}:`);
+		});
+
+		it("should fail without a name or version", async () => {
+			const dir = await createTestDir({ "package.json": JSON.stringify({ name: "lib" }) });
+
+			await expect(packPackage({ cwd: dir, directory: "." })).rejects.toThrow("must have a name and a version");
+		});
+	});
+
+	describe("formatPackResult", () => {
+		it("should list the contents, details and issues", () => {
+			const result: PackResult = {
+				name: "lib",
+				version: "1.0.0",
+				filename: "lib-1.0.0.tgz",
+				files: [
+					{ path: "index.js", size: 1234, executable: false },
+					{ path: "package.json", size: 80, executable: false },
+				],
+				implicit: ["package.json"],
+				size: 700,
+				unpackedSize: 1314,
+				shasum: "abc",
+				integrity: "sha512-abc",
+				issues: [{ type: "unexpected_file", message: "index.js.map is packed", path: "index.js.map" }],
+			};
+
+			expect(stripAnsi(formatPackResult(result)).split("\n")).toEqual([
+				"lib@1.0.0",
+				"",
+				"Tarball Contents",
+				"  1.23 kB  index.js",
+				"     80 B  package.json (not in files, packed by npm)",
+				"",
+				"Tarball Details",
+				"  filename:      lib-1.0.0.tgz",
+				"  package size:  700 B",
+				"  unpacked size: 1.31 kB",
+				"  shasum:        abc",
+				"  integrity:     sha512-abc",
+				"  total files:   2",
+				"",
+				"Issues",
+				"  error  index.js.map is packed (unexpected_file)",
+			]);
+		});
+	});
+});
@@ -0,0 +1,432 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { glob } from "glob";
+import color from "picocolors";
+import type { PackageJson } from "../../types/package-json.js";
+import { collectPackagePaths, isEmitted } from "../plugins/publish-lint-plugin.js";
+import { formatSize } from "../plugins/size-budget-plugin.js";
+import { createTarball } from "../plugins/utils/tarball.js";
+
+/**
+ * Types of problems found while packing.
+ *
+ * @remarks
+ * - `"missing_file"`: An `exports`, `types`, `main`, `module` or `bin` path is not in the tarball
+ * - `"unmatched_pattern"`: A `files` entry matches nothing in the package directory
+ * - `"unexpected_file"`: The tarball contains a file that should never be published
+ *
+ * @public
+ */
+export type PackIssueType = "missing_file" | "unmatched_pattern" | "unexpected_file";
+
+/**
+ * Structured problem found while packing.
+ *
+ * @public
+ */
+export interface PackIssue {
+	/**
+	 * The type of problem.
+	 *
+	 * @remarks
+	 * Use this field for programmatic handling of different failure modes.
+	 */
+	type: PackIssueType;
+
+	/**
+	 * Human-readable description of the problem.
+	 */
+	message: string;
+
+	/**
+	 * The file or pattern the problem is about, as written in package.json or
+	 * relative to the package directory.
+	 */
+	path: string;
+}
+
+/**
+ * Options for {@link packPackage}.
+ *
+ * @example
+ * ```typescript
+ * import { packPackage } from '@savvy-web/rslib-builder';
+ *
+ * const result = await packPackage({ directory: 'dist/npm', destination: 'artifacts' });
+ * ```
+ *
+ * @public
+ */
+export interface PackOptions {
+	/**
+	 * Directory containing the package.json to pack.
+	 *
+	 * @remarks
+	 * Relative paths are resolved from `cwd`.
+	 *
+	 * @defaultValue "dist/npm"
+	 */
+	directory?: string;
+
+	/**
+	 * Directory the `.tgz` is written to.
+	 *
+	 * @remarks
+	 * Relative paths are resolved from `cwd`.
+	 *
+	 * @defaultValue The value of `cwd`
+	 */
+	destination?: string;
+
+	/**
+	 * Base directory for relative paths.
+	 *
+	 * @defaultValue process.cwd()
+	 */
+	cwd?: string;
+
+	/**
+	 * List and check the contents without writing the tarball.
+	 *
+	 * @defaultValue false
+	 */
+	dryRun?: boolean;
+}
+
+/**
+ * A file in the tarball.
+ *
+ * @public
+ */
+export interface PackEntry {
+	/** Path relative to the package directory */
+	path: string;
+	/** Size in bytes before compression */
+	size: number;
+	/** Whether the file is packed with mode `0755` */
+	executable: boolean;
+}
+
+/**
+ * Result of packing a package directory.
+ *
+ * @public
+ */
+export interface PackResult {
+	/** Package name from package.json */
+	name: string;
+	/** Package version from package.json */
+	version: string;
+	/** File name of the tarball, as `npm pack` names it */
+	filename: string;
+	/**
+	 * Absolute path of the written tarball.
+	 *
+	 * @remarks
+	 * Unset for dry runs and when issues were found.
+	 */
+	path?: string;
+	/** Files in the tarball, sorted by path */
+	files: PackEntry[];
+	/**
+	 * Files npm packs although the `files` array does not list them.
+	 *
+	 * @remarks
+	 * npm always packs package.json, README, LICENSE and the `main` and `bin` files.
+	 */
+	implicit: string[];
+	/** Size of the gzipped tarball in bytes */
+	size: number;
+	/** Total size of the packed files in bytes */
+	unpackedSize: number;
+	/**
+	 * SHA-1 of the tarball written by {@link packPackage}.
+	 *
+	 * @remarks
+	 * The tarball packs the same files as `npm pack` but is not byte-identical
+	 * to it, so the checksums only match the registry when this tarball is
+	 * the one published.
+	 */
+	shasum: string;
+	/** Subresource integrity string of the tarball written by {@link packPackage} */
+	integrity: string;
+	/** Problems found in the tarball contents */
+	issues: PackIssue[];
+}
+
+/**
+ * Files npm leaves out of every tarball, even when `files` matches them.
+ *
+ * @internal
+ */
+export const NPM_IGNORED_FILES: string[] = [
+	"**/.git/**",
+	"**/.svn/**",
+	"**/.hg/**",
+	"**/CVS/**",
+	"**/node_modules/**",
+	"**/.npmrc",
+	"**/.npmignore",
+	"**/.gitignore",
+	"**/.DS_Store",
+	"**/._*",
+	"**/.*.swp",
+	"**/*.orig",
+	"**/npm-debug.log",
+	"package-lock.json",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"bun.lockb",
+];
+
+/**
+ * Root files npm packs regardless of the `files` array.
+ */
+const NPM_ALWAYS_INCLUDED: RegExp = /^(package\.json|(readme|license|licence|copying)(\..*)?)$/i;
+
+/**
+ * Files that should never reach the registry, with the reason shown when one is packed.
+ *
+ * @internal
+ */
+export const UNEXPECTED_PACK_FILES: Array<[RegExp, string]> = [
+	[/\.map$/, "source maps are not published"],
+	[/(^|\/)\.env(\.[^/]*)?$/, "environment files may contain secrets"],
+	[/(^|\/)tsconfig(\.[^/]*)?\.json$/, "TypeScript configs are build inputs"],
+];
+
+/**
+ * Derives the tarball file name the same way `npm pack` does.
+ *
+ * @example
+ * ```typescript
+ * getTarballName("@scope/pkg", "1.0.0"); // "scope-pkg-1.0.0.tgz"
+ * ```
+ *
+ * @internal
+ */
+export function getTarballName(name: string, version: string): string {
+	return `${name.replace(/^@/, "").replace(/\//g, "-")}-${version}.tgz`;
+}
+
+/**
+ * Resolves the files npm would pack from a package directory.
+ *
+ * @remarks
+ * Follows npm's packing rules: `files` entries are matched from the package
+ * root, a directory includes everything below it, `!` entries remove earlier
+ * matches, and package.json, README, LICENSE and the `main` and `bin` files
+ * are always packed. Without a `files` array every file is packed.
+ * {@link NPM_IGNORED_FILES} are never packed.
+ *
+ * @param directory - The package directory
+ * @param packageJson - The package.json of the directory
+ * @returns The packed files, the files added by npm's rules, and the `files` entries that matched nothing
+ *
+ * @internal
+ */
+export async function resolvePackFiles(
+	directory: string,
+	packageJson: PackageJson,
+): Promise<{ files: string[]; implicit: string[]; unmatched: string[] }> {
+	const files = new Set<string>();
+	const unmatched: string[] = [];
+	const match = (pattern: string): Promise<string[]> =>
+		glob([pattern, `${pattern}/**`], {
+			cwd: directory,
+			dot: true,
+			nodir: true,
+			posix: true,
+			ignore: NPM_IGNORED_FILES,
+		});
+
+	for (const entry of packageJson.files ?? ["**"]) {
+		const negated = entry.startsWith("!");
+		const pattern = entry
+			.slice(negated ? 1 : 0)
+			.replace(/^\.?\//, "")
+			.replace(/\/$/, "");
+		const matches = await match(pattern);
+		if (negated) {
+			for (const file of matches) {
+				files.delete(file);
+			}
+		} else if (matches.length === 0) {
+			unmatched.push(entry);
+		} else {
+			for (const file of matches) {
+				files.add(file);
+			}
+		}
+	}
+
+	const required = (await readdir(directory)).filter((file) => NPM_ALWAYS_INCLUDED.test(file));
+	for (const [field, path] of collectPackagePaths(packageJson)) {
+		if (field === "main" || field.startsWith("bin")) {
+			required.push(path.replace(/^\.\//, ""));
+		}
+	}
+	const implicit: string[] = [];
+	for (const file of required) {
+		if (!files.has(file) && (await match(file)).includes(file)) {
+			files.add(file);
+			implicit.push(file);
+		}
+	}
+
+	return { files: Array.from(files).sort(), implicit: implicit.sort(), unmatched };
+}
+
+/**
+ * Finds packed files that should never be published.
+ *
+ * @internal
+ */
+export function findUnexpectedFiles(files: Iterable<string>): PackIssue[] {
+	const issues: PackIssue[] = [];
+	for (const file of files) {
+		const unexpected = UNEXPECTED_PACK_FILES.find(([pattern]) => pattern.test(file));
+		if (unexpected) {
+			issues.push({ type: "unexpected_file", message: `${file} is packed, but ${unexpected[1]}`, path: file });
+		}
+	}
+	return issues;
+}
+
+/**
+ * Packs the files npm would publish from a built package directory into a tarball, and checks its contents.
+ *
+ * @remarks
+ * Works offline: nothing is fetched from or sent to a registry, and no
+ * lifecycle scripts run. Files are selected with npm's packing rules, but the
+ * tarball is written by this package, so its shasum and integrity differ from
+ * those of `npm pack`. Publish the written tarball (`npm publish <file>.tgz`)
+ * for the registry to record the same checksums. The tarball is checked for:
+ *
+ * - `exports`, `types`, `main`, `module` and `bin` paths that are not packed
+ * - `files` entries that match nothing, which usually means the build and the
+ *   generated `files` array disagree
+ * - Files that should never be published: source maps, `.env` files and
+ *   tsconfig files
+ *
+ * The tarball is only written when no issues are found.
+ *
+ * @param options - Pack options
+ * @returns The tarball contents, its details and the issues found
+ *
+ * @example
+ * ```typescript
+ * import { packPackage } from '@savvy-web/rslib-builder';
+ *
+ * const result = await packPackage({ directory: 'dist/npm' });
+ * if (result.issues.length > 0) {
+ *   throw new Error(result.issues.map((issue) => issue.message).join('\n'));
+ * }
+ * console.log(`Wrote ${result.path}`);
+ * ```
+ *
+ * @public
+ */
+export async function packPackage(options: PackOptions = {}): Promise<PackResult> {
+	const { cwd = process.cwd(), directory = "dist/npm", dryRun = false } = options;
+	const packageDir = resolve(cwd, directory);
+
+	let packageJson: PackageJson;
+	try {
+		packageJson = JSON.parse(await readFile(join(packageDir, "package.json"), "utf-8")) as PackageJson;
+	} catch (error) {
+		throw new Error(`Cannot pack ${packageDir}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!packageJson.name || !packageJson.version) {
+		throw new Error(`Cannot pack ${packageDir}: package.json must have a name and a version`);
+	}
+
+	const { files, implicit, unmatched } = await resolvePackFiles(packageDir, packageJson);
+	const contents = new Map<string, Buffer>();
+	const executables = new Set<string>();
+	for (const file of files) {
+		const path = join(packageDir, file);
+		contents.set(file, await readFile(path));
+		if ((await stat(path)).mode & 0o111) {
+			executables.add(file);
+		}
+	}
+
+	const issues: PackIssue[] = [];
+	const packed = new Set(files);
+	for (const [field, path] of collectPackagePaths(packageJson)) {
+		if (!isEmitted(path, packed)) {
+			issues.push({ type: "missing_file", message: `${field} points at ${path}, which is not packed`, path });
+		}
+	}
+	for (const pattern of unmatched) {
+		issues.push({
+			type: "unmatched_pattern",
+			message: `files lists ${pattern}, which matches nothing in ${basename(packageDir)}`,
+			path: pattern,
+		});
+	}
+	issues.push(...findUnexpectedFiles(files));
+
+	const tarball = createTarball(contents, executables);
+	const filename = getTarballName(packageJson.name, packageJson.version);
+	const result: PackResult = {
+		name: packageJson.name,
+		version: packageJson.version,
+		filename,
+		files: files.map((file) => ({
+			path: file,
+			size: contents.get(file)?.length ?? 0,
+			executable: executables.has(file),
+		})),
+		implicit,
+		size: tarball.length,
+		unpackedSize: Array.from(contents.values()).reduce((total, content) => total + content.length, 0),
+		shasum: createHash("sha1").update(tarball).digest("hex"),
+		integrity: `sha512-${createHash("sha512").update(tarball).digest("base64")}`,
+		issues,
+	};
+
+	if (!dryRun && issues.length === 0) {
+		const destination = resolve(cwd, options.destination ?? ".");
+		await mkdir(destination, { recursive: true });
+		result.path = join(destination, filename);
+		await writeFile(result.path, tarball);
+	}
+
+	return result;
+}
+
+/**
+ * Formats a pack result as a contents list followed by the tarball details.
+ *
+ * @internal
+ */
+export function formatPackResult(result: PackResult): string {
+	const sizes = result.files.map((file) => formatSize(file.size));
+	const width = Math.max(...sizes.map((size) => size.length));
+	const implicit = new Set(result.implicit);
+	const lines = [`${color.bold(`${result.name}@${result.version}`)}`, "", color.bold("Tarball Contents")];
+	result.files.forEach((file, index) => {
+		const note = implicit.has(file.path) ? color.dim(" (not in files, packed by npm)") : "";
+		lines.push(`  ${sizes[index].padStart(width)}  ${file.path}${note}`);
+	});
+	lines.push(
+		"",
+		color.bold("Tarball Details"),
+		`  filename:      ${result.filename}`,
+		`  package size:  ${formatSize(result.size)}`,
+		`  unpacked size: ${formatSize(result.unpackedSize)}`,
+		`  shasum:        ${result.shasum}`,
+		`  integrity:     ${result.integrity}`,
+		`  total files:   ${result.files.length}`,
+	);
+	if (result.issues.length > 0) {
+		lines.push("", color.bold("Issues"));
+		for (const issue of result.issues) {
+			lines.push(`  ${color.red("error")}  ${issue.message} ${color.dim(`(${issue.type})`)}`);
+		}
+	}
+	return lines.join("\n");
+}
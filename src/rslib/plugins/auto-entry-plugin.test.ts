@@ -29,6 +29,21 @@ const mockStat: ReturnType<typeof vi.mocked<typeof stat>> = vi.mocked(stat);
 // Static import after mocks are set up
 import { AutoEntryPlugin } from "./auto-entry-plugin.js";
 
+type EnvironmentModifier = (
+	config: { source?: { entry?: unknown } },
+	utils: { name: string },
+) => Promise<unknown> | unknown;
+
+// Calls the hook once per environment, as Rsbuild does for a plugin shared by every environment
+async function modifyEnvironments(
+	modifier: EnvironmentModifier,
+	config: { environments?: Record<string, { source?: { entry?: unknown } }> },
+): Promise<void> {
+	for (const [name, environment] of Object.entries(config.environments ?? {})) {
+		await modifier(environment, { name });
+	}
+}
+
 describe("AutoEntryPlugin", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
@@ -58,7 +73,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -70,7 +85,7 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {
 			environments: {
 				development: { source: {} },
@@ -78,7 +93,7 @@ describe("AutoEntryPlugin", () => {
 			},
 		};
 
-		await configModifier(config);
+		await modifyEnvironments(configModifier, config);
 
 		// Verify both environments got the entry
 		expect(config.environments.development.source).toHaveProperty("entry");
@@ -98,7 +113,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -110,11 +125,11 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
-		const config = { environments: {} };
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
+		const config = { environments: { development: { source: {} } } };
 
 		// Should throw error when package.json doesn't exist
-		await expect(configModifier(config)).rejects.toThrow("package.json not found in project root");
+		await expect(modifyEnvironments(configModifier, config)).rejects.toThrow("package.json not found in project root");
 	});
 
 	it("should handle JSON parse errors gracefully", async () => {
@@ -125,7 +140,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -137,12 +152,13 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
-		const config = { environments: {} };
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
+		const config = { environments: { development: { source: {} } } };
 
 		// Should not throw
-		await expect(configModifier(config)).resolves.not.toThrow();
-		expect(mockApi.modifyRsbuildConfig).toHaveBeenCalledTimes(1);
+		await expect(modifyEnvironments(configModifier, config)).resolves.not.toThrow();
+		expect(mockApi.modifyEnvironmentConfig).toHaveBeenCalledTimes(1);
+		expect(config.environments.development.source).toEqual({});
 	});
 
 	it("should handle config without environments", async () => {
@@ -159,7 +175,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -171,11 +187,11 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier with a config that has no environments
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {};
 
 		// Should not throw
-		await expect(configModifier(config)).resolves.not.toThrow();
+		await expect(modifyEnvironments(configModifier, config)).resolves.not.toThrow();
 	});
 
 	it("should handle bin entries and convert them to JSR-style outputs", async () => {
@@ -194,7 +210,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -210,14 +226,14 @@ describe("AutoEntryPlugin", () => {
 		const entrypointsMap = mockApi.expose.mock.calls[0][1] as Map<string, string>;
 
 		// Call the config modifier to populate the entrypoints
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {
 			environments: {
 				development: { source: {} },
 			},
 		};
 
-		await configModifier(config);
+		await modifyEnvironments(configModifier, config);
 
 		// Check that bin entries are converted to JSR-style names
 		expect(entrypointsMap.has("bin/my-cli.ts")).toBe(true);
@@ -241,7 +257,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -253,14 +269,14 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {
 			environments: {
 				development: { source: {} },
 			},
 		};
 
-		await configModifier(config);
+		await modifyEnvironments(configModifier, config);
 
 		// Verify both environments got the entries
 		expect(config.environments.development.source).toHaveProperty("entry");
@@ -278,7 +294,7 @@ describe("AutoEntryPlugin", () => {
 	it("should call onBeforeBuild callback with debug logging", async () => {
 		const plugin = AutoEntryPlugin();
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -324,7 +340,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin({ exportsAsIndexes: true });
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -343,14 +359,14 @@ describe("AutoEntryPlugin", () => {
 		>;
 
 		// Call the config modifier to populate the map
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {
 			environments: {
 				development: { source: {} },
 			},
 		};
 
-		await configModifier(config);
+		await modifyEnvironments(configModifier, config);
 
 		// Verify the export to output map was built correctly
 		expect(exportToOutputMap.has(".")).toBe(true);
@@ -363,6 +379,43 @@ describe("AutoEntryPlugin", () => {
 		expect(exportToOutputMap.has("./package.json")).toBe(false);
 	});
 
+	it("should map wildcard patterns to index outputs when exportsAsIndexes is enabled", async () => {
+		const packageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+			exports: {
+				".": "./src/index.ts",
+				"./icons/*": "./src/icons/*.ts",
+			},
+		};
+
+		mockStat.mockResolvedValue(createMockStats(new Date()));
+		mockReadFile.mockResolvedValue(JSON.stringify(packageJson));
+
+		const plugin = AutoEntryPlugin({ exportsAsIndexes: true });
+		const mockApi = {
+			modifyEnvironmentConfig: vi.fn(),
+			expose: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(undefined),
+			onBeforeBuild: vi.fn(),
+			logger: {
+				debug: vi.fn(),
+			},
+		};
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
+		const exportToOutputMap = mockApi.expose.mock.calls.find((call) => call[0] === "exportToOutputMap")?.[1] as Map<
+			string,
+			string
+		>;
+
+		await modifyEnvironments(mockApi.modifyEnvironmentConfig.mock.calls[0][0], {
+			environments: { development: { source: {} } },
+		});
+
+		expect(exportToOutputMap.get("./icons/*")).toBe("./icons/*/index.js");
+	});
+
 	it("should handle exportsAsIndexes with string exports", async () => {
 		const packageJson: PackageJson = {
 			name: "test-package",
@@ -377,7 +430,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin({ exportsAsIndexes: true });
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -389,14 +442,14 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {
 			environments: {
 				development: { source: {} },
 			},
 		};
 
-		await configModifier(config);
+		await modifyEnvironments(configModifier, config);
 
 		// When exports is a string, the export to output map should not be built
 		const exportToOutputMap = mockApi.expose.mock.calls.find((call) => call[0] === "exportToOutputMap")?.[1] as Map<
@@ -421,7 +474,7 @@ describe("AutoEntryPlugin", () => {
 
 		const plugin = AutoEntryPlugin({ exportsAsIndexes: true });
 		const mockApi = {
-			modifyRsbuildConfig: vi.fn(),
+			modifyEnvironmentConfig: vi.fn(),
 			expose: vi.fn(),
 			useExposed: vi.fn().mockReturnValue(undefined),
 			onBeforeBuild: vi.fn(),
@@ -433,14 +486,14 @@ describe("AutoEntryPlugin", () => {
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
 
 		// Call the config modifier
-		const configModifier = mockApi.modifyRsbuildConfig.mock.calls[0][0];
+		const configModifier = mockApi.modifyEnvironmentConfig.mock.calls[0][0];
 		const config = {
 			environments: {
 				development: { source: {} },
 			},
 		};
 
-		await configModifier(config);
+		await modifyEnvironments(configModifier, config);
 
 		// When exports is an array, the export to output map should not be built
 		const exportToOutputMap = mockApi.expose.mock.calls.find((call) => call[0] === "exportToOutputMap")?.[1] as Map<
@@ -450,4 +503,121 @@ describe("AutoEntryPlugin", () => {
 		// Map should be empty since exports is an array
 		expect(exportToOutputMap.size).toBe(0);
 	});
+
+	it("should only set the entries of each target's own environment", async () => {
+		const packageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+			exports: {
+				".": "./src/index.ts",
+				"./utils": "./src/utils.ts",
+			},
+		};
+
+		mockStat.mockResolvedValue(createMockStats(new Date()));
+		mockReadFile.mockResolvedValue(JSON.stringify(packageJson));
+
+		// One plugin per target, as a multi-target build creates them
+		const plugins = {
+			dev: AutoEntryPlugin({ bundle: false }),
+			npm: AutoEntryPlugin({ exportsAsIndexes: true }),
+		};
+		const environments: Record<string, { source?: { entry?: unknown } }> = {
+			dev: { source: { entry: { index: "/project/src/index.ts", utils: "/project/src/utils.ts" } } },
+			npm: { source: { entry: { index: "/project/src/index.ts" } } },
+		};
+
+		for (const [name, plugin] of Object.entries(plugins)) {
+			const mockApi = {
+				modifyEnvironmentConfig: vi.fn(),
+				expose: vi.fn(),
+				useExposed: vi.fn().mockReturnValue(undefined),
+				onBeforeBuild: vi.fn(),
+				logger: { debug: vi.fn() },
+			};
+			plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
+
+			// Rsbuild only calls the hook of a lib plugin for the lib's environment
+			await mockApi.modifyEnvironmentConfig.mock.calls[0][0](environments[name], { name });
+		}
+
+		// The bundleless glob entries are kept
+		expect(environments.dev.source?.entry).toEqual({
+			index: "/project/src/index.ts",
+			utils: "/project/src/utils.ts",
+		});
+		expect(environments.npm.source?.entry).toEqual({
+			index: "./src/index.ts",
+			"utils/index": "./src/utils.ts",
+		});
+	});
+
+	it("should leave bin entries out of the environment when bin is disabled", async () => {
+		const packageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+			exports: "./src/index.ts",
+			bin: { "my-cli": "./src/bin/cli.ts" },
+		};
+
+		mockStat.mockResolvedValue(createMockStats(new Date()));
+		mockReadFile.mockResolvedValue(JSON.stringify(packageJson));
+
+		const plugin = AutoEntryPlugin({ bin: false });
+		const mockApi = {
+			modifyEnvironmentConfig: vi.fn(),
+			expose: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(undefined),
+			onBeforeBuild: vi.fn(),
+			logger: { debug: vi.fn() },
+		};
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
+		const config = { environments: { "npm-cjs": { source: {} as { entry?: unknown } } } };
+
+		await modifyEnvironments(mockApi.modifyEnvironmentConfig.mock.calls[0][0], config);
+
+		expect(config.environments["npm-cjs"].source.entry).toEqual({ index: "./src/index.ts" });
+		// Other plugins still see the executable
+		const entrypointsMap = mockApi.expose.mock.calls[0][1] as Map<string, string>;
+		expect(entrypointsMap.get("bin/my-cli.ts")).toBe("./src/bin/cli.ts");
+	});
+
+	it("should build the entries of publishConfig overrides when enabled", async () => {
+		const packageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+			exports: "./src/index.ts",
+			publishConfig: {
+				exports: { ".": "./src/index.ts", "./extra": "./src/extra.ts" },
+			},
+		};
+
+		mockStat.mockResolvedValue(createMockStats(new Date()));
+		mockReadFile.mockResolvedValue(JSON.stringify(packageJson));
+
+		const discover = async (
+			options: Parameters<typeof AutoEntryPlugin>[0],
+		): Promise<{ entry: unknown; entrypoints: Map<string, string> }> => {
+			const mockApi = {
+				modifyEnvironmentConfig: vi.fn(),
+				expose: vi.fn(),
+				useExposed: vi.fn().mockReturnValue(undefined),
+				onBeforeBuild: vi.fn(),
+				logger: { debug: vi.fn() },
+			};
+			AutoEntryPlugin(options).setup(mockApi as unknown as Parameters<ReturnType<typeof AutoEntryPlugin>["setup"]>[0]);
+			const config = { environments: { npm: { source: {} as { entry?: unknown } } } };
+			await modifyEnvironments(mockApi.modifyEnvironmentConfig.mock.calls[0][0], config);
+			return { entry: config.environments.npm.source.entry, entrypoints: mockApi.expose.mock.calls[0][1] };
+		};
+
+		const production = await discover({ publishConfig: true });
+		const development = await discover(undefined);
+
+		expect(production.entry).toEqual({ index: "./src/index.ts", extra: "./src/extra.ts" });
+		expect(development.entry).toEqual({ index: "./src/index.ts" });
+		// Declaration rollup bundles the override entries too
+		expect(production.entrypoints.get("extra.ts")).toBe("./src/extra.ts");
+	});
 });
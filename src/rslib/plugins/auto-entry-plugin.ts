@@ -1,9 +1,11 @@
 import { readFile } from "node:fs/promises";
+import { dirname } from "node:path";
 import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
 import type { PackageJson } from "../../types/package-json.js";
 import { createEnvLogger } from "./utils/build-logger.js";
 import { extractEntriesFromPackageJson } from "./utils/entry-extractor.js";
 import { fileExistAsync } from "./utils/file-utils.js";
+import { applyPublishConfigOverrides } from "./utils/package-json-transformer.js";
 
 /**
  * Options for the AutoEntryPlugin.
@@ -40,6 +42,122 @@ export interface AutoEntryPluginOptions {
 	 * @defaultValue false
 	 */
 	exportsAsIndexes?: boolean;
+
+	/**
+	 * Whether the build is in bundle mode.
+	 *
+	 * @remarks
+	 * Bundleless builds compile every source module from their own entry globs,
+	 * so the discovered entries are only tracked for other plugins and the
+	 * environment's entries are left alone.
+	 *
+	 * @defaultValue true
+	 */
+	bundle?: boolean;
+
+	/**
+	 * Whether to build the `bin` entries.
+	 *
+	 * @remarks
+	 * The CommonJS lib of a dual format build turns this off, since the ESM
+	 * lib already builds the executables. The entries are still shared with
+	 * other plugins.
+	 *
+	 * @defaultValue true
+	 */
+	bin?: boolean;
+
+	/**
+	 * Whether to merge `publishConfig` overrides into package.json before
+	 * discovering entries.
+	 *
+	 * @remarks
+	 * Production targets publish the overridden `exports` and `bin`, so their
+	 * entries must be built from the same fields.
+	 *
+	 * @defaultValue false
+	 */
+	publishConfig?: boolean;
+}
+
+/**
+ * Reads the package.json entries and records them in the shared `entrypoints`
+ * and `exportToOutputMap` maps.
+ */
+async function discoverEntries(
+	options: AutoEntryPluginOptions | undefined,
+	entrypoints: Map<string, string>,
+	exportToOutputMap: Map<string, string>,
+): Promise<Record<string, string>> {
+	const log = createEnvLogger("auto-entry");
+	const { assetPath, assetExists } = await fileExistAsync("package.json");
+
+	if (!assetExists) {
+		log.global.error("package.json not found in project root");
+		throw new Error("package.json not found in project root");
+	}
+
+	try {
+		const packageJsonContent = await readFile(assetPath, "utf-8");
+		const sourcePackageJson = JSON.parse(packageJsonContent) as PackageJson;
+		const packageJson = options?.publishConfig ? applyPublishConfigOverrides(sourcePackageJson) : sourcePackageJson;
+
+		// Extract entries from package.json exports and bin fields
+		const { entries } = extractEntriesFromPackageJson(packageJson, {
+			exportsAsIndexes: options?.exportsAsIndexes,
+			cwd: dirname(assetPath),
+		});
+
+		// When exportsAsIndexes is enabled, build a mapping from export keys to output paths
+		if (options?.exportsAsIndexes && packageJson.exports) {
+			const exports = packageJson.exports;
+			if (typeof exports === "object" && !Array.isArray(exports)) {
+				// Iterate over package.json exports to map them to entry names
+				for (const pkgExportKey of Object.keys(exports)) {
+					// Skip package.json exports
+					if (pkgExportKey === "./package.json") continue;
+
+					// Every match of a wildcard pattern gets its own index file
+					if (pkgExportKey.includes("*")) {
+						exportToOutputMap.set(pkgExportKey, `./${pkgExportKey.replace(/^\.\//, "")}/index.js`);
+						continue;
+					}
+
+					// Normalize the export key for comparison
+					const normalizedExportKey = pkgExportKey.replace(/^\.\//, "");
+
+					// Find the matching entry
+					for (const [entryName] of Object.entries(entries)) {
+						// The entry name might be "vscode/settings/index" and export key is "./vscode/settings"
+						const normalizedEntryName = entryName.replace(/\/index$/, "");
+
+						// Match root export "." to "index" entry, or match normalized paths
+						if ((pkgExportKey === "." && entryName === "index") || normalizedExportKey === normalizedEntryName) {
+							// Map the export key to the output path (entry name with .js extension)
+							const outputPath = `./${entryName}.js`;
+							exportToOutputMap.set(pkgExportKey, outputPath);
+							break; // Found the match, move to next export
+						}
+					}
+				}
+			}
+		}
+
+		// Populate the unified entrypoints Map for other plugins to use
+		for (const [entryName, sourcePath] of Object.entries(entries)) {
+			// Convert entry names to TypeScript output names with .ts extension
+			const outputName = `${entryName}.ts`;
+			entrypoints.set(outputName, sourcePath);
+		}
+
+		// JSON schema exports are no longer processed here - they should be generated via separate scripts
+		return entries;
+		/* v8 ignore start - Hard to test JSON parsing errors */
+	} catch (error) {
+		log.global.error("failed to process package.json:", error);
+		return {};
+	}
+	/* v8 ignore stop */
 }
 
 /**
@@ -60,7 +178,7 @@ export interface AutoEntryPluginOptions {
  *
  * 1. Reads package.json from the project root
  * 2. Extracts entry points from the `exports` field
- * 3. Configures RSlib with the discovered entries
+ * 3. Replaces the entries of the plugin's environment with the discovered ones
  * 4. Exposes the entrypoints map via `api.useExposed("entrypoints")`
  *
  * @param options - Plugin configuration options
@@ -91,12 +209,12 @@ export interface AutoEntryPluginOptions {
  */
 export const AutoEntryPlugin = (options?: AutoEntryPluginOptions): RsbuildPlugin => {
 	// Use WeakMap to track per-api instance state to prevent state leakage between different build instances
-	const buildStateMap = new WeakMap<RsbuildPluginAPI, { hasLoggedEntries: boolean; hasLoggedSchemas: boolean }>();
+	const buildStateMap = new WeakMap<RsbuildPluginAPI, { loggedEnvironments: Set<string> }>();
 	return {
 		name: "auto-entry-plugin",
 		setup(api: RsbuildPluginAPI): void {
 			// Initialize state for this API instance
-			buildStateMap.set(api, { hasLoggedEntries: false, hasLoggedSchemas: false });
+			buildStateMap.set(api, { loggedEnvironments: new Set<string>() });
 			let entrypoints = api.useExposed<Map<string, string>>("entrypoints");
 			if (!entrypoints) {
 				entrypoints = new Map<string, string>();
@@ -114,91 +232,30 @@ export const AutoEntryPlugin = (options?: AutoEntryPluginOptions): RsbuildPlugin
 				api.logger.debug(context);
 			});
 
-			api.modifyRsbuildConfig(async (config) => {
-				const log = createEnvLogger("auto-entry");
-				const { assetPath, assetExists } = await fileExistAsync("package.json");
+			// Entries only need to be discovered once, whichever environment asks first
+			let discovered: Promise<Record<string, string>> | undefined;
 
-				if (!assetExists) {
-					log.global.error("package.json not found in project root");
-					throw new Error("package.json not found in project root");
-				}
+			// Rsbuild only calls this for the plugin's own environment when the plugin belongs to a lib
+			api.modifyEnvironmentConfig(async (config, { name }) => {
+				discovered ??= discoverEntries(options, entrypoints, exportToOutputMap);
+				const entries = await discovered;
 
-				try {
-					const packageJsonContent = await readFile(assetPath, "utf-8");
-					const packageJson = JSON.parse(packageJsonContent) as PackageJson;
-
-					// Extract entries from package.json exports and bin fields
-					const { entries } = extractEntriesFromPackageJson(packageJson, {
-						exportsAsIndexes: options?.exportsAsIndexes,
-					});
-
-					// When exportsAsIndexes is enabled, build a mapping from export keys to output paths
-					if (options?.exportsAsIndexes && packageJson.exports) {
-						const exports = packageJson.exports;
-						if (typeof exports === "object" && !Array.isArray(exports)) {
-							// Iterate over package.json exports to map them to entry names
-							for (const pkgExportKey of Object.keys(exports)) {
-								// Skip package.json exports
-								if (pkgExportKey === "./package.json") continue;
-
-								// Normalize the export key for comparison
-								const normalizedExportKey = pkgExportKey.replace(/^\.\//, "");
-
-								// Find the matching entry
-								for (const [entryName] of Object.entries(entries)) {
-									// The entry name might be "vscode/settings/index" and export key is "./vscode/settings"
-									const normalizedEntryName = entryName.replace(/\/index$/, "");
-
-									// Match root export "." to "index" entry, or match normalized paths
-									if ((pkgExportKey === "." && entryName === "index") || normalizedExportKey === normalizedEntryName) {
-										// Map the export key to the output path (entry name with .js extension)
-										const outputPath = `./${entryName}.js`;
-										exportToOutputMap.set(pkgExportKey, outputPath);
-										break; // Found the match, move to next export
-									}
-								}
-							}
-						}
+				if (Object.keys(entries).length > 0) {
+					// Bundleless builds already compile every source module from their own entry globs
+					if (options?.bundle !== false) {
+						const entry = Object.fromEntries(
+							Object.entries(entries).filter(([entryName]) => options?.bin !== false || !entryName.startsWith("bin/")),
+						);
+						config.source = { ...config.source, entry };
 					}
 
-					// Populate the unified entrypoints Map for other plugins to use
-					for (const [entryName, sourcePath] of Object.entries(entries)) {
-						// Convert entry names to TypeScript output names with .ts extension
-						const outputName = `${entryName}.ts`;
-						entrypoints.set(outputName, sourcePath);
-					}
-
-					// JSON schema exports are no longer processed here - they should be generated via separate scripts
-
-					if (Object.keys(entries).length > 0) {
-						const environments = Object.entries(config?.environments ?? {});
-
-						// Apply entries to each environment
-						environments.forEach(([_env, lib]) => {
-							lib.source = {
-								...lib.source,
-								entry: {
-									...lib.source?.entry,
-									...entries,
-								},
-							};
-						});
-
-						// Log entries only once per build process
-						const state = buildStateMap.get(api);
-						if (state && !state.hasLoggedEntries) {
-							state.hasLoggedEntries = true;
-							environments.forEach(([env]) => {
-								const log = createEnvLogger(env);
-								log.entries("auto-detected entries", entries);
-							});
-						}
+					// Log entries only once per environment
+					const state = buildStateMap.get(api);
+					if (state && !state.loggedEnvironments.has(name)) {
+						state.loggedEnvironments.add(name);
+						createEnvLogger(name).entries("auto-detected entries", entries);
 					}
-					/* v8 ignore start - Hard to test JSON parsing errors */
-				} catch (error) {
-					log.global.error("failed to process package.json:", error);
 				}
-				/* v8 ignore stop */
 
 				return config;
 			});
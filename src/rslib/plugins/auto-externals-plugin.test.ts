@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import type { BundledModule } from "./auto-externals-plugin.js";
+import {
+	collectResources,
+	findBundledDependencies,
+	getBundledDependencyWarnings,
+	getPackageName,
+	getRuntimeDependencies,
+} from "./auto-externals-plugin.js";
+
+describe("getRuntimeDependencies", () => {
+	it("should collect dependencies, peerDependencies and optionalDependencies", () => {
+		const packageJson: PackageJson = {
+			name: "lib",
+			dependencies: { a: "^1.0.0" },
+			peerDependencies: { b: "^1.0.0" },
+			optionalDependencies: { c: "^1.0.0" },
+			devDependencies: { d: "^1.0.0" },
+		};
+
+		expect(getRuntimeDependencies(packageJson)).toEqual(new Set(["a", "b", "c"]));
+	});
+});
+
+describe("getPackageName", () => {
+	it("should read the package from the innermost node_modules directory", () => {
+		expect(getPackageName("/repo/node_modules/picocolors/picocolors.js")).toBe("picocolors");
+		expect(getPackageName("/repo/node_modules/.pnpm/a@1.0.0/node_modules/@scope/b/lib/index.js")).toBe("@scope/b");
+	});
+
+	it("should handle Windows paths", () => {
+		expect(getPackageName("C:\\repo\\node_modules\\lodash\\fp.js")).toBe("lodash");
+	});
+
+	it("should ignore files outside node_modules", () => {
+		expect(getPackageName("/repo/src/index.ts")).toBeUndefined();
+	});
+});
+
+describe("findBundledDependencies", () => {
+	it("should group bundled files of runtime dependencies by package", () => {
+		const bundled = findBundledDependencies(
+			[
+				"/repo/src/index.ts",
+				"/repo/node_modules/picocolors/picocolors.js",
+				"/repo/node_modules/lodash/fp.js",
+				"/repo/node_modules/lodash/map.js",
+				"/repo/node_modules/semver/index.js",
+			],
+			["picocolors", "lodash"],
+		);
+
+		expect(bundled).toEqual(
+			new Map([
+				["picocolors", ["/repo/node_modules/picocolors/picocolors.js"]],
+				["lodash", ["/repo/node_modules/lodash/fp.js", "/repo/node_modules/lodash/map.js"]],
+			]),
+		);
+	});
+
+	it("should return nothing when only devDependencies are bundled", () => {
+		expect(findBundledDependencies(["/repo/node_modules/semver/index.js"], ["picocolors"]).size).toBe(0);
+	});
+});
+
+describe("collectResources", () => {
+	const createModule = (resource: string | undefined, modules?: BundledModule[]): BundledModule => ({
+		nameForCondition: () => resource,
+		modules,
+	});
+
+	it("should include the modules merged into concatenated modules", () => {
+		const modules = [
+			createModule("/repo/src/index.ts", [
+				createModule("/repo/src/index.ts"),
+				createModule("/repo/node_modules/picocolors/picocolors.js"),
+			]),
+			createModule(undefined),
+			createModule("/repo/src/util.ts"),
+		];
+
+		expect(collectResources(modules, new Set())).toEqual(
+			new Set(["/repo/src/index.ts", "/repo/node_modules/picocolors/picocolors.js", "/repo/src/util.ts"]),
+		);
+	});
+});
+
+describe("getBundledDependencyWarnings", () => {
+	const createModule = (resource: string): BundledModule => ({ nameForCondition: () => resource });
+
+	it("should warn once per bundled runtime dependency", () => {
+		const modules = [
+			createModule("/repo/src/index.ts"),
+			createModule("/repo/node_modules/picocolors/picocolors.js"),
+			createModule("/repo/node_modules/picocolors/types.js"),
+			createModule("/repo/node_modules/semver/index.js"),
+		];
+
+		const warnings = getBundledDependencyWarnings(modules, { dependencies: { picocolors: "^1.0.0" } }, "/repo");
+
+		expect(warnings).toHaveLength(1);
+		expect(warnings[0]).toContain("picocolors");
+		expect(warnings[0]).toContain("bundled from node_modules/picocolors/picocolors.js and 1 more files");
+	});
+
+	it("should return nothing when no runtime dependency is bundled", () => {
+		expect(getBundledDependencyWarnings([createModule("/repo/src/index.ts")], {}, "/repo")).toEqual([]);
+	});
+});
@@ -0,0 +1,188 @@
+import { readFile } from "node:fs/promises";
+import { builtinModules } from "node:module";
+import { join, relative } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import type { PackageJson } from "../../types/package-json.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * Externals that keep every Node.js builtin out of the bundle, with or without the `node:` prefix.
+ *
+ * @internal
+ */
+export const NODE_BUILTIN_EXTERNALS: (string | RegExp)[] = [/^node:/, ...builtinModules];
+
+/**
+ * RSlib `autoExternal` settings: runtime dependency fields are external, `devDependencies` are bundled.
+ *
+ * @remarks
+ * RSlib matches each package name and every subpath below it (`lodash/fp`).
+ *
+ * @internal
+ */
+export const AUTO_EXTERNAL_DEPENDENCIES = {
+	dependencies: true,
+	peerDependencies: true,
+	optionalDependencies: true,
+	devDependencies: false,
+} as const;
+
+const RUNTIME_DEPENDENCY_FIELDS = ["dependencies", "peerDependencies", "optionalDependencies"] as const;
+
+/**
+ * Lists the packages a published package needs at runtime.
+ *
+ * @internal
+ */
+export function getRuntimeDependencies(packageJson: PackageJson): Set<string> {
+	return new Set(RUNTIME_DEPENDENCY_FIELDS.flatMap((field) => Object.keys(packageJson[field] ?? {})));
+}
+
+/**
+ * Finds the package a module file belongs to, from its innermost `node_modules` directory.
+ *
+ * @param resource - Absolute path of the module file
+ * @returns The package name, or undefined for files outside `node_modules`
+ *
+ * @internal
+ */
+export function getPackageName(resource: string): string | undefined {
+	const normalized = resource.replace(/\\/g, "/");
+	const index = normalized.lastIndexOf("/node_modules/");
+	if (index === -1) {
+		return undefined;
+	}
+	const [scopeOrName, name] = normalized.slice(index + "/node_modules/".length).split("/");
+	return scopeOrName.startsWith("@") && name ? `${scopeOrName}/${name}` : scopeOrName;
+}
+
+/**
+ * Groups bundled module files by the runtime dependency they come from.
+ *
+ * @param resources - Absolute paths of the bundled module files
+ * @param dependencies - Names of the runtime dependencies
+ * @returns The bundled files of each runtime dependency that was bundled
+ *
+ * @internal
+ */
+export function findBundledDependencies(
+	resources: Iterable<string>,
+	dependencies: Iterable<string>,
+): Map<string, string[]> {
+	const runtime = new Set(dependencies);
+	const bundled = new Map<string, string[]>();
+	for (const resource of resources) {
+		const name = getPackageName(resource);
+		if (name && runtime.has(name)) {
+			bundled.set(name, [...(bundled.get(name) ?? []), resource]);
+		}
+	}
+	return bundled;
+}
+
+/**
+ * Minimal shape of the rspack modules inspected by the plugin.
+ *
+ * @internal
+ */
+export interface BundledModule {
+	nameForCondition(): string | undefined;
+	/** Inner modules of a concatenated module */
+	modules?: BundledModule[];
+}
+
+/**
+ * Collects the file paths of modules, including the ones merged into concatenated modules.
+ *
+ * @internal
+ */
+export function collectResources(modules: Iterable<BundledModule>, resources: Set<string>): Set<string> {
+	for (const module of modules) {
+		if (module.modules) {
+			collectResources(module.modules, resources);
+		}
+		const resource = module.nameForCondition();
+		if (resource) {
+			resources.add(resource);
+		}
+	}
+	return resources;
+}
+
+/**
+ * Builds a warning for each runtime dependency bundled into a compilation.
+ *
+ * @param modules - Modules of the compilation
+ * @param packageJson - The source package.json
+ * @param rootPath - Project root, used to shorten the bundled file paths
+ * @returns One message per bundled runtime dependency
+ *
+ * @internal
+ */
+export function getBundledDependencyWarnings(
+	modules: Iterable<BundledModule>,
+	packageJson: PackageJson,
+	rootPath: string,
+): string[] {
+	const bundled = findBundledDependencies(
+		collectResources(modules, new Set<string>()),
+		getRuntimeDependencies(packageJson),
+	);
+	return Array.from(
+		bundled,
+		([name, files]) =>
+			`${color.yellow(name)} is a runtime dependency but was bundled from ${relative(rootPath, files[0])}${files.length > 1 ? ` and ${files.length - 1} more files` : ""}. Import it by package name, or move it to devDependencies to bundle it on purpose.`,
+	);
+}
+
+/**
+ * Plugin to warn when a runtime dependency is bundled instead of kept external.
+ *
+ * @remarks
+ * With `autoExternals`, every package in `dependencies`, `peerDependencies` and
+ * `optionalDependencies` is imported at runtime. A module from one of them can
+ * still be bundled, for example through a relative path into `node_modules` or
+ * a tsconfig path alias. The package would then ship twice: inlined in the
+ * bundle and installed as a dependency. This plugin logs a warning for each
+ * such package.
+ *
+ * @example
+ * ```typescript
+ * import { AutoExternalsPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [AutoExternalsPlugin()],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const AutoExternalsPlugin = (): RsbuildPlugin => {
+	return {
+		name: "auto-externals-plugin",
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "summarize",
+				},
+				async (context) => {
+					const packageJson = JSON.parse(
+						await readFile(join(api.context.rootPath, "package.json"), "utf-8"),
+					) as PackageJson;
+
+					const log = createEnvLogger(context.compilation.name || "unknown");
+					for (const warning of getBundledDependencyWarnings(
+						context.compilation.modules as unknown as Iterable<BundledModule>,
+						packageJson,
+						api.context.rootPath,
+					)) {
+						log.warn(`${color.dim("[auto-externals]")} ${warning}`);
+					}
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
@@ -0,0 +1,156 @@
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ProcessAssetsHandler } from "@rsbuild/core";
+import { rspack } from "@rsbuild/core";
+import { describe, expect, it, vi } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import {
+	addBinShebangs,
+	assertBinAssetsEmitted,
+	findLeadingShebang,
+	findMissingBinPaths,
+	makeBinsExecutable,
+	resolveBinAssets,
+} from "./bin-plugin.js";
+
+function createContext(assets: Record<string, string>): Parameters<ProcessAssetsHandler>[0] {
+	const compilation = {
+		assets: Object.fromEntries(
+			Object.entries(assets).map(([name, content]) => [name, new rspack.sources.RawSource(content)]),
+		),
+		updateAsset: vi.fn((name: string, source: unknown) => {
+			(compilation.assets as Record<string, unknown>)[name] = source;
+		}),
+	};
+	return { compilation, sources: rspack.sources } as unknown as Parameters<ProcessAssetsHandler>[0];
+}
+
+describe("resolveBinAssets", () => {
+	const packageJson: PackageJson = {
+		name: "lib",
+		exports: { ".": "./src/index.ts" },
+		bin: {
+			"my-cli": "./src/cli.ts",
+			"my-sh": "./scripts/run.sh",
+		},
+	};
+
+	it("should name bundled bin outputs after the command", () => {
+		expect(resolveBinAssets(packageJson)).toEqual(["bin/my-cli.js"]);
+	});
+
+	it("should use the mirrored source path in bundleless builds", () => {
+		expect(resolveBinAssets(packageJson, false)).toEqual(["cli.js"]);
+	});
+
+	it("should handle a string bin field", () => {
+		expect(resolveBinAssets({ name: "lib", bin: "./src/cli.ts" } as PackageJson)).toEqual(["bin/cli.js"]);
+	});
+
+	it("should return nothing without a bin field", () => {
+		expect(resolveBinAssets({ name: "lib", exports: "./src/index.ts" } as PackageJson)).toEqual([]);
+	});
+});
+
+describe("findLeadingShebang", () => {
+	it("should find a leading shebang including its line break", () => {
+		expect(findLeadingShebang("#!/usr/bin/env node\nrun();")).toEqual({ start: 0, end: 20 });
+	});
+
+	it("should find a shebang pushed below an injected banner", () => {
+		const content = '"use strict";\n/* banner */\n#!/usr/bin/env node\nrun();';
+
+		expect(findLeadingShebang(content)).toEqual({ start: 27, end: 47 });
+	});
+
+	it("should find a shebang on the last line", () => {
+		expect(findLeadingShebang("#!/usr/bin/env node")).toEqual({ start: 0, end: 19 });
+	});
+
+	it("should ignore shebang lines below code", () => {
+		expect(findLeadingShebang("run();\n#!/usr/bin/env node\n")).toBeUndefined();
+		expect(findLeadingShebang("const usage = `\n#!/usr/bin/env node\n`;")).toBeUndefined();
+	});
+
+	it("should ignore files without a shebang", () => {
+		expect(findLeadingShebang('const s = "#!/usr/bin/env node";')).toBeUndefined();
+	});
+});
+
+describe("findMissingBinPaths", () => {
+	it("should report bin paths without an emitted asset", () => {
+		const missing = findMissingBinPaths({ a: "./bin/a.js", b: "./bin/b.js" }, ["bin/a.js", "package.json"]);
+
+		expect(missing).toEqual(["./bin/b.js"]);
+	});
+
+	it("should handle a string bin field", () => {
+		expect(findMissingBinPaths("./bin/cli.js", ["bin/cli.js"])).toEqual([]);
+		expect(findMissingBinPaths("./bin/cli.js", [])).toEqual(["./bin/cli.js"]);
+	});
+
+	it("should accept a missing bin field", () => {
+		expect(findMissingBinPaths(undefined, [])).toEqual([]);
+	});
+});
+
+describe("addBinShebangs", () => {
+	it("should start each bin asset with exactly one shebang", () => {
+		const context = createContext({
+			"bin/a.js": "#!/usr/bin/env node\nrun();\n",
+			"bin/b.js": '"use strict";\n#!/usr/bin/env node\nrun();\n',
+			"index.js": "export {};\n",
+		});
+
+		expect(addBinShebangs(context, ["bin/a.js", "bin/b.js", "bin/missing.js"])).toEqual(["bin/a.js", "bin/b.js"]);
+		expect(context.compilation.assets["bin/a.js"].source().toString()).toBe("#!/usr/bin/env node\nrun();\n");
+		expect(context.compilation.assets["bin/b.js"].source().toString()).toBe(
+			'#!/usr/bin/env node\n"use strict";\nrun();\n',
+		);
+		expect(context.compilation.assets["index.js"].source().toString()).toBe("export {};\n");
+	});
+
+	it("should leave shebang lines inside template literals alone", () => {
+		const content = "#!/usr/bin/env node\nconst script = `\n#!/bin/sh\necho hi\n`;\n";
+		const context = createContext({ "bin/cli.js": content });
+
+		addBinShebangs(context, ["bin/cli.js"]);
+
+		expect(context.compilation.assets["bin/cli.js"].source().toString()).toBe(content);
+	});
+});
+
+describe("assertBinAssetsEmitted", () => {
+	it("should fail when a bin path has no emitted asset", () => {
+		const context = createContext({
+			"package.json": JSON.stringify({ bin: { a: "./bin/a.js", b: "./bin/b.js" } }),
+			"bin/a.js": "",
+		});
+
+		expect(() => assertBinAssetsEmitted(context)).toThrow("not emitted: ./bin/b.js");
+	});
+
+	it("should pass when every bin path is emitted or there is no package.json", () => {
+		expect(() =>
+			assertBinAssetsEmitted(createContext({ "package.json": '{"bin":"./bin/a.js"}', "bin/a.js": "" })),
+		).not.toThrow();
+		expect(() => assertBinAssetsEmitted(createContext({}))).not.toThrow();
+	});
+});
+
+describe("makeBinsExecutable", () => {
+	it("should set the mode of the written bin files", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "bin-plugin-test-"));
+		try {
+			const file = join(dir, "cli.js");
+			await writeFile(file, "", { mode: 0o644 });
+
+			await makeBinsExecutable(new Map([["npm", new Set([file])]]), dir);
+
+			expect((await stat(file)).mode & 0o777).toBe(0o755);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
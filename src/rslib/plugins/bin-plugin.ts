@@ -0,0 +1,259 @@
+import { chmod, readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import type { ProcessAssetsHandler, RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import type { PackageJson } from "../../types/package-json.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+import { extractEntriesFromPackageJson } from "./utils/entry-extractor.js";
+import { applyPublishConfigOverrides, transformExportPath } from "./utils/package-json-transformer.js";
+
+/**
+ * The shebang line every bin output starts with.
+ *
+ * @internal
+ */
+export const NODE_SHEBANG = "#!/usr/bin/env node";
+
+/**
+ * Options for the BinPlugin.
+ *
+ * @public
+ */
+export interface BinPluginOptions {
+	/**
+	 * Whether the JavaScript output is bundled.
+	 *
+	 * @remarks
+	 * Must match the build's `bundle` setting. Bundled bin entries are emitted
+	 * as `bin/<command>.js`; bundleless ones keep their mirrored source path.
+	 *
+	 * @defaultValue true
+	 */
+	bundle?: boolean;
+
+	/**
+	 * Whether `publishConfig.bin` replaces the top-level `bin` field.
+	 *
+	 * @remarks
+	 * Must match the `publishConfig` option of the AutoEntryPlugin that builds
+	 * the executables.
+	 *
+	 * @defaultValue false
+	 */
+	publishConfig?: boolean;
+}
+
+/**
+ * Resolves the emitted asset name of each TypeScript bin entry in package.json.
+ *
+ * @param packageJson - The source package.json
+ * @param bundle - Whether the build is in bundle mode
+ * @returns Asset names relative to the dist root (e.g., `["bin/my-cli.js"]`)
+ *
+ * @internal
+ */
+export function resolveBinAssets(packageJson: PackageJson, bundle: boolean = true): string[] {
+	const { entries } = extractEntriesFromPackageJson(packageJson);
+
+	return Object.entries(entries)
+		.filter(([entryName]) => entryName.startsWith("bin/"))
+		.map(([entryName, sourcePath]) =>
+			bundle ? `${entryName}.js` : transformExportPath(sourcePath, true, false).replace(/^\.\//, ""),
+		);
+}
+
+/**
+ * Matches the banner a bundler may inject above a shebang: whitespace,
+ * comments and a `"use strict"` directive.
+ */
+const SHEBANG_PREAMBLE = /^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|(["'])use strict\1;?)*/;
+
+/**
+ * Finds the character range of the shebang line at the start of a file.
+ *
+ * @remarks
+ * Depending on the source and the bundler's shims, a shebang may be missing,
+ * at the top, or pushed below an injected banner. Only a shebang preceded by
+ * nothing but that banner is found, so `#!` lines inside string and template
+ * literals are left alone. The range includes the line break.
+ *
+ * @internal
+ */
+export function findLeadingShebang(content: string): { start: number; end: number } | undefined {
+	const start = SHEBANG_PREAMBLE.exec(content)?.[0].length ?? 0;
+	if (!content.startsWith("#!", start) || (start > 0 && content[start - 1] !== "\n")) {
+		return undefined;
+	}
+	const lineEnd = content.indexOf("\n", start);
+	return { start, end: lineEnd === -1 ? content.length : lineEnd + 1 };
+}
+
+/**
+ * Finds `bin` paths in the output package.json that have no emitted asset.
+ *
+ * @param bin - The `bin` field of the output package.json
+ * @param assetNames - Names of all assets emitted by the compilation
+ * @returns The missing paths, as written in package.json
+ *
+ * @internal
+ */
+export function findMissingBinPaths(bin: PackageJson["bin"], assetNames: Iterable<string>): string[] {
+	if (!bin) {
+		return [];
+	}
+	const assets = new Set(assetNames);
+	const paths = typeof bin === "string" ? [bin] : Object.values(bin).filter((path) => typeof path === "string");
+	return paths.filter((path) => !assets.has(path.replace(/^\.\//, "")));
+}
+
+/**
+ * Makes each bin asset start with exactly one `#!/usr/bin/env node` line.
+ *
+ * @remarks
+ * An existing shebang at the start of the asset, or below an injected banner,
+ * is removed. The assets are edited as sources, so their source maps stay aligned.
+ *
+ * @param context - The Rsbuild compilation context
+ * @param assetNames - Bin asset names, see {@link resolveBinAssets}
+ * @returns The names of the bin assets found in the compilation
+ *
+ * @internal
+ */
+export function addBinShebangs(context: Parameters<ProcessAssetsHandler>[0], assetNames: string[]): string[] {
+	const updated: string[] = [];
+	for (const assetName of assetNames) {
+		const asset = context.compilation.assets[assetName];
+		if (!asset) {
+			continue;
+		}
+
+		const content = asset.source().toString();
+		const source = new context.sources.ReplaceSource(asset);
+		const shebang = findLeadingShebang(content);
+		if (shebang) {
+			source.replace(shebang.start, shebang.end - 1, "");
+		}
+		context.compilation.updateAsset(assetName, new context.sources.ConcatSource(`${NODE_SHEBANG}\n`, source));
+		updated.push(assetName);
+	}
+	return updated;
+}
+
+/**
+ * Fails when a `bin` path of the output package.json has no emitted asset.
+ *
+ * @param context - The Rsbuild compilation context
+ * @throws Error listing the missing paths
+ *
+ * @internal
+ */
+export function assertBinAssetsEmitted(context: Parameters<ProcessAssetsHandler>[0]): void {
+	const packageJsonAsset = context.compilation.assets["package.json"];
+	if (!packageJsonAsset) {
+		return;
+	}
+
+	const { bin } = JSON.parse(packageJsonAsset.source().toString()) as PackageJson;
+	const missing = findMissingBinPaths(bin, Object.keys(context.compilation.assets));
+	if (missing.length > 0) {
+		throw new Error(
+			`package.json bin points at files that were not emitted: ${missing.join(", ")}. Check the bin field and your entry points.`,
+		);
+	}
+}
+
+/**
+ * Sets the mode of written bin files to `0755`.
+ *
+ * @param executables - Absolute paths of the written bin files by environment
+ * @param rootPath - Project root, used to shorten the logged paths
+ *
+ * @internal
+ */
+export async function makeBinsExecutable(executables: Map<string, Set<string>>, rootPath: string): Promise<void> {
+	for (const [envId, files] of executables) {
+		for (const file of files) {
+			await chmod(file, 0o755);
+		}
+		createEnvLogger(envId).fileOp(
+			"made executable",
+			Array.from(files, (file) => relative(rootPath, file)),
+		);
+	}
+}
+
+/**
+ * Plugin to make bin entries runnable from the published package.
+ *
+ * @remarks
+ * Finds bin outputs from the same EntryExtractor bin entries that drive the
+ * JavaScript entries, then:
+ *
+ * - Makes each one start with exactly one `#!/usr/bin/env node` line, whether
+ *   or not the source kept its shebang
+ * - Sets the emitted file's mode to `0755`
+ * - Fails the build when a `bin` path in the output package.json has no
+ *   emitted asset
+ *
+ * The shebang is added before source maps are generated, so dev maps stay aligned.
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { BinPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [BinPlugin()],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const BinPlugin = (options: BinPluginOptions = {}): RsbuildPlugin => {
+	const { bundle = true, publishConfig = false } = options;
+
+	return {
+		name: "bin-plugin",
+		setup(api: RsbuildPluginAPI): void {
+			// Written files per environment, made executable after the build
+			const executables = new Map<string, Set<string>>();
+
+			api.processAssets(
+				{
+					stage: "optimize",
+				},
+				async (context) => {
+					const sourcePackageJson = JSON.parse(
+						await readFile(join(api.context.rootPath, "package.json"), "utf-8"),
+					) as PackageJson;
+					const packageJson = publishConfig ? applyPublishConfigOverrides(sourcePackageJson) : sourcePackageJson;
+					const updated = addBinShebangs(context, resolveBinAssets(packageJson, bundle));
+					if (updated.length === 0) {
+						return;
+					}
+
+					const envId = context.compilation.name || "unknown";
+					const outputPath = context.compilation.outputOptions.path ?? join(api.context.rootPath, "dist");
+					const files = executables.get(envId) ?? new Set<string>();
+					for (const assetName of updated) {
+						files.add(join(outputPath, assetName));
+					}
+					executables.set(envId, files);
+				},
+			);
+
+			// The output package.json is final once every transform has run
+			api.processAssets(
+				{
+					stage: "summarize",
+				},
+				(context) => assertBinAssetsEmitted(context),
+			);
+
+			// File modes can only be set once the assets are written to disk
+			api.onAfterBuild(() => makeBinsExecutable(executables, api.context.rootPath));
+		},
+	};
+};
+/* v8 ignore stop */
@@ -0,0 +1,214 @@
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rspack } from "@rsbuild/core";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	BUILD_INFO_DECLARATION,
+	BUILD_INFO_MODULE,
+	createBuildInfoModule,
+	createBuildInfoRspackPlugins,
+	findGitDir,
+	readGitInfo,
+	resolveBuildInfo,
+	resolveBuildTimestamp,
+	updateBuildInfoDeclaration,
+	writeBuildInfoDeclaration,
+} from "./build-info-plugin.js";
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+// Track created test directories for cleanup
+const testDirs: string[] = [];
+
+async function createTestDir(files: Record<string, string> = {}): Promise<string> {
+	const dir = join(tmpdir(), `build-info-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+	testDirs.push(dir);
+	await mkdir(dir, { recursive: true });
+	for (const [file, content] of Object.entries(files)) {
+		await mkdir(join(dir, file, ".."), { recursive: true });
+		await writeFile(join(dir, file), content);
+	}
+	return dir;
+}
+
+describe("build-info-plugin", () => {
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	describe("resolveBuildTimestamp", () => {
+		it("should pin the timestamp from SOURCE_DATE_EPOCH", () => {
+			expect(resolveBuildTimestamp(false, { SOURCE_DATE_EPOCH: "1700000000" })).toBe("2023-11-14T22:13:20.000Z");
+			expect(resolveBuildTimestamp(true, { SOURCE_DATE_EPOCH: "0" })).toBe("1970-01-01T00:00:00.000Z");
+		});
+
+		it("should use the current time without SOURCE_DATE_EPOCH", () => {
+			const before = Date.now();
+			const timestamp = Date.parse(resolveBuildTimestamp(false, {}));
+
+			expect(timestamp).toBeGreaterThanOrEqual(before);
+			expect(timestamp).toBeLessThanOrEqual(Date.now());
+		});
+
+		it("should require SOURCE_DATE_EPOCH in reproducible mode", () => {
+			expect(() => resolveBuildTimestamp(true, {})).toThrow("requires SOURCE_DATE_EPOCH");
+			expect(() => resolveBuildTimestamp(true, { SOURCE_DATE_EPOCH: "" })).toThrow("requires SOURCE_DATE_EPOCH");
+		});
+
+		it("should reject a SOURCE_DATE_EPOCH that is not a number of seconds", () => {
+			expect(() => resolveBuildTimestamp(false, { SOURCE_DATE_EPOCH: "2024-01-01" })).toThrow(
+				'SOURCE_DATE_EPOCH must be a number of seconds, got "2024-01-01"',
+			);
+		});
+	});
+
+	describe("findGitDir", () => {
+		it("should find the .git directory of a parent directory", async () => {
+			const dir = await createTestDir({ ".git/HEAD": "ref: refs/heads/main\n", "packages/lib/package.json": "{}" });
+
+			expect(await findGitDir(join(dir, "packages", "lib"))).toBe(join(dir, ".git"));
+		});
+
+		it("should follow gitdir files", async () => {
+			const dir = await createTestDir({ ".git": "gitdir: ../repo/.git/worktrees/feature\n" });
+
+			expect(await findGitDir(dir)).toBe(join(dir, "..", "repo", ".git", "worktrees", "feature"));
+		});
+	});
+
+	describe("readGitInfo", () => {
+		it("should read the commit and branch from a loose ref", async () => {
+			const dir = await createTestDir({
+				".git/HEAD": "ref: refs/heads/feat/build-info\n",
+				".git/refs/heads/feat/build-info": `${SHA}\n`,
+			});
+
+			expect(await readGitInfo(dir)).toEqual({ commit: SHA, branch: "feat/build-info" });
+		});
+
+		it("should fall back to packed refs", async () => {
+			const dir = await createTestDir({
+				".git/HEAD": "ref: refs/heads/main\n",
+				".git/packed-refs": `# pack-refs with: peeled fully-peeled sorted\n${SHA} refs/heads/main\n`,
+			});
+
+			expect(await readGitInfo(dir)).toEqual({ commit: SHA, branch: "main" });
+		});
+
+		it("should return only the commit for a detached HEAD", async () => {
+			const dir = await createTestDir({ ".git/HEAD": `${SHA}\n` });
+
+			expect(await readGitInfo(dir)).toEqual({ commit: SHA });
+		});
+
+		it("should return only the branch before the first commit", async () => {
+			const dir = await createTestDir({ ".git/HEAD": "ref: refs/heads/main\n" });
+
+			expect(await readGitInfo(dir)).toEqual({ branch: "main" });
+		});
+
+		it("should read refs from the common directory of a worktree", async () => {
+			const dir = await createTestDir({
+				"repo/.git/refs/heads/feature": `${SHA}\n`,
+				"repo/.git/worktrees/feature/HEAD": "ref: refs/heads/feature\n",
+				"repo/.git/worktrees/feature/commondir": "../..\n",
+				"feature/.git": "gitdir: ../repo/.git/worktrees/feature\n",
+			});
+
+			expect(await readGitInfo(join(dir, "feature"))).toEqual({ commit: SHA, branch: "feature" });
+		});
+	});
+
+	describe("resolveBuildInfo", () => {
+		it("should combine package.json, target, timestamp and git state", async () => {
+			const dir = await createTestDir({
+				"package.json": JSON.stringify({ name: "@scope/lib", version: "1.2.3" }),
+				".git/HEAD": `${SHA}\n`,
+			});
+
+			const info = await resolveBuildInfo(dir, { target: "npm" });
+
+			expect(info).toMatchObject({ name: "@scope/lib", version: "1.2.3", target: "npm", commit: SHA });
+			expect(info.branch).toBeUndefined();
+			expect(Number.isNaN(Date.parse(info.timestamp))).toBe(false);
+		});
+	});
+
+	describe("createBuildInfoModule", () => {
+		it("should export every value, leaving missing git state undefined", () => {
+			const source = createBuildInfoModule({
+				name: "lib",
+				version: "1.0.0",
+				target: "dev",
+				timestamp: "2023-11-14T22:13:20.000Z",
+				commit: SHA,
+			});
+
+			expect(source).toBe(
+				[
+					'export const name = "lib";',
+					'export const version = "1.0.0";',
+					'export const target = "dev";',
+					'export const timestamp = "2023-11-14T22:13:20.000Z";',
+					`export const commit = "${SHA}";`,
+					"export const branch = undefined;",
+					"",
+				].join("\n"),
+			);
+		});
+	});
+
+	describe("BUILD_INFO_DECLARATION", () => {
+		it("should declare every exported value", () => {
+			expect(BUILD_INFO_DECLARATION).toContain(`declare module "${BUILD_INFO_MODULE}"`);
+			for (const key of ["name", "version", "target", "timestamp", "commit", "branch"]) {
+				expect(BUILD_INFO_DECLARATION).toContain(`export const ${key}:`);
+			}
+		});
+	});
+
+	describe("writeBuildInfoDeclaration", () => {
+		it("should create and update the file", async () => {
+			const dir = await createTestDir({ "src/legacy.d.ts": "declare module 'virtual:build-info';\n" });
+
+			expect(await writeBuildInfoDeclaration(dir, "src/types/build-info.d.ts")).toBe("created");
+			expect(await readFile(join(dir, "src/types/build-info.d.ts"), "utf-8")).toBe(BUILD_INFO_DECLARATION);
+			expect(await writeBuildInfoDeclaration(dir, join(dir, "src/legacy.d.ts"))).toBe("updated");
+			expect(await readFile(join(dir, "src/legacy.d.ts"), "utf-8")).toBe(BUILD_INFO_DECLARATION);
+		});
+
+		it("should leave an up to date file alone", async () => {
+			const dir = await createTestDir({ "src/build-info.d.ts": BUILD_INFO_DECLARATION });
+			const { mtimeMs } = await stat(join(dir, "src/build-info.d.ts"));
+
+			await new Promise((resolve) => setTimeout(resolve, 20));
+
+			expect(await writeBuildInfoDeclaration(dir, "src/build-info.d.ts")).toBe("unchanged");
+			expect((await stat(join(dir, "src/build-info.d.ts"))).mtimeMs).toBe(mtimeMs);
+		});
+	});
+
+	describe("updateBuildInfoDeclaration", () => {
+		it("should write the declarations", async () => {
+			const dir = await createTestDir();
+
+			await updateBuildInfoDeclaration(dir, "src/build-info.d.ts", "npm");
+			await updateBuildInfoDeclaration(dir, "src/build-info.d.ts", "npm");
+
+			expect(await readFile(join(dir, "src/build-info.d.ts"), "utf-8")).toBe(BUILD_INFO_DECLARATION);
+		});
+	});
+
+	describe("createBuildInfoRspackPlugins", () => {
+		it("should serve a virtual module per environment", () => {
+			const info = { name: "lib", version: "1.0.0", target: "npm", timestamp: "2024-01-01T00:00:00.000Z" };
+
+			const [virtualModules, replacement] = createBuildInfoRspackPlugins(rspack, "/project", "npm", info);
+
+			expect(virtualModules).toBeInstanceOf(rspack.experiments.VirtualModulesPlugin);
+			expect(replacement).toBeInstanceOf(rspack.NormalModuleReplacementPlugin);
+		});
+	});
+});
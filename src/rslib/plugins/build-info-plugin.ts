@@ -0,0 +1,372 @@
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import type { ModifyRspackConfigUtils, RsbuildPlugin, RsbuildPluginAPI, Rspack } from "@rsbuild/core";
+import type { PackageJson } from "../../types/package-json.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * Import specifier of the build info module.
+ *
+ * @internal
+ */
+export const BUILD_INFO_MODULE = "virtual:build-info";
+
+/**
+ * Type declarations of the build info module.
+ *
+ * @internal
+ */
+export const BUILD_INFO_DECLARATION = `// Generated by @savvy-web/rslib-builder. Do not edit.
+declare module "${BUILD_INFO_MODULE}" {
+	/** Package name from package.json */
+	export const name: string;
+	/** Package version from package.json */
+	export const version: string;
+	/** Build target the output was built for */
+	export const target: string;
+	/** Build time as an ISO 8601 string */
+	export const timestamp: string;
+	/** Git commit SHA, when built from a git checkout */
+	export const commit: string | undefined;
+	/** Git branch, when built from a checked out branch */
+	export const branch: string | undefined;
+}
+`;
+
+/**
+ * Options for the BuildInfoPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { BuildInfoPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [BuildInfoPlugin({ target: 'npm', reproducible: true })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface BuildInfoPluginOptions {
+	/**
+	 * Build target name exposed as `target`.
+	 */
+	target: string;
+
+	/**
+	 * Require the build time to come from `SOURCE_DATE_EPOCH`.
+	 *
+	 * @remarks
+	 * `SOURCE_DATE_EPOCH` is honored whenever it is set. In reproducible mode
+	 * the build fails when it is missing, instead of using the current time.
+	 *
+	 * @defaultValue false
+	 */
+	reproducible?: boolean;
+
+	/**
+	 * Where to write the type declarations of `virtual:build-info`, relative to the project root.
+	 *
+	 * @remarks
+	 * The file is written into the source tree, so it has to be committed or
+	 * listed in `.gitignore`. It is only rewritten when the module's shape
+	 * changes, and must be covered by the tsconfig `include`. Set to `false`
+	 * to skip writing it and declare the module yourself.
+	 *
+	 * @defaultValue "src/build-info.d.ts"
+	 */
+	declarationPath?: string | false;
+}
+
+/**
+ * Values exposed by the build info module.
+ *
+ * @internal
+ */
+export interface BuildInfo {
+	name: string;
+	version: string;
+	target: string;
+	timestamp: string;
+	commit?: string;
+	branch?: string;
+}
+
+/**
+ * Git state of a checkout.
+ *
+ * @internal
+ */
+export interface GitInfo {
+	/** SHA of the checked out commit */
+	commit?: string;
+	/** Checked out branch, unset for a detached HEAD */
+	branch?: string;
+}
+
+/**
+ * Resolves the build time, honoring `SOURCE_DATE_EPOCH`.
+ *
+ * @param reproducible - Whether `SOURCE_DATE_EPOCH` is required
+ * @param env - Environment variables to read
+ * @returns The build time as an ISO 8601 string
+ *
+ * @throws When `SOURCE_DATE_EPOCH` is not a number, or missing in reproducible mode
+ *
+ * @internal
+ */
+export function resolveBuildTimestamp(
+	reproducible: boolean,
+	env: Record<string, string | undefined> = process.env,
+): string {
+	const epoch = env.SOURCE_DATE_EPOCH;
+	if (epoch === undefined || epoch === "") {
+		if (reproducible) {
+			throw new Error("Reproducible build info requires SOURCE_DATE_EPOCH to be set");
+		}
+		return new Date().toISOString();
+	}
+	if (!/^\d+$/.test(epoch)) {
+		throw new Error(`SOURCE_DATE_EPOCH must be a number of seconds, got "${epoch}"`);
+	}
+	return new Date(Number(epoch) * 1000).toISOString();
+}
+
+/**
+ * Finds the git directory of the checkout containing a directory.
+ *
+ * @remarks
+ * Walks up from `cwd`, so packages inside a monorepo find the repository
+ * root. Follows `.git` files (`gitdir: ...`) used by worktrees and submodules.
+ *
+ * @internal
+ */
+export async function findGitDir(cwd: string): Promise<string | undefined> {
+	let dir = resolve(cwd);
+	while (true) {
+		const gitPath = join(dir, ".git");
+		const stats = await stat(gitPath).catch(() => undefined);
+		if (stats?.isDirectory()) {
+			return gitPath;
+		}
+		if (stats?.isFile()) {
+			const match = /^gitdir:\s*(.+)$/m.exec(await readFile(gitPath, "utf-8"));
+			if (match) {
+				const gitDir = match[1].trim();
+				return isAbsolute(gitDir) ? gitDir : join(dir, gitDir);
+			}
+		}
+		const parent = dirname(dir);
+		if (parent === dir) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * Reads the checked out commit and branch from the local `.git` directory.
+ *
+ * @remarks
+ * Reads the git files directly, without running git. Loose refs win over
+ * `packed-refs`. Returns an empty object outside a git checkout.
+ *
+ * @internal
+ */
+export async function readGitInfo(cwd: string): Promise<GitInfo> {
+	const gitDir = await findGitDir(cwd);
+	if (!gitDir) {
+		return {};
+	}
+	const head = (await readFile(join(gitDir, "HEAD"), "utf-8").catch(() => "")).trim();
+	if (!head.startsWith("ref:")) {
+		return head ? { commit: head } : {};
+	}
+
+	const ref = head.slice("ref:".length).trim();
+	const branch = ref.replace(/^refs\/heads\//, "");
+	// Worktrees keep HEAD in their own directory and share refs with the main checkout
+	const commonDir = await readFile(join(gitDir, "commondir"), "utf-8").then(
+		(content) => resolve(gitDir, content.trim()),
+		() => gitDir,
+	);
+
+	const looseRef = await readFile(join(commonDir, ref), "utf-8").catch(() => undefined);
+	if (looseRef) {
+		return { commit: looseRef.trim(), branch };
+	}
+	const packedRefs = await readFile(join(commonDir, "packed-refs"), "utf-8").catch(() => "");
+	const packed = packedRefs
+		.split("\n")
+		.map((line) => line.trim().split(" "))
+		.find(([, name]) => name === ref);
+	// A new branch has no commit yet
+	return packed ? { commit: packed[0], branch } : { branch };
+}
+
+/**
+ * Resolves the values of the build info module for a package.
+ *
+ * @internal
+ */
+export async function resolveBuildInfo(
+	rootPath: string,
+	options: Pick<BuildInfoPluginOptions, "target" | "reproducible">,
+): Promise<BuildInfo> {
+	const { name = "", version = "" } = JSON.parse(
+		await readFile(join(rootPath, "package.json"), "utf-8"),
+	) as PackageJson;
+	return {
+		name,
+		version,
+		target: options.target,
+		timestamp: resolveBuildTimestamp(options.reproducible ?? false),
+		...(await readGitInfo(rootPath)),
+	};
+}
+
+/**
+ * Generates the source of the build info module.
+ *
+ * @internal
+ */
+export function createBuildInfoModule(info: BuildInfo): string {
+	const values = {
+		name: info.name,
+		version: info.version,
+		target: info.target,
+		timestamp: info.timestamp,
+		commit: info.commit,
+		branch: info.branch,
+	};
+	return Object.entries(values)
+		.map(([key, value]) => `export const ${key} = ${value === undefined ? "undefined" : JSON.stringify(value)};\n`)
+		.join("");
+}
+
+/**
+ * Writes the type declarations of the build info module, unless the file already has them.
+ *
+ * @param rootPath - Project root
+ * @param declarationPath - Declaration file path, relative to the project root
+ * @returns Whether the file was created, updated or left unchanged
+ *
+ * @internal
+ */
+export async function writeBuildInfoDeclaration(
+	rootPath: string,
+	declarationPath: string,
+): Promise<"created" | "updated" | "unchanged"> {
+	const outputPath = isAbsolute(declarationPath) ? declarationPath : join(rootPath, declarationPath);
+	const current = await readFile(outputPath, "utf-8").catch(() => undefined);
+	if (current === BUILD_INFO_DECLARATION) {
+		return "unchanged";
+	}
+	await mkdir(dirname(outputPath), { recursive: true });
+	await writeFile(outputPath, BUILD_INFO_DECLARATION);
+	return current === undefined ? "created" : "updated";
+}
+
+/**
+ * Creates the Rspack plugins that serve the build info module to one environment.
+ *
+ * @remarks
+ * Each environment gets its own virtual file, so libs building side by side
+ * never share a module. Rspack reads `virtual:` as a URI scheme, so the
+ * request is replaced before resolution.
+ *
+ * @param rspack - The Rspack instance of the build
+ * @param rootPath - Project root
+ * @param environmentName - Name of the Rsbuild environment
+ * @param info - Values of the module
+ *
+ * @internal
+ */
+export function createBuildInfoRspackPlugins(
+	rspack: ModifyRspackConfigUtils["rspack"],
+	rootPath: string,
+	environmentName: string,
+	info: BuildInfo,
+): Rspack.RspackPluginInstance[] {
+	const modulePath = join(rootPath, "node_modules", ".virtual", `build-info.${environmentName}.js`);
+	return [
+		new rspack.experiments.VirtualModulesPlugin({ [modulePath]: createBuildInfoModule(info) }),
+		new rspack.NormalModuleReplacementPlugin(new RegExp(`^${BUILD_INFO_MODULE}$`), modulePath),
+	];
+}
+
+/**
+ * Writes the type declarations of the build info module and logs any change.
+ *
+ * @param rootPath - Project root
+ * @param declarationPath - Declaration file path, relative to the project root
+ * @param environmentName - Name of the Rsbuild environment, used for logging
+ *
+ * @internal
+ */
+export async function updateBuildInfoDeclaration(
+	rootPath: string,
+	declarationPath: string,
+	environmentName: string,
+): Promise<void> {
+	const written = await writeBuildInfoDeclaration(rootPath, declarationPath);
+	if (written === "created") {
+		createEnvLogger(environmentName).fileOp("wrote build info types (commit the file or add it to .gitignore)", [
+			declarationPath,
+		]);
+	} else if (written === "updated") {
+		createEnvLogger(environmentName).fileOp("updated build info types", [declarationPath]);
+	}
+}
+
+/**
+ * Plugin to provide a typed `virtual:build-info` module.
+ *
+ * @remarks
+ * Source files can import the package name, version, build target, build
+ * time, and git commit and branch:
+ *
+ * ```typescript
+ * import { commit, name, version } from 'virtual:build-info';
+ * ```
+ *
+ * The values are resolved once per plugin instance, so every lib sharing the
+ * instance, such as both halves of a dual format build, gets the same build
+ * time. The git state is read from the local `.git` directory. Type
+ * declarations are written into the source tree at `declarationPath`, only
+ * when the file is missing or out of date.
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { BuildInfoPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [BuildInfoPlugin({ target: 'npm' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const BuildInfoPlugin = (options: BuildInfoPluginOptions): RsbuildPlugin => {
+	const { declarationPath = "src/build-info.d.ts" } = options;
+	let buildInfo: Promise<BuildInfo> | undefined;
+
+	return {
+		name: "build-info-plugin",
+		setup(api: RsbuildPluginAPI): void {
+			api.modifyRspackConfig(async (config, { environment, rspack }) => {
+				buildInfo ??= resolveBuildInfo(api.context.rootPath, options);
+				config.plugins.push(
+					...createBuildInfoRspackPlugins(rspack, api.context.rootPath, environment.name, await buildInfo),
+				);
+				if (declarationPath) {
+					await updateBuildInfoDeclaration(api.context.rootPath, declarationPath, environment.name);
+				}
+			});
+		},
+	};
+};
+/* v8 ignore stop */
@@ -0,0 +1,214 @@
+import type { ProcessAssetsHandler } from "@rsbuild/core";
+import { describe, expect, it } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import type { DependencyUsage } from "./dependency-report-plugin.js";
+import {
+	analyzeDependencies,
+	collectDependencyUsage,
+	formatDependencyReport,
+	getImportedPackage,
+	getTypesPackageName,
+	reportDependencies,
+} from "./dependency-report-plugin.js";
+
+describe("getImportedPackage", () => {
+	it("should return the package of bare specifiers", () => {
+		expect(getImportedPackage("picocolors")).toBe("picocolors");
+		expect(getImportedPackage("lodash/fp")).toBe("lodash");
+		expect(getImportedPackage("@rsbuild/core")).toBe("@rsbuild/core");
+		expect(getImportedPackage("@scope/pkg/sub/path.js")).toBe("@scope/pkg");
+	});
+
+	it("should ignore relative paths, subpath imports and URLs", () => {
+		expect(getImportedPackage("./utils.js")).toBeUndefined();
+		expect(getImportedPackage("../index.js")).toBeUndefined();
+		expect(getImportedPackage("/abs/path.js")).toBeUndefined();
+		expect(getImportedPackage("#internal")).toBeUndefined();
+		expect(getImportedPackage("data:text/javascript,")).toBeUndefined();
+	});
+
+	it("should ignore Node.js builtins with and without prefix", () => {
+		expect(getImportedPackage("node:fs")).toBeUndefined();
+		expect(getImportedPackage("path")).toBeUndefined();
+		expect(getImportedPackage("fs/promises")).toBeUndefined();
+	});
+});
+
+describe("getTypesPackageName", () => {
+	it("should map packages to their DefinitelyTyped name", () => {
+		expect(getTypesPackageName("node")).toBe("@types/node");
+		expect(getTypesPackageName("@scope/pkg")).toBe("@types/scope__pkg");
+	});
+});
+
+describe("collectDependencyUsage", () => {
+	const createUsage = (): DependencyUsage => ({ runtime: new Set(), types: new Set() });
+
+	it("should collect ESM, CommonJS and dynamic imports from JavaScript", () => {
+		const usage = createUsage();
+		collectDependencyUsage(
+			"index.js",
+			[
+				'import * as __WEBPACK_EXTERNAL_MODULE_picocolors__ from "picocolors";',
+				'import { readFile } from "node:fs/promises";',
+				'export { x } from "./x.js";',
+				'const load = () => import("@scope/lazy");',
+			].join("\n"),
+			usage,
+		);
+		collectDependencyUsage("index.cjs", 'const semver = require("semver/functions/gt");', usage);
+
+		expect(usage.runtime).toEqual(new Set(["picocolors", "@scope/lazy", "semver"]));
+		expect(usage.types).toEqual(new Set());
+	});
+
+	it("should collect imports and type references from declarations", () => {
+		const usage = createUsage();
+		collectDependencyUsage(
+			"index.d.ts",
+			['/// <reference types="node" />', 'import type { RsbuildPlugin } from "@rsbuild/core";'].join("\n"),
+			usage,
+		);
+
+		expect(usage.types).toEqual(new Set(["@types/node", "@rsbuild/core"]));
+		expect(usage.runtime).toEqual(new Set());
+	});
+
+	it("should skip other files", () => {
+		const usage = createUsage();
+		collectDependencyUsage("index.js.map", 'import "picocolors";', usage);
+		collectDependencyUsage("package.json", '{"name":"lib"}', usage);
+
+		expect(usage).toEqual(createUsage());
+	});
+});
+
+describe("analyzeDependencies", () => {
+	const createPackageJson = (): PackageJson => ({
+		name: "lib",
+		dependencies: { picocolors: "^1.0.0", semver: "^7.0.0" },
+		peerDependencies: { "@rsbuild/core": "^1.0.0" },
+		devDependencies: { vitest: "^4.0.0", typescript: "^5.0.0" },
+	});
+
+	it("should accept a package whose dependencies match its imports", () => {
+		const usage = { runtime: new Set(["picocolors", "@rsbuild/core"]), types: new Set(["semver"]) };
+
+		expect(analyzeDependencies(createPackageJson(), usage)).toEqual([]);
+	});
+
+	it("should report unused dependencies", () => {
+		const usage = { runtime: new Set(["picocolors"]), types: new Set<string>() };
+
+		expect(analyzeDependencies(createPackageJson(), usage)).toEqual([
+			{ kind: "unused", name: "semver", message: "semver is in dependencies but never imported by the output" },
+		]);
+	});
+
+	it("should report missing and misplaced runtime imports", () => {
+		const usage = {
+			runtime: new Set(["picocolors", "semver", "vitest", "chalk"]),
+			types: new Set(["semver"]),
+		};
+
+		expect(analyzeDependencies(createPackageJson(), usage)).toEqual([
+			{
+				kind: "missing",
+				name: "chalk",
+				message: "chalk is imported at runtime but not declared as a dependency",
+			},
+			{
+				kind: "misplaced",
+				name: "vitest",
+				message: "vitest is imported at runtime but only listed in devDependencies",
+			},
+		]);
+	});
+
+	it("should report missing and misplaced imports of the declarations", () => {
+		const pkg = createPackageJson();
+		pkg.devDependencies = { typescript: "^5.0.0", "@types/express": "^5.0.0", "@types/node": "^24.0.0" };
+		const usage = {
+			runtime: new Set(["picocolors", "semver", "@rsbuild/core"]),
+			types: new Set(["semver", "typescript", "express", "type-fest", "@types/node"]),
+		};
+
+		expect(analyzeDependencies(pkg, usage)).toEqual([
+			{
+				kind: "misplaced",
+				name: "express",
+				message: "express is imported by the declarations but only listed in devDependencies",
+			},
+			{
+				kind: "missing",
+				name: "type-fest",
+				message: "type-fest is imported by the declarations but not declared as a dependency",
+			},
+			{
+				kind: "misplaced",
+				name: "typescript",
+				message: "typescript is imported by the declarations but only listed in devDependencies",
+			},
+		]);
+	});
+
+	it("should accept declaration imports covered by an @types dependency", () => {
+		const pkg: PackageJson = { name: "lib", dependencies: { "@types/express": "^5.0.0" } };
+
+		expect(analyzeDependencies(pkg, { runtime: new Set(), types: new Set(["express"]) })).toEqual([]);
+	});
+
+	it("should count @types packages as used when their package is imported", () => {
+		const pkg: PackageJson = { name: "lib", dependencies: { "@types/semver": "^7.0.0", semver: "^7.0.0" } };
+
+		expect(analyzeDependencies(pkg, { runtime: new Set(["semver"]), types: new Set() })).toEqual([]);
+	});
+
+	it("should skip ignored packages and self-references", () => {
+		const usage = { runtime: new Set(["picocolors", "lib", "chalk"]), types: new Set<string>() };
+
+		expect(analyzeDependencies(createPackageJson(), usage, ["semver", "chalk"])).toEqual([]);
+	});
+});
+
+describe("formatDependencyReport", () => {
+	it("should include the kind and message of each issue", () => {
+		const formatted = formatDependencyReport([
+			{ kind: "unused", name: "semver", message: "semver is in dependencies but never imported by the output" },
+		]);
+
+		expect(formatted).toContain("unused");
+		expect(formatted).toContain("semver is in dependencies but never imported by the output");
+	});
+});
+
+describe("reportDependencies", () => {
+	const createContext = (assets: Record<string, string>): Parameters<ProcessAssetsHandler>[0] =>
+		({
+			compilation: {
+				name: "npm",
+				assets: Object.fromEntries(Object.entries(assets).map(([name, content]) => [name, { source: () => content }])),
+			},
+		}) as unknown as Parameters<ProcessAssetsHandler>[0];
+	const assets = {
+		"package.json": JSON.stringify({ name: "lib", dependencies: { picocolors: "^1.0.0" } }),
+		"index.js": 'import color from "picocolors";\nimport semver from "semver";',
+	};
+
+	it("should check the output imports against the output package.json and source devDependencies", () => {
+		expect(reportDependencies(createContext(assets), { semver: "^7.0.0" })).toEqual([
+			expect.objectContaining({ kind: "misplaced", name: "semver" }),
+		]);
+	});
+
+	it("should throw with onIssue throw", () => {
+		expect(() => reportDependencies(createContext(assets), {}, { onIssue: "throw" })).toThrow(
+			"Dependency report failed",
+		);
+		expect(reportDependencies(createContext(assets), {}, { onIssue: "throw", ignore: ["semver"] })).toEqual([]);
+	});
+
+	it("should skip compilations without a package.json", () => {
+		expect(reportDependencies(createContext({ "index.js": 'import "semver";' }), {})).toEqual([]);
+	});
+});
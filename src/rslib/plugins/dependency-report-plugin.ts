@@ -0,0 +1,354 @@
+import { readFile } from "node:fs/promises";
+import { builtinModules } from "node:module";
+import { join } from "node:path";
+import type { ProcessAssetsHandler, RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import ts from "typescript";
+import type { PackageJson } from "../../types/package-json.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * How to handle dependency report issues.
+ *
+ * @remarks
+ * - `"warn"`: Log warnings but continue the build
+ * - `"error"`: Log errors but continue the build
+ * - `"throw"`: Fail the build with an error
+ *
+ * @public
+ */
+export type DependencyReportBehavior = "warn" | "error" | "throw";
+
+/**
+ * Options for the DependencyReportPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { DependencyReportPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [DependencyReportPlugin({ onIssue: 'throw', ignore: ['tslib'] })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface DependencyReportPluginOptions {
+	/**
+	 * How to handle unused, missing and misplaced dependencies.
+	 *
+	 * @defaultValue "warn"
+	 */
+	onIssue?: DependencyReportBehavior;
+
+	/**
+	 * Package names left out of the report.
+	 *
+	 * @remarks
+	 * For dependencies the output needs without importing them, such as a CLI
+	 * that is spawned at runtime.
+	 */
+	ignore?: string[];
+}
+
+/**
+ * Packages imported by the emitted files of a build.
+ *
+ * @internal
+ */
+export interface DependencyUsage {
+	/** Packages imported by the emitted JavaScript */
+	runtime: Set<string>;
+	/** Packages imported or referenced by the emitted declarations */
+	types: Set<string>;
+}
+
+/**
+ * A single problem found by comparing the output imports with the manifest.
+ *
+ * @remarks
+ * - `"unused"`: In `dependencies`, but never imported by the output
+ * - `"missing"`: Imported at runtime or by the declarations, but not declared in any dependency field
+ * - `"misplaced"`: Imported at runtime or by the declarations, but only declared in `devDependencies`
+ *
+ * @internal
+ */
+export interface DependencyReportIssue {
+	/** The kind of problem */
+	kind: "unused" | "missing" | "misplaced";
+	/** The package name */
+	name: string;
+	/** Human-readable description of the issue */
+	message: string;
+}
+
+const BUILTIN_MODULES: Set<string> = new Set(builtinModules);
+
+/**
+ * Finds the package a bare import specifier points at.
+ *
+ * @param specifier - The specifier as written in the emitted code
+ * @returns The package name, or undefined for relative paths, subpath imports,
+ * URLs and Node.js builtins
+ *
+ * @internal
+ */
+export function getImportedPackage(specifier: string): string | undefined {
+	if (/^[./#]/.test(specifier) || specifier.includes(":")) {
+		return undefined;
+	}
+	const [scopeOrName, name] = specifier.split("/");
+	const packageName = scopeOrName.startsWith("@") && name ? `${scopeOrName}/${name}` : scopeOrName;
+	return BUILTIN_MODULES.has(packageName) ? undefined : packageName;
+}
+
+/**
+ * Returns the DefinitelyTyped package that holds the types of a package.
+ *
+ * @example
+ * ```typescript
+ * getTypesPackageName("@scope/pkg"); // "@types/scope__pkg"
+ * ```
+ *
+ * @internal
+ */
+export function getTypesPackageName(name: string): string {
+	return `@types/${name.startsWith("@") ? name.slice(1).replace("/", "__") : name}`;
+}
+
+/**
+ * Adds the packages an emitted file imports to the usage of the build.
+ *
+ * @remarks
+ * JavaScript files count as runtime usage. Declaration files count as type
+ * usage, including their `/// <reference types="..." />` directives.
+ *
+ * @param fileName - Name of the emitted file, used to tell JavaScript from declarations
+ * @param content - Content of the emitted file
+ * @param usage - The usage to add to
+ *
+ * @internal
+ */
+export function collectDependencyUsage(fileName: string, content: string, usage: DependencyUsage): void {
+	const isDeclaration = /\.d\.[cm]?ts$/.test(fileName);
+	if (!isDeclaration && !/\.[cm]?js$/.test(fileName)) {
+		return;
+	}
+
+	const { importedFiles, typeReferenceDirectives } = ts.preProcessFile(content, true, true);
+	const target = isDeclaration ? usage.types : usage.runtime;
+	for (const { fileName: specifier } of importedFiles) {
+		const name = getImportedPackage(specifier);
+		if (name) {
+			target.add(name);
+		}
+	}
+	if (isDeclaration) {
+		for (const { fileName: reference } of typeReferenceDirectives) {
+			usage.types.add(getTypesPackageName(reference));
+		}
+	}
+}
+
+/**
+ * Compares the packages imported by the output with the dependencies of the manifest.
+ *
+ * @remarks
+ * Packages the declarations import have to be installed for consumers to
+ * type-check, so they are checked like runtime imports, either through the
+ * package itself or its `@types/*` package. Node.js types are left to the
+ * consumer.
+ *
+ * @param packageJson - The output package.json, with the source `devDependencies`
+ * @param usage - Packages imported by the emitted files
+ * @param ignore - Package names to leave out of the report
+ * @returns The issues found, grouped by kind
+ *
+ * @internal
+ */
+export function analyzeDependencies(
+	packageJson: PackageJson,
+	usage: DependencyUsage,
+	ignore: Iterable<string> = [],
+): DependencyReportIssue[] {
+	const ignored = new Set(ignore);
+	if (packageJson.name) {
+		// Self-references resolve through the package's own exports
+		ignored.add(packageJson.name);
+	}
+
+	const dependencies = Object.keys(packageJson.dependencies ?? {});
+	const declared = new Set([
+		...dependencies,
+		...Object.keys(packageJson.peerDependencies ?? {}),
+		...Object.keys(packageJson.optionalDependencies ?? {}),
+	]);
+	const devDependencies = new Set(Object.keys(packageJson.devDependencies ?? {}));
+
+	const used = new Set([...usage.runtime, ...usage.types]);
+	for (const name of [...used]) {
+		used.add(getTypesPackageName(name));
+	}
+
+	const issues: DependencyReportIssue[] = [];
+	for (const name of dependencies) {
+		if (!ignored.has(name) && !used.has(name)) {
+			issues.push({ kind: "unused", name, message: `${name} is in dependencies but never imported by the output` });
+		}
+	}
+	for (const name of [...usage.runtime].sort()) {
+		if (ignored.has(name) || declared.has(name)) {
+			continue;
+		}
+		issues.push(
+			devDependencies.has(name)
+				? {
+						kind: "misplaced",
+						name,
+						message: `${name} is imported at runtime but only listed in devDependencies`,
+					}
+				: { kind: "missing", name, message: `${name} is imported at runtime but not declared as a dependency` },
+		);
+	}
+	for (const name of [...usage.types].sort()) {
+		const typesName = getTypesPackageName(name);
+		if (
+			usage.runtime.has(name) ||
+			ignored.has(name) ||
+			name === "@types/node" ||
+			declared.has(name) ||
+			declared.has(typesName)
+		) {
+			continue;
+		}
+		issues.push(
+			devDependencies.has(name) || devDependencies.has(typesName)
+				? {
+						kind: "misplaced",
+						name,
+						message: `${name} is imported by the declarations but only listed in devDependencies`,
+					}
+				: {
+						kind: "missing",
+						name,
+						message: `${name} is imported by the declarations but not declared as a dependency`,
+					},
+		);
+	}
+
+	return issues;
+}
+
+/**
+ * Formats dependency report issues for logging.
+ *
+ * @internal
+ */
+export function formatDependencyReport(issues: DependencyReportIssue[]): string {
+	return issues.map((issue) => `  ${color.yellow(issue.kind)}  ${issue.message}`).join("\n");
+}
+
+/**
+ * Analyzes the dependencies of a compilation's output and reports the issues.
+ *
+ * @remarks
+ * The output package.json already has its dependencies resolved; only the
+ * devDependencies, which it drops, come from the source package.json.
+ *
+ * @param context - The Rsbuild compilation context
+ * @param devDependencies - The devDependencies of the source package.json
+ * @param options - Plugin configuration options
+ * @returns The issues found
+ * @throws Error when there are issues and `onIssue` is `"throw"`
+ *
+ * @internal
+ */
+export function reportDependencies(
+	context: Parameters<ProcessAssetsHandler>[0],
+	devDependencies: PackageJson["devDependencies"],
+	options: DependencyReportPluginOptions = {},
+): DependencyReportIssue[] {
+	const { onIssue = "warn", ignore = [] } = options;
+	const outputPackageJson = context.compilation.assets["package.json"];
+	if (!outputPackageJson) {
+		return [];
+	}
+
+	const manifest = JSON.parse(outputPackageJson.source().toString()) as PackageJson;
+	manifest.devDependencies = devDependencies;
+
+	const usage: DependencyUsage = { runtime: new Set(), types: new Set() };
+	for (const [fileName, asset] of Object.entries(context.compilation.assets)) {
+		collectDependencyUsage(fileName, asset.source().toString(), usage);
+	}
+
+	const log = createEnvLogger(context.compilation.name || "unknown");
+	const issues = analyzeDependencies(manifest, usage, ignore);
+	if (issues.length === 0) {
+		log.info(`${color.dim("[dependencies]")} ${color.green("All dependencies are used and declared")}`);
+		return issues;
+	}
+
+	const formatted = formatDependencyReport(issues);
+	if (onIssue === "throw") {
+		throw new Error(`Dependency report failed:\n${formatted}`);
+	} else if (onIssue === "error") {
+		log.error(`${color.dim("[dependencies]")} Dependency problems:\n${formatted}`);
+	} else {
+		log.warn(`${color.dim("[dependencies]")} Dependency problems:\n${formatted}`);
+	}
+	return issues;
+}
+
+/**
+ * Plugin to report unused, missing and misplaced dependencies of the output.
+ *
+ * @remarks
+ * Runs in the `report` stage, once RSlib has replaced its chunk import
+ * placeholders and the emitted files are final. Collects
+ * the bare import specifiers left in the emitted JavaScript and declarations,
+ * then compares them with the dependencies of the output package.json and the
+ * `devDependencies` of the source package.json. Both halves of a dual format build come from the
+ * same sources, so the report only reads the lib that emits package.json.
+ *
+ * Dependencies used only by the declarations count as used, as does an
+ * `@types/*` package whose runtime package is imported. Packages the
+ * declarations import must be declared too, since consumers need them to
+ * type-check.
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { DependencyReportPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [DependencyReportPlugin()],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const DependencyReportPlugin = (options: DependencyReportPluginOptions = {}): RsbuildPlugin => {
+	return {
+		name: "dependency-report-plugin",
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "report",
+				},
+				async (context) => {
+					if (!context.compilation.assets["package.json"]) {
+						return;
+					}
+					const { devDependencies } = JSON.parse(
+						await readFile(join(api.context.rootPath, "package.json"), "utf-8"),
+					) as PackageJson;
+					reportDependencies(context, devDependencies, options);
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
@@ -11,7 +11,10 @@ import {
 	generateTsgoArgs,
 	getTsgoBinPath,
 	getUnscopedPackageName,
+	isDtsEntrySource,
+	resolveDtsEntryPoints,
 	stripSourceMapComment,
+	toCommonJsDeclaration,
 } from "./dts-plugin.js";
 
 // Track created test directories for cleanup
@@ -33,6 +36,32 @@ describe("dts-plugin utilities", () => {
 		testDirs.length = 0;
 	});
 
+	describe("toCommonJsDeclaration", () => {
+		it("should rewrite relative .js specifiers to .cjs", () => {
+			const content = [
+				'export { helper } from "./helper.js";',
+				"import type { Options } from '../options.js';",
+				'import "./side-effect.js";',
+				'export type Lazy = typeof import("./lazy.js");',
+			].join("\n");
+
+			expect(toCommonJsDeclaration(content)).toBe(
+				[
+					'export { helper } from "./helper.cjs";',
+					"import type { Options } from '../options.cjs';",
+					'import "./side-effect.cjs";',
+					'export type Lazy = typeof import("./lazy.cjs");',
+				].join("\n"),
+			);
+		});
+
+		it("should leave package specifiers untouched", () => {
+			const content = 'import type { Foo } from "pkg/foo.js";\nexport declare const file: "./a.js";';
+
+			expect(toCommonJsDeclaration(content)).toBe(content);
+		});
+	});
+
 	describe("stripSourceMapComment", () => {
 		it("should strip sourceMappingURL comment from single line", () => {
 			const content = `export declare const foo: string;\n${SOURCE_MAP_PREFIX}index.d.ts.map`;
@@ -355,6 +384,116 @@ export declare const bar: number;`);
 		});
 	});
 
+	describe("isDtsEntrySource", () => {
+		const cwd = "/project";
+
+		it("should accept TypeScript sources inside the package", () => {
+			expect(isDtsEntrySource("./src/index.ts", cwd)).toBe(true);
+			expect(isDtsEntrySource("./src/component.tsx", cwd)).toBe(true);
+			expect(isDtsEntrySource("./src/module.mts", cwd)).toBe(true);
+		});
+
+		it("should reject non-TypeScript and declaration files", () => {
+			expect(isDtsEntrySource("./src/schema.json", cwd)).toBe(false);
+			expect(isDtsEntrySource("./src/index.js", cwd)).toBe(false);
+			expect(isDtsEntrySource("./types/index.d.ts", cwd)).toBe(false);
+		});
+
+		it("should reject test files", () => {
+			expect(isDtsEntrySource("./src/index.test.ts", cwd)).toBe(false);
+			expect(isDtsEntrySource("./src/__test__/helpers.ts", cwd)).toBe(false);
+		});
+
+		it("should reject files outside the package root", () => {
+			expect(isDtsEntrySource("/tmp/api-extractor-123.ts", cwd)).toBe(false);
+		});
+	});
+
+	describe("resolveDtsEntryPoints", () => {
+		const cwd = "/project";
+
+		it("should create a rollup entry for every exposed entrypoint", () => {
+			const entrypoints = new Map([
+				["index.ts", "./src/index.ts"],
+				["utils.ts", "./src/utils/index.ts"],
+				["testing.ts", "./src/testing.ts"],
+			]);
+
+			const result = resolveDtsEntryPoints({ cwd, packageJson: {}, entrypoints });
+
+			expect(Object.fromEntries(result)).toEqual({
+				index: "./src/index.ts",
+				utils: "./src/utils/index.ts",
+				testing: "./src/testing.ts",
+			});
+		});
+
+		it("should preserve nested entry names for exportsAsIndexes", () => {
+			const entrypoints = new Map([
+				["index.ts", "./src/index.ts"],
+				["foo/bar/index.ts", "./src/foo/bar.ts"],
+			]);
+
+			const result = resolveDtsEntryPoints({ cwd, packageJson: {}, entrypoints });
+
+			expect(result.get("foo/bar/index")).toBe("./src/foo/bar.ts");
+		});
+
+		it("should skip bin entries", () => {
+			const entrypoints = new Map([
+				["index.ts", "./src/index.ts"],
+				["bin/cli.ts", "./src/cli.ts"],
+			]);
+
+			const result = resolveDtsEntryPoints({ cwd, packageJson: {}, entrypoints });
+
+			expect([...result.keys()]).toEqual(["index"]);
+		});
+
+		it("should substitute the original path for the temp api-extractor file", () => {
+			const entrypoints = new Map([["index.ts", "./src/api-extractor-abc.ts"]]);
+
+			const result = resolveDtsEntryPoints({
+				cwd,
+				packageJson: {},
+				entrypoints,
+				apiExtractorMapping: { tempPath: "/project/src/api-extractor-abc.ts", originalPath: "src/index.ts" },
+			});
+
+			expect(result.get("index")).toBe("src/index.ts");
+		});
+
+		it("should fall back to the main export when no entrypoints are exposed", () => {
+			const packageJson = {
+				exports: {
+					".": "./src/index.ts",
+					"./utils": "./src/utils.ts",
+				},
+			};
+
+			const result = resolveDtsEntryPoints({ cwd, packageJson });
+
+			expect(Object.fromEntries(result)).toEqual({ index: "./src/index.ts" });
+		});
+
+		it("should read the default condition of an object main export", () => {
+			const packageJson = {
+				exports: {
+					".": { default: "./src/index.ts" },
+				},
+			};
+
+			const result = resolveDtsEntryPoints({ cwd, packageJson, entrypoints: new Map() });
+
+			expect(result.get("index")).toBe("./src/index.ts");
+		});
+
+		it("should return an empty map when there is nothing to bundle", () => {
+			expect(resolveDtsEntryPoints({ cwd, packageJson: {} }).size).toBe(0);
+			expect(resolveDtsEntryPoints({ cwd, packageJson: { exports: { ".": "./src/data.json" } } }).size).toBe(0);
+		});
+	});
+
 	describe("TsDocConfigBuilder.build", () => {
 		it("should use standard tags when all groups enabled (default)", () => {
 			const result = TsDocConfigBuilder.build({});
@@ -22,6 +22,7 @@ import { TSConfigs } from "../../tsconfig/index.js";
 import type { PackageJson } from "../../types/package-json.js";
 import { createEnvLogger } from "./utils/build-logger.js";
 import { getApiExtractorPath } from "./utils/file-utils.js";
+import { applyPublishConfigOverrides } from "./utils/package-json-transformer.js";
 import { TsconfigResolver } from "./utils/tsconfig-resolver.js";
 
 /**
@@ -583,10 +584,19 @@ export interface DtsPluginOptions {
 	footer?: string;
 
 	/**
-	 * Build target (dev, npm).
+	 * Build target (dev, npm, jsr).
 	 * Used to generate the correct temp tsconfig when tsconfigPath is not provided.
+	 * The npm and jsr targets bundle the entries of the `publishConfig` overrides.
 	 */
-	buildTarget?: "dev" | "npm";
+	buildTarget?: "dev" | "npm" | "jsr";
+
+	/**
+	 * Whether to emit a `.d.cts` copy next to each declaration file.
+	 * Used by dual format builds so CommonJS consumers resolve matching types.
+	 * Without bundling, relative imports in the copies are rewritten to `.cjs`.
+	 * @defaultValue false
+	 */
+	cjsDeclarations?: boolean;
 
 	/**
 	 * Options for API model generation.
@@ -694,6 +704,87 @@ export async function collectDtsFiles(
 	return files;
 }
 
+/**
+ * Checks whether a source path can be rolled up by API Extractor.
+ *
+ * @remarks
+ * Only TypeScript sources inside the package root are eligible. Test files,
+ * JSON, CSS and existing declaration files are skipped.
+ *
+ * @internal
+ */
+export function isDtsEntrySource(sourcePath: string, cwd: string): boolean {
+	if (!/\.(ts|mts|cts|tsx)$/.test(sourcePath) || /\.d\.(ts|mts|cts)$/.test(sourcePath)) {
+		return false;
+	}
+	if (sourcePath.includes(".test.") || sourcePath.includes("__test__")) {
+		return false;
+	}
+	const resolvedSourcePath = sourcePath.startsWith(".") ? join(cwd, sourcePath) : sourcePath;
+	return resolvedSourcePath.startsWith(cwd);
+}
+
+/**
+ * Resolves the entry points to bundle declarations for.
+ *
+ * @remarks
+ * Prefers the `entrypoints` map exposed by AutoEntryPlugin, so every subpath
+ * export gets its own rollup named after its JS output (`utils.d.ts` next to
+ * `utils.js`, or `utils/index.d.ts` when `exportsAsIndexes` is enabled).
+ * Bin entries are skipped since executables have no public types.
+ *
+ * When no entrypoints are available (for example when `entry` is configured
+ * manually), falls back to the main `"."` export of the package.json.
+ *
+ * @param options - Resolution options
+ * @returns Map of rollup names (without extension) to TypeScript source paths
+ *
+ * @internal
+ */
+export function resolveDtsEntryPoints(options: {
+	cwd: string;
+	packageJson: PackageJson;
+	entrypoints?: Map<string, string>;
+	apiExtractorMapping?: { tempPath: string; originalPath: string };
+}): Map<string, string> {
+	const { cwd, packageJson, entrypoints, apiExtractorMapping } = options;
+	const entryPoints = new Map<string, string>();
+
+	// If this is the temp api-extractor file, use the original path instead
+	const toFinalSourcePath = (sourcePath: string): string => {
+		const resolvedSourcePath = sourcePath.startsWith(".") ? join(cwd, sourcePath) : sourcePath;
+		if (apiExtractorMapping && resolvedSourcePath === apiExtractorMapping.tempPath) {
+			return apiExtractorMapping.originalPath;
+		}
+		return sourcePath;
+	};
+
+	if (entrypoints && entrypoints.size > 0) {
+		for (const [outputName, sourcePath] of entrypoints) {
+			// Entrypoints are keyed by "<entryName>.ts" - strip the extension to get the rollup name
+			const entryName = outputName.replace(/\.(ts|mts|cts|tsx)$/, "");
+			if (entryName.startsWith("bin/")) continue;
+			if (!isDtsEntrySource(sourcePath, cwd)) continue;
+			entryPoints.set(entryName, toFinalSourcePath(sourcePath));
+		}
+		return entryPoints;
+	}
+
+	if (packageJson.exports && typeof packageJson.exports === "object") {
+		const mainExport = (packageJson.exports as Record<string, unknown>)["."];
+
+		// Handle both string and object export values
+		const sourcePath = typeof mainExport === "string" ? mainExport : (mainExport as { default?: string })?.default;
+
+		if (sourcePath && typeof sourcePath === "string" && isDtsEntrySource(sourcePath, cwd)) {
+			// Store main export as "index" entry
+			entryPoints.set("index", toFinalSourcePath(sourcePath));
+		}
+	}
+
+	return entryPoints;
+}
+
 /**
  * Result of bundling declaration files.
  */
@@ -1037,6 +1128,20 @@ export function stripSourceMapComment(content: string): string {
 	return content.replace(/\/\/# sourceMappingURL=\S+\.d\.ts\.map\s*$/gm, "").trim();
 }
 
+/**
+ * Rewrites relative `.js` specifiers in a declaration file to `.cjs`.
+ *
+ * @remarks
+ * Bundleless dual format builds emit a `.d.cts` next to every `.d.ts`. Their
+ * imports must point at the sibling `.cjs` modules so CommonJS consumers
+ * resolve `.d.cts` types throughout.
+ *
+ * @internal
+ */
+export function toCommonJsDeclaration(content: string): string {
+	return content.replace(/(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(["'])(\.{1,2}\/[^"']*?)\.js\2/g, "$1$2$3.cjs$2");
+}
+
 /**
  * Ensures a temp directory exists for declaration file generation.
  * @internal
@@ -1377,52 +1482,27 @@ export const DtsPlugin = (options: DtsPluginOptions = {}): RsbuildPlugin => {
 									// No modified version, read from disk
 									const packageJsonPath = join(cwd, "package.json");
 									const packageJsonContent = await readFile(packageJsonPath, "utf-8");
-									packageJson = JSON.parse(packageJsonContent);
+									const sourcePackageJson = JSON.parse(packageJsonContent) as PackageJson;
+									// Production targets publish, and so build, the publishConfig overrides
+									packageJson =
+										options.buildTarget === "npm" || options.buildTarget === "jsr"
+											? applyPublishConfigOverrides(sourcePackageJson)
+											: sourcePackageJson;
 								} else {
 									log.global.info("Using in-memory package.json from api-report-plugin");
 									packageJson = exposedPackageJson;
 								}
 
-								// Only process the main export (".") for API Extractor bundling
-								const entryPoints = new Map<string, string>();
-
-								if (packageJson.exports) {
-									const exports = packageJson.exports as Record<string, unknown>;
-									const mainExport = exports["."];
-
-									if (mainExport) {
-										// Handle both string and object export values
-										const sourcePath =
-											typeof mainExport === "string" ? mainExport : (mainExport as { default?: string })?.default;
-
-										if (sourcePath && typeof sourcePath === "string") {
-											// Only process TypeScript source files (skip JSON, CSS, declaration files, etc.)
-											if (sourcePath.match(/\.(ts|mts|cts|tsx)$/)) {
-												// Skip test files
-												if (!sourcePath.includes(".test.") && !sourcePath.includes("__test__")) {
-													// Skip files outside the package root (e.g., temp files in /tmp/)
-													const resolvedSourcePath = sourcePath.startsWith(".") ? join(cwd, sourcePath) : sourcePath;
-													if (resolvedSourcePath.startsWith(cwd)) {
-														// If this is the temp api-extractor file, use the original path instead
-														let finalSourcePath = sourcePath;
-														if (apiExtractorMapping && resolvedSourcePath === apiExtractorMapping.tempPath) {
-															finalSourcePath = apiExtractorMapping.originalPath;
-															log.global.info(`Using original path for api-extractor: ${finalSourcePath}`);
-														}
-
-														// Store main export as "index" entry
-														entryPoints.set("index", finalSourcePath);
-													} else {
-														log.global.info(`Skipping main export (source outside package: ${sourcePath})`);
-													}
-												}
-											}
-										}
-									}
-								}
+								// Bundle every TypeScript entry exposed by AutoEntryPlugin (falls back to ".")
+								const entryPoints = resolveDtsEntryPoints({
+									cwd,
+									packageJson,
+									entrypoints: api.useExposed<Map<string, string>>("entrypoints"),
+									apiExtractorMapping,
+								});
 
 								if (entryPoints.size === 0) {
-									log.global.warn("No main export found in package.json exports, skipping bundling");
+									log.global.warn("No TypeScript entry points found in package.json exports, skipping bundling");
 								} else {
 									// Create temp directory for bundled output
 									const tempBundledDir = join(tempDtsDir, "bundled");
@@ -1459,6 +1539,19 @@ export const DtsPlugin = (options: DtsPluginOptions = {}): RsbuildPlugin => {
 										if (filesArray) {
 											filesArray.add(bundledFileName);
 										}
+
+										// Rollups are self-contained, so the CommonJS declarations are plain copies
+										if (options.cjsDeclarations) {
+											const cjsFileName = `${entryName}.d.cts`;
+											context.compilation.emitAsset(
+												cjsFileName,
+												new context.sources.OriginalSource(content, cjsFileName),
+											);
+											emittedCount++;
+											if (filesArray) {
+												filesArray.add(cjsFileName);
+											}
+										}
 									}
 
 									logger.info(
@@ -1642,6 +1735,16 @@ export const DtsPlugin = (options: DtsPluginOptions = {}): RsbuildPlugin => {
 								if (filesArray && outputPath.endsWith(".d.ts")) {
 									filesArray.add(outputPath);
 								}
+
+								if (options.cjsDeclarations && outputPath.endsWith(".d.ts")) {
+									const cjsFileName = `${outputPath.slice(0, -".d.ts".length)}.d.cts`;
+									context.compilation.emitAsset(
+										cjsFileName,
+										new context.sources.OriginalSource(toCommonJsDeclaration(content), cjsFileName),
+									);
+									emittedCount++;
+									filesArray?.add(cjsFileName);
+								}
 							}
 
 							logger.info(
@@ -1680,7 +1783,7 @@ export const DtsPlugin = (options: DtsPluginOptions = {}): RsbuildPlugin => {
 								const source = new compiler.sources.OriginalSource(strippedContent, assetName);
 								compiler.compilation.assets[assetName] = source;
 							}
-						} else if (assetName.endsWith(".d.ts.map")) {
+						} else if (assetName.endsWith(".d.ts.map") || assetName.endsWith(".d.cts.map")) {
 							// Mark .d.ts.map files for deletion
 							// We keep these files in the declarations directory for API Extractor documentation
 							assetsToDelete.push(assetName);
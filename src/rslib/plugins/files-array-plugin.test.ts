@@ -4,19 +4,24 @@ import { describe, expect, it, vi } from "vitest";
 vi.mock("./utils/build-logger.js", () => ({
 	createEnvLogger: () => ({
 		fileOp: vi.fn(),
+		info: vi.fn(),
 		error: vi.fn(),
 	}),
 }));
 
 // Mock asset utilities
 vi.mock("./utils/asset-utils.js");
+vi.mock("./utils/standard-files.js", () => ({
+	emitStandardFiles: vi.fn().mockResolvedValue([]),
+}));
 
 // Static imports after mocks are set up
-import { FilesArrayPlugin } from "./files-array-plugin.js";
-import { JsonAsset, TextAsset } from "./utils/asset-utils.js";
+import { FilesArrayPlugin, collapseFilesArray, matchFilesArray } from "./files-array-plugin.js";
+import { JsonAsset } from "./utils/asset-utils.js";
+import { emitStandardFiles } from "./utils/standard-files.js";
 
 const mockJsonAssetCreate: ReturnType<typeof vi.mocked<typeof JsonAsset.create>> = vi.mocked(JsonAsset.create);
-const mockTextAssetCreate: ReturnType<typeof vi.mocked<typeof TextAsset.create>> = vi.mocked(TextAsset.create);
+const mockEmitStandardFiles: ReturnType<typeof vi.mocked<typeof emitStandardFiles>> = vi.mocked(emitStandardFiles);
 
 describe("FilesArrayPlugin", () => {
 	it("should create plugin with correct name", () => {
@@ -41,6 +46,48 @@ describe("FilesArrayPlugin", () => {
 		expect(mockApi.processAssets.mock.calls[1][0]).toEqual({ stage: "optimize-inline" });
 	});
 
+	it("should only register the additional stage when not updating package.json", () => {
+		const plugin = FilesArrayPlugin({ target: "npm", updatePackageJson: false });
+		const mockApi = {
+			processAssets: vi.fn(),
+			useExposed: vi.fn(),
+			expose: vi.fn(),
+		};
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
+
+		expect(mockApi.processAssets).toHaveBeenCalledTimes(1);
+		expect(mockApi.processAssets.mock.calls[0][0]).toEqual({ stage: "additional" });
+	});
+
+	it("should collect only compiled assets when not updating package.json", async () => {
+		const plugin = FilesArrayPlugin({ target: "npm", updatePackageJson: false });
+		const filesArray = new Set<string>(["index.js"]);
+		const mockApi = {
+			processAssets: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(filesArray),
+			expose: vi.fn(),
+		};
+		mockJsonAssetCreate.mockClear();
+		mockEmitStandardFiles.mockClear();
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
+
+		const callback = mockApi.processAssets.mock.calls[0][1];
+		await callback({
+			compilation: {
+				assets: {
+					"index.cjs": {},
+					"index.cjs.map": {},
+				},
+			},
+		});
+
+		expect(mockJsonAssetCreate).not.toHaveBeenCalled();
+		expect(mockEmitStandardFiles).not.toHaveBeenCalled();
+		expect(Array.from(filesArray)).toEqual(["index.js", "index.cjs"]);
+	});
+
 	it("should handle missing package.json asset gracefully in first stage", async () => {
 		const plugin = FilesArrayPlugin();
 		const mockApi = {
@@ -51,7 +98,7 @@ describe("FilesArrayPlugin", () => {
 
 		// Mock JsonAsset.create to return null (missing package.json)
 		mockJsonAssetCreate.mockResolvedValue(null);
-		mockTextAssetCreate.mockResolvedValue(null);
+		mockEmitStandardFiles.mockResolvedValue([]);
 
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
 
@@ -80,7 +127,7 @@ describe("FilesArrayPlugin", () => {
 
 		// Mock JsonAsset.create to return null (missing package.json)
 		mockJsonAssetCreate.mockResolvedValue(null);
-		mockTextAssetCreate.mockResolvedValue(null);
+		mockEmitStandardFiles.mockResolvedValue([]);
 
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
 
@@ -110,13 +157,9 @@ describe("FilesArrayPlugin", () => {
 		// Mock asset creation for essential files
 		// biome-ignore lint/suspicious/noExplicitAny: Test mocks
 		const mockPackageJsonAsset = { fileName: "package.json" } as any;
-		// biome-ignore lint/suspicious/noExplicitAny: Test mocks
-		const mockReadmeAsset = { fileName: "README.md" } as any;
-		// biome-ignore lint/suspicious/noExplicitAny: Test mocks
-		const mockLicenseAsset = { fileName: "LICENSE" } as any;
 
 		mockJsonAssetCreate.mockResolvedValue(mockPackageJsonAsset);
-		mockTextAssetCreate.mockResolvedValueOnce(mockReadmeAsset).mockResolvedValueOnce(mockLicenseAsset);
+		mockEmitStandardFiles.mockResolvedValueOnce(["README.md", "LICENSE"]);
 
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
 
@@ -139,6 +182,29 @@ describe("FilesArrayPlugin", () => {
 
 		// Should have called expose to create shared files array
 		expect(mockApi.expose).toHaveBeenCalledWith("files-array", expect.any(Set));
+		expect(mockEmitStandardFiles).toHaveBeenCalledWith(mockContext, undefined, undefined);
+		const exposedSet = mockApi.expose.mock.calls[0][1] as Set<string>;
+		expect(Array.from(exposedSet).sort()).toEqual(["LICENSE", "README.md", "index.js", "package.json"]);
+	});
+
+	it("should pass the standard files and target to the discovery", async () => {
+		const standardFiles = [{ pattern: "changelog{,.*}", targets: ["npm"] }];
+		const plugin = FilesArrayPlugin({ target: "npm", standardFiles });
+		const mockApi = {
+			processAssets: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(undefined),
+			expose: vi.fn(),
+		};
+		mockJsonAssetCreate.mockResolvedValue(null);
+		mockEmitStandardFiles.mockResolvedValueOnce(["CHANGELOG.md"]);
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
+
+		const mockContext = { compilation: { name: "npm", assets: {} } };
+		await mockApi.processAssets.mock.calls[0][1](mockContext);
+
+		expect(mockEmitStandardFiles).toHaveBeenCalledWith(mockContext, standardFiles, "npm");
+		expect(Array.from(mockApi.expose.mock.calls[0][1] as Set<string>)).toEqual(["CHANGELOG.md"]);
 	});
 
 	it("should update package.json with files array in second stage", async () => {
@@ -441,13 +507,9 @@ describe("FilesArrayPlugin", () => {
 		// Mock asset creation for first stage
 		// biome-ignore lint/suspicious/noExplicitAny: Test mocks
 		const mockPackageJsonAsset = { fileName: "package.json" } as any;
-		// biome-ignore lint/suspicious/noExplicitAny: Test mocks
-		const mockReadmeAsset = { fileName: "README.md" } as any;
-		// biome-ignore lint/suspicious/noExplicitAny: Test mocks
-		const mockLicenseAsset = null as any; // LICENSE doesn't exist
 
 		mockJsonAssetCreate.mockResolvedValue(mockPackageJsonAsset);
-		mockTextAssetCreate.mockResolvedValueOnce(mockReadmeAsset).mockResolvedValueOnce(mockLicenseAsset); // LICENSE returns null
+		mockEmitStandardFiles.mockResolvedValueOnce(["README.md"]); // No LICENSE found
 
 		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0]);
 
@@ -470,7 +532,7 @@ describe("FilesArrayPlugin", () => {
 		// Should have called expose to create shared files array
 		expect(mockApi.expose).toHaveBeenCalledWith("files-array", expect.any(Set));
 
-		// Check the Set was created with correct files (no LICENSE since it returned null)
+		// Check the Set was created with correct files (no LICENSE since none was found)
 		const exposedSet = mockApi.expose.mock.calls[0][1] as Set<string>;
 		expect(Array.from(exposedSet).sort()).toEqual(["README.md", "package.json"]);
 	});
@@ -519,4 +581,148 @@ describe("FilesArrayPlugin", () => {
 		expect(mockPackageJsonAsset.data.files).toEqual(["existing.js"]);
 		expect(mockPackageJsonAsset.update).toHaveBeenCalledTimes(1);
 	});
+
+	it("should write the collapsed files array of every lib's assets", async () => {
+		const mockFilesArray = new Set<string>();
+		const cjsApi = {
+			processAssets: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(mockFilesArray),
+			expose: vi.fn(),
+		};
+		const esmApi = {
+			processAssets: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(mockFilesArray),
+			expose: vi.fn(),
+		};
+		const mockPackageJsonAsset = {
+			fileName: "package.json",
+			data: { name: "test-package", version: "1.0.0" },
+			update: vi.fn(),
+			// biome-ignore lint/suspicious/noExplicitAny: Test mocks
+		} as any;
+		mockJsonAssetCreate.mockResolvedValue(mockPackageJsonAsset);
+		mockEmitStandardFiles.mockResolvedValue([]);
+
+		FilesArrayPlugin({ target: "npm", updatePackageJson: false, collapse: true }).setup(
+			cjsApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0],
+		);
+		FilesArrayPlugin({ target: "npm", collapse: true }).setup(
+			esmApi as unknown as Parameters<ReturnType<typeof FilesArrayPlugin>["setup"]>[0],
+		);
+
+		await cjsApi.processAssets.mock.calls[0][1]({
+			compilation: { name: "npm-cjs", assets: { "utils/a.cjs": {}, "utils/a.cjs.map": {} } },
+		});
+		const assets = { "package.json": {}, "index.js": {}, "index.d.ts": {}, "utils/a.js": {}, "utils/b.js": {} };
+		await esmApi.processAssets.mock.calls[0][1]({ compilation: { name: "npm", assets } });
+		await esmApi.processAssets.mock.calls[1][1]({ compilation: { name: "npm", assets } });
+
+		// The CommonJS source map keeps utils from collapsing into a directory entry
+		expect(mockPackageJsonAsset.data.files).toEqual([
+			"index.d.ts",
+			"index.js",
+			"package.json",
+			"utils/*.js",
+			"utils/a.cjs",
+		]);
+	});
+});
+
+describe("matchFilesArray", () => {
+	const files = ["index.js", "index.d.ts", "lib/a.js", "lib/a.js.map", "lib/deep/b.js", ".env"];
+
+	it("should match files, directories and globs from the package root", () => {
+		expect(matchFilesArray(["index.js", "lib/deep/"], files)).toEqual(new Set(["index.js", "lib/deep/b.js"]));
+		expect(matchFilesArray(["*.ts", "./lib/*.map"], files)).toEqual(new Set(["index.d.ts", "lib/a.js.map"]));
+		expect(matchFilesArray(["**/*.js"], files)).toEqual(new Set(["index.js", "lib/a.js", "lib/deep/b.js"]));
+		expect(matchFilesArray(["ind?x.js", ".env"], files)).toEqual(new Set(["index.js", ".env"]));
+	});
+
+	it("should apply negations in order", () => {
+		expect(matchFilesArray(["lib", "!lib/*.map"], files)).toEqual(new Set(["lib/a.js", "lib/deep/b.js"]));
+		expect(matchFilesArray(["!lib/*.map", "lib"], files)).toEqual(
+			new Set(["lib/a.js", "lib/a.js.map", "lib/deep/b.js"]),
+		);
+	});
+
+	it("should escape regular expression characters", () => {
+		expect(matchFilesArray(["a+b.js"], ["a+b.js", "aab.js"])).toEqual(new Set(["a+b.js"]));
+	});
+});
+
+describe("collapseFilesArray", () => {
+	it("should replace fully included directories with the directory", () => {
+		expect(
+			collapseFilesArray(
+				["package.json", "index.js", "utils/a.js", "utils/b.js", "utils/deep/c.js"],
+				["package.json", "index.js", "utils/a.js", "utils/b.js", "utils/deep/c.js"],
+			),
+		).toEqual(["index.js", "package.json", "utils"]);
+	});
+
+	it("should group files sharing an extension", () => {
+		const emitted = ["a.js", "b.js", "c.js", "a.d.ts", "b.d.ts", "a.js.map", "package.json"];
+
+		expect(collapseFilesArray(["a.js", "b.js", "c.js", "a.d.ts", "b.d.ts", "package.json"], emitted)).toEqual([
+			"*.d.ts",
+			"*.js",
+			"package.json",
+		]);
+	});
+
+	it("should not use a glob that matches an unlisted file", () => {
+		expect(collapseFilesArray(["a.js", "b.js"], ["a.js", "b.js", "c.js"])).toEqual(["a.js", "b.js"]);
+	});
+
+	it("should exclude the few unlisted files of a directory with negations last", () => {
+		const files = ["lib/a.js", "lib/a.d.ts", "lib/d/e.js", "lib/d/e.d.ts", "lib/f/g.js", "index.js"];
+		const emitted = [...files, "lib/a.js.map", "lib/d/e.js.map"];
+
+		expect(collapseFilesArray([...files, "!tsdoc.json"], emitted)).toEqual([
+			"index.js",
+			"lib",
+			"!lib/**/*.js.map",
+			"!tsdoc.json",
+		]);
+	});
+
+	it("should use a recursive glob for files spread over several directories", () => {
+		const emitted = ["index.js", "index.js.map", "lib/a.js", "lib/a.js.map", "lib/deep/b.js", "lib/deep/b.js.map"];
+
+		expect(collapseFilesArray(["index.js", "lib/a.js", "lib/deep/b.js"], emitted)).toEqual(["**/*.js"]);
+		expect(collapseFilesArray(["lib/a.js", "lib/deep/b.js", "index.js.map"], emitted)).toEqual([
+			"index.js.map",
+			"lib/**/*.js",
+		]);
+	});
+
+	it("should keep entries that are not emitted files", () => {
+		expect(
+			collapseFilesArray(["docs/**/*.md", "custom.txt", "a.js", "b.js"], ["a.js", "b.js", "docs/guide.md"]),
+		).toEqual(["*.js", "custom.txt", "docs/**/*.md"]);
+	});
+
+	it("should not glob files when a directory has a matching name", () => {
+		expect(collapseFilesArray(["a.js", "b.js"], ["a.js", "b.js", "c.js/index.js"])).toEqual(["a.js", "b.js"]);
+	});
+
+	it("should select the same files as the uncollapsed array", () => {
+		const emitted = [
+			"index.js",
+			"index.d.ts",
+			"index.js.map",
+			"bin/cli.js",
+			"bin/cli.js.map",
+			"utils/a.js",
+			"utils/b.js",
+			"utils/a.d.ts",
+			"tsdoc.json",
+			"package.json",
+		];
+		const files = emitted.filter((file) => !file.endsWith(".map") && file !== "tsdoc.json");
+		const collapsed = collapseFilesArray([...files, "!tsdoc.json"], emitted);
+
+		expect(matchFilesArray(collapsed, emitted)).toEqual(new Set(files));
+		expect(collapsed.length).toBeLessThan(files.length);
+	});
 });
@@ -1,7 +1,9 @@
 import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
 import type { PackageJson } from "../../types/package-json.js";
-import { JsonAsset, TextAsset } from "./utils/asset-utils.js";
+import { JsonAsset } from "./utils/asset-utils.js";
 import { createEnvLogger } from "./utils/build-logger.js";
+import type { StandardFilesOption } from "./utils/standard-files.js";
+import { emitStandardFiles } from "./utils/standard-files.js";
 
 /**
  * Options for the FilesArrayPlugin.
@@ -54,6 +56,324 @@ export interface FilesArrayPluginOptions<TTarget extends string = string> {
 	 * Passed to the `transformFiles` callback to allow target-specific transformations.
 	 */
 	target: TTarget;
+
+	/**
+	 * Whether this plugin writes the `files` array into the emitted package.json.
+	 *
+	 * @remarks
+	 * When false, only compiled assets are collected into the shared files array.
+	 * Used by secondary libs (such as the CommonJS half of a dual format build)
+	 * that write into the same dist directory as the lib owning package.json.
+	 *
+	 * @defaultValue true
+	 */
+	updatePackageJson?: boolean;
+
+	/**
+	 * Whether to collapse the `files` array into the fewest directories and globs.
+	 *
+	 * @remarks
+	 * Instead of listing every emitted file, fully included directories become
+	 * a single entry and files sharing an extension become a `*.ext` glob.
+	 * Directories that are almost fully included may be listed with `!`
+	 * exclusions. Negations always come last. The result is checked against the
+	 * emitted assets and the full list is kept when it would add or drop a file.
+	 *
+	 * @defaultValue false
+	 */
+	collapse?: boolean;
+
+	/**
+	 * Standard files, such as the README and LICENSE, copied into the output.
+	 *
+	 * @remarks
+	 * Only used when `updatePackageJson` is true. Globs are matched
+	 * case-insensitively in the package directory, and files with
+	 * `workspaceFallback` are taken from the workspace root when the package
+	 * has none. Pass `false` to copy none.
+	 *
+	 * @defaultValue README, LICENSE (with workspace fallback) and CHANGELOG
+	 */
+	standardFiles?: StandardFilesOption;
+}
+
+/**
+ * Output files recorded by every lib that shares a files array.
+ *
+ * @remarks
+ * Keyed by the shared `files-array` set, so the lib writing package.json can
+ * check collapsed patterns against the assets of secondary libs too.
+ */
+const emittedFiles: WeakMap<Set<string>, Set<string>> = new WeakMap();
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a `files` entry into a regular expression with npm's matching rules.
+ *
+ * @remarks
+ * `*` and `?` stay within a path segment, `**` crosses segments, and a
+ * matched directory includes everything below it.
+ */
+function filesPatternToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.replace(/^\.?\//, "")
+		.replace(/\/$/, "")
+		.split(/(\*\*\/?|\*|\?)/)
+		.map((part) => {
+			switch (part) {
+				case "**/":
+					return "(?:.*/)?";
+				case "**":
+					return ".*";
+				case "*":
+					return "[^/]*";
+				case "?":
+					return "[^/]";
+				default:
+					return escapeRegExp(part);
+			}
+		})
+		.join("");
+	return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Resolves which files a `files` array selects, applying entries in order.
+ *
+ * @param patterns - The `files` entries, `!` entries removing earlier matches
+ * @param files - Paths of the files in the package directory
+ * @returns The selected paths
+ *
+ * @internal
+ */
+export function matchFilesArray(patterns: Iterable<string>, files: Iterable<string>): Set<string> {
+	const candidates = Array.from(files);
+	const matched = new Set<string>();
+	for (const entry of patterns) {
+		const negated = entry.startsWith("!");
+		const pattern = filesPatternToRegExp(negated ? entry.slice(1) : entry);
+		for (const file of candidates) {
+			if (!pattern.test(file)) {
+				continue;
+			}
+			if (negated) {
+				matched.delete(file);
+			} else {
+				matched.add(file);
+			}
+		}
+	}
+	return matched;
+}
+
+interface FilesTreeNode {
+	path: string;
+	files: string[];
+	dirs: Map<string, FilesTreeNode>;
+	all: string[];
+}
+
+function createFilesTree(files: Iterable<string>): FilesTreeNode {
+	const root: FilesTreeNode = { path: "", files: [], dirs: new Map(), all: [] };
+	for (const file of files) {
+		let node = root;
+		node.all.push(file);
+		const segments = file.split("/");
+		for (const segment of segments.slice(0, -1)) {
+			let child = node.dirs.get(segment);
+			if (!child) {
+				child = { path: node.path ? `${node.path}/${segment}` : segment, files: [], dirs: new Map(), all: [] };
+				node.dirs.set(segment, child);
+			}
+			node = child;
+			node.all.push(file);
+		}
+		node.files.push(file);
+	}
+	return root;
+}
+
+/**
+ * Lists the selected files directly inside a directory, grouping them into
+ * `*.ext` globs where a glob selects nothing else.
+ */
+function collapseDirectFiles(node: FilesTreeNode, selected: Set<string>): string[] {
+	const prefix = node.path ? `${node.path}/` : "";
+	const remaining = new Set(node.files.filter((file) => selected.has(file)));
+	const suffixes = new Set<string>();
+	for (const file of remaining) {
+		const name = file.slice(prefix.length);
+		for (let index = name.indexOf(".", 1); index !== -1; index = name.indexOf(".", index + 1)) {
+			suffixes.add(name.slice(index));
+		}
+	}
+
+	const patterns: string[] = [];
+	for (;;) {
+		let best: { pattern: string; covered: string[] } | undefined;
+		for (const suffix of suffixes) {
+			// A glob that also matches a directory would include everything below it
+			if (Array.from(node.dirs.keys()).some((dir) => dir.endsWith(suffix))) {
+				continue;
+			}
+			const matches = node.files.filter((file) => file.endsWith(suffix) && file.length > prefix.length + suffix.length);
+			if (matches.some((file) => !selected.has(file))) {
+				continue;
+			}
+			const covered = matches.filter((file) => remaining.has(file));
+			// On ties, the longer suffix is less likely to match files emitted later
+			const pattern = `${prefix}*${suffix}`;
+			if (
+				covered.length >= 2 &&
+				(!best ||
+					covered.length > best.covered.length ||
+					(covered.length === best.covered.length && pattern.length > best.pattern.length))
+			) {
+				best = { pattern, covered };
+			}
+		}
+		if (!best) {
+			break;
+		}
+		patterns.push(best.pattern);
+		for (const file of best.covered) {
+			remaining.delete(file);
+		}
+	}
+	return [...patterns, ...remaining];
+}
+
+/**
+ * Finds a recursive `*.ext` glob selecting exactly the given files below a directory,
+ * for selections spread over several directories.
+ */
+function findRecursiveGlob(node: FilesTreeNode, selected: Set<string>): string | undefined {
+	const prefix = node.path ? `${node.path}/` : "";
+	const matches = node.all.filter((file) => selected.has(file));
+	if (matches.every((file) => !file.slice(prefix.length).includes("/"))) {
+		return undefined;
+	}
+	const directories = new Set(node.all.flatMap((file) => file.split("/").slice(0, -1)));
+	const name = matches[0].slice(matches[0].lastIndexOf("/") + 1);
+	for (let index = name.indexOf(".", 1); index !== -1; index = name.indexOf(".", index + 1)) {
+		const suffix = name.slice(index);
+		const isMatch = (file: string): boolean => {
+			const base = file.slice(file.lastIndexOf("/") + 1);
+			return base.endsWith(suffix) && base.length > suffix.length;
+		};
+		if (
+			Array.from(directories).every((dir) => !dir.endsWith(suffix)) &&
+			node.all.every((file) => isMatch(file) === selected.has(file))
+		) {
+			return `${prefix}**/*${suffix}`;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Selects exactly the given files below a directory with positive entries only.
+ */
+function collapsePositive(node: FilesTreeNode, selected: Set<string>): string[] {
+	const count = node.all.filter((file) => selected.has(file)).length;
+	if (count === 0) {
+		return [];
+	}
+	if (node.path && count === node.all.length) {
+		return [node.path];
+	}
+	const recursive = findRecursiveGlob(node, selected);
+	if (recursive) {
+		return [recursive];
+	}
+	return [
+		...Array.from(node.dirs.values()).flatMap((dir) => collapsePositive(dir, selected)),
+		...collapseDirectFiles(node, selected),
+	];
+}
+
+/**
+ * Selects exactly the given files below a directory, allowing a directory
+ * entry followed by `!` entries for the files it should not include.
+ */
+function collapseWithNegations(node: FilesTreeNode, selected: Set<string>): string[] {
+	const count = node.all.filter((file) => selected.has(file)).length;
+	if (count === 0) {
+		return [];
+	}
+	if (node.path && count === node.all.length) {
+		return [node.path];
+	}
+	const recursive = findRecursiveGlob(node, selected);
+	if (recursive) {
+		return [recursive];
+	}
+	const listed = [
+		...Array.from(node.dirs.values()).flatMap((dir) => collapseWithNegations(dir, selected)),
+		...collapseDirectFiles(node, selected),
+	];
+	if (!node.path) {
+		return listed;
+	}
+	const excluded = new Set(node.all.filter((file) => !selected.has(file)));
+	const negated = [node.path, ...collapsePositive(node, excluded).map((pattern) => `!${pattern}`)];
+	return negated.length < listed.length ? negated : listed;
+}
+
+/**
+ * Collapses a `files` array into the fewest equivalent directories and globs.
+ *
+ * @remarks
+ * Entries naming emitted files are collapsed; other entries, such as globs
+ * from the source package.json, are kept as they are. Negations come last.
+ * The collapsed array is checked against the emitted files and the sorted,
+ * uncollapsed array is returned when it would select anything different.
+ *
+ * @param files - The `files` entries
+ * @param emitted - Paths of every file written to the output directory
+ * @returns The collapsed `files` array
+ *
+ * @internal
+ */
+export function collapseFilesArray(files: Iterable<string>, emitted: Iterable<string>): string[] {
+	const entries = Array.from(new Set(files));
+	const negations = entries.filter((entry) => entry.startsWith("!")).sort();
+	const positives = entries.filter((entry) => !entry.startsWith("!")).sort();
+	const uncollapsed = [...positives, ...negations];
+
+	const outputFiles = new Set(emitted);
+	for (const entry of positives) {
+		// Plain file names that were not emitted, such as files copied by transformFiles
+		if (!/[*?[\]{}]/.test(entry) && !Array.from(outputFiles).some((file) => file.startsWith(`${entry}/`))) {
+			outputFiles.add(entry);
+		}
+	}
+	const kept = positives.filter((entry) => !outputFiles.has(entry));
+	const selected = new Set([
+		...positives.filter((entry) => outputFiles.has(entry)),
+		...matchFilesArray(kept, outputFiles),
+	]);
+
+	// Drop entries that only select files the kept entries already select
+	const covered = matchFilesArray(kept, outputFiles);
+	const collapsed = collapseWithNegations(createFilesTree(outputFiles), selected).filter(
+		(entry) =>
+			entry.startsWith("!") || Array.from(matchFilesArray([entry], outputFiles)).some((file) => !covered.has(file)),
+	);
+	const result = [
+		...new Set([...kept, ...collapsed.filter((entry) => !entry.startsWith("!"))].sort()),
+		...new Set([...collapsed.filter((entry) => entry.startsWith("!")), ...negations].sort()),
+	];
+
+	const expected = matchFilesArray(uncollapsed, outputFiles);
+	const actual = matchFilesArray(result, outputFiles);
+	if (actual.size !== expected.size || Array.from(expected).some((file) => !actual.has(file))) {
+		return uncollapsed;
+	}
+	return result;
 }
 
 /**
@@ -66,7 +386,8 @@ export interface FilesArrayPluginOptions<TTarget extends string = string> {
  *
  * ## Files Included
  *
- * - Essential files: package.json, README.md, LICENSE
+ * - Essential files: package.json and the standard files (README, LICENSE and
+ *   CHANGELOG by default)
  * - All compiled JavaScript files
  * - All declaration files (.d.ts)
  * - Files added by other plugins via `api.useExposed("files-array")`
@@ -76,6 +397,12 @@ export interface FilesArrayPluginOptions<TTarget extends string = string> {
  * - Source map files (.map)
  * - Files prefixed with `!` in the files array (negated patterns)
  *
+ * ## Collapsing
+ *
+ * With `collapse`, the written array uses directories and `*.ext` globs
+ * instead of one entry per file, with negations last. The collapsed array is
+ * checked against the emitted assets of every lib sharing the files array.
+ *
  * ## Plugin Interoperability
  *
  * Other plugins can add files to the array:
@@ -125,6 +452,7 @@ export const FilesArrayPlugin = <TTarget extends string = string>(
 		post: ["rsbuild:dts"],
 		setup(api: RsbuildPluginAPI): void {
 			// Run during the main compilation to handle compiled assets and essential files
+			const updatePackageJson = options?.updatePackageJson ?? true;
 
 			let filesArray = api.useExposed("files-array") as Set<string> | undefined;
 			if (!filesArray) {
@@ -140,18 +468,22 @@ export const FilesArrayPlugin = <TTarget extends string = string>(
 					// Get or create the shared files array
 
 					// Add essential files that are always included
-					const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", false);
-					if (packageJson) {
-						filesArray.add(packageJson.fileName);
-					}
-					const readme = await TextAsset.create(context, "README.md", false);
-					if (readme) {
-						filesArray.add(readme.fileName);
+					if (updatePackageJson) {
+						const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", false);
+						if (packageJson) {
+							filesArray.add(packageJson.fileName);
+						}
+						for (const fileName of await emitStandardFiles(context, options?.standardFiles, options?.target)) {
+							filesArray.add(fileName);
+						}
 					}
 
-					const license = await TextAsset.create(context, "LICENSE", false);
-					if (license) {
-						filesArray.add(license.fileName);
+					if (options?.collapse) {
+						const emitted = emittedFiles.get(filesArray) ?? new Set<string>();
+						for (const assetName of Object.keys(context.compilation.assets)) {
+							emitted.add(assetName);
+						}
+						emittedFiles.set(filesArray, emitted);
 					}
 
 					// Add all compiled JS and other assets (but not source maps)
@@ -174,44 +506,57 @@ export const FilesArrayPlugin = <TTarget extends string = string>(
 				},
 			);
 
-			api.processAssets(
-				{
-					stage: "optimize-inline",
-				},
-				async (context) => {
-					// Extract environment from compilation name or options
-					const envId = context.compilation?.name || context.compilation?.options?.name || "unknown";
+			// Secondary libs leave package.json to the lib that emits it
+			if (updatePackageJson) {
+				api.processAssets(
+					{
+						stage: "optimize-inline",
+					},
+					async (context) => {
+						// Extract environment from compilation name or options
+						const envId = context.compilation?.name || context.compilation?.options?.name || "unknown";
 
-					const log = createEnvLogger(envId);
+						const log = createEnvLogger(envId);
 
-					const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", false);
+						const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", false);
 
-					// Update package.json with the accumulated files array
-					if (packageJson) {
-						// Debug: log what's in the filesArray before writing
+						// Update package.json with the accumulated files array
+						if (packageJson) {
+							// Debug: log what's in the filesArray before writing
 
-						// Get existing files from package.json
-						const previousFiles = new Set(packageJson.data.files || []);
+							// Get existing files from package.json
+							const previousFiles = new Set(packageJson.data.files || []);
 
-						// Combine existing files with new essential files from filesArray
-						const allFiles = new Set([...previousFiles, ...Array.from(filesArray)].sort());
+							// Combine existing files with new essential files from filesArray
+							const allFiles = new Set([...previousFiles, ...Array.from(filesArray)].sort());
 
-						if (allFiles.size === 0) {
-							delete packageJson.data.files;
-						} else {
-							// Calculate difference manually for compatibility
-							const newFiles = new Set([...allFiles].filter((file) => !previousFiles.has(file)));
-							if (newFiles.size > 0) {
-								log.fileOp("added to files array", Array.from(newFiles));
+							if (allFiles.size === 0) {
+								delete packageJson.data.files;
+							} else {
+								// Calculate difference manually for compatibility
+								const newFiles = new Set([...allFiles].filter((file) => !previousFiles.has(file)));
+								if (newFiles.size > 0) {
+									log.fileOp("added to files array", Array.from(newFiles));
+								}
 							}
-						}
 
-						packageJson.data.files = Array.from(allFiles);
+							packageJson.data.files = Array.from(allFiles);
 
-						packageJson.update();
-					}
-				},
-			);
+							if (options?.collapse && allFiles.size > 0) {
+								const emitted = new Set([
+									...(emittedFiles.get(filesArray) ?? []),
+									...Object.keys(context.compilation.assets),
+								]);
+								emittedFiles.delete(filesArray);
+								packageJson.data.files = collapseFilesArray(allFiles, emitted);
+								log.info(`collapsed files array from ${allFiles.size} to ${packageJson.data.files.length} entries`);
+							}
+
+							packageJson.update();
+						}
+					},
+				);
+			}
 		},
 	};
 };
@@ -0,0 +1,223 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import { createJsrManifest, createSelfTypesHeader, findSlowTypes, formatSlowTypes } from "./jsr-plugin.js";
+
+function parse(content: string, fileName: string = "/project/src/index.ts"): ts.SourceFile {
+	return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+}
+
+describe("findSlowTypes", () => {
+	it("should report exported functions without return types", () => {
+		const issues = findSlowTypes(parse("export function foo(a: string) {\n\treturn a;\n}"), "/project");
+
+		expect(issues).toEqual([
+			{
+				rule: "missing-explicit-return-type",
+				message: 'Missing explicit return type on "foo"',
+				file: "src/index.ts",
+				line: 1,
+				column: 1,
+			},
+		]);
+	});
+
+	it("should report untyped parameters of exported functions", () => {
+		const issues = findSlowTypes(parse("export function foo(a, b = 1): void {}"), "/project");
+
+		expect(issues.map((issue) => issue.message)).toEqual(['Missing explicit type on parameter "a"']);
+	});
+
+	it("should accept fully typed exports", () => {
+		const content = [
+			"export function foo(a: string): string { return a; }",
+			"export const bar = (x: number): number => x;",
+			"export const name = 'lib';",
+			"export const count: number = compute();",
+			"export const negative = -1;",
+			"export const config = {} as Config;",
+			"function internal() { return 1; }",
+		].join("\n");
+
+		expect(findSlowTypes(parse(content), "/project")).toEqual([]);
+	});
+
+	it("should report exported variables that need inference", () => {
+		const content = ["export const list = [1, 2];", "export const frozen = { a: 1 } as const;"].join("\n");
+
+		const issues = findSlowTypes(parse(content), "/project");
+
+		expect(issues.map((issue) => [issue.rule, issue.line])).toEqual([
+			["missing-explicit-type", 1],
+			["missing-explicit-type", 2],
+		]);
+	});
+
+	it("should check arrow function signatures on exported variables", () => {
+		const issues = findSlowTypes(parse("export const fn = (x: number) => x;"), "/project");
+
+		expect(issues).toHaveLength(1);
+		expect(issues[0]).toMatchObject({
+			rule: "missing-explicit-return-type",
+			message: 'Missing explicit return type on "fn"',
+		});
+	});
+
+	it("should skip overload implementations", () => {
+		const content = [
+			"export function parse(value: string): number;",
+			"export function parse(value: number): number;",
+			"export function parse(value: unknown) { return Number(value); }",
+		].join("\n");
+
+		expect(findSlowTypes(parse(content), "/project")).toEqual([]);
+	});
+
+	it("should check public class members", () => {
+		const content = [
+			"export class Store {",
+			"\tstatic create() { return new Store(); }",
+			"\titems = [];",
+			"\tlabel = 'store';",
+			"\tprivate cache = new Map();",
+			"\t#secret = new Set();",
+			"\tconstructor(name) {}",
+			"\tget size(): number { return 0; }",
+			"}",
+		].join("\n");
+
+		const issues = findSlowTypes(parse(content), "/project");
+
+		expect(issues.map((issue) => issue.message)).toEqual([
+			'Missing explicit return type on "Store.create"',
+			'Missing explicit type on "Store.items"',
+			'Missing explicit type on constructor parameter "name"',
+		]);
+	});
+
+	it("should report global and module augmentation", () => {
+		const content = [
+			"declare global {",
+			"\tinterface Window { foo: string }",
+			"}",
+			"declare module 'other' {",
+			"\tinterface Options { bar: string }",
+			"}",
+		].join("\n");
+
+		const issues = findSlowTypes(parse(content), "/project");
+
+		expect(issues.map((issue) => [issue.rule, issue.message])).toEqual([
+			["unsupported-global-module", "Global augmentation is not supported"],
+			["unsupported-global-module", 'Module augmentation of "other" is not supported'],
+		]);
+	});
+
+	it("should report default export expressions that need inference", () => {
+		expect(findSlowTypes(parse("export default { a: 1 };"), "/project")).toMatchObject([
+			{ rule: "unsupported-default-export-expr" },
+		]);
+		expect(findSlowTypes(parse("const value = 1;\nexport default value;"), "/project")).toEqual([]);
+	});
+});
+
+describe("formatSlowTypes", () => {
+	it("should include location, message and rule for each issue", () => {
+		const formatted = formatSlowTypes([
+			{ rule: "missing-explicit-type", message: 'Missing explicit type on "a"', file: "src/a.ts", line: 2, column: 14 },
+		]);
+
+		expect(formatted).toContain('src/a.ts:2:14 Missing explicit type on "a"');
+		expect(formatted).toContain("missing-explicit-type");
+	});
+});
+
+describe("createSelfTypesHeader", () => {
+	it("should point at the rollup next to the entry", () => {
+		expect(createSelfTypesHeader("index")).toBe('/* @ts-self-types="./index.d.ts" */\n');
+	});
+
+	it("should use the entry basename for nested entries", () => {
+		expect(createSelfTypesHeader("foo/bar/index")).toBe('/* @ts-self-types="./index.d.ts" */\n');
+	});
+});
+
+describe("createJsrManifest", () => {
+	const packageJson: PackageJson = {
+		name: "@scope/lib",
+		version: "1.2.3",
+		exports: {
+			".": "./src/index.ts",
+			"./utils": "./src/utils/index.ts",
+			"./package.json": "./package.json",
+		},
+		bin: { lib: "./src/cli.ts" },
+	};
+
+	it("should point exports at the bundled output", () => {
+		const manifest = createJsrManifest({
+			packageJson,
+			files: ["index.js", "index.d.ts", "utils.js", "package.json", "!lib.api.json"],
+		});
+
+		expect(manifest).toEqual({
+			name: "@scope/lib",
+			version: "1.2.3",
+			exports: {
+				".": "./index.js",
+				"./utils": "./utils.js",
+			},
+			publish: {
+				include: ["index.d.ts", "index.js", "jsr.json", "package.json", "utils.js"],
+				exclude: ["lib.api.json"],
+			},
+		});
+	});
+
+	it("should point exports at the sources in source mode", () => {
+		const manifest = createJsrManifest({ packageJson, files: ["src/index.ts"], sources: true });
+
+		expect(manifest.exports).toEqual({
+			".": "./src/index.ts",
+			"./utils": "./src/utils/index.ts",
+		});
+		expect(manifest.publish).toEqual({ include: ["jsr.json", "src/index.ts"] });
+	});
+
+	it("should point exports at the mirrored output in bundleless builds", () => {
+		const manifest = createJsrManifest({ packageJson, files: [], bundle: false });
+
+		expect(manifest.exports).toEqual({
+			".": "./index.js",
+			"./utils": "./utils/index.js",
+		});
+	});
+
+	it("should follow exportsAsIndexes output names", () => {
+		const manifest = createJsrManifest({ packageJson, files: [], exportsAsIndexes: true });
+
+		expect(manifest.exports["./utils"]).toBe("./utils/index.js");
+	});
+
+	it("should prefer the configured name", () => {
+		const manifest = createJsrManifest({
+			packageJson: { ...packageJson, name: "lib" } as PackageJson,
+			files: [],
+			name: "@me/lib",
+		});
+
+		expect(manifest.name).toBe("@me/lib");
+	});
+
+	it("should throw for unscoped names", () => {
+		expect(() => createJsrManifest({ packageJson: { ...packageJson, name: "lib" } as PackageJson, files: [] })).toThrow(
+			"JSR packages must have a scoped name",
+		);
+	});
+
+	it("should throw when the version is missing", () => {
+		expect(() =>
+			createJsrManifest({ packageJson: { ...packageJson, version: undefined } as PackageJson, files: [] }),
+		).toThrow("JSR packages must have a version");
+	});
+});
@@ -0,0 +1,662 @@
+import { readFile } from "node:fs/promises";
+import { isAbsolute, join, posix, relative } from "node:path";
+import type { ProcessAssetsHandler, RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import { logger } from "@rsbuild/core";
+import color from "picocolors";
+import ts from "typescript";
+import type { PackageJson } from "../../types/package-json.js";
+import { extractEntriesFromPackageJson } from "./utils/entry-extractor.js";
+import { ImportGraph } from "./utils/import-graph.js";
+import { applyPublishConfigOverrides, transformExportPath } from "./utils/package-json-transformer.js";
+
+/**
+ * How to handle JSR slow-type violations.
+ *
+ * @remarks
+ * - `"warn"`: Log warnings but continue the build
+ * - `"error"`: Log errors but continue the build
+ * - `"throw"`: Fail the build with an error
+ *
+ * @public
+ */
+export type JsrSlowTypesBehavior = "warn" | "error" | "throw";
+
+/**
+ * Options for the JsrPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { JsrPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [
+ *     JsrPlugin({
+ *       name: '@scope/my-package',
+ *       sources: true,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface JsrPluginOptions {
+	/**
+	 * Package name written to jsr.json.
+	 *
+	 * @remarks
+	 * JSR requires a scoped name (`@scope/name`).
+	 *
+	 * @defaultValue The package.json `name`
+	 */
+	name?: string;
+
+	/**
+	 * Ship TypeScript sources instead of the bundled output.
+	 *
+	 * @remarks
+	 * When true, the source files reachable from the exports are emitted as-is
+	 * and jsr.json `exports` point at them. When false, jsr.json points at the
+	 * bundled JavaScript and each entry gets a `@ts-self-types` header
+	 * referencing its declaration rollup.
+	 *
+	 * @defaultValue false
+	 */
+	sources?: boolean;
+
+	/**
+	 * Whether the JavaScript output is bundled.
+	 *
+	 * @remarks
+	 * Must match the build's `bundle` setting. In bundleless builds jsr.json
+	 * points at the mirrored source layout (`./utils/index.js`) and every module
+	 * with a declaration file gets a `@ts-self-types` header.
+	 *
+	 * @defaultValue true
+	 */
+	bundle?: boolean;
+
+	/**
+	 * How to handle exported APIs that violate JSR's slow-types rules.
+	 *
+	 * @remarks
+	 * Set to `false` to skip the check.
+	 *
+	 * @defaultValue "throw"
+	 */
+	slowTypes?: JsrSlowTypesBehavior | false;
+
+	/**
+	 * When true, export paths create index files in nested directories.
+	 * Must match the AutoEntryPlugin option so jsr.json points at the real outputs.
+	 */
+	exportsAsIndexes?: boolean;
+
+	/**
+	 * Path to the tsconfig used to resolve imports while tracing sources.
+	 */
+	tsconfigPath?: string;
+}
+
+/**
+ * JSR slow-types rule identifiers, named after the rules reported by `jsr publish`.
+ *
+ * @internal
+ */
+export type SlowTypeRule =
+	| "missing-explicit-return-type"
+	| "missing-explicit-type"
+	| "unsupported-default-export-expr"
+	| "unsupported-global-module";
+
+/**
+ * A single slow-types violation.
+ *
+ * @internal
+ */
+export interface SlowTypeIssue {
+	/** The violated rule */
+	rule: SlowTypeRule;
+	/** Human-readable description of the violation */
+	message: string;
+	/** The file path relative to the project root */
+	file: string;
+	/** Line number (1-indexed) */
+	line: number;
+	/** Column number (1-indexed) */
+	column: number;
+}
+
+/**
+ * Shape of the emitted jsr.json file.
+ *
+ * @internal
+ */
+export interface JsrManifest {
+	name: string;
+	version: string;
+	exports: Record<string, string>;
+	publish: {
+		include: string[];
+		exclude?: string[];
+	};
+}
+
+/**
+ * Checks whether an expression has a type JSR can infer without type checking.
+ */
+function isSimplyInferable(node: ts.Expression): boolean {
+	if (
+		ts.isStringLiteral(node) ||
+		ts.isNumericLiteral(node) ||
+		ts.isBigIntLiteral(node) ||
+		ts.isNoSubstitutionTemplateLiteral(node) ||
+		node.kind === ts.SyntaxKind.TrueKeyword ||
+		node.kind === ts.SyntaxKind.FalseKeyword ||
+		node.kind === ts.SyntaxKind.NullKeyword
+	) {
+		return true;
+	}
+	if (ts.isPrefixUnaryExpression(node)) {
+		return ts.isNumericLiteral(node.operand) || ts.isBigIntLiteral(node.operand);
+	}
+	if (ts.isParenthesizedExpression(node)) {
+		return isSimplyInferable(node.expression);
+	}
+	// `value as Type` carries an explicit type, except `as const`
+	if (ts.isAsExpression(node) || ts.isTypeAssertionExpression(node)) {
+		return !(
+			ts.isTypeReferenceNode(node.type) &&
+			ts.isIdentifier(node.type.typeName) &&
+			node.type.typeName.text === "const"
+		);
+	}
+	if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+		return node.type !== undefined && node.parameters.every((param) => hasExplicitParameterType(param));
+	}
+	return false;
+}
+
+/**
+ * Checks whether a parameter's type is known without inference.
+ */
+function hasExplicitParameterType(param: ts.ParameterDeclaration): boolean {
+	if (param.type) {
+		return true;
+	}
+	return param.initializer !== undefined && isSimplyInferable(param.initializer);
+}
+
+/**
+ * Checks whether a statement carries the `export` modifier.
+ */
+function isExported(node: ts.Node): boolean {
+	return (
+		ts.canHaveModifiers(node) &&
+		(ts.getModifiers(node)?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword) ?? false)
+	);
+}
+
+/**
+ * Checks whether a class member is hidden from the public API.
+ */
+function isPrivateMember(member: ts.ClassElement): boolean {
+	if (member.name && ts.isPrivateIdentifier(member.name)) {
+		return true;
+	}
+	return (
+		ts.canHaveModifiers(member) &&
+		(ts.getModifiers(member)?.some((modifier) => modifier.kind === ts.SyntaxKind.PrivateKeyword) ?? false)
+	);
+}
+
+/**
+ * Finds exported APIs in a source file that violate JSR's slow-types rules.
+ *
+ * @remarks
+ * JSR generates declarations without running the type checker, so exported
+ * functions need explicit return types, exported variables and class fields
+ * need explicit types unless their value is a literal, and global augmentation
+ * is not allowed. Only top-level exports are checked.
+ *
+ * @param sourceFile - The parsed source file
+ * @param cwd - The project root, used to report relative paths
+ * @returns The violations found, in source order
+ *
+ * @internal
+ */
+export function findSlowTypes(sourceFile: ts.SourceFile, cwd: string): SlowTypeIssue[] {
+	const issues: SlowTypeIssue[] = [];
+	const file = isAbsolute(sourceFile.fileName) ? relative(cwd, sourceFile.fileName) : sourceFile.fileName;
+
+	const report = (rule: SlowTypeRule, node: ts.Node, message: string): void => {
+		const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+		issues.push({ rule, message, file, line: line + 1, column: character + 1 });
+	};
+
+	const checkSignature = (node: ts.SignatureDeclarationBase, name: string): void => {
+		if (!node.type) {
+			report("missing-explicit-return-type", node, `Missing explicit return type on "${name}"`);
+		}
+		for (const param of node.parameters) {
+			if (!hasExplicitParameterType(param)) {
+				report(
+					"missing-explicit-type",
+					param,
+					`Missing explicit type on parameter "${param.name.getText(sourceFile)}"`,
+				);
+			}
+		}
+	};
+
+	for (const statement of sourceFile.statements) {
+		if (ts.isModuleDeclaration(statement) && (statement.flags & ts.NodeFlags.GlobalAugmentation) !== 0) {
+			report("unsupported-global-module", statement, "Global augmentation is not supported");
+			continue;
+		}
+		if (ts.isModuleDeclaration(statement) && ts.isStringLiteral(statement.name)) {
+			report(
+				"unsupported-global-module",
+				statement,
+				`Module augmentation of "${statement.name.text}" is not supported`,
+			);
+			continue;
+		}
+
+		if (ts.isExportAssignment(statement)) {
+			const expression = statement.expression;
+			if (!ts.isIdentifier(expression) && !isSimplyInferable(expression)) {
+				report("unsupported-default-export-expr", statement, "Default export expression needs an explicit type");
+			}
+			continue;
+		}
+
+		if (!isExported(statement)) {
+			continue;
+		}
+
+		if (ts.isFunctionDeclaration(statement)) {
+			// Overload implementations are hidden behind their overload signatures
+			if (statement.body && statement.name) {
+				const hasOverloads = sourceFile.statements.some(
+					(other) =>
+						other !== statement &&
+						ts.isFunctionDeclaration(other) &&
+						!other.body &&
+						other.name?.text === statement.name?.text,
+				);
+				if (hasOverloads) {
+					continue;
+				}
+			}
+			checkSignature(statement, statement.name?.text ?? "default");
+		} else if (ts.isVariableStatement(statement)) {
+			for (const declaration of statement.declarationList.declarations) {
+				if (declaration.type) {
+					continue;
+				}
+				if (declaration.initializer && isSimplyInferable(declaration.initializer)) {
+					continue;
+				}
+				const name = declaration.name.getText(sourceFile);
+				if (
+					declaration.initializer &&
+					(ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))
+				) {
+					checkSignature(declaration.initializer, name);
+				} else {
+					report("missing-explicit-type", declaration, `Missing explicit type on "${name}"`);
+				}
+			}
+		} else if (ts.isClassDeclaration(statement)) {
+			const className = statement.name?.text ?? "default";
+			for (const member of statement.members) {
+				if (isPrivateMember(member)) {
+					continue;
+				}
+				const memberName = member.name ? `${className}.${member.name.getText(sourceFile)}` : className;
+				if (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member)) {
+					checkSignature(member, memberName);
+				} else if (ts.isSetAccessorDeclaration(member)) {
+					for (const param of member.parameters) {
+						if (!hasExplicitParameterType(param)) {
+							report("missing-explicit-type", param, `Missing explicit type on "${memberName}"`);
+						}
+					}
+				} else if (ts.isConstructorDeclaration(member)) {
+					for (const param of member.parameters) {
+						if (!hasExplicitParameterType(param)) {
+							report(
+								"missing-explicit-type",
+								param,
+								`Missing explicit type on constructor parameter "${param.name.getText(sourceFile)}"`,
+							);
+						}
+					}
+				} else if (ts.isPropertyDeclaration(member)) {
+					if (!member.type && !(member.initializer && isSimplyInferable(member.initializer))) {
+						report("missing-explicit-type", member, `Missing explicit type on "${memberName}"`);
+					}
+				}
+			}
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Formats slow-types violations for logging.
+ *
+ * @internal
+ */
+export function formatSlowTypes(issues: SlowTypeIssue[]): string {
+	return issues
+		.map((issue) => `  ${issue.file}:${issue.line}:${issue.column} ${issue.message} ${color.dim(`(${issue.rule})`)}`)
+		.join("\n");
+}
+
+/**
+ * Creates the `@ts-self-types` header that points a bundled entry at its declaration rollup.
+ *
+ * @param entryName - The entry name (e.g., `"index"`, `"foo/bar/index"`)
+ * @returns The header comment, including a trailing newline
+ *
+ * @example
+ * ```typescript
+ * createSelfTypesHeader("foo/bar/index"); // '/* @ts-self-types="./index.d.ts" *\/\n'
+ * ```
+ *
+ * @internal
+ */
+export function createSelfTypesHeader(entryName: string): string {
+	return `/* @ts-self-types="./${posix.basename(entryName)}.d.ts" */\n`;
+}
+
+/**
+ * Normalizes a source path to the `./`-prefixed form used in jsr.json.
+ */
+function toJsrPath(path: string): string {
+	const normalized = path.replace(/\\/g, "/");
+	return normalized.startsWith("./") ? normalized : `./${normalized}`;
+}
+
+/**
+ * Builds the jsr.json manifest from package.json and the build's files list.
+ *
+ * @remarks
+ * Exports are derived from the same EntryExtractor output that drives the
+ * JavaScript entries, so every export points at either its bundled output
+ * (`./utils.js`), its bundleless output (`./utils/index.js`) or, with
+ * `sources`, its TypeScript source. JSR has no wildcard exports, so each
+ * match of a wildcard subpath pattern becomes its own export. Files prefixed
+ * with `!` in the files list become `publish.exclude` entries.
+ *
+ * @param options - Manifest inputs
+ * @returns The jsr.json content
+ * @throws Error when the name is not scoped or the version is missing
+ *
+ * @internal
+ */
+export function createJsrManifest(options: {
+	packageJson: PackageJson;
+	files: Iterable<string>;
+	name?: string;
+	sources?: boolean;
+	bundle?: boolean;
+	exportsAsIndexes?: boolean;
+	cwd?: string;
+}): JsrManifest {
+	const { packageJson, sources = false, bundle = true } = options;
+	const name = options.name ?? packageJson.name;
+	if (!name || !/^@[^/]+\/[^/]+$/.test(name)) {
+		throw new Error(
+			`JSR packages must have a scoped name (@scope/name), got "${name ?? ""}". Set the jsr.name option to publish under a scope.`,
+		);
+	}
+	if (!packageJson.version) {
+		throw new Error("JSR packages must have a version. Add a version to package.json.");
+	}
+
+	const { entries, exportEntries } = extractEntriesFromPackageJson(packageJson, {
+		exportsAsIndexes: options.exportsAsIndexes,
+		cwd: options.cwd,
+	});
+
+	const exports: Record<string, string> = {};
+	for (const [exportKey, entryName] of Object.entries(exportEntries)) {
+		if (sources) {
+			exports[exportKey] = toJsrPath(entries[entryName]);
+		} else if (!bundle) {
+			exports[exportKey] = transformExportPath(toJsrPath(entries[entryName]));
+		} else {
+			exports[exportKey] = `./${entryName}.js`;
+		}
+	}
+
+	const include = new Set<string>(["jsr.json"]);
+	const exclude = new Set<string>();
+	for (const file of options.files) {
+		if (file.startsWith("!")) {
+			exclude.add(file.slice(1));
+		} else {
+			include.add(file);
+		}
+	}
+
+	const manifest: JsrManifest = {
+		name,
+		version: packageJson.version,
+		exports,
+		publish: {
+			include: Array.from(include).sort(),
+		},
+	};
+	if (exclude.size > 0) {
+		manifest.publish.exclude = Array.from(exclude).sort();
+	}
+	return manifest;
+}
+
+/**
+ * Checks whether a file is a compiled output that source mode does not publish.
+ */
+function isCompiledOutput(file: string): boolean {
+	return /\.(c|m)?js$/.test(file) || /\.d\.(c|m)?ts$/.test(file);
+}
+
+/**
+ * Prefixes a JavaScript asset with its `@ts-self-types` header, once.
+ */
+function addSelfTypesHeader(context: Parameters<ProcessAssetsHandler>[0], assetName: string, entryName: string): void {
+	const content = context.compilation.assets[assetName].source().toString();
+	if (!content.includes("@ts-self-types")) {
+		context.compilation.updateAsset(
+			assetName,
+			new context.sources.RawSource(`${createSelfTypesHeader(entryName)}${content}`),
+		);
+	}
+}
+
+/**
+ * Plugin to prepare a build for publishing to JSR.
+ *
+ * @remarks
+ * Emits a `jsr.json` with `name`, `version`, `exports` and a `publish.include`
+ * list derived from the shared files array, so npm and JSR publish the same
+ * files from one config.
+ *
+ * ## Publishing Modes
+ *
+ * - **Bundled (default)**: jsr.json exports point at the bundled JavaScript and
+ *   each entry gets a `@ts-self-types` header referencing its `.d.ts` rollup
+ * - **Sources**: TypeScript sources reachable from the exports are emitted
+ *   and jsr.json exports point at them
+ *
+ * ## Slow Types
+ *
+ * Before the build, exported APIs reachable from the entry points are checked
+ * against JSR's slow-types rules (explicit return types, explicit types on
+ * exported variables and class fields, no global augmentation).
+ *
+ * ## Plugin Interoperability
+ *
+ * - Consumes `entrypoints` map from AutoEntryPlugin
+ * - Consumes and extends the `files-array` set
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { JsrPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [JsrPlugin({ slowTypes: 'warn' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const JsrPlugin = (options: JsrPluginOptions = {}): RsbuildPlugin => {
+	const { sources = false, bundle = true, slowTypes = "throw" } = options;
+
+	return {
+		name: "jsr-plugin",
+		post: ["files-array-plugin"],
+		setup(api: RsbuildPluginAPI): void {
+			let filesArray = api.useExposed("files-array") as Set<string> | undefined;
+			if (!filesArray) {
+				filesArray = new Set<string>();
+				api.expose("files-array", filesArray);
+			}
+
+			let packageJson: PackageJson | undefined;
+			const sourceFiles: string[] = [];
+
+			api.processAssets(
+				{
+					stage: "pre-process",
+				},
+				async (context) => {
+					const cwd = api.context.rootPath;
+					// JSR publishes the publishConfig overrides, like the npm target
+					packageJson = applyPublishConfigOverrides(
+						JSON.parse(await readFile(join(cwd, "package.json"), "utf-8")) as PackageJson,
+					);
+
+					// Bin entries are CLI tools and are not part of the JSR module graph
+					const { entries } = extractEntriesFromPackageJson(packageJson, {
+						exportsAsIndexes: options.exportsAsIndexes,
+						cwd,
+					});
+					const entryPaths = Object.entries(entries)
+						.filter(([entryName]) => !entryName.startsWith("bin/"))
+						.map(([, sourcePath]) => sourcePath);
+
+					const graph = ImportGraph.fromEntries(entryPaths, { rootDir: cwd, tsconfigPath: options.tsconfigPath });
+					for (const error of graph.errors) {
+						logger.warn(`${color.dim("[jsr]")} ${error.message}`);
+					}
+
+					if (slowTypes) {
+						const issues: SlowTypeIssue[] = [];
+						for (const file of graph.files) {
+							const content = await readFile(file, "utf-8");
+							const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+							issues.push(...findSlowTypes(sourceFile, cwd));
+						}
+
+						if (issues.length === 0) {
+							logger.info(`${color.dim("[jsr]")} ${color.green("No slow types found")}`);
+						} else {
+							const formatted = formatSlowTypes(issues);
+							if (slowTypes === "throw") {
+								throw new Error(`JSR slow types check failed:\n${formatted}`);
+							} else if (slowTypes === "error") {
+								logger.error(`${color.dim("[jsr]")} Slow types found:\n${formatted}`);
+							} else {
+								logger.warn(`${color.dim("[jsr]")} Slow types found:\n${formatted}`);
+							}
+						}
+					}
+
+					if (sources) {
+						for (const file of graph.files) {
+							const fileName = relative(cwd, file).replace(/\\/g, "/");
+							const content = await readFile(file, "utf-8");
+							context.compilation.emitAsset(fileName, new context.sources.RawSource(content));
+							sourceFiles.push(fileName);
+						}
+					}
+				},
+			);
+
+			api.processAssets(
+				{
+					stage: "additions",
+				},
+				async (context) => {
+					if (!packageJson || !filesArray) {
+						return;
+					}
+
+					const files = sources
+						? [...sourceFiles, ...Array.from(filesArray).filter((file) => !isCompiledOutput(file))]
+						: Array.from(filesArray);
+					const manifest = createJsrManifest({
+						packageJson,
+						files,
+						name: options.name,
+						sources,
+						bundle,
+						exportsAsIndexes: options.exportsAsIndexes,
+						cwd: api.context.rootPath,
+					});
+
+					context.compilation.emitAsset(
+						"jsr.json",
+						new context.sources.RawSource(`${JSON.stringify(manifest, null, "\t")}\n`),
+					);
+					filesArray.add("jsr.json");
+					logger.info(
+						`${color.dim("[jsr]")} Emitted jsr.json with ${Object.keys(manifest.exports).length} export${Object.keys(manifest.exports).length === 1 ? "" : "s"}`,
+					);
+				},
+			);
+
+			// Runs after minification, which would otherwise strip the header comments
+			api.processAssets(
+				{
+					stage: "optimize-inline",
+				},
+				async (context) => {
+					if (sources) {
+						return;
+					}
+					if (!bundle) {
+						// Every module is its own file, each next to its own declaration file
+						for (const assetName of Object.keys(context.compilation.assets)) {
+							if (!assetName.endsWith(".js") || !context.compilation.assets[`${assetName.slice(0, -3)}.d.ts`]) {
+								continue;
+							}
+							addSelfTypesHeader(context, assetName, assetName.slice(0, -3));
+						}
+						return;
+					}
+					const entrypoints = api.useExposed<Map<string, string>>("entrypoints") ?? new Map<string, string>();
+					for (const outputName of entrypoints.keys()) {
+						const entryName = outputName.replace(/\.tsx?$/, "");
+						const assetName = `${entryName}.js`;
+						const asset = context.compilation.assets[assetName];
+						if (entryName.startsWith("bin/") || !asset) {
+							continue;
+						}
+						addSelfTypesHeader(context, assetName, entryName);
+					}
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
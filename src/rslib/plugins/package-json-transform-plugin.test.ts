@@ -12,15 +12,36 @@ vi.mock("node:fs/promises", () => ({
 vi.mock("./utils/file-utils.js");
 vi.mock("./utils/package-json-transformer.js");
 vi.mock("./utils/asset-utils.js");
+vi.mock("./utils/import-graph.js");
+vi.mock("./utils/standard-files.js", () => ({
+	emitStandardFiles: vi.fn().mockResolvedValue([]),
+}));
 
+import { readFile } from "node:fs/promises";
 import { PackageJsonTransformPlugin } from "./package-json-transform-plugin.js";
-import { JsonAsset, TextAsset } from "./utils/asset-utils.js";
+import { JsonAsset } from "./utils/asset-utils.js";
+import { ImportGraph } from "./utils/import-graph.js";
 // Static imports after mocks are set up
-import { buildPackageJson } from "./utils/package-json-transformer.js";
+import {
+	applyImportSourceConditions,
+	applySourceConditions,
+	buildPackageJson,
+	findSubpathImportSpecifiers,
+	pruneSubpathImports,
+} from "./utils/package-json-transformer.js";
+import { emitStandardFiles } from "./utils/standard-files.js";
 
 const mockBuildPackageJson: ReturnType<typeof vi.mocked<typeof buildPackageJson>> = vi.mocked(buildPackageJson);
+const mockFindSubpathImportSpecifiers: ReturnType<typeof vi.mocked<typeof findSubpathImportSpecifiers>> =
+	vi.mocked(findSubpathImportSpecifiers);
+const mockApplyImportSourceConditions: ReturnType<typeof vi.mocked<typeof applyImportSourceConditions>> =
+	vi.mocked(applyImportSourceConditions);
+const mockApplySourceConditions: ReturnType<typeof vi.mocked<typeof applySourceConditions>> =
+	vi.mocked(applySourceConditions);
+const mockPruneSubpathImports: ReturnType<typeof vi.mocked<typeof pruneSubpathImports>> =
+	vi.mocked(pruneSubpathImports);
 const mockJsonAssetCreate: ReturnType<typeof vi.mocked<typeof JsonAsset.create>> = vi.mocked(JsonAsset.create);
-const mockTextAssetCreate: ReturnType<typeof vi.mocked<typeof TextAsset.create>> = vi.mocked(TextAsset.create);
+const mockEmitStandardFiles: ReturnType<typeof vi.mocked<typeof emitStandardFiles>> = vi.mocked(emitStandardFiles);
 
 interface MockContext {
 	assets: MockAssetRegistry;
@@ -28,6 +49,7 @@ interface MockContext {
 		RawSource: ReturnType<typeof vi.fn>;
 	};
 	compilation: {
+		assets: MockAssetRegistry;
 		emitAsset: ReturnType<typeof vi.fn>;
 		updateAsset: ReturnType<typeof vi.fn>;
 		name: string | undefined;
@@ -53,6 +75,7 @@ function createMockContext(assets: MockAssetRegistry = {}): MockContext {
 			RawSource: mockRawSource,
 		},
 		compilation: {
+			assets: {},
 			emitAsset: mockEmitAsset,
 			updateAsset: mockUpdateAsset,
 			name: "production" as string | undefined, // Default to production, but optional
@@ -71,8 +94,9 @@ describe("PackageJsonTransformPlugin", () => {
 		vi.clearAllMocks();
 		// Reset specific mocks
 		mockJsonAssetCreate.mockClear();
-		mockTextAssetCreate.mockClear();
+		mockEmitStandardFiles.mockClear();
 		mockBuildPackageJson.mockClear();
+		mockApplySourceConditions.mockImplementation((exports) => exports);
 	});
 
 	it("should create plugin with correct name", () => {
@@ -145,10 +169,44 @@ describe("PackageJsonTransformPlugin", () => {
 			undefined,
 			undefined,
 			undefined,
+			undefined,
+			new Set(),
+			undefined,
+			[],
 		);
 		expect(mockPackageJsonAsset.update).toHaveBeenCalled();
 	});
 
+	it("should honor the production option over the environment name", async () => {
+		const plugin = PackageJsonTransformPlugin({ production: false });
+		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+
+		const callback = mockApi.processAssets.mock.calls[1][1];
+
+		const originalPackageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+		};
+
+		const mockPackageJsonAsset = {
+			data: originalPackageJson,
+			update: vi.fn(),
+		};
+		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
+		mockJsonAssetCreate.mockResolvedValue(mockPackageJsonAsset as any);
+
+		mockBuildPackageJson.mockResolvedValue(originalPackageJson);
+
+		const mockContext = createMockContext();
+		mockContext.compilation.name = "canary";
+
+		await callback(mockContext);
+
+		expect(mockBuildPackageJson.mock.calls.at(-1)?.[1]).toBe(false);
+	});
+
 	it("should handle dev environment", async () => {
 		const plugin = PackageJsonTransformPlugin();
 		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
@@ -185,9 +243,156 @@ describe("PackageJsonTransformPlugin", () => {
 			undefined,
 			undefined,
 			undefined,
+			undefined,
+			new Set(),
+			undefined,
+			[],
 		);
 	});
 
+	it("should pass the # specifiers left in emitted code and declarations", async () => {
+		const plugin = PackageJsonTransformPlugin();
+		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+
+		const callback = mockApi.processAssets.mock.calls[1][1];
+		const originalPackageJson: PackageJson = { name: "test-package", version: "1.0.0" };
+		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
+		mockJsonAssetCreate.mockResolvedValue({ data: originalPackageJson, update: vi.fn() } as any);
+		mockBuildPackageJson.mockResolvedValue(originalPackageJson);
+		mockFindSubpathImportSpecifiers.mockImplementation((content) => new Set(content === "js" ? ["#a"] : ["#b"]));
+
+		const mockContext = createMockContext();
+		mockContext.compilation.assets = {
+			"index.js": { source: () => "js" },
+			"types.d.ts": { source: () => "dts" },
+			"index.js.map": { source: () => "map" },
+		};
+
+		await callback(mockContext);
+
+		expect(mockFindSubpathImportSpecifiers).toHaveBeenCalledTimes(2);
+		expect(mockBuildPackageJson.mock.calls[0][8]).toEqual(new Set(["#a", "#b"]));
+	});
+
+	it("should keep the # specifiers of shipped sources for the source condition", async () => {
+		const plugin = PackageJsonTransformPlugin({ sourceCondition: true });
+		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+
+		const originalPackageJson: PackageJson = {
+			name: "test-package",
+			imports: { "#internal/*": "./src/internal/*.ts" },
+		};
+		mockJsonAssetCreate.mockResolvedValue({
+			data: originalPackageJson,
+			update: vi.fn(),
+		} as unknown as JsonAsset<PackageJson>);
+		mockBuildPackageJson.mockResolvedValue({ name: "test-package", imports: { "#internal/*": "./internal/*.js" } });
+		mockPruneSubpathImports.mockImplementation((imports) => imports);
+		mockFindSubpathImportSpecifiers.mockImplementation(
+			(content) => new Set(content.includes("#internal") ? ["#internal/utils"] : []),
+		);
+
+		const mockContext = createMockContext();
+		mockContext.compilation.assets = {
+			"index.js": { source: () => "export const value = 1;" },
+			"src/index.ts": { source: () => 'export { value } from "#internal/utils";' },
+			"src/internal/utils.ts": { source: () => "export const value = 1;" },
+		};
+
+		await mockApi.processAssets.mock.calls[1][1](mockContext);
+
+		expect(mockFindSubpathImportSpecifiers).toHaveBeenCalledWith('export { value } from "#internal/utils";');
+		expect(mockBuildPackageJson.mock.calls[0][8]).toEqual(new Set(["#internal/utils"]));
+		expect(mockBuildPackageJson.mock.calls[0][10]).toEqual(["index.js", "src/index.ts", "src/internal/utils.ts"]);
+		expect(mockPruneSubpathImports).toHaveBeenCalledWith(
+			{ "#internal/*": "./src/internal/*.ts" },
+			new Set(["#internal/utils"]),
+		);
+		expect(mockApplyImportSourceConditions).toHaveBeenCalledWith(
+			{ "#internal/*": "./internal/*.js" },
+			{ "#internal/*": "./src/internal/*.ts" },
+		);
+	});
+
+	it("should pass the manifest policy to buildPackageJson", async () => {
+		const manifest = { omit: ["devDependencies"], set: { "publishConfig.tag": "next" } };
+		const plugin = PackageJsonTransformPlugin({ manifest });
+		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+
+		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
+		mockJsonAssetCreate.mockResolvedValue({ data: { name: "test-package" }, update: vi.fn() } as any);
+		mockBuildPackageJson.mockResolvedValue({ name: "test-package" });
+
+		await mockApi.processAssets.mock.calls[1][1](createMockContext());
+
+		expect(mockBuildPackageJson.mock.calls[0][9]).toBe(manifest);
+	});
+
+	it("should remove source conditions unless sourceCondition is enabled", async () => {
+		const plugin = PackageJsonTransformPlugin();
+		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+
+		const callback = mockApi.processAssets.mock.calls[1][1];
+		const exports = { ".": { types: "./index.d.ts", source: "./src/index.ts", import: "./index.js" } };
+		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
+		mockJsonAssetCreate.mockResolvedValue({ data: { name: "test-package" }, update: vi.fn() } as any);
+		mockBuildPackageJson.mockResolvedValue({ name: "test-package", exports });
+
+		await callback(createMockContext());
+
+		expect(mockApplySourceConditions).toHaveBeenCalledWith(exports, undefined);
+	});
+
+	it("should ship traced sources and pass them to the source condition", async () => {
+		const plugin = PackageJsonTransformPlugin({ sourceCondition: true });
+		const mockApi = {
+			processAssets: vi.fn(),
+			expose: vi.fn(),
+			useExposed: vi.fn().mockReturnValue(undefined),
+			context: { rootPath: "/project" },
+		};
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+
+		const sourcePackageJson: PackageJson = { name: "test-package", exports: { ".": "./src/index.ts" } };
+		mockJsonAssetCreate.mockResolvedValue({
+			data: sourcePackageJson,
+			fileName: "package.json",
+			update: vi.fn(),
+		} as unknown as JsonAsset<PackageJson>);
+		vi.mocked(ImportGraph.fromEntries).mockReturnValue({
+			files: ["/project/src/index.ts", "/project/src/utils.ts"],
+			errors: [],
+		} as unknown as ReturnType<typeof ImportGraph.fromEntries>);
+		vi.mocked(readFile).mockResolvedValue("export {};");
+
+		const mockContext = createMockContext();
+		mockContext.sources.RawSource = vi.fn().mockImplementation(function (this: unknown, content: string) {
+			return { source: () => content };
+		});
+		await mockApi.processAssets.mock.calls[0][1](mockContext);
+
+		expect(ImportGraph.fromEntries).toHaveBeenCalledWith(["./src/index.ts"], {
+			rootDir: "/project",
+			tsconfigPath: undefined,
+		});
+		expect(mockContext.compilation.emitAsset).toHaveBeenCalledWith("src/index.ts", expect.anything());
+		expect(mockContext.compilation.emitAsset).toHaveBeenCalledWith("src/utils.ts", expect.anything());
+
+		mockBuildPackageJson.mockResolvedValue({ name: "test-package", exports: { ".": "./index.js" } });
+		await mockApi.processAssets.mock.calls[1][1](mockContext);
+
+		expect(mockApplySourceConditions).toHaveBeenCalledWith({ ".": "./index.js" }, { ".": "./src/index.ts" });
+	});
+
 	it("should handle missing compilation name", async () => {
 		const plugin = PackageJsonTransformPlugin();
 		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
@@ -225,6 +430,10 @@ describe("PackageJsonTransformPlugin", () => {
 			undefined,
 			undefined,
 			undefined,
+			undefined,
+			new Set(),
+			undefined,
+			[],
 		);
 	});
 
@@ -331,15 +540,10 @@ describe("PackageJsonTransformPlugin", () => {
 
 		// Mock asset creation
 		const mockPackageJsonAsset = { fileName: "package.json" };
-		const mockReadmeAsset = { fileName: "README.md" };
-		const mockLicenseAsset = { fileName: "LICENSE" };
 
 		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
 		mockJsonAssetCreate.mockResolvedValue(mockPackageJsonAsset as any);
-		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
-		mockTextAssetCreate.mockResolvedValueOnce(mockReadmeAsset as any);
-		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
-		mockTextAssetCreate.mockResolvedValueOnce(mockLicenseAsset as any);
+		mockEmitStandardFiles.mockResolvedValueOnce(["README.md", "LICENSE"]);
 
 		// Get the pre-process callback
 		const preProcessCallback = mockApi.processAssets.mock.calls[0][1];
@@ -352,8 +556,7 @@ describe("PackageJsonTransformPlugin", () => {
 
 		// Should have called create methods for all assets
 		expect(mockJsonAssetCreate).toHaveBeenCalledWith(mockContext, "package.json", true);
-		expect(mockTextAssetCreate).toHaveBeenCalledWith(mockContext, "README.md", false);
-		expect(mockTextAssetCreate).toHaveBeenCalledWith(mockContext, "LICENSE", false);
+		expect(mockEmitStandardFiles).toHaveBeenCalledWith(mockContext, undefined, undefined);
 
 		// Should have added files to the shared files array
 		expect(filesArray.has("package.json")).toBe(true);
@@ -377,15 +580,10 @@ describe("PackageJsonTransformPlugin", () => {
 
 		// Mock asset creation
 		const mockPackageJsonAsset = { fileName: "package.json" };
-		const mockReadmeAsset = { fileName: "README.md" };
-		const mockLicenseAsset = { fileName: "LICENSE" };
 
 		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
 		mockJsonAssetCreate.mockResolvedValue(mockPackageJsonAsset as any);
-		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
-		mockTextAssetCreate.mockResolvedValueOnce(mockReadmeAsset as any);
-		// biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
-		mockTextAssetCreate.mockResolvedValueOnce(mockLicenseAsset as any);
+		mockEmitStandardFiles.mockResolvedValueOnce(["README.md", "LICENSE"]);
 
 		// Get the pre-process callback
 		const preProcessCallback = mockApi.processAssets.mock.calls[0][1];
@@ -404,6 +602,26 @@ describe("PackageJsonTransformPlugin", () => {
 		expect(exposedFilesArray?.has("LICENSE")).toBe(true);
 	});
 
+	it("should pass the standard files and target to the discovery", async () => {
+		const standardFiles = ["readme{,.*}", { pattern: "licen[cs]e{,.*}", workspaceFallback: true }];
+		const plugin = PackageJsonTransformPlugin({ target: "npm", standardFiles });
+		const filesArray = new Set<string>();
+		const mockApi = {
+			processAssets: vi.fn(),
+			expose: vi.fn(),
+			useExposed: vi.fn().mockImplementation((key: string) => (key === "files-array" ? filesArray : undefined)),
+		};
+		mockJsonAssetCreate.mockResolvedValue(null);
+		mockEmitStandardFiles.mockResolvedValueOnce(["README.mdx", "LICENSE.md"]);
+
+		plugin.setup(mockApi as unknown as Parameters<ReturnType<typeof PackageJsonTransformPlugin>["setup"]>[0]);
+		const mockContext = createMockContext();
+		await mockApi.processAssets.mock.calls[0][1](mockContext);
+
+		expect(mockEmitStandardFiles).toHaveBeenCalledWith(mockContext, standardFiles, "npm");
+		expect(Array.from(filesArray)).toEqual(["README.mdx", "LICENSE.md"]);
+	});
+
 	it("should execute name override during optimize-inline stage", async () => {
 		const plugin = PackageJsonTransformPlugin({ name: "custom-package-name" });
 		const mockApi = { processAssets: vi.fn(), expose: vi.fn(), useExposed: vi.fn().mockReturnValue(undefined) };
@@ -502,6 +720,10 @@ describe("PackageJsonTransformPlugin", () => {
 			undefined,
 			undefined,
 			undefined,
+			undefined,
+			new Set(),
+			undefined,
+			[],
 		);
 	});
 
@@ -1,8 +1,23 @@
+import { readFile } from "node:fs/promises";
+import { relative } from "node:path";
 import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
 import type { PackageJson } from "../../types/package-json.js";
 import type { CacheEntry } from "./utils/asset-utils.js";
-import { JsonAsset, TextAsset } from "./utils/asset-utils.js";
-import { buildPackageJson } from "./utils/package-json-transformer.js";
+import { JsonAsset } from "./utils/asset-utils.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+import { extractEntriesFromPackageJson } from "./utils/entry-extractor.js";
+import { ImportGraph } from "./utils/import-graph.js";
+import type { ManifestPolicy } from "./utils/package-json-transformer.js";
+import {
+	applyImportSourceConditions,
+	applySourceConditions,
+	buildPackageJson,
+	findSubpathImportSpecifiers,
+	pruneSubpathImports,
+} from "./utils/package-json-transformer.js";
+import type { StandardFilesOption } from "./utils/standard-files.js";
+import { emitStandardFiles } from "./utils/standard-files.js";
 
 /**
  * Options for the PackageJsonTransformPlugin.
@@ -40,6 +55,17 @@ export interface PackageJsonTransformPluginOptions {
 	 */
 	forcePrivate?: boolean;
 
+	/**
+	 * Whether to apply production transformations (pnpm `catalog:` and `workspace:` resolution).
+	 *
+	 * @remarks
+	 * Custom build targets have their own environment names, so the builder
+	 * passes this explicitly based on the target's base.
+	 *
+	 * @defaultValue `true` unless the environment is named "dev"
+	 */
+	production?: boolean;
+
 	/**
 	 * Whether to process TypeScript exports and generate type conditions.
 	 *
@@ -64,6 +90,41 @@ export interface PackageJsonTransformPluginOptions {
 	 */
 	bundle?: boolean;
 
+	/**
+	 * Whether CommonJS output is emitted next to the ESM output.
+	 *
+	 * @remarks
+	 * TypeScript exports get separate `import` and `require` conditions, each
+	 * with its own `types` condition.
+	 *
+	 * @example
+	 * Input: `"./src/index.ts"`
+	 * Output: `{ "import": { "types": "./index.d.ts", "default": "./index.js" }, "require": { "types": "./index.d.cts", "default": "./index.cjs" } }`
+	 *
+	 * @defaultValue false
+	 */
+	dualFormat?: boolean;
+
+	/**
+	 * Ship the TypeScript sources and point a `source` export condition at them.
+	 *
+	 * @remarks
+	 * The sources reachable from the exports are emitted under their original
+	 * paths (e.g., `src/index.ts`), and each TypeScript export gets a `source`
+	 * condition right after `types`. Files reached through `#` subpath imports
+	 * are shipped too, and `imports` entries with TypeScript targets get a
+	 * `source` condition. When false, `source` conditions from the source
+	 * package.json are removed, since their files are not shipped.
+	 *
+	 * @defaultValue false
+	 */
+	sourceCondition?: boolean;
+
+	/**
+	 * Path to the tsconfig used to resolve imports while tracing shipped sources.
+	 */
+	tsconfigPath?: string;
+
 	/**
 	 * Build target identifier for custom transformations.
 	 *
@@ -73,6 +134,28 @@ export interface PackageJsonTransformPluginOptions {
 	 */
 	target?: string;
 
+	/**
+	 * Declarative rules for the output package.json fields.
+	 *
+	 * @remarks
+	 * Applied after the built-in transformations and before `transform`.
+	 * See {@link ManifestPolicy}.
+	 */
+	manifest?: ManifestPolicy;
+
+	/**
+	 * Standard files, such as the README and LICENSE, copied into the output.
+	 *
+	 * @remarks
+	 * Globs are matched case-insensitively in the package directory. Files
+	 * with `workspaceFallback` are taken from the workspace root when the
+	 * package has none, and files with `targets` are only copied for those
+	 * targets. Pass `false` to copy none.
+	 *
+	 * @defaultValue README, LICENSE (with workspace fallback) and CHANGELOG
+	 */
+	standardFiles?: StandardFilesOption;
+
 	/**
 	 * Custom transform function to modify package.json after standard transformations.
 	 *
@@ -110,9 +193,20 @@ export interface PackageJsonTransformPluginOptions {
  *
  * - **Path Updates**: Converts source paths to output paths (e.g., `./src/index.ts` → `./index.js`)
  * - **Type Conditions**: Adds `types` fields to exports pointing to `.d.ts` files
+ * - **Custom Conditions**: Keeps conditions such as `node` or `browser`, rewriting
+ *   their paths; `source` conditions are only kept with `sourceCondition`
+ * - **Subpath Imports**: Rewrites `imports` targets like exports, dropping entries
+ *   the emitted JavaScript, declarations and shipped sources no longer reference
  * - **pnpm Resolution**: Resolves `catalog:` and `workspace:*` dependency versions
- * - **Field Cleanup**: Removes `scripts`, `publishConfig`, and other dev-only fields
+ * - **publishConfig Overrides**: In production, `publishConfig.exports`, `bin`,
+ *   `main`, `types` and the other fields pnpm overrides replace the top-level ones
+ * - **Field Cleanup**: Removes `scripts` and other dev-only fields, and removes
+ *   the merged overrides and `directory` from `publishConfig`, with a warning
+ *   for `directory`
  * - **Private Flag**: Sets based on `publishConfig.access` or `forcePrivate` option
+ * - **Manifest Policy**: Applies the declarative `manifest` omit, keep and set rules
+ * - **Standard Files**: Copies the README, LICENSE and CHANGELOG into the output,
+ *   see `standardFiles`
  *
  * ## Plugin Interoperability
  *
@@ -173,6 +267,9 @@ export const PackageJsonTransformPlugin = (options: PackageJsonTransformPluginOp
 				api.expose("files-array", filesArray);
 			}
 
+			// Export key to shipped TypeScript source, for the `source` condition
+			let exportSources: Record<string, string> | undefined;
+
 			api.processAssets(
 				{
 					stage: "pre-process",
@@ -182,13 +279,28 @@ export const PackageJsonTransformPlugin = (options: PackageJsonTransformPluginOp
 					if (packageJson) {
 						filesArray.add(packageJson.fileName);
 					}
-					const readme = await TextAsset.create(context, "README.md", false);
-					if (readme) {
-						filesArray.add(readme.fileName);
+					if (packageJson && options.sourceCondition) {
+						const cwd = api.context.rootPath;
+						const { entries, exportSources: sources } = extractEntriesFromPackageJson(packageJson.data, { cwd });
+						const entryPaths = Object.entries(entries)
+							.filter(([entryName]) => !entryName.startsWith("bin/"))
+							.map(([, sourcePath]) => sourcePath);
+
+						const graph = ImportGraph.fromEntries(entryPaths, { rootDir: cwd, tsconfigPath: options.tsconfigPath });
+						for (const error of graph.errors) {
+							createEnvLogger(context.compilation.name || "unknown").warn(`${color.dim("[source]")} ${error.message}`);
+						}
+						for (const file of graph.files) {
+							const fileName = relative(cwd, file).replace(/\\/g, "/");
+							context.compilation.emitAsset(fileName, new context.sources.RawSource(await readFile(file, "utf-8")));
+							filesArray.add(fileName);
+						}
+						exportSources = Object.fromEntries(
+							Object.entries(sources).map(([key, sourcePath]) => [key, `./${sourcePath.replace(/^\.\//, "")}`]),
+						);
 					}
-					const license = await TextAsset.create(context, "LICENSE", false);
-					if (license) {
-						filesArray.add(license.fileName);
+					for (const fileName of await emitStandardFiles(context, options.standardFiles, options.target)) {
+						filesArray.add(fileName);
 					}
 				},
 			);
@@ -204,12 +316,28 @@ export const PackageJsonTransformPlugin = (options: PackageJsonTransformPluginOp
 					}
 					// Get environment ID from compiler context
 					const envId = context.compilation?.name || "unknown";
-					const isProduction = envId !== "dev";
+					const isProduction = options.production ?? envId !== "dev";
 
 					// Get the updated entrypoints map if available
 					const entrypoints = api.useExposed<Map<string, string>>("entrypoints");
 					const exportToOutputMap = api.useExposed<Map<string, string>>("exportToOutputMap");
 
+					// Only `#` specifiers left in the output, including shipped sources, still need an imports entry
+					const subpathImports = new Set<string>();
+					for (const [assetName, asset] of Object.entries(context.compilation.assets)) {
+						if (/\.(?:c|m)?[jt]sx?$/.test(assetName)) {
+							for (const specifier of findSubpathImportSpecifiers(asset.source().toString())) {
+								subpathImports.add(specifier);
+							}
+						}
+					}
+
+					const sourceImports = packageJson.data.imports;
+					if (isProduction && packageJson.data.publishConfig?.directory !== undefined) {
+						createEnvLogger(envId).warn(
+							`${color.dim("[publishConfig]")} Removed "directory" from the output package.json; publish the build output directly`,
+						);
+					}
 					const processedPackageJson = await buildPackageJson(
 						packageJson.data,
 						isProduction,
@@ -218,11 +346,25 @@ export const PackageJsonTransformPlugin = (options: PackageJsonTransformPluginOp
 						exportToOutputMap,
 						options.bundle,
 						options.transform,
+						options.dualFormat,
+						subpathImports,
+						options.manifest,
+						Object.keys(context.compilation.assets),
 					);
 					packageJson.data = processedPackageJson;
 					if (options.forcePrivate) {
 						packageJson.data.private = true;
 					}
+					if (packageJson.data.exports) {
+						packageJson.data.exports = applySourceConditions(
+							packageJson.data.exports,
+							options.sourceCondition ? exportSources : undefined,
+						) as PackageJson.Exports;
+					}
+					const usedSourceImports = sourceImports && pruneSubpathImports(sourceImports, subpathImports);
+					if (options.sourceCondition && usedSourceImports) {
+						packageJson.data.imports = applyImportSourceConditions(packageJson.data.imports ?? {}, usedSourceImports);
+					}
 
 					// Check if we should use rollup types (set by ApiReportPluginNew)
 					const useRollupTypes = api.useExposed<boolean>("use-rollup-types");
@@ -0,0 +1,182 @@
+import type { ProcessAssetsHandler } from "@rsbuild/core";
+import { describe, expect, it } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import {
+	formatPublishLintIssues,
+	lintPackageJson,
+	reportPublishLint,
+	shouldFailPublishLint,
+} from "./publish-lint-plugin.js";
+
+describe("lintPackageJson", () => {
+	const createPackageJson = (): PackageJson => ({
+		name: "lib",
+		version: "1.0.0",
+		private: false,
+		license: "MIT",
+		repository: { type: "git", url: "https://github.com/org/lib.git" },
+		exports: {
+			".": { types: "./index.d.ts", import: "./index.js" },
+			"./package.json": "./package.json",
+		},
+		bin: { lib: "./bin/lib.js" },
+	});
+	const packageJson = createPackageJson();
+	const emitted = ["index.js", "index.d.ts", "bin/lib.js", "package.json"];
+
+	it("should accept a publishable package", () => {
+		expect(lintPackageJson(packageJson, emitted, { private: false })).toEqual([]);
+	});
+
+	it("should report paths that were not emitted", () => {
+		const pkg = createPackageJson();
+		pkg.main = "./main.js";
+		pkg.types = "./index.d.ts";
+
+		const issues = lintPackageJson(pkg, ["index.js"]);
+
+		expect(issues.filter((issue) => issue.rule === "missing-file").map((issue) => issue.message)).toEqual([
+			'exports["."]["types"] points at ./index.d.ts, which was not emitted',
+			'exports["./package.json"] points at ./package.json, which was not emitted',
+			"types points at ./index.d.ts, which was not emitted",
+			"main points at ./main.js, which was not emitted",
+			'bin["lib"] points at ./bin/lib.js, which was not emitted',
+		]);
+	});
+
+	it("should match subpath patterns against emitted files", () => {
+		const pkg = createPackageJson();
+		pkg.exports = { "./*": "./features/*.js" };
+
+		expect(lintPackageJson(pkg, [...emitted, "features/a.js"])).toEqual([]);
+		expect(lintPackageJson(pkg, emitted).map((issue) => issue.rule)).toEqual(["missing-file"]);
+	});
+
+	it("should report types conditions that are not first", () => {
+		const pkg = createPackageJson();
+		pkg.exports = {
+			".": {
+				import: { default: "./index.js", types: "./index.d.ts" },
+				require: { types: "./index.d.cts", default: "./index.cjs" },
+			},
+		};
+
+		const issues = lintPackageJson(pkg, [...emitted, "index.d.cts", "index.cjs"]);
+
+		expect(issues).toEqual([
+			{
+				rule: "types-not-first",
+				severity: "error",
+				message: 'exports["."]["import"] lists "types" after "default"; TypeScript only matches it when it comes first',
+			},
+		]);
+	});
+
+	it("should report a publishable dev output as an error", () => {
+		expect(lintPackageJson(packageJson, emitted, { private: true })).toMatchObject([
+			{ rule: "private-mismatch", severity: "error" },
+		]);
+	});
+
+	it("should warn when a publish target output is private", () => {
+		const pkg = createPackageJson();
+		pkg.private = true;
+
+		expect(lintPackageJson(pkg, emitted, { private: false })).toMatchObject([
+			{ rule: "private-mismatch", severity: "warning" },
+		]);
+	});
+
+	it("should report workspace and catalog leftovers", () => {
+		const pkg = createPackageJson();
+		pkg.dependencies = { a: "workspace:*", b: "^1.0.0" };
+		pkg.peerDependencies = { c: "catalog:react" };
+
+		expect(lintPackageJson(pkg, emitted).map((issue) => issue.message)).toEqual([
+			'dependencies["a"] is still "workspace:*"',
+			'peerDependencies["c"] is still "catalog:react"',
+		]);
+	});
+
+	it("should warn about missing license and repository", () => {
+		const pkg = createPackageJson();
+		delete pkg.license;
+		delete pkg.repository;
+
+		expect(lintPackageJson(pkg, emitted)).toEqual([
+			{ rule: "missing-license", severity: "warning", message: "license is not set" },
+			{ rule: "missing-repository", severity: "warning", message: "repository is not set" },
+		]);
+	});
+
+	it("should skip registry checks for private outputs", () => {
+		const pkg = {
+			name: "lib",
+			private: true,
+			exports: { ".": "./index.js" },
+			dependencies: { a: "workspace:*" },
+		} as PackageJson;
+
+		expect(lintPackageJson(pkg, emitted, { private: true })).toEqual([]);
+	});
+});
+
+describe("formatPublishLintIssues", () => {
+	it("should include severity, message and rule for each issue", () => {
+		const formatted = formatPublishLintIssues([
+			{ rule: "missing-license", severity: "warning", message: "license is not set" },
+		]);
+
+		expect(formatted).toContain("warning");
+		expect(formatted).toContain("license is not set");
+		expect(formatted).toContain("missing-license");
+	});
+});
+
+describe("shouldFailPublishLint", () => {
+	const warning = { rule: "missing-license", severity: "warning", message: "" } as const;
+	const error = { rule: "missing-file", severity: "error", message: "" } as const;
+
+	it("should fail on errors by default level", () => {
+		expect(shouldFailPublishLint([warning], "error")).toBe(false);
+		expect(shouldFailPublishLint([warning, error], "error")).toBe(true);
+	});
+
+	it("should fail on warnings at the warning level", () => {
+		expect(shouldFailPublishLint([warning], "warning")).toBe(true);
+		expect(shouldFailPublishLint([], "warning")).toBe(false);
+	});
+
+	it("should never fail at the none level", () => {
+		expect(shouldFailPublishLint([error], "none")).toBe(false);
+	});
+});
+
+describe("reportPublishLint", () => {
+	const createContext = (packageJson?: PackageJson, assets: string[] = []): Parameters<ProcessAssetsHandler>[0] =>
+		({
+			compilation: {
+				name: "npm",
+				assets: Object.fromEntries([
+					...assets.map((name) => [name, { source: () => "" }]),
+					...(packageJson ? [["package.json", { source: () => JSON.stringify(packageJson) }]] : []),
+				]),
+			},
+		}) as unknown as Parameters<ProcessAssetsHandler>[0];
+	const packageJson: PackageJson = { name: "lib", version: "1.0.0", private: true, exports: "./index.js" };
+
+	it("should count the files array as emitted", () => {
+		expect(reportPublishLint(createContext(packageJson), new Set(["index.js", "!index.test.js"]))).toEqual([]);
+	});
+
+	it("should fail at the failOn level", () => {
+		expect(() => reportPublishLint(createContext(packageJson), new Set())).toThrow("package.json publish lint failed");
+		expect(reportPublishLint(createContext(packageJson), new Set(), { failOn: "none" })).toEqual([
+			expect.objectContaining({ severity: "error" }),
+		]);
+	});
+
+	it("should skip compilations without a package.json", () => {
+		expect(reportPublishLint(createContext(undefined, ["index.js"]), new Set())).toEqual([]);
+	});
+});
@@ -0,0 +1,368 @@
+import type { ProcessAssetsHandler, RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import type { PackageJson } from "../../types/package-json.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * Lowest severity that fails the build.
+ *
+ * @remarks
+ * - `"error"`: Fail on errors, log warnings
+ * - `"warning"`: Fail on errors and warnings
+ * - `"none"`: Log everything and continue the build
+ *
+ * @public
+ */
+export type PublishLintFailLevel = "error" | "warning" | "none";
+
+/**
+ * Options for the PublishLintPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { PublishLintPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [PublishLintPlugin({ private: false, failOn: 'warning' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface PublishLintPluginOptions {
+	/**
+	 * Expected value of the output `private` field.
+	 *
+	 * @remarks
+	 * A private output is never published, so registry checks (protocol
+	 * leftovers, `license`, `repository`) are skipped for it. When unset,
+	 * `private` is not checked.
+	 */
+	private?: boolean;
+
+	/**
+	 * Lowest severity that fails the build.
+	 *
+	 * @defaultValue "error"
+	 */
+	failOn?: PublishLintFailLevel;
+}
+
+/**
+ * Rule identifiers reported by the publish lint.
+ *
+ * @internal
+ */
+export type PublishLintRule =
+	| "missing-file"
+	| "types-not-first"
+	| "private-mismatch"
+	| "unresolved-protocol"
+	| "missing-license"
+	| "missing-repository";
+
+/**
+ * A single publish-readiness problem in the output package.json.
+ *
+ * @internal
+ */
+export interface PublishLintIssue {
+	/** The violated rule */
+	rule: PublishLintRule;
+	/** Whether the issue makes the package unusable or is only a recommendation */
+	severity: "error" | "warning";
+	/** Human-readable description of the issue */
+	message: string;
+}
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const;
+
+/**
+ * Collects every file path in an `exports` value along with its JSON path.
+ */
+function collectExportPaths(value: unknown, path: string, paths: Array<[string, string]>): void {
+	if (typeof value === "string") {
+		paths.push([path, value]);
+	} else if (Array.isArray(value)) {
+		value.forEach((item, index) => {
+			collectExportPaths(item, `${path}[${index}]`, paths);
+		});
+	} else if (value && typeof value === "object") {
+		for (const [key, item] of Object.entries(value)) {
+			collectExportPaths(item, `${path}["${key}"]`, paths);
+		}
+	}
+}
+
+/**
+ * Collects every conditions object in an `exports` value along with its JSON path.
+ */
+function collectConditions(value: unknown, path: string, conditions: Array<[string, Record<string, unknown>]>): void {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return;
+	}
+	const entries = Object.entries(value);
+	// Subpath maps have keys starting with "."; conditions objects never do
+	if (entries.length > 0 && !entries[0][0].startsWith(".")) {
+		conditions.push([path, value as Record<string, unknown>]);
+	}
+	for (const [key, item] of entries) {
+		collectConditions(item, `${path}["${key}"]`, conditions);
+	}
+}
+
+/**
+ * Collects every file path a consumer can reach through package.json, along with its JSON path.
+ *
+ * @remarks
+ * Covers `exports`, `types`, `typings`, `main`, `module` and `bin`.
+ *
+ * @internal
+ */
+export function collectPackagePaths(packageJson: PackageJson): Array<[string, string]> {
+	const paths: Array<[string, string]> = [];
+	collectExportPaths(packageJson.exports, "exports", paths);
+	for (const field of ["types", "typings", "main", "module"] as const) {
+		const value = packageJson[field];
+		if (typeof value === "string") {
+			paths.push([field, value]);
+		}
+	}
+	if (typeof packageJson.bin === "string") {
+		paths.push(["bin", packageJson.bin]);
+	} else if (packageJson.bin) {
+		for (const [name, value] of Object.entries(packageJson.bin)) {
+			if (typeof value === "string") {
+				paths.push([`bin["${name}"]`, value]);
+			}
+		}
+	}
+	return paths;
+}
+
+/**
+ * Checks whether a package.json path matches an emitted file, expanding `*` patterns.
+ *
+ * @internal
+ */
+export function isEmitted(path: string, emitted: Set<string>): boolean {
+	const name = path.replace(/^\.\//, "");
+	if (!name.includes("*")) {
+		return emitted.has(name);
+	}
+	const pattern = new RegExp(`^${name.split("*").map(escapeRegExp).join(".+")}$`);
+	return Array.from(emitted).some((file) => pattern.test(file));
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks an output package.json for problems that would break consumers or publishing.
+ *
+ * @remarks
+ * Modeled on publint. Every `exports`, `types`, `typings`, `bin`, `main` and
+ * `module` path must match an emitted file, `types` must be the first key of
+ * each conditions object, and `private` must match the target. Publishable
+ * outputs must not keep `workspace:` or `catalog:` versions and should declare
+ * `license` and `repository`.
+ *
+ * @param packageJson - The output package.json
+ * @param emittedFiles - Names of the files in the output directory, relative to it
+ * @param options - The expected `private` value
+ * @returns The issues found, errors and warnings mixed in check order
+ *
+ * @internal
+ */
+export function lintPackageJson(
+	packageJson: PackageJson,
+	emittedFiles: Iterable<string>,
+	options: Pick<PublishLintPluginOptions, "private"> = {},
+): PublishLintIssue[] {
+	const issues: PublishLintIssue[] = [];
+	const emitted = new Set(emittedFiles);
+
+	for (const [path, value] of collectPackagePaths(packageJson)) {
+		if (!isEmitted(value, emitted)) {
+			issues.push({
+				rule: "missing-file",
+				severity: "error",
+				message: `${path} points at ${value}, which was not emitted`,
+			});
+		}
+	}
+
+	const conditions: Array<[string, Record<string, unknown>]> = [];
+	collectConditions(packageJson.exports, "exports", conditions);
+	for (const [path, value] of conditions) {
+		const keys = Object.keys(value);
+		if (keys.includes("types") && keys[0] !== "types") {
+			issues.push({
+				rule: "types-not-first",
+				severity: "error",
+				message: `${path} lists "types" after "${keys[0]}"; TypeScript only matches it when it comes first`,
+			});
+		}
+	}
+
+	const isPrivate = packageJson.private === true;
+	if (options.private !== undefined && options.private !== isPrivate) {
+		issues.push(
+			options.private
+				? {
+						rule: "private-mismatch",
+						severity: "error",
+						message: "private is not true, but this target must never be published",
+					}
+				: {
+						rule: "private-mismatch",
+						severity: "warning",
+						message: 'private is true, so publishing will be refused; set publishConfig.access to "public"',
+					},
+		);
+	}
+
+	// The remaining checks only matter for packages that reach a registry
+	if (isPrivate) {
+		return issues;
+	}
+
+	for (const field of DEPENDENCY_FIELDS) {
+		for (const [name, version] of Object.entries(packageJson[field] ?? {})) {
+			if (typeof version === "string" && /^(workspace|catalog):/.test(version)) {
+				issues.push({
+					rule: "unresolved-protocol",
+					severity: "error",
+					message: `${field}["${name}"] is still "${version}"`,
+				});
+			}
+		}
+	}
+
+	if (!packageJson.license) {
+		issues.push({ rule: "missing-license", severity: "warning", message: "license is not set" });
+	}
+	if (!packageJson.repository) {
+		issues.push({ rule: "missing-repository", severity: "warning", message: "repository is not set" });
+	}
+
+	return issues;
+}
+
+/**
+ * Formats publish lint issues for logging.
+ *
+ * @internal
+ */
+export function formatPublishLintIssues(issues: PublishLintIssue[]): string {
+	return issues
+		.map((issue) => {
+			const severity = issue.severity === "error" ? color.red("error") : color.yellow("warning");
+			return `  ${severity}  ${issue.message} ${color.dim(`(${issue.rule})`)}`;
+		})
+		.join("\n");
+}
+
+/**
+ * Checks whether the issues reach the configured fail level.
+ *
+ * @internal
+ */
+export function shouldFailPublishLint(issues: PublishLintIssue[], failOn: PublishLintFailLevel): boolean {
+	if (failOn === "none") {
+		return false;
+	}
+	return issues.some((issue) => issue.severity === "error" || failOn === "warning");
+}
+
+/**
+ * Lints the output package.json of a compilation and reports the issues.
+ *
+ * @param context - The Rsbuild compilation context
+ * @param filesArray - The shared `files` entries, which count as emitted
+ * @param options - Plugin configuration options
+ * @returns The issues found
+ * @throws Error when the issues reach the `failOn` level
+ *
+ * @internal
+ */
+export function reportPublishLint(
+	context: Parameters<ProcessAssetsHandler>[0],
+	filesArray: Set<string>,
+	options: PublishLintPluginOptions = {},
+): PublishLintIssue[] {
+	const packageJsonAsset = context.compilation.assets["package.json"];
+	if (!packageJsonAsset) {
+		return [];
+	}
+
+	const log = createEnvLogger(context.compilation.name || "unknown");
+	const emittedFiles = [
+		...Object.keys(context.compilation.assets),
+		...Array.from(filesArray).filter((file) => !file.startsWith("!")),
+	];
+	const packageJson = JSON.parse(packageJsonAsset.source().toString()) as PackageJson;
+	const issues = lintPackageJson(packageJson, emittedFiles, { private: options.private });
+
+	if (issues.length === 0) {
+		log.info(`${color.dim("[publish-lint]")} ${color.green("package.json is ready to publish")}`);
+		return issues;
+	}
+
+	const formatted = formatPublishLintIssues(issues);
+	if (shouldFailPublishLint(issues, options.failOn ?? "error")) {
+		throw new Error(`package.json publish lint failed:\n${formatted}`);
+	}
+	if (issues.some((issue) => issue.severity === "error")) {
+		log.error(`${color.dim("[publish-lint]")} package.json problems:\n${formatted}`);
+	} else {
+		log.warn(`${color.dim("[publish-lint]")} package.json problems:\n${formatted}`);
+	}
+	return issues;
+}
+
+/**
+ * Plugin to check that the generated package.json is ready to publish.
+ *
+ * @remarks
+ * Runs after every package.json transform, in the `optimize-inline` stage,
+ * and checks the final manifest against the files emitted for the target.
+ * See {@link PublishLintPluginOptions} for what is checked.
+ *
+ * ## Plugin Interoperability
+ *
+ * - Consumes the `files-array` set, which holds the assets of secondary libs
+ *   (such as the CommonJS half of a dual format build) writing to the same directory
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { PublishLintPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [PublishLintPlugin({ failOn: 'none' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const PublishLintPlugin = (options: PublishLintPluginOptions = {}): RsbuildPlugin => {
+	return {
+		name: "publish-lint-plugin",
+		post: ["package-json-processor", "files-array-plugin"],
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "optimize-inline",
+				},
+				(context) => {
+					reportPublishLint(context, api.useExposed<Set<string>>("files-array") ?? new Set<string>(), options);
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
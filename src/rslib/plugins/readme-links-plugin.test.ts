@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import type { ReadmeLinkBase } from "./readme-links-plugin.js";
+import {
+	getReadmeLinkBase,
+	getReadmeSourceBase,
+	isRelativeLink,
+	parseRepository,
+	replaceReadmeLinks,
+	resolveReadmeLink,
+	resolveReadmeRef,
+	rewriteReadmeLinks,
+} from "./readme-links-plugin.js";
+
+const base: ReadmeLinkBase = {
+	blob: "https://github.com/org/repo/blob/v1.0.0/",
+	raw: "https://raw.githubusercontent.com/org/repo/v1.0.0/",
+	directory: "packages/lib",
+};
+
+describe("readme-links-plugin", () => {
+	describe("parseRepository", () => {
+		it("should parse repository URLs", () => {
+			expect(parseRepository("git+https://github.com/org/repo.git")).toEqual({ host: "github.com", path: "org/repo" });
+			expect(parseRepository("git@gitlab.com:group/sub/repo.git")).toEqual({
+				host: "gitlab.com",
+				path: "group/sub/repo",
+			});
+			expect(parseRepository("ssh://git@bitbucket.org/org/repo.git")).toEqual({
+				host: "bitbucket.org",
+				path: "org/repo",
+			});
+			expect(parseRepository({ type: "git", url: "https://github.com/org/repo", directory: "packages/lib" })).toEqual({
+				host: "github.com",
+				path: "org/repo",
+				directory: "packages/lib",
+			});
+		});
+
+		it("should parse repository shortcuts", () => {
+			expect(parseRepository("org/repo")).toEqual({ host: "github.com", path: "org/repo" });
+			expect(parseRepository("gitlab:org/repo")).toEqual({ host: "gitlab.com", path: "org/repo" });
+		});
+
+		it("should reject missing and unparsable repositories", () => {
+			expect(parseRepository(undefined)).toBeUndefined();
+			expect(parseRepository("not a url")).toBeUndefined();
+			expect(parseRepository("https://github.com/")).toBeUndefined();
+		});
+	});
+
+	describe("getReadmeLinkBase", () => {
+		it("should build the URLs of each host", () => {
+			expect(
+				getReadmeLinkBase({ host: "github.com", path: "org/repo", directory: "./packages/lib/" }, "v1.0.0"),
+			).toEqual(base);
+			expect(getReadmeLinkBase({ host: "gitlab.com", path: "org/repo" }, "main")).toEqual({
+				blob: "https://gitlab.com/org/repo/-/blob/main/",
+				raw: "https://gitlab.com/org/repo/-/raw/main/",
+				directory: "",
+			});
+			expect(getReadmeLinkBase({ host: "bitbucket.org", path: "org/repo" }, "main")).toEqual({
+				blob: "https://bitbucket.org/org/repo/src/main/",
+				raw: "https://bitbucket.org/org/repo/raw/main/",
+				directory: "",
+			});
+		});
+
+		it("should encode the ref and reject unknown hosts", () => {
+			expect(getReadmeLinkBase({ host: "github.com", path: "org/repo" }, "@scope/lib@1.0.0#1")?.blob).toBe(
+				"https://github.com/org/repo/blob/@scope/lib@1.0.0%231/",
+			);
+			expect(getReadmeLinkBase({ host: "git.example.com", path: "org/repo" }, "main")).toBeUndefined();
+		});
+	});
+
+	describe("getReadmeSourceBase", () => {
+		it("should keep the package directory for package READMEs", () => {
+			expect(getReadmeSourceBase(base, "README.md")).toEqual(base);
+			expect(getReadmeSourceBase(base, undefined)).toEqual(base);
+		});
+
+		it("should resolve workspace root READMEs against the workspace root", () => {
+			expect(getReadmeSourceBase(base, "../../README.md").directory).toBe("");
+			expect(getReadmeSourceBase({ ...base, directory: "js/packages/lib" }, "../../README.md").directory).toBe("js");
+			expect(getReadmeSourceBase({ ...base, directory: "" }, "../../README.md").directory).toBe("");
+		});
+	});
+
+	describe("isRelativeLink", () => {
+		it("should leave anchors and absolute URLs alone", () => {
+			expect(isRelativeLink("./docs/guide.md")).toBe(true);
+			expect(isRelativeLink("docs/guide.md#usage")).toBe(true);
+			expect(isRelativeLink("/CONTRIBUTING.md")).toBe(true);
+			expect(isRelativeLink("#usage")).toBe(false);
+			expect(isRelativeLink("https://example.com")).toBe(false);
+			expect(isRelativeLink("mailto:me@example.com")).toBe(false);
+			expect(isRelativeLink("//cdn.example.com/logo.png")).toBe(false);
+			expect(isRelativeLink("")).toBe(false);
+		});
+	});
+
+	describe("resolveReadmeLink", () => {
+		it("should resolve links against the package directory", () => {
+			expect(resolveReadmeLink("./docs/guide.md#usage", false, base)).toBe(
+				"https://github.com/org/repo/blob/v1.0.0/packages/lib/docs/guide.md#usage",
+			);
+			expect(resolveReadmeLink("../../CONTRIBUTING.md", false, base)).toBe(
+				"https://github.com/org/repo/blob/v1.0.0/CONTRIBUTING.md",
+			);
+			expect(resolveReadmeLink("/LICENSE", false, base)).toBe("https://github.com/org/repo/blob/v1.0.0/LICENSE");
+			expect(resolveReadmeLink("./", false, { ...base, directory: "" })).toBe(
+				"https://github.com/org/repo/blob/v1.0.0/",
+			);
+		});
+
+		it("should link images and image files to the raw file", () => {
+			expect(resolveReadmeLink("./assets/logo", true, base)).toBe(
+				"https://raw.githubusercontent.com/org/repo/v1.0.0/packages/lib/assets/logo",
+			);
+			expect(resolveReadmeLink("assets/logo.svg?v=2", false, base)).toBe(
+				"https://raw.githubusercontent.com/org/repo/v1.0.0/packages/lib/assets/logo.svg?v=2",
+			);
+		});
+
+		it("should keep links that leave the repository", () => {
+			expect(resolveReadmeLink("../../../outside.md", false, base)).toBe("../../../outside.md");
+			expect(resolveReadmeLink("?tab=readme", false, base)).toBe("?tab=readme");
+		});
+	});
+
+	describe("replaceReadmeLinks", () => {
+		const mark = (markdown: string): string =>
+			replaceReadmeLinks(markdown, (url, image) => (isRelativeLink(url) ? `${image ? "IMG" : "URL"}(${url})` : url));
+
+		it("should replace inline links, images and nested badges", () => {
+			expect(mark('See [the guide](./guide.md "Guide") and ![logo](logo.png).')).toBe(
+				'See [the guide](URL(./guide.md) "Guide") and ![logo](IMG(logo.png)).',
+			);
+			expect(mark("[![Build](./badge.svg)](./ci.md) [Docs](https://example.com) [Top](#top)")).toBe(
+				"[![Build](IMG(./badge.svg))](URL(./ci.md)) [Docs](https://example.com) [Top](#top)",
+			);
+			expect(mark("[Spaces](<./my guide.md>)")).toBe("[Spaces](<URL(./my guide.md)>)");
+		});
+
+		it("should replace reference definitions and HTML attributes", () => {
+			expect(mark('[guide]: ./guide.md "Guide"\n[^1]: ./not-a-link.md')).toBe(
+				'[guide]: URL(./guide.md) "Guide"\n[^1]: ./not-a-link.md',
+			);
+			expect(mark('<p align="center"><a href="./docs"><img src=\'./logo.png\' width="100"></a></p>')).toBe(
+				'<p align="center"><a href="URL(./docs)"><img src=\'IMG(./logo.png)\' width="100"></a></p>',
+			);
+		});
+
+		it("should leave code alone", () => {
+			const markdown = ["```md", "[guide](./guide.md)", "```", "Use `[guide](./guide.md)` or [guide](./guide.md)"].join(
+				"\n",
+			);
+
+			expect(mark(markdown)).toBe(
+				["```md", "[guide](./guide.md)", "```", "Use `[guide](./guide.md)` or [guide](URL(./guide.md))"].join("\n"),
+			);
+		});
+	});
+
+	describe("resolveReadmeRef", () => {
+		it("should fill the name and version", () => {
+			expect(resolveReadmeRef("{name}@{version}", { name: "@scope/lib", version: "1.0.0" })).toBe("@scope/lib@1.0.0");
+			expect(resolveReadmeRef("v{version}", {})).toBe("v");
+		});
+	});
+
+	describe("rewriteReadmeLinks", () => {
+		const markdown = "[guide](./guide.md) [docs](https://example.com) ![logo](logo.png)";
+
+		it("should rewrite and count the relative links", () => {
+			expect(rewriteReadmeLinks(markdown, base)).toEqual({
+				markdown:
+					"[guide](https://github.com/org/repo/blob/v1.0.0/packages/lib/guide.md) [docs](https://example.com) ![logo](https://raw.githubusercontent.com/org/repo/v1.0.0/packages/lib/logo.png)",
+				links: 2,
+			});
+		});
+
+		it("should only count the links without a base", () => {
+			expect(rewriteReadmeLinks(markdown, undefined)).toEqual({ markdown, links: 2 });
+		});
+	});
+});
@@ -0,0 +1,420 @@
+import { posix } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import type { PackageJson } from "../../types/package-json.js";
+import { JsonAsset, TextAsset } from "./utils/asset-utils.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * Options for the ReadmeLinksPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { ReadmeLinksPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [ReadmeLinksPlugin({ ref: '{name}@{version}' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface ReadmeLinksPluginOptions {
+	/**
+	 * Git ref the rewritten links point at.
+	 *
+	 * @remarks
+	 * `{name}` and `{version}` are replaced with the package name and version,
+	 * so links can point at the tag of the published release. Use a branch
+	 * such as `"main"` to always show the latest files instead.
+	 *
+	 * @defaultValue "v\{version\}"
+	 */
+	ref?: string;
+}
+
+/**
+ * Repository of a package, parsed from its `repository` field.
+ *
+ * @internal
+ */
+export interface RepositoryInfo {
+	/** Host name, such as `github.com` */
+	host: string;
+	/** Path of the repository on the host, such as `owner/repo` */
+	path: string;
+	/** Directory of the package in the repository */
+	directory?: string;
+}
+
+/**
+ * Base URLs that relative README links are resolved against.
+ *
+ * @internal
+ */
+export interface ReadmeLinkBase {
+	/** URL of the rendered files of the repository at the ref, ending with `/` */
+	blob: string;
+	/** URL of the raw files of the repository at the ref, ending with `/` */
+	raw: string;
+	/** Directory of the package in the repository, empty at the root */
+	directory: string;
+}
+
+/**
+ * Hosts of the `github:`, `gitlab:` and `bitbucket:` repository shortcuts.
+ */
+const SHORTCUT_HOSTS: Record<string, string> = {
+	github: "github.com",
+	gitlab: "gitlab.com",
+	bitbucket: "bitbucket.org",
+};
+
+/**
+ * Asset names of the READMEs whose links are rewritten.
+ */
+const README_FILE_PATTERN: RegExp = /^readme(?:\.(?:md|markdown|mdx))?$/i;
+
+/**
+ * Extensions of files that are linked to as raw files rather than rendered pages.
+ */
+const IMAGE_EXTENSION_PATTERN: RegExp = /\.(?:apng|avif|bmp|gif|ico|jpe?g|png|svg|webp)$/i;
+
+/**
+ * Parses the `repository` field of a package.json.
+ *
+ * @remarks
+ * Accepts URLs such as `git+https://github.com/owner/repo.git` and
+ * `git@github.com:owner/repo.git`, and the `owner/repo` and
+ * `github:owner/repo` shortcuts.
+ *
+ * @returns The repository, or undefined when the field is missing or not understood
+ *
+ * @internal
+ */
+export function parseRepository(repository: PackageJson["repository"]): RepositoryInfo | undefined {
+	const url = typeof repository === "string" ? repository : repository?.url;
+	if (!url) {
+		return undefined;
+	}
+	const directory = typeof repository === "object" ? repository.directory : undefined;
+
+	let host: string;
+	let path: string;
+	const shortcut = /^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/.exec(url);
+	const scp = /^[\w.-]+@([\w.-]+):(?!\/)(.+)$/.exec(url);
+	if (shortcut) {
+		host = SHORTCUT_HOSTS[shortcut[1] ?? "github"];
+		path = shortcut[2];
+	} else if (scp) {
+		[, host, path] = scp;
+	} else {
+		try {
+			const parsed = new URL(url.replace(/^git\+/, ""));
+			host = parsed.hostname;
+			path = parsed.pathname;
+		} catch {
+			return undefined;
+		}
+	}
+
+	path = path.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+	if (!path) {
+		return undefined;
+	}
+	return directory ? { host, path, directory } : { host, path };
+}
+
+/**
+ * Builds the base URLs of a repository at a ref.
+ *
+ * @returns The base URLs, or undefined for hosts other than GitHub, GitLab and Bitbucket
+ *
+ * @internal
+ */
+export function getReadmeLinkBase(repository: RepositoryInfo, ref: string): ReadmeLinkBase | undefined {
+	// Keep `@` readable in tags such as `@scope/lib@1.0.0`; it is valid in URL paths
+	const encodedRef = ref
+		.split("/")
+		.map((segment) => encodeURIComponent(segment).replace(/%40/g, "@"))
+		.join("/");
+	const directory = posix.normalize(repository.directory ?? ".").replace(/^(?:\.(?:\/|$))+|\/+$/g, "");
+	const { path } = repository;
+
+	switch (repository.host) {
+		case "github.com":
+			return {
+				blob: `https://github.com/${path}/blob/${encodedRef}/`,
+				raw: `https://raw.githubusercontent.com/${path}/${encodedRef}/`,
+				directory,
+			};
+		case "gitlab.com":
+			return {
+				blob: `https://gitlab.com/${path}/-/blob/${encodedRef}/`,
+				raw: `https://gitlab.com/${path}/-/raw/${encodedRef}/`,
+				directory,
+			};
+		case "bitbucket.org":
+			return {
+				blob: `https://bitbucket.org/${path}/src/${encodedRef}/`,
+				raw: `https://bitbucket.org/${path}/raw/${encodedRef}/`,
+				directory,
+			};
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Moves a link base to the directory of the README's source file.
+ *
+ * @remarks
+ * A README copied from the workspace root has a source such as
+ * `../../README.md`, so its links resolve against the workspace root instead
+ * of the package directory. A source outside the repository falls back to the
+ * repository root.
+ *
+ * @param base - Base URLs of the package
+ * @param sourceFilename - Path of the README source relative to the package directory
+ *
+ * @internal
+ */
+export function getReadmeSourceBase(base: ReadmeLinkBase, sourceFilename: string | undefined): ReadmeLinkBase {
+	if (!sourceFilename) {
+		return base;
+	}
+	const directory = posix.normalize(posix.join(base.directory, posix.dirname(sourceFilename)));
+	return { ...base, directory: directory === "." || directory.startsWith("..") ? "" : directory };
+}
+
+/**
+ * Checks whether a link destination is relative to the README.
+ *
+ * @remarks
+ * Anchors, absolute URLs with a scheme (including `mailto:`) and
+ * protocol-relative URLs are not.
+ *
+ * @internal
+ */
+export function isRelativeLink(url: string): boolean {
+	return url !== "" && !url.startsWith("#") && !url.startsWith("//") && !/^[a-z][a-z\d+.-]*:/i.test(url);
+}
+
+/**
+ * Resolves a relative README link against the package directory.
+ *
+ * @remarks
+ * Links starting with `/` are resolved against the repository root, like on
+ * GitHub. The query and fragment are kept. Links leaving the repository are
+ * returned unchanged.
+ *
+ * @param url - Relative link destination
+ * @param image - Whether the link is shown as an image, which needs the raw file
+ * @param base - Base URLs of the repository
+ *
+ * @internal
+ */
+export function resolveReadmeLink(url: string, image: boolean, base: ReadmeLinkBase): string {
+	const [, path, suffix] = /^([^?#]*)(.*)$/s.exec(url) as RegExpExecArray;
+	if (!path) {
+		return url;
+	}
+	const resolved = posix.normalize(path.startsWith("/") ? path.slice(1) || "." : posix.join(base.directory, path));
+	if (resolved === ".." || resolved.startsWith("../")) {
+		return url;
+	}
+	const root = image || IMAGE_EXTENSION_PATTERN.test(path) ? base.raw : base.blob;
+	return `${root}${resolved.replace(/^\.(?:\/|$)/, "")}${suffix}`;
+}
+
+/**
+ * Replaces the destinations of the links and images in a Markdown document.
+ *
+ * @remarks
+ * Covers inline links and images, including images nested in link text,
+ * reference definitions, and the `href` and `src` attributes of HTML `<a>`
+ * and `<img>` tags. Fenced code blocks and code spans are left alone.
+ *
+ * @param markdown - Markdown source
+ * @param replace - Called with each destination and whether it is shown as an image
+ * @returns The Markdown with the replaced destinations
+ *
+ * @internal
+ */
+export function replaceReadmeLinks(markdown: string, replace: (url: string, image: boolean) => string): string {
+	const replaceDestination = (destination: string, image: boolean): string =>
+		destination.startsWith("<") && destination.endsWith(">")
+			? `<${replace(destination.slice(1, -1), image)}>`
+			: replace(destination, image);
+
+	const replaceInline = (text: string): string =>
+		text
+			.replace(
+				/(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\((\s*)(<[^>\n]*>|[^\s()]+(?:\([^\s()]*\)[^\s()]*)*)/g,
+				(_match, bang: string, label: string, space: string, destination: string) =>
+					`${bang}[${replaceInline(label)}](${space}${replaceDestination(destination, bang === "!")}`,
+			)
+			.replace(/<(a|img)\b[^>]*>/gi, (tag, name: string) =>
+				tag.replace(
+					/(\s(?:href|src)\s*=\s*)(["'])(.*?)\2/gi,
+					(_match, attribute: string, quote: string, url: string) =>
+						`${attribute}${quote}${replace(url, name.toLowerCase() === "img")}${quote}`,
+				),
+			);
+
+	let fence: string | undefined;
+	return markdown
+		.split("\n")
+		.map((line) => {
+			const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+			if (fence) {
+				if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+					fence = undefined;
+				}
+				return line;
+			}
+			if (fenceMatch) {
+				fence = fenceMatch[1];
+				return line;
+			}
+
+			const definition = /^( {0,3}\[(?!\^)[^\]]+\]:\s*)(<[^>\n]*>|\S+)(.*)$/.exec(line);
+			if (definition) {
+				const [, prefix, destination, rest] = definition;
+				return `${prefix}${replaceDestination(destination, false)}${rest}`;
+			}
+
+			// Odd-numbered parts are code spans
+			return line
+				.split(/(`+[^`]*?`+)/)
+				.map((part, index) => (index % 2 === 1 ? part : replaceInline(part)))
+				.join("");
+		})
+		.join("\n");
+}
+
+/**
+ * Fills the `{name}` and `{version}` placeholders of the `ref` option.
+ *
+ * @internal
+ */
+export function resolveReadmeRef(ref: string, packageJson: PackageJson): string {
+	const { name = "", version = "" } = packageJson;
+	return ref.replace(/\{name\}/g, name).replace(/\{version\}/g, version);
+}
+
+/**
+ * Rewrites the relative links of a README against the repository.
+ *
+ * @param markdown - README source
+ * @param base - Base URLs of the README, or undefined to only count the links
+ * @returns The rewritten README and the number of relative links
+ *
+ * @internal
+ */
+export function rewriteReadmeLinks(
+	markdown: string,
+	base: ReadmeLinkBase | undefined,
+): { markdown: string; links: number } {
+	let links = 0;
+	const rewritten = replaceReadmeLinks(markdown, (url, image) => {
+		if (!isRelativeLink(url)) {
+			return url;
+		}
+		links++;
+		return base ? resolveReadmeLink(url, image, base) : url;
+	});
+	return { markdown: rewritten, links };
+}
+
+/**
+ * Plugin to point the relative links of the README at the repository.
+ *
+ * @remarks
+ * Links such as `./docs/guide.md` and images such as `./assets/logo.png`
+ * work on GitHub but break on npmjs.com, which renders the README without
+ * the rest of the repository. This plugin rewrites the relative links and
+ * images of the emitted README to absolute URLs built from the
+ * `repository` field of package.json: `url`, `directory` and the `ref`
+ * option. Images and image files link to the raw file, other links to the
+ * rendered page. Anchors and absolute URLs are left alone. A README copied
+ * from the workspace root resolves its links against the workspace root.
+ *
+ * GitHub, GitLab and Bitbucket repositories are supported. For other hosts,
+ * or without a `repository` field, the links are kept with a warning.
+ *
+ * ## Plugin Interoperability
+ *
+ * - Runs after PackageJsonTransformPlugin, which emits the README, and reads
+ *   the transformed package.json
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { ReadmeLinksPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [ReadmeLinksPlugin({ ref: 'main' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const ReadmeLinksPlugin = (options: ReadmeLinksPluginOptions = {}): RsbuildPlugin => {
+	const { ref = "v{version}" } = options;
+
+	return {
+		name: "readme-links-plugin",
+		post: ["package-json-processor"],
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "optimize-inline",
+				},
+				async (context) => {
+					const { compilation } = context;
+					const readmes = Object.keys(compilation.assets).filter((name) => README_FILE_PATTERN.test(name));
+					if (readmes.length === 0) {
+						return;
+					}
+					const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", false);
+					if (!packageJson) {
+						return;
+					}
+
+					const parsed = parseRepository(packageJson.data.repository);
+					const base = parsed && getReadmeLinkBase(parsed, resolveReadmeRef(ref, packageJson.data));
+					const log = createEnvLogger(compilation.name || "unknown");
+
+					for (const fileName of readmes) {
+						const readme = await TextAsset.create(context, fileName, false);
+						if (!readme) {
+							continue;
+						}
+						const { markdown, links } = rewriteReadmeLinks(
+							readme.source,
+							base && getReadmeSourceBase(base, compilation.getAsset(fileName)?.info.sourceFilename),
+						);
+						if (links === 0) {
+							continue;
+						}
+						if (!base) {
+							log.warn(
+								`${color.dim("[readme-links]")} ${fileName} has ${links} relative link${links === 1 ? "" : "s"}, but ${parsed ? `${parsed.host} is not a supported repository host` : "package.json has no repository"}; they will break on npm`,
+							);
+							continue;
+						}
+						readme.source = markdown;
+						readme.update();
+						log.info(
+							`${color.dim("[readme-links]")} Rewrote ${links} relative link${links === 1 ? "" : "s"} in ${fileName} to ${base.blob}`,
+						);
+					}
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
@@ -0,0 +1,277 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ProcessAssetsHandler, RsbuildPluginAPI } from "@rsbuild/core";
+import { rspack } from "@rsbuild/core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PackageJson } from "../../types/package-json.js";
+import { FilesArrayPlugin } from "./files-array-plugin.js";
+import type { PnpmLockfile } from "./sbom-plugin.js";
+import {
+	SbomPlugin,
+	createComponent,
+	createPurl,
+	createSbom,
+	findPnpmLockfile,
+	getInstalledVersion,
+	getIntegrity,
+	getLockfileImporter,
+	integrityToHashes,
+	readPnpmLockfile,
+} from "./sbom-plugin.js";
+
+// sha512 of an empty string
+const INTEGRITY = "sha512-z4PhNX7vuL3xVChQ1m2AB9Yg5AULVxXcg/SpIdNs6c5H0NE8XYXysP+DGNKHfuwvY7kxvUdBeoGlODJ6+SfaPg==";
+const HEX =
+	"cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e";
+
+const lockfile: PnpmLockfile = {
+	importers: {
+		"packages/lib": {
+			dependencies: {
+				yaml: { specifier: "catalog:", version: "2.8.2" },
+				"@scope/shared": { specifier: "workspace:*", version: "link:../shared" },
+			},
+			peerDependencies: {
+				react: { specifier: "^18.0.0", version: "18.3.1(react-dom@18.3.1)" },
+			},
+		},
+	},
+	packages: {
+		"yaml@2.8.2": { resolution: { integrity: INTEGRITY } },
+		"picocolors@1.1.1": { resolution: { integrity: "sha1-AAEC" } },
+	},
+};
+
+// Track created test directories for cleanup
+const testDirs: string[] = [];
+
+describe("sbom-plugin", () => {
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	describe("findPnpmLockfile", () => {
+		it("should find the lockfile of a parent directory", async () => {
+			const dir = join(tmpdir(), `sbom-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			await mkdir(join(dir, "packages", "lib"), { recursive: true });
+			await writeFile(join(dir, "pnpm-lock.yaml"), "lockfileVersion: '9.0'\n");
+
+			expect(await findPnpmLockfile(join(dir, "packages", "lib"))).toBe(join(dir, "pnpm-lock.yaml"));
+		});
+	});
+
+	describe("readPnpmLockfile", () => {
+		it("should read the importer of the project", async () => {
+			const dir = join(tmpdir(), `sbom-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			await mkdir(join(dir, "packages", "lib"), { recursive: true });
+			await writeFile(
+				join(dir, "pnpm-lock.yaml"),
+				"lockfileVersion: '9.0'\nimporters:\n  packages/lib:\n    dependencies:\n      yaml:\n        specifier: ^2.0.0\n        version: 2.8.2\n",
+			);
+
+			const result = await readPnpmLockfile(join(dir, "packages", "lib"));
+
+			expect(result?.importer).toEqual({ dependencies: { yaml: { specifier: "^2.0.0", version: "2.8.2" } } });
+			expect(result?.lockfile.importers).toBeDefined();
+		});
+
+		it("should return undefined without a lockfile", async () => {
+			const dir = join(tmpdir(), `sbom-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			await mkdir(dir, { recursive: true });
+
+			expect(await readPnpmLockfile(dir)).toBeUndefined();
+		});
+	});
+
+	describe("getLockfileImporter", () => {
+		it("should return the importer of a workspace project", () => {
+			expect(getLockfileImporter(lockfile, "packages/lib")).toBe(lockfile.importers?.["packages/lib"]);
+			expect(getLockfileImporter(lockfile, "packages/other")).toEqual({});
+		});
+
+		it("should read the top level of single-project lockfiles", () => {
+			const legacy = { dependencies: { yaml: { specifier: "^2.0.0", version: "2.8.2" } } };
+
+			expect(getLockfileImporter(legacy as PnpmLockfile, ".")).toBe(legacy);
+		});
+	});
+
+	describe("getInstalledVersion", () => {
+		const importer = getLockfileImporter(lockfile, "packages/lib");
+
+		it("should read the installed version without its peer suffix", () => {
+			expect(getInstalledVersion(importer, "dependencies", "yaml")).toBe("2.8.2");
+			expect(getInstalledVersion(importer, "peerDependencies", "react")).toBe("18.3.1");
+		});
+
+		it("should return undefined for links and unknown dependencies", () => {
+			expect(getInstalledVersion(importer, "dependencies", "@scope/shared")).toBeUndefined();
+			expect(getInstalledVersion(importer, "optionalDependencies", "fsevents")).toBeUndefined();
+		});
+	});
+
+	describe("getIntegrity", () => {
+		it("should read the integrity of a resolved package", () => {
+			expect(getIntegrity(lockfile, "yaml", "2.8.2")).toBe(INTEGRITY);
+			expect(getIntegrity({ packages: { "/yaml@2.8.2": { resolution: { integrity: "x" } } } }, "yaml", "2.8.2")).toBe(
+				"x",
+			);
+			expect(getIntegrity(lockfile, "yaml", "1.0.0")).toBeUndefined();
+			expect(getIntegrity({}, "yaml", "2.8.2")).toBeUndefined();
+		});
+	});
+
+	describe("integrityToHashes", () => {
+		it("should convert each supported hash to hex", () => {
+			expect(integrityToHashes(`${INTEGRITY} sha1-AAEC md5-AAEC`)).toEqual([
+				{ alg: "SHA-512", content: HEX },
+				{ alg: "SHA-1", content: "000102" },
+			]);
+		});
+	});
+
+	describe("createPurl", () => {
+		it("should encode the scope", () => {
+			expect(createPurl("yaml", "2.8.2")).toBe("pkg:npm/yaml@2.8.2");
+			expect(createPurl("@scope/pkg", "1.0.0-beta.1")).toBe("pkg:npm/%40scope/pkg@1.0.0-beta.1");
+		});
+	});
+
+	describe("createComponent", () => {
+		it("should only include the fields that are known", () => {
+			expect(createComponent({ name: "yaml", version: "2.8.2" })).toEqual({
+				type: "library",
+				"bom-ref": "pkg:npm/yaml@2.8.2",
+				name: "yaml",
+				version: "2.8.2",
+				purl: "pkg:npm/yaml@2.8.2",
+			});
+		});
+	});
+
+	describe("createSbom", () => {
+		it("should list the package, its runtime dependencies and bundled packages", () => {
+			const sbom = createSbom(
+				{
+					name: "@scope/lib",
+					version: "1.0.0",
+					license: "MIT",
+					repository: { type: "git", url: "git+https://github.com/scope/lib.git" },
+					dependencies: { yaml: "^2.8.0", "@scope/shared": "^1.2.0" },
+					peerDependencies: { react: "^18.0.0" },
+					optionalDependencies: { fsevents: "^2.3.0" },
+					devDependencies: { picocolors: "^1.1.1" },
+				},
+				[{ name: "picocolors", version: "1.1.1", license: "ISC", repository: "alexeyraspopov/picocolors" }],
+				lockfile,
+				getLockfileImporter(lockfile, "packages/lib"),
+				"2023-11-14T22:13:20.000Z",
+			);
+
+			expect(sbom.metadata).toEqual({
+				timestamp: "2023-11-14T22:13:20.000Z",
+				tools: { components: [{ type: "application", name: "@savvy-web/rslib-builder" }] },
+				component: {
+					type: "library",
+					"bom-ref": "pkg:npm/%40scope/lib@1.0.0",
+					name: "@scope/lib",
+					version: "1.0.0",
+					purl: "pkg:npm/%40scope/lib@1.0.0",
+					licenses: [{ expression: "MIT" }],
+					externalReferences: [{ type: "vcs", url: "git+https://github.com/scope/lib.git" }],
+				},
+			});
+			expect(sbom.components.map((component) => [component["bom-ref"], component.scope])).toEqual([
+				["pkg:npm/%40scope/shared@%5E1.2.0", "required"],
+				["pkg:npm/fsevents@%5E2.3.0", "optional"],
+				["pkg:npm/picocolors@1.1.1", "required"],
+				["pkg:npm/react@18.3.1", "required"],
+				["pkg:npm/yaml@2.8.2", "required"],
+			]);
+			expect(sbom.components.find((component) => component.name === "yaml")?.hashes).toEqual([
+				{ alg: "SHA-512", content: HEX },
+			]);
+			expect(sbom.components.find((component) => component.name === "picocolors")).toMatchObject({
+				licenses: [{ expression: "ISC" }],
+				hashes: [{ alg: "SHA-1", content: "000102" }],
+				properties: [{ name: "cdx:npm:package:bundled", value: "true" }],
+			});
+			expect(sbom.dependencies).toEqual([
+				{
+					ref: "pkg:npm/%40scope/lib@1.0.0",
+					dependsOn: sbom.components.map((component) => component["bom-ref"]),
+				},
+			]);
+		});
+	});
+
+	describe("SbomPlugin", () => {
+		// Stages in the order Rspack runs them
+		const STAGES = ["additional", "optimize", "optimize-inline"];
+
+		async function build(
+			rootPath: string,
+			options: Parameters<typeof SbomPlugin>[0],
+		): Promise<{ files: string[]; assets: string[] }> {
+			const exposed = new Map<string, unknown>();
+			const handlers: Array<{ stage: string; handler: ProcessAssetsHandler }> = [];
+			const api = {
+				context: { rootPath },
+				expose: (id: string, value: unknown) => exposed.set(id, value),
+				useExposed: (id: string) => exposed.get(id),
+				processAssets: (descriptor: { stage: string }, handler: ProcessAssetsHandler) =>
+					handlers.push({ stage: descriptor.stage, handler }),
+			} as unknown as RsbuildPluginAPI;
+			// Registered in the builder's order
+			FilesArrayPlugin({ target: "npm", standardFiles: false }).setup(api);
+			SbomPlugin(options).setup(api);
+
+			const assets: Record<string, unknown> = {
+				"package.json": new rspack.sources.RawSource(JSON.stringify({ name: "lib", version: "1.0.0" })),
+				"index.js": new rspack.sources.RawSource("export {};\n"),
+			};
+			const compilation = {
+				name: "npm",
+				assets,
+				modules: [],
+				emitAsset: vi.fn((name: string, source: unknown) => {
+					assets[name] = source;
+				}),
+				updateAsset: vi.fn((name: string, source: unknown) => {
+					assets[name] = source;
+				}),
+			};
+			const context = {
+				compilation,
+				assets,
+				sources: rspack.sources,
+			} as unknown as Parameters<ProcessAssetsHandler>[0];
+			for (const stage of STAGES) {
+				for (const entry of handlers.filter((registered) => registered.stage === stage)) {
+					await entry.handler(context);
+				}
+			}
+
+			const packageJson = JSON.parse((assets["package.json"] as { source(): string }).source()) as PackageJson;
+			return { files: packageJson.files ?? [], assets: Object.keys(assets) };
+		}
+
+		it("should list the SBOM in the written files array", async () => {
+			const dir = join(tmpdir(), `sbom-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			await mkdir(dir, { recursive: true });
+
+			const published = await build(dir, {});
+			const excluded = await build(dir, { publish: false });
+
+			expect(published.files).toEqual(["index.js", "package.json", "sbom.cdx.json"]);
+			expect(published.assets).toContain("sbom.cdx.json");
+			expect(excluded.files).toEqual(["!sbom.cdx.json", "index.js", "package.json"]);
+		});
+	});
+});
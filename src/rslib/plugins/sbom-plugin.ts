@@ -0,0 +1,421 @@
+import { readFile, stat } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import { parse } from "yaml";
+import type { PackageJson } from "../../types/package-json.js";
+import type { BundledModule } from "./auto-externals-plugin.js";
+import { resolveBuildTimestamp } from "./build-info-plugin.js";
+import type { BundledPackage } from "./third-party-notices-plugin.js";
+import { collectPackageRoots, getLicenseExpression, readBundledPackage } from "./third-party-notices-plugin.js";
+import { JsonAsset } from "./utils/asset-utils.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * Options for the SbomPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { SbomPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [SbomPlugin({ publish: false })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface SbomPluginOptions {
+	/**
+	 * File name of the emitted SBOM.
+	 *
+	 * @defaultValue "sbom.cdx.json"
+	 */
+	filename?: string;
+
+	/**
+	 * Whether the SBOM is published with the package.
+	 *
+	 * @remarks
+	 * When false, the file is still emitted to dist for local tooling, but a
+	 * negated pattern keeps it out of the `files` array, like the API model.
+	 *
+	 * @defaultValue true
+	 */
+	publish?: boolean;
+}
+
+/**
+ * The parts of a pnpm lockfile read by the SbomPlugin.
+ *
+ * @internal
+ */
+export interface PnpmLockfile {
+	/** Direct dependencies per workspace project, keyed by path from the lockfile directory */
+	importers?: Record<string, PnpmLockfileImporter>;
+	/** Resolved packages, keyed by `name@version` (`/name@version` before lockfile v9) */
+	packages?: Record<string, { resolution?: { integrity?: string } }>;
+}
+
+/**
+ * Direct dependencies of a project in a pnpm lockfile.
+ *
+ * @internal
+ */
+export type PnpmLockfileImporter = Partial<
+	Record<RuntimeDependencyField, Record<string, { specifier?: string; version: string }>>
+>;
+
+type RuntimeDependencyField = "dependencies" | "peerDependencies" | "optionalDependencies";
+
+/**
+ * A CycloneDX component.
+ *
+ * @internal
+ */
+export interface CycloneDxComponent {
+	type: "library";
+	"bom-ref": string;
+	name: string;
+	version: string;
+	scope?: "required" | "optional";
+	purl: string;
+	licenses?: Array<{ expression: string }>;
+	hashes?: Array<{ alg: string; content: string }>;
+	externalReferences?: Array<{ type: "vcs"; url: string }>;
+	properties?: Array<{ name: string; value: string }>;
+}
+
+/**
+ * A CycloneDX 1.5 document.
+ *
+ * @internal
+ */
+export interface CycloneDxBom {
+	bomFormat: "CycloneDX";
+	specVersion: "1.5";
+	version: 1;
+	metadata: {
+		timestamp: string;
+		tools: { components: Array<{ type: "application"; name: string }> };
+		component: CycloneDxComponent;
+	};
+	components: CycloneDxComponent[];
+	dependencies: Array<{ ref: string; dependsOn: string[] }>;
+}
+
+const RUNTIME_DEPENDENCY_FIELDS: RuntimeDependencyField[] = [
+	"dependencies",
+	"peerDependencies",
+	"optionalDependencies",
+];
+
+const HASH_ALGORITHMS: Record<string, string> = {
+	sha1: "SHA-1",
+	sha256: "SHA-256",
+	sha384: "SHA-384",
+	sha512: "SHA-512",
+};
+
+/**
+ * Finds the pnpm lockfile of the workspace containing a directory.
+ *
+ * @internal
+ */
+export async function findPnpmLockfile(cwd: string): Promise<string | undefined> {
+	let dir = resolve(cwd);
+	while (true) {
+		const lockfilePath = join(dir, "pnpm-lock.yaml");
+		if ((await stat(lockfilePath).catch(() => undefined))?.isFile()) {
+			return lockfilePath;
+		}
+		const parent = dirname(dir);
+		if (parent === dir) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * Reads the pnpm lockfile of the workspace containing a project.
+ *
+ * @param rootPath - Project directory
+ * @returns The parsed lockfile and the project's importer, or undefined without a lockfile
+ *
+ * @internal
+ */
+export async function readPnpmLockfile(
+	rootPath: string,
+): Promise<{ lockfile: PnpmLockfile; importer: PnpmLockfileImporter } | undefined> {
+	const lockfilePath = await findPnpmLockfile(rootPath);
+	if (!lockfilePath) {
+		return undefined;
+	}
+	const lockfile: PnpmLockfile = parse(await readFile(lockfilePath, "utf-8")) ?? {};
+	const importer = relative(dirname(lockfilePath), rootPath).replace(/\\/g, "/") || ".";
+	return { lockfile, importer: getLockfileImporter(lockfile, importer) };
+}
+
+/**
+ * Finds the lockfile entries of a project's direct dependencies.
+ *
+ * @remarks
+ * Single-project lockfiles before v9 have no `importers` and list the direct
+ * dependencies at the top level.
+ *
+ * @param lockfile - The parsed lockfile
+ * @param importer - Path of the project from the lockfile directory
+ *
+ * @internal
+ */
+export function getLockfileImporter(lockfile: PnpmLockfile, importer: string): PnpmLockfileImporter {
+	return lockfile.importers ? (lockfile.importers[importer] ?? {}) : (lockfile as PnpmLockfileImporter);
+}
+
+/**
+ * Reads the installed version of a direct dependency from a lockfile importer.
+ *
+ * @returns The version without its peer suffix, or undefined for links and
+ * dependencies missing from the lockfile
+ *
+ * @internal
+ */
+export function getInstalledVersion(
+	importer: PnpmLockfileImporter,
+	field: RuntimeDependencyField,
+	name: string,
+): string | undefined {
+	const version = importer[field]?.[name]?.version.replace(/\(.*$/, "");
+	return version && /^\d/.test(version) ? version : undefined;
+}
+
+/**
+ * Reads the integrity of a resolved package from a lockfile.
+ *
+ * @internal
+ */
+export function getIntegrity(lockfile: PnpmLockfile, name: string, version: string): string | undefined {
+	const packages = lockfile.packages ?? {};
+	return (packages[`${name}@${version}`] ?? packages[`/${name}@${version}`])?.resolution?.integrity;
+}
+
+/**
+ * Converts a Subresource Integrity value into CycloneDX hashes.
+ *
+ * @example
+ * ```typescript
+ * integrityToHashes("sha1-AAEC"); // [{ alg: "SHA-1", content: "000102" }]
+ * ```
+ *
+ * @internal
+ */
+export function integrityToHashes(integrity: string): Array<{ alg: string; content: string }> {
+	return integrity.split(/\s+/).flatMap((entry) => {
+		const separator = entry.indexOf("-");
+		const alg = HASH_ALGORITHMS[entry.slice(0, separator)];
+		return alg ? [{ alg, content: Buffer.from(entry.slice(separator + 1), "base64").toString("hex") }] : [];
+	});
+}
+
+/**
+ * Creates the package URL of an npm package.
+ *
+ * @example
+ * ```typescript
+ * createPurl("@scope/pkg", "1.0.0"); // "pkg:npm/%40scope/pkg@1.0.0"
+ * ```
+ *
+ * @internal
+ */
+export function createPurl(name: string, version: string): string {
+	return `pkg:npm/${name.replace(/^@/, "%40")}@${encodeURIComponent(version)}`;
+}
+
+/**
+ * Creates a CycloneDX component for an npm package.
+ *
+ * @internal
+ */
+export function createComponent(
+	pkg: Pick<BundledPackage, "name" | "version" | "license" | "repository">,
+	extra: Pick<CycloneDxComponent, "scope" | "properties"> & { integrity?: string } = {},
+): CycloneDxComponent {
+	const purl = createPurl(pkg.name, pkg.version);
+	const hashes = extra.integrity ? integrityToHashes(extra.integrity) : [];
+	return {
+		type: "library",
+		"bom-ref": purl,
+		name: pkg.name,
+		version: pkg.version,
+		...(extra.scope && { scope: extra.scope }),
+		purl,
+		...(pkg.license && { licenses: [{ expression: pkg.license }] }),
+		...(hashes.length > 0 && { hashes }),
+		...(pkg.repository && { externalReferences: [{ type: "vcs" as const, url: pkg.repository }] }),
+		...(extra.properties && { properties: extra.properties }),
+	};
+}
+
+/**
+ * Builds the SBOM of a package.
+ *
+ * @remarks
+ * Lists the runtime dependencies of the published package.json, with the
+ * version installed according to the lockfile, or the declared range when
+ * the lockfile has none. Bundled packages are marked with the
+ * `cdx:npm:package:bundled` property and get their integrity from the
+ * lockfile.
+ *
+ * @param packageJson - The published package.json, after every transform
+ * @param bundled - Third-party packages in the bundle
+ * @param lockfile - The parsed lockfile, or an empty object without one
+ * @param importer - Lockfile entries of the package's direct dependencies
+ * @param timestamp - Build time as an ISO 8601 string
+ *
+ * @internal
+ */
+export function createSbom(
+	packageJson: PackageJson,
+	bundled: BundledPackage[],
+	lockfile: PnpmLockfile,
+	importer: PnpmLockfileImporter,
+	timestamp: string,
+): CycloneDxBom {
+	const { repository } = packageJson;
+	const root = createComponent({
+		name: packageJson.name ?? "",
+		version: packageJson.version ?? "0.0.0",
+		license: getLicenseExpression(packageJson),
+		repository: typeof repository === "string" ? repository : repository?.url,
+	});
+
+	const components = new Map<string, CycloneDxComponent>();
+	for (const field of RUNTIME_DEPENDENCY_FIELDS) {
+		for (const [name, range] of Object.entries(packageJson[field] ?? {})) {
+			const version = getInstalledVersion(importer, field, name) ?? range ?? "";
+			const component = createComponent(
+				{ name, version },
+				{
+					scope: field === "optionalDependencies" ? "optional" : "required",
+					integrity: getIntegrity(lockfile, name, version),
+				},
+			);
+			components.set(component["bom-ref"], component);
+		}
+	}
+	for (const pkg of bundled) {
+		const component = createComponent(pkg, {
+			scope: "required",
+			integrity: getIntegrity(lockfile, pkg.name, pkg.version),
+			properties: [{ name: "cdx:npm:package:bundled", value: "true" }],
+		});
+		components.set(component["bom-ref"], component);
+	}
+
+	const sorted = Array.from(components.values()).sort((a, b) => a["bom-ref"].localeCompare(b["bom-ref"]));
+	return {
+		bomFormat: "CycloneDX",
+		specVersion: "1.5",
+		version: 1,
+		metadata: {
+			timestamp,
+			tools: { components: [{ type: "application", name: "@savvy-web/rslib-builder" }] },
+			component: root,
+		},
+		components: sorted,
+		dependencies: [{ ref: root["bom-ref"], dependsOn: sorted.map((component) => component["bom-ref"]) }],
+	};
+}
+
+/**
+ * Plugin to emit a CycloneDX SBOM for the package.
+ *
+ * @remarks
+ * Builds a CycloneDX 1.5 JSON document without network access. The package
+ * itself comes from the published package.json, after every transform. Its
+ * runtime dependencies, with `catalog:` and `workspace:` already resolved, get
+ * their installed version and integrity from the local `pnpm-lock.yaml`.
+ * Third-party packages in the bundle are listed too, with their license and
+ * integrity. The build time honors `SOURCE_DATE_EPOCH`.
+ *
+ * ## Plugin Interoperability
+ *
+ * - Add the same instance to every lib writing to the output directory; each
+ *   lib's bundled packages are collected, and the lib that emits package.json
+ *   writes the SBOM
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { SbomPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [SbomPlugin()],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const SbomPlugin = (options: SbomPluginOptions = {}): RsbuildPlugin => {
+	const { filename = "sbom.cdx.json", publish = true } = options;
+	// Shared by the libs of one build, cleared once the SBOM is emitted
+	const roots = new Set<string>();
+
+	return {
+		name: "sbom-plugin",
+		post: ["package-json-processor"],
+		setup(api: RsbuildPluginAPI): void {
+			// FilesArrayPlugin writes the files array at optimize-inline, before the SBOM exists
+			api.processAssets(
+				{
+					stage: "optimize",
+				},
+				async (context) => {
+					if (context.compilation.assets["package.json"]) {
+						api.useExposed<Set<string>>("files-array")?.add(publish ? filename : `!${filename}`);
+					}
+				},
+			);
+
+			api.processAssets(
+				{
+					stage: "optimize-inline",
+				},
+				async (context) => {
+					const { compilation } = context;
+					collectPackageRoots(compilation.modules as unknown as Iterable<BundledModule>, roots);
+
+					// Only the lib that emits package.json writes the SBOM
+					if (!compilation.assets["package.json"]) {
+						return;
+					}
+					const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", true);
+					if (!packageJson) {
+						return;
+					}
+
+					const bundled = await Promise.all(Array.from(roots, (root) => readBundledPackage(root)));
+					roots.clear();
+
+					const log = createEnvLogger(compilation.name || "unknown");
+					const pnpmLockfile = await readPnpmLockfile(api.context.rootPath);
+					if (!pnpmLockfile) {
+						log.warn(`${color.dim("[sbom]")} No pnpm-lock.yaml found; versions fall back to the declared ranges`);
+					}
+					const { lockfile = {}, importer = {} } = pnpmLockfile ?? {};
+
+					const sbom = createSbom(packageJson.data, bundled, lockfile, importer, resolveBuildTimestamp(false));
+					compilation.emitAsset(filename, new context.sources.RawSource(`${JSON.stringify(sbom, null, "\t")}\n`));
+
+					log.info(
+						`${color.dim("[sbom]")} Emitted ${filename} with ${sbom.components.length} component${sbom.components.length === 1 ? "" : "s"}${publish ? "" : " (excluded from npm publish)"}`,
+					);
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
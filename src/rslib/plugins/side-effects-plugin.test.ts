@@ -0,0 +1,300 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import ts from "typescript";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	analyzeSourceSideEffects,
+	findBundledSideEffects,
+	findSideEffectFiles,
+	findTopLevelSideEffects,
+	findUndeclaredSideEffects,
+	formatSideEffects,
+	getSideEffectsReport,
+	inferSideEffectsField,
+	matchesSideEffectsPattern,
+} from "./side-effects-plugin.js";
+
+const parse = (code: string): ts.SourceFile => ts.createSourceFile("module.ts", code, ts.ScriptTarget.Latest, true);
+
+describe("findTopLevelSideEffects", () => {
+	it("should accept a module of declarations", () => {
+		const code = [
+			'"use strict";',
+			'import { join } from "node:path";',
+			'import type { Config } from "./config.js";',
+			'export { helper } from "./helper.js";',
+			"export const value = createValue();",
+			"export function run(): void { globalThis.ran = true; }",
+			"export class Service { method(): void {} }",
+			"export interface Options { name: string }",
+			"export type Name = string;",
+			"export enum Mode { A, B }",
+			"let counter = 0;",
+			"counter = 1;",
+			"const frozen = /* @__PURE__ */ Object.freeze({});",
+			"/* @__PURE__ */ register();",
+			"export default join;",
+		].join("\n");
+
+		expect(findTopLevelSideEffects(parse(code))).toEqual([]);
+	});
+
+	it("should report imports kept for their side effects", () => {
+		const code = ['import "./polyfill.js";', 'import "./styles.css";'].join("\n");
+
+		expect(findTopLevelSideEffects(parse(code))).toEqual([
+			{ line: 1, description: 'imports "./polyfill.js" for its side effects' },
+			{ line: 2, description: 'imports "./styles.css" for its side effects' },
+		]);
+	});
+
+	it("should report global and prototype assignments", () => {
+		const code = ["globalThis.fetchPolyfill = true;", "Array.prototype.last = function () {};"].join("\n");
+
+		expect(findTopLevelSideEffects(parse(code))).toEqual([
+			{ line: 1, description: "assigns to globalThis.fetchPolyfill" },
+			{ line: 2, description: "assigns to Array.prototype.last" },
+		]);
+	});
+
+	it("should report calls and constructions", () => {
+		const code = ["registerPlugin(plugin);", "new Worker(url);", "(console.log)('loaded');"].join("\n");
+
+		expect(findTopLevelSideEffects(parse(code))).toEqual([
+			{ line: 1, description: "calls registerPlugin" },
+			{ line: 2, description: "constructs Worker" },
+			{ line: 3, description: "calls (console.log)" },
+		]);
+	});
+
+	it("should report top-level control flow", () => {
+		const code = [
+			"if (typeof window !== 'undefined') {}",
+			"for (const x of []) {}",
+			"try {} catch {}",
+			"throw new Error();",
+		].join("\n");
+
+		expect(findTopLevelSideEffects(parse(code)).map((sideEffect) => sideEffect.description)).toEqual([
+			"runs a top-level if",
+			"runs a top-level forof",
+			"runs a top-level try",
+			"runs a top-level throw",
+		]);
+	});
+
+	it("should report decorated classes and static blocks", () => {
+		const code = ["@register", "class Decorated {}", "class Registered { static { register(this); } }"].join("\n");
+
+		expect(findTopLevelSideEffects(parse(code))).toEqual([
+			{ line: 1, description: "decorates class Decorated" },
+			{ line: 3, description: "runs a static block in class Registered" },
+		]);
+	});
+
+	it("should report other top-level expressions", () => {
+		expect(findTopLevelSideEffects(parse("await ready;"))).toEqual([{ line: 1, description: "runs await ready" }]);
+	});
+});
+
+describe("formatSideEffects", () => {
+	it("should list each side effect with its location", () => {
+		expect(
+			formatSideEffects("src/polyfill.ts", [
+				{ line: 1, description: "calls install" },
+				{ line: 4, description: "assigns to globalThis.x" },
+			]),
+		).toBe("  src/polyfill.ts:1 calls install\n  src/polyfill.ts:4 assigns to globalThis.x");
+	});
+});
+
+describe("inferSideEffectsField", () => {
+	it("should return false when no file has side effects", () => {
+		expect(inferSideEffectsField([])).toBe(false);
+	});
+
+	it("should return the sorted, deduplicated file list", () => {
+		expect(inferSideEffectsField(["polyfill.js", "index.cjs", "./polyfill.js"])).toEqual([
+			"./index.cjs",
+			"./polyfill.js",
+		]);
+	});
+});
+
+describe("matchesSideEffectsPattern", () => {
+	it("should match file names in any directory for patterns without a slash", () => {
+		expect(matchesSideEffectsPattern("styles/main.css", "*.css")).toBe(true);
+		expect(matchesSideEffectsPattern("polyfill.js", "polyfill.js")).toBe(true);
+		expect(matchesSideEffectsPattern("polyfill.cjs", "polyfill.js")).toBe(false);
+	});
+
+	it("should match paths from the package root for patterns with a slash", () => {
+		expect(matchesSideEffectsPattern("polyfills/fetch.js", "./polyfills/*.js")).toBe(true);
+		expect(matchesSideEffectsPattern("polyfills/deep/fetch.js", "./polyfills/*.js")).toBe(false);
+		expect(matchesSideEffectsPattern("polyfills/deep/fetch.js", "./polyfills/**/*.js")).toBe(true);
+		expect(matchesSideEffectsPattern("polyfills/fetch.js", "./polyfills/**/*.js")).toBe(true);
+		expect(matchesSideEffectsPattern("index.js", "./polyfills/*.js")).toBe(false);
+	});
+});
+
+describe("findUndeclaredSideEffects", () => {
+	const files = ["polyfill.js", "index.js"];
+
+	it("should accept everything when sideEffects is true", () => {
+		expect(findUndeclaredSideEffects(true, files)).toEqual([]);
+	});
+
+	it("should report every file when sideEffects is false", () => {
+		expect(findUndeclaredSideEffects(false, files)).toEqual(["index.js", "polyfill.js"]);
+	});
+
+	it("should report files no pattern matches", () => {
+		expect(findUndeclaredSideEffects(["./polyfill.js"], files)).toEqual(["index.js"]);
+		expect(findUndeclaredSideEffects(["*.js"], files)).toEqual([]);
+	});
+});
+
+describe("findBundledSideEffects", () => {
+	const testDirs: string[] = [];
+
+	async function createPackage(files: Record<string, string>): Promise<string> {
+		const dir = join(tmpdir(), `side-effects-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+		testDirs.push(dir);
+		for (const [file, content] of Object.entries(files)) {
+			await mkdir(dirname(join(dir, "node_modules/pkg", file)), { recursive: true });
+			await writeFile(join(dir, "node_modules/pkg", file), content);
+		}
+		return join(dir, "node_modules/pkg");
+	}
+
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	it("should analyze bundled modules", async () => {
+		const root = await createPackage({
+			"package.json": "{}",
+			"index.js": "export const a = 1;",
+			"polyfill.js": "globalThis.x = 1;",
+		});
+
+		expect(await findBundledSideEffects(join(root, "index.js"))).toEqual([]);
+		expect(await findBundledSideEffects(join(root, "polyfill.js"))).toHaveLength(1);
+	});
+
+	it("should trust the sideEffects field of the bundled package", async () => {
+		const root = await createPackage({
+			"package.json": JSON.stringify({ sideEffects: ["./polyfill.js"] }),
+			"index.js": "module.exports = {};",
+			"polyfill.js": "globalThis.x = 1;",
+		});
+		const packageJsons = new Map();
+
+		expect(await findBundledSideEffects(join(root, "index.js"), packageJsons)).toEqual([]);
+		expect(await findBundledSideEffects(join(root, "polyfill.js"), packageJsons)).toHaveLength(1);
+		expect(packageJsons.size).toBe(1);
+	});
+
+	it("should count CommonJS exports as side effects", async () => {
+		const root = await createPackage({ "package.json": "{}", "index.cjs": "module.exports = {};" });
+
+		expect(await findBundledSideEffects(join(root, "index.cjs"))).toHaveLength(1);
+	});
+
+	it("should skip first-party and non-JavaScript modules", async () => {
+		const root = await createPackage({ "package.json": "{}", "data.json": "{}" });
+
+		expect(await findBundledSideEffects(join(root, "data.json"))).toEqual([]);
+		expect(await findBundledSideEffects("/project/src/index.ts")).toEqual([]);
+	});
+});
+
+describe("analyzeSourceSideEffects", () => {
+	it("should analyze the sources reachable from the exports", async () => {
+		const dir = join(tmpdir(), `side-effects-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+		try {
+			await mkdir(join(dir, "src"), { recursive: true });
+			await writeFile(join(dir, "package.json"), JSON.stringify({ name: "lib", exports: { ".": "./src/index.ts" } }));
+			await writeFile(
+				join(dir, "tsconfig.json"),
+				JSON.stringify({ compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext" }, include: ["src"] }),
+			);
+			await writeFile(join(dir, "src/index.ts"), 'import "./polyfill.js";\nexport * from "./util.js";\n');
+			await writeFile(join(dir, "src/polyfill.ts"), "globalThis.x = 1;\n");
+			await writeFile(join(dir, "src/util.ts"), "export const a = 1;\n");
+			await writeFile(join(dir, "src/unused.ts"), "globalThis.y = 1;\n");
+
+			const sources = await analyzeSourceSideEffects(dir);
+
+			expect([...sources.keys()].map((file) => file.slice(dir.length + 1)).sort()).toEqual([
+				"src/index.ts",
+				"src/polyfill.ts",
+			]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("findSideEffectFiles", () => {
+	const sources = new Map([["/project/src/polyfill.ts", [{ line: 1, description: "assigns globalThis.x" }]]]);
+
+	it("should list the files of chunks with source modules or stylesheets with side effects", async () => {
+		const chunks = [
+			{ files: ["index.js", "index.js.map"], resources: ["/project/src/index.ts", "/project/src/polyfill.ts"] },
+			{ files: ["util.js"], resources: ["/project/src/util.ts"] },
+			{ files: ["styles.css"], resources: ["/project/src/styles.css"] },
+		];
+
+		expect(await findSideEffectFiles(chunks, sources)).toEqual(["index.js", "styles.css"]);
+	});
+
+	it("should analyze bundled modules once", async () => {
+		const dir = join(tmpdir(), `side-effects-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+		const root = join(dir, "node_modules/pkg");
+		try {
+			await mkdir(root, { recursive: true });
+			await writeFile(join(root, "package.json"), "{}");
+			await writeFile(join(root, "polyfill.js"), "globalThis.x = 1;");
+			const bundled = new Map();
+			const chunks = [
+				{ files: ["a.js"], resources: [join(root, "polyfill.js")] },
+				{ files: ["b.js"], resources: [join(root, "polyfill.js")] },
+			];
+
+			expect(await findSideEffectFiles(chunks, new Map(), bundled)).toEqual(["a.js", "b.js"]);
+			expect(bundled.size).toBe(1);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("getSideEffectsReport", () => {
+	it("should suggest or write an inferred value", () => {
+		expect(getSideEffectsReport(undefined, ["index.js"], "suggest", "")).toEqual({
+			level: "info",
+			message: 'package.json has no sideEffects field; suggested value: ["./index.js"]',
+		});
+		expect(getSideEffectsReport(undefined, [], "write", "")).toEqual({
+			level: "info",
+			message: 'wrote "sideEffects": false',
+			write: false,
+		});
+	});
+
+	it("should warn when a hand-written value misses files with side effects", () => {
+		expect(getSideEffectsReport(false, ["index.js"], "write", "details")).toEqual({
+			level: "warn",
+			message: '"sideEffects": false marks files with side effects as side-effect free: index.js\ndetails',
+		});
+	});
+
+	it("should point out a true value that could be false", () => {
+		expect(getSideEffectsReport(true, [], "suggest", "")?.message).toContain("could be false");
+		expect(getSideEffectsReport(true, ["index.js"], "suggest", "")).toBeUndefined();
+		expect(getSideEffectsReport(["./index.js"], ["index.js"], "suggest", "")).toBeUndefined();
+	});
+});
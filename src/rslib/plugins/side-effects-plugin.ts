@@ -0,0 +1,521 @@
+import { readFile } from "node:fs/promises";
+import { join, posix, relative } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import ts from "typescript";
+import type { PackageJson } from "../../types/package-json.js";
+import type { BundledModule } from "./auto-externals-plugin.js";
+import { collectResources } from "./auto-externals-plugin.js";
+import { getPackageRoot } from "./third-party-notices-plugin.js";
+import { JsonAsset } from "./utils/asset-utils.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+import { extractEntriesFromPackageJson } from "./utils/entry-extractor.js";
+import { ImportGraph } from "./utils/import-graph.js";
+import { applyPublishConfigOverrides } from "./utils/package-json-transformer.js";
+
+/**
+ * What to do with the inferred `sideEffects` value when package.json has none.
+ *
+ * @remarks
+ * - `"suggest"`: Log the inferred value
+ * - `"write"`: Write the inferred value to the output package.json
+ *
+ * A hand-written `sideEffects` value is never replaced; it is checked against
+ * the analysis instead.
+ *
+ * @public
+ */
+export type SideEffectsMode = "suggest" | "write";
+
+/**
+ * Options for the SideEffectsPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { SideEffectsPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [SideEffectsPlugin({ mode: 'write' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface SideEffectsPluginOptions {
+	/**
+	 * What to do with the inferred value when package.json has no `sideEffects` field.
+	 *
+	 * @defaultValue "suggest"
+	 */
+	mode?: SideEffectsMode;
+
+	/**
+	 * When true, export paths create index files in nested directories.
+	 * Must match the AutoEntryPlugin option so the traced entries match the build.
+	 */
+	exportsAsIndexes?: boolean;
+
+	/**
+	 * Path to the tsconfig used to resolve imports while tracing sources.
+	 */
+	tsconfigPath?: string;
+}
+
+/**
+ * A top-level statement that runs when a module is imported.
+ *
+ * @internal
+ */
+export interface SideEffect {
+	/** 1-based line of the statement */
+	line: number;
+	/** What the statement does */
+	description: string;
+}
+
+const STYLESHEET_PATTERN = /\.(?:css|less|sass|scss|styl)$/;
+
+/**
+ * Checks whether an expression carries a `@__PURE__` or `#__PURE__` annotation.
+ */
+function isPureAnnotated(node: ts.Node, sourceFile: ts.SourceFile): boolean {
+	const comments = ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart()) ?? [];
+	return comments.some((comment) => /[@#]__PURE__/.test(sourceFile.text.slice(comment.pos, comment.end)));
+}
+
+/**
+ * Describes a top-level expression statement, or returns undefined when it has no effect.
+ */
+function describeExpression(expression: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+	const text = (node: ts.Node): string => node.getText(sourceFile).replace(/\s+/g, " ");
+	if (ts.isParenthesizedExpression(expression)) {
+		return describeExpression(expression.expression, sourceFile);
+	}
+	if (ts.isStringLiteral(expression) || ts.isNumericLiteral(expression) || ts.isIdentifier(expression)) {
+		return undefined;
+	}
+	if (
+		ts.isBinaryExpression(expression) &&
+		expression.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+		expression.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+	) {
+		// Reassigning a module-scoped binding is invisible to importers
+		return ts.isIdentifier(expression.left) ? undefined : `assigns to ${text(expression.left)}`;
+	}
+	if (ts.isCallExpression(expression) || ts.isNewExpression(expression)) {
+		if (isPureAnnotated(expression, sourceFile)) {
+			return undefined;
+		}
+		const verb = ts.isNewExpression(expression) ? "constructs" : "calls";
+		return `${verb} ${text(expression.expression)}`;
+	}
+	return `runs ${text(expression).slice(0, 40)}`;
+}
+
+/**
+ * Finds the top-level statements of a module that run when it is imported.
+ *
+ * @remarks
+ * Reports imports kept only for their side effects (polyfills, stylesheets),
+ * calls and constructions that are not annotated `@__PURE__`, assignments to
+ * properties such as `globalThis.x` or `Foo.prototype.y`, top-level control
+ * flow, and decorated classes or classes with static blocks. Declarations,
+ * type-only code and variable initializers are treated as side-effect free,
+ * as are directives and bare references.
+ *
+ * @internal
+ */
+export function findTopLevelSideEffects(sourceFile: ts.SourceFile): SideEffect[] {
+	const sideEffects: SideEffect[] = [];
+	const add = (node: ts.Node, description: string): void => {
+		const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+		sideEffects.push({ line: line + 1, description });
+	};
+
+	for (const statement of sourceFile.statements) {
+		if (ts.isImportDeclaration(statement)) {
+			if (!statement.importClause && ts.isStringLiteral(statement.moduleSpecifier)) {
+				add(statement, `imports "${statement.moduleSpecifier.text}" for its side effects`);
+			}
+		} else if (ts.isExpressionStatement(statement)) {
+			const description = describeExpression(statement.expression, sourceFile);
+			if (description) {
+				add(statement, description);
+			}
+		} else if (ts.isClassDeclaration(statement)) {
+			const name = statement.name?.text ?? "default";
+			if (ts.getDecorators(statement)?.length) {
+				add(statement, `decorates class ${name}`);
+			}
+			if (statement.members.some(ts.isClassStaticBlockDeclaration)) {
+				add(statement, `runs a static block in class ${name}`);
+			}
+		} else if (
+			ts.isIfStatement(statement) ||
+			ts.isIterationStatement(statement, false) ||
+			ts.isTryStatement(statement) ||
+			ts.isSwitchStatement(statement) ||
+			ts.isThrowStatement(statement) ||
+			ts.isBlock(statement) ||
+			ts.isLabeledStatement(statement)
+		) {
+			add(statement, `runs a top-level ${ts.SyntaxKind[statement.kind].replace(/Statement$/, "").toLowerCase()}`);
+		}
+	}
+
+	return sideEffects;
+}
+
+/**
+ * Formats the side effects of a file for logging.
+ *
+ * @internal
+ */
+export function formatSideEffects(file: string, sideEffects: SideEffect[]): string {
+	return sideEffects.map(({ line, description }) => `  ${file}:${line} ${description}`).join("\n");
+}
+
+/**
+ * Builds the `sideEffects` value for a set of emitted files.
+ *
+ * @returns `false` when no file has side effects, otherwise the sorted `./` paths
+ *
+ * @internal
+ */
+export function inferSideEffectsField(files: Iterable<string>): false | string[] {
+	const paths = [...new Set(Array.from(files, (file) => `./${file.replace(/^\.\//, "")}`))].sort();
+	return paths.length === 0 ? false : paths;
+}
+
+/**
+ * Checks whether an emitted file matches a `sideEffects` pattern.
+ *
+ * @remarks
+ * Follows bundler semantics: patterns without a `/` match the file name in
+ * any directory, other patterns match the path from the package root. `*`
+ * matches within a path segment and `**` across segments.
+ *
+ * @internal
+ */
+export function matchesSideEffectsPattern(file: string, pattern: string): boolean {
+	const normalizedFile = file.replace(/^\.\//, "");
+	const normalizedPattern = pattern.replace(/^\.\//, "");
+	const subject = normalizedPattern.includes("/") ? normalizedFile : posix.basename(normalizedFile);
+	const wildcards: Record<string, string> = { "**/": "(?:.*/)?", "**": ".*", "*": "[^/]*" };
+	const source = normalizedPattern
+		.split(/(\*\*\/|\*\*|\*)/)
+		.map((part) => wildcards[part] ?? part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join("");
+	return new RegExp(`^${source}$`).test(subject);
+}
+
+/**
+ * Compares a hand-written `sideEffects` value with the analysis.
+ *
+ * @param declared - The `sideEffects` value of package.json
+ * @param files - Emitted files found to have side effects
+ * @returns The files with side effects that `declared` marks as side-effect free
+ *
+ * @internal
+ */
+export function findUndeclaredSideEffects(declared: boolean | string[], files: Iterable<string>): string[] {
+	if (declared === true) {
+		return [];
+	}
+	return Array.from(files)
+		.filter((file) => declared === false || !declared.some((pattern) => matchesSideEffectsPattern(file, pattern)))
+		.sort();
+}
+
+/**
+ * Finds the side effects of a module bundled from `node_modules`.
+ *
+ * @remarks
+ * Files that the `sideEffects` field of their own package marks as
+ * side-effect free are skipped. Other JavaScript files are analyzed like
+ * sources (see {@link findTopLevelSideEffects}), so CommonJS modules, which
+ * assign to `exports` at the top level, count as having side effects.
+ *
+ * @param resource - Absolute path of the bundled module file
+ * @param packageJsons - Cache of package.json reads by package root
+ * @returns The side effects found, empty for side-effect free or non-JavaScript files
+ *
+ * @internal
+ */
+export async function findBundledSideEffects(
+	resource: string,
+	packageJsons: Map<string, Promise<PackageJson | undefined>> = new Map(),
+): Promise<SideEffect[]> {
+	const root = getPackageRoot(resource);
+	if (!root || !/\.[cm]?[jt]sx?$/.test(resource)) {
+		return [];
+	}
+	if (!packageJsons.has(root)) {
+		packageJsons.set(
+			root,
+			readFile(join(root, "package.json"), "utf-8").then(
+				(content) => JSON.parse(content) as PackageJson,
+				() => undefined,
+			),
+		);
+	}
+	const declared = (await packageJsons.get(root))?.sideEffects;
+	const file = resource.replace(/\\/g, "/").slice(root.length + 1);
+	if (
+		declared === false ||
+		(Array.isArray(declared) && !declared.some((pattern) => matchesSideEffectsPattern(file, pattern)))
+	) {
+		return [];
+	}
+	const content = await readFile(resource, "utf-8");
+	return findTopLevelSideEffects(ts.createSourceFile(resource, content, ts.ScriptTarget.Latest, true));
+}
+
+/**
+ * Traces the source modules reachable from the package exports and finds their side effects.
+ *
+ * @param cwd - Package directory
+ * @param options - Plugin configuration options
+ * @returns The side effects of each source module that has any
+ *
+ * @internal
+ */
+export async function analyzeSourceSideEffects(
+	cwd: string,
+	options: SideEffectsPluginOptions = {},
+): Promise<Map<string, SideEffect[]>> {
+	const packageJson = applyPublishConfigOverrides(
+		JSON.parse(await readFile(join(cwd, "package.json"), "utf-8")) as PackageJson,
+	);
+	const { entries } = extractEntriesFromPackageJson(packageJson, { exportsAsIndexes: options.exportsAsIndexes, cwd });
+	const graph = ImportGraph.fromEntries(Object.values(entries), { rootDir: cwd, tsconfigPath: options.tsconfigPath });
+	for (const error of graph.errors) {
+		createEnvLogger("side-effects").global.warn(`${color.dim("[side-effects]")} ${error.message}`);
+	}
+
+	const result = new Map<string, SideEffect[]>();
+	for (const file of graph.files) {
+		const content = await readFile(file, "utf-8");
+		const sideEffects = findTopLevelSideEffects(ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true));
+		if (sideEffects.length > 0) {
+			result.set(file, sideEffects);
+		}
+	}
+	return result;
+}
+
+/**
+ * An emitted chunk and the module files bundled into it.
+ *
+ * @internal
+ */
+export interface SideEffectsChunk {
+	/** Emitted files of the chunk */
+	files: Iterable<string>;
+	/** Absolute paths of the modules in the chunk */
+	resources: Iterable<string>;
+}
+
+/**
+ * Finds the emitted files of the chunks that contain a module with side effects.
+ *
+ * @remarks
+ * A chunk has side effects when it contains a source module with side
+ * effects, a stylesheet, or a bundled `node_modules` module with side effects
+ * (see {@link findBundledSideEffects}). Source maps are left out.
+ *
+ * @param chunks - Chunks of the compilation
+ * @param sources - Side effects of the source modules, see {@link analyzeSourceSideEffects}
+ * @param bundled - Cache of the side effects of bundled modules, filled as they are analyzed
+ * @param packageJsons - Cache of package.json reads by package root
+ * @returns The emitted files with side effects
+ *
+ * @internal
+ */
+export async function findSideEffectFiles(
+	chunks: Iterable<SideEffectsChunk>,
+	sources: Map<string, SideEffect[]>,
+	bundled: Map<string, SideEffect[]> = new Map(),
+	packageJsons: Map<string, Promise<PackageJson | undefined>> = new Map(),
+): Promise<string[]> {
+	const files: string[] = [];
+	for (const chunk of chunks) {
+		let hasSideEffects = false;
+		for (const resource of chunk.resources) {
+			if (sources.has(resource) || STYLESHEET_PATTERN.test(resource)) {
+				hasSideEffects = true;
+			} else if (getPackageRoot(resource)) {
+				if (!bundled.has(resource)) {
+					bundled.set(resource, await findBundledSideEffects(resource, packageJsons));
+				}
+				hasSideEffects ||= (bundled.get(resource)?.length ?? 0) > 0;
+			}
+		}
+		if (hasSideEffects) {
+			files.push(...Array.from(chunk.files).filter((file) => !file.endsWith(".map")));
+		}
+	}
+	return files;
+}
+
+/**
+ * Outcome of checking the `sideEffects` field against the emitted files.
+ *
+ * @internal
+ */
+export interface SideEffectsReport {
+	/** Log level of the message */
+	level: "info" | "warn";
+	/** Message to log */
+	message: string;
+	/** Value to write to package.json, in `"write"` mode without a `sideEffects` field */
+	write?: false | string[];
+}
+
+/**
+ * Infers or checks the `sideEffects` field from the emitted files with side effects.
+ *
+ * @param declared - The `sideEffects` field of package.json
+ * @param files - Emitted files with side effects
+ * @param mode - Whether an inferred value is only suggested or written
+ * @param details - Formatted side effects, shown with the warning about a hand-written value
+ * @returns The report to log, or `undefined` when a hand-written value is correct
+ *
+ * @internal
+ */
+export function getSideEffectsReport(
+	declared: PackageJson["sideEffects"],
+	files: Iterable<string>,
+	mode: SideEffectsMode,
+	details: string,
+): SideEffectsReport | undefined {
+	if (declared === undefined) {
+		const inferred = inferSideEffectsField(files);
+		return mode === "write"
+			? { level: "info", message: `wrote "sideEffects": ${JSON.stringify(inferred)}`, write: inferred }
+			: {
+					level: "info",
+					message: `package.json has no sideEffects field; suggested value: ${JSON.stringify(inferred)}`,
+				};
+	}
+
+	const undeclared = findUndeclaredSideEffects(declared, files);
+	if (undeclared.length > 0) {
+		return {
+			level: "warn",
+			message: `"sideEffects": ${JSON.stringify(declared)} marks files with side effects as side-effect free: ${undeclared.join(", ")}\n${details}`,
+		};
+	}
+	if (declared === true && Array.from(files).length === 0) {
+		return { level: "info", message: 'no side effects found; "sideEffects" could be false' };
+	}
+	return undefined;
+}
+
+/**
+ * Plugin to infer and validate the package.json `sideEffects` field.
+ *
+ * @remarks
+ * Traces the source modules reachable from the package exports with
+ * {@link ImportGraph} and looks for top-level side effects in each one (see
+ * {@link findTopLevelSideEffects}). Stylesheet modules always count as side
+ * effects. The rspack chunk graph then maps these modules to the emitted
+ * files that contain them.
+ *
+ * Without a `sideEffects` field, the inferred value (`false` or an explicit
+ * file list) is logged or written, depending on `mode`. A hand-written value
+ * is kept and checked: files with side effects that it marks as side-effect
+ * free are reported as a warning, and a `true` value that could be `false` is
+ * pointed out.
+ *
+ * Modules bundled from `node_modules`, such as bundled devDependencies, are
+ * analyzed too (see {@link findBundledSideEffects}), so a chunk that inlines a
+ * polyfill or a CommonJS module is never declared side-effect free.
+ *
+ * ## Plugin Interoperability
+ *
+ * - Add the same instance to every lib writing to the output directory; each
+ *   lib's side-effect files are collected, and the lib that emits package.json
+ *   writes the result
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { SideEffectsPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [SideEffectsPlugin()],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const SideEffectsPlugin = (options: SideEffectsPluginOptions = {}): RsbuildPlugin => {
+	const { mode = "suggest" } = options;
+	// Shared by the libs of one build, cleared once package.json is written
+	let sources: Promise<Map<string, SideEffect[]>> | undefined;
+	const files = new Set<string>();
+	const bundled = new Map<string, SideEffect[]>();
+	const packageJsons = new Map<string, Promise<PackageJson | undefined>>();
+
+	return {
+		name: "side-effects-plugin",
+		post: ["package-json-processor"],
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "optimize-inline",
+				},
+				async (context) => {
+					const cwd = api.context.rootPath;
+					sources ??= analyzeSourceSideEffects(cwd, options);
+					const sideEffectSources = await sources;
+
+					const { compilation } = context;
+					const chunks = Array.from(compilation.chunks, (chunk) => ({
+						files: chunk.files,
+						resources: collectResources(
+							compilation.chunkGraph.getChunkModules(chunk) as unknown as BundledModule[],
+							new Set<string>(),
+						),
+					}));
+					for (const file of await findSideEffectFiles(chunks, sideEffectSources, bundled, packageJsons)) {
+						files.add(file);
+					}
+
+					// Only the lib that emits package.json writes the result
+					if (!compilation.assets["package.json"]) {
+						return;
+					}
+					const packageJson = await JsonAsset.create<PackageJson>(context, "package.json", true);
+					if (!packageJson) {
+						return;
+					}
+
+					const details = [...sideEffectSources, ...bundled]
+						.filter(([, sideEffects]) => sideEffects.length > 0)
+						.map(([file, sideEffects]) => formatSideEffects(relative(cwd, file).replace(/\\/g, "/"), sideEffects))
+						.join("\n");
+					const report = getSideEffectsReport(packageJson.data.sideEffects, files, mode, details);
+					if (report?.write !== undefined) {
+						packageJson.data.sideEffects = report.write;
+						packageJson.update();
+					}
+					if (report) {
+						createEnvLogger(compilation.name || "unknown")[report.level](
+							`${color.dim("[side-effects]")} ${report.message}`,
+						);
+					}
+
+					sources = undefined;
+					files.clear();
+					bundled.clear();
+					packageJsons.clear();
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
@@ -0,0 +1,282 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { afterEach, describe, expect, it } from "vitest";
+import type { SizeEntrypoint, SizeRow } from "./size-budget-plugin.js";
+import {
+	assertSizeBudgets,
+	compareWithSnapshot,
+	createSizeRows,
+	estimateTarballSize,
+	findExceededBudgets,
+	formatSize,
+	formatSizeTable,
+	getLimit,
+	measureEntries,
+	parseSize,
+	readPackageFiles,
+	readSnapshot,
+	updateSnapshot,
+} from "./size-budget-plugin.js";
+
+// Strip colors so the table layout can be compared
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape sequences
+const stripAnsi = (text: string): string => text.replace(/\u001b\[\d+m/g, "");
+
+// Track created test directories for cleanup
+const testDirs: string[] = [];
+
+describe("size-budget-plugin", () => {
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	describe("parseSize", () => {
+		it("should accept bytes and sizes with units", () => {
+			expect(parseSize(2048)).toBe(2048);
+			expect(parseSize("512")).toBe(512);
+			expect(parseSize("100 B")).toBe(100);
+			expect(parseSize("10 kB")).toBe(10_000);
+			expect(parseSize("1.5MB")).toBe(1_500_000);
+			expect(parseSize("2 KiB")).toBe(2048);
+			expect(parseSize("1 MiB")).toBe(1024 ** 2);
+		});
+
+		it("should reject unknown units", () => {
+			expect(() => parseSize("10 GB")).toThrow('Invalid size budget "10 GB"');
+			expect(() => parseSize("big")).toThrow('Invalid size budget "big"');
+		});
+	});
+
+	describe("formatSize", () => {
+		it("should pick a unit for the magnitude", () => {
+			expect(formatSize(999)).toBe("999 B");
+			expect(formatSize(1234)).toBe("1.23 kB");
+			expect(formatSize(2_500_000)).toBe("2.50 MB");
+			expect(formatSize(-1500)).toBe("-1.50 kB");
+		});
+	});
+
+	describe("getLimit", () => {
+		it("should apply a single limit to every name", () => {
+			expect(getLimit("1 kB", "index")).toBe(1000);
+			expect(getLimit(undefined, "index")).toBeUndefined();
+		});
+
+		it("should look up limits by name", () => {
+			expect(getLimit({ index: 500 }, "index")).toBe(500);
+			expect(getLimit({ index: 500 }, "utils/index")).toBeUndefined();
+		});
+	});
+
+	describe("estimateTarballSize", () => {
+		it("should gzip the files behind tar headers", () => {
+			const content = Buffer.from("export const value = 1;\n");
+			const size = estimateTarballSize(new Map([["index.js", content]]));
+
+			// Smaller than the raw tar layout, larger than the gzipped content alone
+			expect(size).toBeLessThan(512 * 2 + 1024);
+			expect(size).toBeGreaterThan(gzipSync(content).length);
+		});
+
+		it("should not depend on the order of the files", () => {
+			const a = Buffer.from("a".repeat(600));
+			const b = Buffer.from("b".repeat(100));
+
+			expect(
+				estimateTarballSize(
+					new Map([
+						["a.js", a],
+						["b.js", b],
+					]),
+				),
+			).toBe(
+				estimateTarballSize(
+					new Map([
+						["b.js", b],
+						["a.js", a],
+					]),
+				),
+			);
+		});
+	});
+
+	describe("findExceededBudgets", () => {
+		it("should return the rows over their budget", () => {
+			const rows: SizeRow[] = [
+				{ label: "index.js", size: 1200, limit: 1000 },
+				{ label: "utils.js", size: 1000, limit: 1000 },
+				{ label: "files", size: 5000 },
+			];
+
+			expect(findExceededBudgets(rows)).toEqual([rows[0]]);
+		});
+	});
+
+	describe("compareWithSnapshot", () => {
+		it("should add the previous size of known rows", () => {
+			const rows = compareWithSnapshot(
+				[
+					{ label: "index.js", size: 1200 },
+					{ label: "files", size: 5000 },
+				],
+				{
+					"index.js": 1000,
+				},
+			);
+
+			expect(rows).toEqual([
+				{ label: "index.js", size: 1200, previous: 1000 },
+				{ label: "files", size: 5000 },
+			]);
+		});
+	});
+
+	describe("formatSizeTable", () => {
+		it("should align sizes and budgets", () => {
+			const table = stripAnsi(
+				formatSizeTable([
+					{ label: "index.js", size: 1234, limit: 2000 },
+					{ label: "tarball (gzip)", size: 456 },
+				]),
+			);
+
+			expect(table).toBe(
+				[
+					"  File               Size   Budget",
+					"  index.js        1.23 kB  2.00 kB",
+					"  tarball (gzip)    456 B        -",
+				].join("\n"),
+			);
+		});
+
+		it("should show the change since the snapshot", () => {
+			const table = stripAnsi(
+				formatSizeTable([
+					{ label: "index.js", size: 1234, previous: 1000 },
+					{ label: "utils.js", size: 100, previous: 100 },
+					{ label: "cli.js", size: 200 },
+				]),
+			);
+
+			expect(table.split("\n")).toEqual([
+				"  File         Size  Budget  Change",
+				"  index.js  1.23 kB       -  +234 B",
+				"  utils.js    100 B       -       -",
+				"  cli.js      200 B       -     new",
+			]);
+		});
+	});
+
+	describe("readSnapshot", () => {
+		it("should read the sizes of each target", async () => {
+			const dir = join(tmpdir(), `size-budget-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			await mkdir(dir, { recursive: true });
+			await writeFile(join(dir, "snapshot.json"), JSON.stringify({ npm: { "index.js": 1000 } }));
+
+			expect(await readSnapshot(join(dir, "snapshot.json"))).toEqual({ npm: { "index.js": 1000 } });
+			expect(await readSnapshot(join(dir, "missing.json"))).toEqual({});
+		});
+	});
+
+	describe("measureEntries", () => {
+		it("should add the shared chunks an entry loads", () => {
+			const entrypoints: Array<[string, SizeEntrypoint]> = [
+				[
+					"index",
+					{
+						getFiles: () => ["index.js", "shared.js", "index.js.map"],
+						getEntrypointChunk: () => ({ files: ["index.js"] }),
+					},
+				],
+				["cli", { getFiles: () => ["bin/cli.js"], getEntrypointChunk: () => ({ files: new Set(["bin/cli.js"]) }) }],
+			];
+			const assets = {
+				"index.js": { size: () => 100 },
+				"shared.js": { size: () => 50 },
+				"bin/cli.js": { size: () => 10 },
+			};
+
+			expect(measureEntries(entrypoints, assets, { index: 120 })).toEqual([
+				{ label: "index.js", size: 150, limit: 120 },
+				{ label: "bin/cli.js", size: 10, limit: undefined },
+			]);
+		});
+	});
+
+	describe("readPackageFiles", () => {
+		it("should read assets and files written by other libs, skipping negated entries", async () => {
+			const dir = join(tmpdir(), `size-budget-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			await mkdir(dir, { recursive: true });
+			await writeFile(join(dir, "index.cjs"), "module.exports = {};");
+
+			const contents = await readPackageFiles(
+				{ "index.js": { source: () => "export {};" }, "sbom.cdx.json": { source: () => "{}" } },
+				["index.js", "index.cjs", "sbom.cdx.json", "!sbom.cdx.json", "missing.js"],
+				dir,
+			);
+
+			expect([...contents.keys()]).toEqual(["index.js", "index.cjs"]);
+			expect(contents.get("index.cjs")?.toString()).toBe("module.exports = {};");
+		});
+	});
+
+	describe("createSizeRows", () => {
+		it("should add declaration, total and tarball rows", () => {
+			const contents = new Map([
+				["index.js", Buffer.from("export {};")],
+				["index.d.ts", Buffer.from("export {};")],
+			]);
+
+			const rows = createSizeRows([{ label: "index.js", size: 10 }], contents, {
+				declaration: 5,
+				files: "1 kB",
+			});
+
+			expect(rows.map((row) => [row.label, row.limit])).toEqual([
+				["index.js", undefined],
+				["index.d.ts", 5],
+				["files", 1000],
+				["tarball (gzip)", undefined],
+			]);
+			expect(rows[2].size).toBe(20);
+		});
+	});
+
+	describe("updateSnapshot", () => {
+		it("should record a new target and keep existing sizes unless updating", async () => {
+			const dir = join(tmpdir(), `size-budget-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+			testDirs.push(dir);
+			const snapshotPath = join(dir, "nested", "snapshot.json");
+
+			expect(await updateSnapshot([{ label: "index.js", size: 100 }], snapshotPath, "npm")).toEqual({
+				rows: [{ label: "index.js", size: 100 }],
+				written: true,
+			});
+			expect(await updateSnapshot([{ label: "index.js", size: 120 }], snapshotPath, "npm")).toEqual({
+				rows: [{ label: "index.js", size: 120, previous: 100 }],
+				written: false,
+			});
+			expect((await updateSnapshot([{ label: "index.js", size: 120 }], snapshotPath, "npm", true)).written).toBe(true);
+			await updateSnapshot([{ label: "index.js", size: 1 }], snapshotPath, "dev");
+
+			expect(JSON.parse(await readFile(snapshotPath, "utf-8"))).toEqual({
+				dev: { "index.js": 1 },
+				npm: { "index.js": 120 },
+			});
+		});
+	});
+
+	describe("assertSizeBudgets", () => {
+		it("should fail when a size exceeds its budget", () => {
+			expect(() => assertSizeBudgets([{ label: "index.js", size: 2000, limit: 1000 }])).toThrow(
+				"index.js: 2.00 kB > 1.00 kB",
+			);
+			expect(() => assertSizeBudgets([{ label: "index.js", size: 500, limit: 1000 }])).not.toThrow();
+		});
+	});
+});
@@ -0,0 +1,488 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import { createEnvLogger } from "./utils/build-logger.js";
+import { createTarball } from "./utils/tarball.js";
+
+/**
+ * A size limit in bytes, or a string with a unit such as `"10 kB"` or `"1.5 MB"`.
+ *
+ * @remarks
+ * `kB` and `MB` are powers of 1000, `KiB` and `MiB` powers of 1024.
+ *
+ * @public
+ */
+export type SizeLimit = number | string;
+
+/**
+ * Size budgets of a build.
+ *
+ * @remarks
+ * `entry` and `declaration` take one limit for every entry or declaration
+ * file, or limits keyed by entry name (`"index"`, `"utils/index"`) or
+ * declaration file name (`"index.d.ts"`).
+ *
+ * @public
+ */
+export interface SizeBudgets {
+	/** Size of each entry's JavaScript, including the shared chunks it loads */
+	entry?: SizeLimit | Record<string, SizeLimit>;
+	/** Size of each emitted declaration file */
+	declaration?: SizeLimit | Record<string, SizeLimit>;
+	/** Total size of the files in the `files` array */
+	files?: SizeLimit;
+	/** Estimated size of the gzipped npm tarball */
+	tarball?: SizeLimit;
+}
+
+/**
+ * Options for the SizeBudgetPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { SizeBudgetPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [
+ *     SizeBudgetPlugin({
+ *       target: 'npm',
+ *       entry: '20 kB',
+ *       tarball: '50 kB',
+ *       snapshot: '.size-snapshot.json',
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface SizeBudgetPluginOptions extends SizeBudgets {
+	/**
+	 * Build target name, used as the key of the target's sizes in the snapshot.
+	 */
+	target: string;
+
+	/**
+	 * Path of a size snapshot to compare against, relative to the project root.
+	 *
+	 * @remarks
+	 * The size table shows the change of each size since the snapshot, and a
+	 * warning lists the sizes that grew. A target missing from the snapshot is
+	 * added to it, so the file can be committed after the first build.
+	 */
+	snapshot?: string;
+
+	/**
+	 * Overwrite the target's sizes in the snapshot with the current ones.
+	 *
+	 * @defaultValue false
+	 */
+	updateSnapshot?: boolean;
+}
+
+/**
+ * A measured size and its budget.
+ *
+ * @internal
+ */
+export interface SizeRow {
+	/** Row label, also the key in the snapshot */
+	label: string;
+	/** Size in bytes */
+	size: number;
+	/** Budget in bytes */
+	limit?: number;
+	/** Size in the snapshot, in bytes */
+	previous?: number;
+}
+
+/**
+ * Sizes of the targets in a snapshot file, keyed by target and row label.
+ *
+ * @internal
+ */
+export type SizeSnapshot = Record<string, Record<string, number>>;
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1000,
+	mb: 1000 ** 2,
+	kib: 1024,
+	mib: 1024 ** 2,
+};
+
+/**
+ * Converts a size limit to bytes.
+ *
+ * @throws When the limit is not a number of bytes or a number with a known unit
+ *
+ * @internal
+ */
+export function parseSize(limit: SizeLimit): number {
+	if (typeof limit === "number") {
+		return limit;
+	}
+	const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(limit.trim());
+	const unit = SIZE_UNITS[match?.[2].toLowerCase() || "b"];
+	if (!match || unit === undefined) {
+		throw new Error(`Invalid size budget "${limit}"; use a number of bytes or a size such as "10 kB"`);
+	}
+	return Math.round(Number(match[1]) * unit);
+}
+
+/**
+ * Formats a size in bytes for the size table.
+ *
+ * @internal
+ */
+export function formatSize(bytes: number): string {
+	if (Math.abs(bytes) < 1000) {
+		return `${bytes} B`;
+	}
+	if (Math.abs(bytes) < 1000 ** 2) {
+		return `${(bytes / 1000).toFixed(2)} kB`;
+	}
+	return `${(bytes / 1000 ** 2).toFixed(2)} MB`;
+}
+
+/**
+ * Looks up the budget of an entry or declaration file.
+ *
+ * @internal
+ */
+export function getLimit(budget: SizeBudgets["entry"], name: string): number | undefined {
+	if (budget === undefined) {
+		return undefined;
+	}
+	if (typeof budget === "object") {
+		return budget[name] === undefined ? undefined : parseSize(budget[name]);
+	}
+	return parseSize(budget);
+}
+
+/**
+ * Estimates the size of the gzipped npm tarball of a set of files.
+ *
+ * @remarks
+ * Packs the files like `npm pack` does and measures the result.
+ *
+ * @param files - File contents keyed by path in the package
+ *
+ * @internal
+ */
+export function estimateTarballSize(files: Map<string, Buffer>): number {
+	return createTarball(files).length;
+}
+
+/**
+ * Finds the rows that exceed their budget.
+ *
+ * @internal
+ */
+export function findExceededBudgets(rows: SizeRow[]): SizeRow[] {
+	return rows.filter((row) => row.limit !== undefined && row.size > row.limit);
+}
+
+/**
+ * Formats the size table of a target.
+ *
+ * @internal
+ */
+export function formatSizeTable(rows: SizeRow[]): string {
+	const hasSnapshot = rows.some((row) => row.previous !== undefined);
+	const table = rows.map((row) => {
+		const cells = [row.label, formatSize(row.size), row.limit === undefined ? "-" : formatSize(row.limit)];
+		if (hasSnapshot) {
+			const change = row.previous === undefined ? undefined : row.size - row.previous;
+			cells.push(change === undefined ? "new" : change === 0 ? "-" : `${change > 0 ? "+" : ""}${formatSize(change)}`);
+		}
+		return cells;
+	});
+	const header = hasSnapshot ? ["File", "Size", "Budget", "Change"] : ["File", "Size", "Budget"];
+	const widths = header.map((title, column) => Math.max(title.length, ...table.map((cells) => cells[column].length)));
+	const format = (cells: string[]): string =>
+		`  ${cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ")}`;
+
+	return [
+		color.dim(format(header)),
+		...table.map((cells, index) => {
+			const line = format(cells);
+			return findExceededBudgets([rows[index]]).length > 0 ? color.red(line) : line;
+		}),
+	].join("\n");
+}
+
+/**
+ * Adds the snapshot sizes to the rows of a target.
+ *
+ * @internal
+ */
+export function compareWithSnapshot(rows: SizeRow[], previous: Record<string, number> = {}): SizeRow[] {
+	return rows.map((row) => (previous[row.label] === undefined ? row : { ...row, previous: previous[row.label] }));
+}
+
+// Targets build side by side and share the snapshot file
+let snapshotUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Reads a size snapshot, returning an empty snapshot when the file does not exist.
+ *
+ * @internal
+ */
+export async function readSnapshot(path: string): Promise<SizeSnapshot> {
+	const content = await readFile(path, "utf-8").catch(() => undefined);
+	return content ? (JSON.parse(content) as SizeSnapshot) : {};
+}
+
+/**
+ * Minimal shape of the rspack entrypoints measured by the plugin.
+ *
+ * @internal
+ */
+export interface SizeEntrypoint {
+	getFiles(): readonly string[];
+	getEntrypointChunk(): { files: Iterable<string> };
+}
+
+/**
+ * Measures the JavaScript of each entry, including the shared chunks it loads.
+ *
+ * @param entrypoints - Entrypoints of the compilation by name
+ * @param assets - Assets of the compilation
+ * @param budget - Entry budgets
+ * @returns One row per entry, labelled with its own output file
+ *
+ * @internal
+ */
+export function measureEntries(
+	entrypoints: Iterable<[string, SizeEntrypoint]>,
+	assets: Record<string, { size(): number } | undefined>,
+	budget?: SizeBudgets["entry"],
+): SizeRow[] {
+	return Array.from(entrypoints, ([name, entrypoint]) => {
+		const files = entrypoint.getFiles().filter((file) => /\.[cm]?js$/.test(file));
+		const [label = name] = Array.from(entrypoint.getEntrypointChunk().files).filter((file) => /\.[cm]?js$/.test(file));
+		return {
+			label,
+			size: files.reduce((total, file) => total + (assets[file]?.size() ?? 0), 0),
+			limit: getLimit(budget, name),
+		};
+	});
+}
+
+/**
+ * Reads the contents of the files in the `files` array.
+ *
+ * @remarks
+ * Files come from the compilation assets, or from the output directory for
+ * files written by another lib. Entries negated with `!` are left out.
+ *
+ * @param assets - Assets of the compilation
+ * @param filesArray - The shared `files` entries
+ * @param outputPath - Output directory of the package
+ * @returns The contents of the files found, by path
+ *
+ * @internal
+ */
+export async function readPackageFiles(
+	assets: Record<string, { source(): string | Buffer } | undefined>,
+	filesArray: Iterable<string>,
+	outputPath: string,
+): Promise<Map<string, Buffer>> {
+	const files = [...filesArray];
+	const excluded = new Set(files.filter((file) => file.startsWith("!")).map((file) => file.slice(1)));
+	const contents = new Map<string, Buffer>();
+	for (const file of files) {
+		if (file.startsWith("!") || excluded.has(file)) {
+			continue;
+		}
+		const asset = assets[file];
+		const content = asset ? Buffer.from(asset.source()) : await readFile(join(outputPath, file)).catch(() => undefined);
+		if (content) {
+			contents.set(file, content);
+		}
+	}
+	return contents;
+}
+
+/**
+ * Builds the size rows of a package.
+ *
+ * @param entryRows - Rows of the entries, see {@link measureEntries}
+ * @param contents - Contents of the published files, see {@link readPackageFiles}
+ * @param budgets - Size budgets
+ * @returns The entry, declaration, total and tarball rows
+ *
+ * @internal
+ */
+export function createSizeRows(entryRows: SizeRow[], contents: Map<string, Buffer>, budgets: SizeBudgets): SizeRow[] {
+	const declarationRows = [...contents]
+		.filter(([file]) => /\.d\.[cm]?ts$/.test(file))
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([file, content]) => ({
+			label: file,
+			size: content.length,
+			limit: getLimit(budgets.declaration, file),
+		}));
+	const totalSize = [...contents.values()].reduce((total, content) => total + content.length, 0);
+
+	return [
+		...[...entryRows].sort((a, b) => a.label.localeCompare(b.label)),
+		...declarationRows,
+		{
+			label: "files",
+			size: totalSize,
+			limit: budgets.files === undefined ? undefined : parseSize(budgets.files),
+		},
+		{
+			label: "tarball (gzip)",
+			size: estimateTarballSize(contents),
+			limit: budgets.tarball === undefined ? undefined : parseSize(budgets.tarball),
+		},
+	];
+}
+
+/**
+ * Compares the rows of a target with the size snapshot and records them.
+ *
+ * @remarks
+ * The target's sizes are written when the snapshot has none yet, or with
+ * `update`. Targets are sorted by name in the file.
+ *
+ * @param rows - Size rows of the target
+ * @param snapshotPath - Absolute path of the snapshot file
+ * @param target - Build target, the key of the rows in the snapshot
+ * @param update - Whether to replace the sizes already in the snapshot
+ * @returns The rows with their snapshot sizes, and whether the file was written
+ *
+ * @internal
+ */
+export async function updateSnapshot(
+	rows: SizeRow[],
+	snapshotPath: string,
+	target: string,
+	update: boolean = false,
+): Promise<{ rows: SizeRow[]; written: boolean }> {
+	const snapshot = await readSnapshot(snapshotPath);
+	const compared = compareWithSnapshot(rows, snapshot[target]);
+	if (snapshot[target] && !update) {
+		return { rows: compared, written: false };
+	}
+	snapshot[target] = Object.fromEntries(compared.map((row) => [row.label, row.size]));
+	await mkdir(dirname(snapshotPath), { recursive: true });
+	const sorted = Object.fromEntries(Object.entries(snapshot).sort(([a], [b]) => a.localeCompare(b)));
+	await writeFile(snapshotPath, `${JSON.stringify(sorted, null, "\t")}\n`);
+	return { rows: compared, written: true };
+}
+
+/**
+ * Fails when a size exceeds its budget.
+ *
+ * @throws Error listing the exceeded budgets
+ *
+ * @internal
+ */
+export function assertSizeBudgets(rows: SizeRow[]): void {
+	const exceeded = findExceededBudgets(rows);
+	if (exceeded.length > 0) {
+		throw new Error(
+			`Size budget exceeded:\n${exceeded.map((row) => `  ${row.label}: ${formatSize(row.size)} > ${formatSize(row.limit ?? 0)}`).join("\n")}`,
+		);
+	}
+}
+
+/**
+ * Plugin to report package sizes and enforce size budgets.
+ *
+ * @remarks
+ * Runs in the `report` stage, once the emitted files are final, in the lib
+ * that emits package.json. Measures:
+ *
+ * - Each entry's JavaScript, including the shared chunks it loads
+ * - Each declaration file in the `files` array
+ * - The total size of the `files` array
+ * - The gzipped npm tarball, estimated from the files
+ *
+ * Sizes are read from the compilation assets, or from the output directory
+ * for files written by another lib, such as the CommonJS half of a dual
+ * format build. The size table is logged for every build, and the build fails
+ * when a size exceeds its budget.
+ *
+ * ## Plugin Interoperability
+ *
+ * - Add the same instance to every lib writing to the output directory, so
+ *   each lib's entries are measured
+ * - Reads the shared `files-array` from {@link FilesArrayPlugin}
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { SizeBudgetPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [SizeBudgetPlugin({ target: 'npm', tarball: '50 kB' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const SizeBudgetPlugin = (options: SizeBudgetPluginOptions): RsbuildPlugin => {
+	// Entry rows of every lib, cleared once the table is logged
+	const entryRows: SizeRow[] = [];
+
+	return {
+		name: "size-budget-plugin",
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "report",
+				},
+				async (context) => {
+					const { compilation } = context;
+					entryRows.push(...measureEntries(compilation.entrypoints, compilation.assets, options.entry));
+					if (!compilation.assets["package.json"]) {
+						return;
+					}
+
+					const contents = await readPackageFiles(
+						compilation.assets,
+						api.useExposed<Set<string>>("files-array") ?? new Set<string>(),
+						compilation.outputOptions.path ?? api.context.distPath,
+					);
+					let rows = createSizeRows(entryRows, contents, options);
+					entryRows.length = 0;
+
+					const log = createEnvLogger(compilation.name || "unknown");
+					if (options.snapshot) {
+						const { snapshot } = options;
+						const snapshotPath = isAbsolute(snapshot) ? snapshot : join(api.context.rootPath, snapshot);
+						const update = snapshotUpdate.then(async () => {
+							const result = await updateSnapshot(rows, snapshotPath, options.target, options.updateSnapshot);
+							rows = result.rows;
+							if (result.written) {
+								log.fileOp("wrote size snapshot", [snapshot]);
+							}
+						});
+						snapshotUpdate = update.catch(() => undefined);
+						await update;
+					}
+
+					log.info(`${color.dim("[size]")} Package size:\n${formatSizeTable(rows)}`);
+
+					const grown = rows.filter((row) => row.previous !== undefined && row.size > row.previous);
+					if (grown.length > 0 && !options.updateSnapshot) {
+						log.warn(
+							`${color.dim("[size]")} ${grown.map((row) => row.label).join(", ")} grew since the size snapshot; set updateSnapshot to accept the new sizes`,
+						);
+					}
+
+					assertSizeBudgets(rows);
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
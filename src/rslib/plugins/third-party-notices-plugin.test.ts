@@ -0,0 +1,243 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { BundledModule } from "./auto-externals-plugin.js";
+import type { BundledPackage } from "./third-party-notices-plugin.js";
+import {
+	collectPackageRoots,
+	createThirdPartyNotices,
+	findLicenseViolations,
+	getLicenseExpression,
+	getPackageRoot,
+	readBundledPackage,
+	readBundledPackages,
+	satisfiesLicense,
+} from "./third-party-notices-plugin.js";
+
+// Track created test directories for cleanup
+const testDirs: string[] = [];
+
+async function createTestDir(files: Record<string, string> = {}): Promise<string> {
+	const dir = join(tmpdir(), `third-party-notices-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+	testDirs.push(dir);
+	await mkdir(dir, { recursive: true });
+	for (const [file, content] of Object.entries(files)) {
+		await writeFile(join(dir, file), content);
+	}
+	return dir;
+}
+
+const mit: BundledPackage = { name: "mit-lib", version: "1.0.0", license: "MIT" };
+const gpl: BundledPackage = { name: "gpl-lib", version: "2.0.0", license: "GPL-3.0-only" };
+const unlicensed: BundledPackage = { name: "mystery", version: "0.1.0" };
+
+describe("third-party-notices-plugin", () => {
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	describe("getPackageRoot", () => {
+		it("should return the package directory in the innermost node_modules", () => {
+			expect(getPackageRoot("/repo/node_modules/.pnpm/a@1.0.0/node_modules/a/dist/index.js")).toBe(
+				"/repo/node_modules/.pnpm/a@1.0.0/node_modules/a",
+			);
+			expect(getPackageRoot("C:\\repo\\node_modules\\@scope\\pkg\\lib\\index.js")).toBe(
+				"C:/repo/node_modules/@scope/pkg",
+			);
+		});
+
+		it("should return undefined for files outside node_modules", () => {
+			expect(getPackageRoot("/repo/src/index.ts")).toBeUndefined();
+		});
+	});
+
+	describe("getLicenseExpression", () => {
+		it("should read the license field", () => {
+			expect(getLicenseExpression({ license: "MIT" })).toBe("MIT");
+		});
+
+		it("should read deprecated license objects and arrays", () => {
+			expect(getLicenseExpression({ license: { type: "ISC" } } as never)).toBe("ISC");
+			expect(getLicenseExpression({ licenses: [{ type: "MIT" }] })).toBe("MIT");
+			expect(getLicenseExpression({ licenses: [{ type: "MIT" }, { type: "Apache-2.0" }] })).toBe("(MIT OR Apache-2.0)");
+		});
+
+		it("should return undefined without a license", () => {
+			expect(getLicenseExpression({})).toBeUndefined();
+			expect(getLicenseExpression({ licenses: [{ url: "https://example.com" }] })).toBeUndefined();
+		});
+	});
+
+	describe("readBundledPackage", () => {
+		it("should read the manifest and license file of a package", async () => {
+			const dir = await createTestDir({
+				"package.json": JSON.stringify({
+					name: "lib",
+					version: "1.2.3",
+					license: "MIT",
+					repository: { type: "git", url: "git+https://github.com/org/lib.git" },
+				}),
+				"LICENSE.md": "MIT License\n\nCopyright (c) Org\n",
+			});
+
+			expect(await readBundledPackage(dir)).toEqual({
+				name: "lib",
+				version: "1.2.3",
+				license: "MIT",
+				repository: "git+https://github.com/org/lib.git",
+				licenseText: "MIT License\n\nCopyright (c) Org",
+			});
+		});
+
+		it("should leave the license text unset without a license file", async () => {
+			const dir = await createTestDir({
+				"package.json": JSON.stringify({ name: "lib", version: "1.0.0", repository: "org/lib" }),
+				"README.md": "# lib",
+			});
+
+			const pkg = await readBundledPackage(dir);
+
+			expect(pkg.repository).toBe("org/lib");
+			expect(pkg.license).toBeUndefined();
+			expect(pkg.licenseText).toBeUndefined();
+		});
+	});
+
+	describe("collectPackageRoots", () => {
+		it("should collect the roots of modules bundled from node_modules", () => {
+			const modules: BundledModule[] = [
+				{ nameForCondition: () => "/repo/src/index.ts" },
+				{ nameForCondition: () => "/repo/node_modules/a/index.js" },
+				{ nameForCondition: () => "/repo/node_modules/@scope/b/lib/b.js" },
+			];
+
+			expect(collectPackageRoots(modules, new Set(["/repo/node_modules/c"]))).toEqual(
+				new Set(["/repo/node_modules/c", "/repo/node_modules/a", "/repo/node_modules/@scope/b"]),
+			);
+		});
+	});
+
+	describe("readBundledPackages", () => {
+		it("should list each package version once, sorted", async () => {
+			const b = await createTestDir({
+				"package.json": JSON.stringify({ name: "b", version: "1.0.0", license: "MIT" }),
+			});
+			const a = await createTestDir({
+				"package.json": JSON.stringify({ name: "a", version: "1.0.0", license: "MIT" }),
+			});
+			const copy = await createTestDir({
+				"package.json": JSON.stringify({ name: "a", version: "1.0.0", license: "MIT" }),
+			});
+
+			const packages = await readBundledPackages([b, a, copy]);
+
+			expect(packages.map((pkg) => pkg.name)).toEqual(["a", "b"]);
+		});
+
+		it("should fail on licenses that are not allowed", async () => {
+			const dir = await createTestDir({
+				"package.json": JSON.stringify({ name: "gpl-lib", version: "2.0.0", license: "GPL-3.0-only" }),
+			});
+
+			await expect(readBundledPackages([dir], { deny: ["GPL-3.0-only"] })).rejects.toThrow(
+				"gpl-lib@2.0.0 (GPL-3.0-only)",
+			);
+		});
+	});
+
+	describe("satisfiesLicense", () => {
+		const accepts = (id: string): boolean => ["MIT", "Apache-2.0"].includes(id);
+
+		it("should check single identifiers", () => {
+			expect(satisfiesLicense("MIT", accepts)).toBe(true);
+			expect(satisfiesLicense("GPL-3.0-only", accepts)).toBe(false);
+		});
+
+		it("should accept OR expressions with one accepted side", () => {
+			expect(satisfiesLicense("(MIT OR GPL-3.0-only)", accepts)).toBe(true);
+			expect(satisfiesLicense("GPL-2.0-only or GPL-3.0-only", accepts)).toBe(false);
+		});
+
+		it("should require both sides of AND expressions", () => {
+			expect(satisfiesLicense("MIT AND Apache-2.0", accepts)).toBe(true);
+			expect(satisfiesLicense("(MIT AND CC-BY-4.0)", accepts)).toBe(false);
+			expect(satisfiesLicense("CC-BY-4.0 AND MIT OR Apache-2.0", accepts)).toBe(true);
+		});
+
+		it("should ignore + suffixes and WITH exceptions", () => {
+			expect(satisfiesLicense("Apache-2.0 WITH LLVM-exception", accepts)).toBe(true);
+			expect(satisfiesLicense("MIT+", accepts)).toBe(true);
+		});
+
+		it("should treat malformed expressions as a single license", () => {
+			expect(satisfiesLicense("(MIT", accepts)).toBe(false);
+			expect(satisfiesLicense("SEE LICENSE IN LICENSE.txt", accepts)).toBe(false);
+			expect(satisfiesLicense("SEE LICENSE IN LICENSE.txt", () => true)).toBe(true);
+		});
+	});
+
+	describe("findLicenseViolations", () => {
+		it("should accept every license without lists", () => {
+			expect(findLicenseViolations([mit, gpl, unlicensed], {})).toEqual([]);
+		});
+
+		it("should reject licenses outside the allow list, case-insensitively", () => {
+			expect(findLicenseViolations([mit, gpl, unlicensed], { allow: ["mit"] })).toEqual([gpl, unlicensed]);
+		});
+
+		it("should reject denied licenses", () => {
+			expect(findLicenseViolations([mit, gpl, unlicensed], { deny: ["GPL-3.0-only"] })).toEqual([gpl]);
+		});
+
+		it("should accept a dual license when one side is not denied", () => {
+			const dual: BundledPackage = { name: "dual", version: "1.0.0", license: "(MIT OR GPL-3.0-only)" };
+
+			expect(findLicenseViolations([dual], { deny: ["GPL-3.0-only"] })).toEqual([]);
+		});
+	});
+
+	describe("createThirdPartyNotices", () => {
+		it("should write a markdown section per package", () => {
+			const notices = createThirdPartyNotices(
+				[{ ...mit, repository: "org/mit-lib", licenseText: "MIT License" }, unlicensed],
+				"markdown",
+			);
+
+			expect(notices).toBe(
+				[
+					"# Third-Party Notices",
+					"",
+					"This package bundles the following third-party packages.",
+					"",
+					"## mit-lib@1.0.0",
+					"",
+					"License: MIT",
+					"Repository: org/mit-lib",
+					"",
+					"```text",
+					"MIT License",
+					"```",
+					"",
+					"## mystery@0.1.0",
+					"",
+					"License: UNKNOWN",
+					"",
+					"No license file was found in this package.",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should lengthen the fence around license texts containing backticks", () => {
+			const notices = createThirdPartyNotices([{ ...mit, licenseText: "See ```code```" }], "markdown");
+
+			expect(notices).toContain("````text\nSee ```code```\n````");
+		});
+
+		it("should write a JSON array", () => {
+			expect(JSON.parse(createThirdPartyNotices([mit, gpl], "json"))).toEqual([mit, gpl]);
+		});
+	});
+});
@@ -0,0 +1,405 @@
+import { readFile, readdir } from "node:fs/promises";
+import { basename, join } from "node:path";
+import type { RsbuildPlugin, RsbuildPluginAPI } from "@rsbuild/core";
+import color from "picocolors";
+import type { PackageJson } from "../../types/package-json.js";
+import type { BundledModule } from "./auto-externals-plugin.js";
+import { collectResources, getPackageName } from "./auto-externals-plugin.js";
+import { createEnvLogger } from "./utils/build-logger.js";
+
+/**
+ * Format of the third-party notices file.
+ *
+ * @remarks
+ * - `"markdown"`: `THIRD_PARTY_NOTICES.md`, one section per package
+ * - `"json"`: `THIRD_PARTY_NOTICES.json`, an array of package entries
+ *
+ * @public
+ */
+export type ThirdPartyNoticesFormat = "markdown" | "json";
+
+/**
+ * Options for the ThirdPartyNoticesPlugin.
+ *
+ * @example
+ * ```typescript
+ * import { ThirdPartyNoticesPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [ThirdPartyNoticesPlugin({ deny: ['GPL-3.0-only', 'AGPL-3.0-only'] })],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface ThirdPartyNoticesPluginOptions {
+	/**
+	 * Format of the emitted notices file.
+	 *
+	 * @defaultValue "markdown"
+	 */
+	format?: ThirdPartyNoticesFormat;
+
+	/**
+	 * SPDX license identifiers bundled packages may use.
+	 *
+	 * @remarks
+	 * When set, the build fails for any bundled package whose license
+	 * expression cannot be satisfied with these licenses, including packages
+	 * without a `license` field. Identifiers are compared case-insensitively.
+	 */
+	allow?: string[];
+
+	/**
+	 * SPDX license identifiers bundled packages must not use.
+	 *
+	 * @remarks
+	 * The build fails for any bundled package whose license expression cannot
+	 * be satisfied without these licenses. For `(MIT OR GPL-3.0-only)`,
+	 * denying `GPL-3.0-only` still leaves `MIT`.
+	 */
+	deny?: string[];
+}
+
+/**
+ * License information of a bundled package.
+ *
+ * @internal
+ */
+export interface BundledPackage {
+	name: string;
+	version: string;
+	/** SPDX license expression, undefined when the package declares none */
+	license?: string;
+	repository?: string;
+	/** Content of the package's LICENSE file */
+	licenseText?: string;
+}
+
+/**
+ * File names of the emitted notices, by format.
+ *
+ * @internal
+ */
+export const THIRD_PARTY_NOTICES_FILES: Record<ThirdPartyNoticesFormat, string> = {
+	markdown: "THIRD_PARTY_NOTICES.md",
+	json: "THIRD_PARTY_NOTICES.json",
+};
+
+const LICENSE_FILE_PATTERN = /^(?:licen[cs]e|copying)(?:[.-].*)?$/i;
+
+/**
+ * Finds the root directory of the package a module file belongs to.
+ *
+ * @param resource - Absolute path of the module file
+ * @returns The package directory inside the innermost `node_modules`, or
+ * undefined for files outside `node_modules`
+ *
+ * @internal
+ */
+export function getPackageRoot(resource: string): string | undefined {
+	const name = getPackageName(resource);
+	if (!name) {
+		return undefined;
+	}
+	const normalized = resource.replace(/\\/g, "/");
+	return `${normalized.slice(0, normalized.lastIndexOf("/node_modules/"))}/node_modules/${name}`;
+}
+
+/**
+ * Reads the license expression of a package.json.
+ *
+ * @remarks
+ * Supports the deprecated `license: { type }` object and `licenses` array,
+ * which become an `OR` expression.
+ *
+ * @internal
+ */
+export function getLicenseExpression(packageJson: PackageJson): string | undefined {
+	const license = packageJson.license as string | { type?: string } | undefined;
+	if (typeof license === "string") {
+		return license;
+	}
+	if (license?.type) {
+		return license.type;
+	}
+	const types = (packageJson.licenses ?? []).flatMap(({ type }) => (type ? [type] : []));
+	if (types.length === 0) {
+		return undefined;
+	}
+	return types.length === 1 ? types[0] : `(${types.join(" OR ")})`;
+}
+
+/**
+ * Reads the license information of a package from its directory.
+ *
+ * @internal
+ */
+export async function readBundledPackage(root: string): Promise<BundledPackage> {
+	const packageJson = JSON.parse(await readFile(join(root, "package.json"), "utf-8")) as PackageJson;
+	const { repository } = packageJson;
+
+	const licenseFile = (await readdir(root).catch(() => [])).filter((file) => LICENSE_FILE_PATTERN.test(file)).sort()[0];
+	const licenseText = licenseFile ? (await readFile(join(root, licenseFile), "utf-8")).trim() : undefined;
+
+	return {
+		name: packageJson.name ?? basename(root),
+		version: packageJson.version ?? "0.0.0",
+		license: getLicenseExpression(packageJson),
+		repository: typeof repository === "string" ? repository : repository?.url,
+		licenseText,
+	};
+}
+
+/**
+ * Checks whether an SPDX license expression can be satisfied by the accepted licenses.
+ *
+ * @remarks
+ * `OR` needs one accepted side and `AND` needs both; `AND` binds tighter. A
+ * trailing `+` and `WITH` exceptions are ignored. Expressions that do not
+ * parse are treated as a single unknown license.
+ *
+ * @param expression - The SPDX license expression
+ * @param accepts - Whether a single license identifier is accepted
+ *
+ * @internal
+ */
+export function satisfiesLicense(expression: string, accepts: (id: string) => boolean): boolean {
+	const tokens = expression.match(/[()]|[^\s()]+/g) ?? [];
+	let position = 0;
+
+	const parseOr = (): boolean => {
+		let result = parseAnd();
+		while (tokens[position]?.toUpperCase() === "OR") {
+			position++;
+			// Parse both sides so the position advances past the whole expression
+			const right = parseAnd();
+			result = result || right;
+		}
+		return result;
+	};
+	const parseAnd = (): boolean => {
+		let result = parseAtom();
+		while (tokens[position]?.toUpperCase() === "AND") {
+			position++;
+			const right = parseAtom();
+			result = result && right;
+		}
+		return result;
+	};
+	const parseAtom = (): boolean => {
+		const token = tokens[position++];
+		if (token === "(") {
+			const result = parseOr();
+			if (tokens[position++] !== ")") {
+				throw new Error("Unbalanced parentheses");
+			}
+			return result;
+		}
+		if (token === undefined || token === ")") {
+			throw new Error("Missing license identifier");
+		}
+		if (tokens[position]?.toUpperCase() === "WITH") {
+			position += 2;
+		}
+		return accepts(token.replace(/\+$/, ""));
+	};
+
+	try {
+		const result = parseOr();
+		if (position === tokens.length) {
+			return result;
+		}
+	} catch {
+		// Fall through to the unknown license check
+	}
+	return accepts(expression);
+}
+
+/**
+ * Finds bundled packages whose license is not accepted by the allow and deny lists.
+ *
+ * @internal
+ */
+export function findLicenseViolations(
+	packages: BundledPackage[],
+	{ allow, deny = [] }: Pick<ThirdPartyNoticesPluginOptions, "allow" | "deny">,
+): BundledPackage[] {
+	const allowed = allow && new Set(allow.map((id) => id.toLowerCase()));
+	const denied = new Set(deny.map((id) => id.toLowerCase()));
+	const accepts = (id: string): boolean => {
+		const key = id.toLowerCase();
+		return !denied.has(key) && (!allowed || allowed.has(key));
+	};
+
+	return packages.filter((pkg) =>
+		pkg.license === undefined ? allowed !== undefined : !satisfiesLicense(pkg.license, accepts),
+	);
+}
+
+/**
+ * Generates the content of the third-party notices file.
+ *
+ * @param packages - Bundled packages, sorted by name and version
+ * @param format - Output format
+ *
+ * @internal
+ */
+export function createThirdPartyNotices(packages: BundledPackage[], format: ThirdPartyNoticesFormat): string {
+	if (format === "json") {
+		return `${JSON.stringify(packages, null, "\t")}\n`;
+	}
+
+	const sections = packages.map((pkg) => {
+		const lines = [`## ${pkg.name}@${pkg.version}`, "", `License: ${pkg.license ?? "UNKNOWN"}`];
+		if (pkg.repository) {
+			lines.push(`Repository: ${pkg.repository}`);
+		}
+		lines.push("");
+		if (pkg.licenseText) {
+			const fence = "`".repeat(
+				Math.max(3, ...Array.from(pkg.licenseText.matchAll(/`+/g), ([ticks]) => ticks.length + 1)),
+			);
+			lines.push(`${fence}text`, pkg.licenseText, fence);
+		} else {
+			lines.push("No license file was found in this package.");
+		}
+		return lines.join("\n");
+	});
+
+	return [
+		"# Third-Party Notices",
+		"",
+		"This package bundles the following third-party packages.",
+		"",
+		sections.join("\n\n"),
+		"",
+	].join("\n");
+}
+
+/**
+ * Adds the package roots of the modules bundled from `node_modules`.
+ *
+ * @param modules - Modules of the compilation
+ * @param roots - Package roots collected so far
+ * @returns The updated package roots
+ *
+ * @internal
+ */
+export function collectPackageRoots(modules: Iterable<BundledModule>, roots: Set<string>): Set<string> {
+	for (const resource of collectResources(modules, new Set<string>())) {
+		const root = getPackageRoot(resource);
+		if (root) {
+			roots.add(root);
+		}
+	}
+	return roots;
+}
+
+/**
+ * Reads the bundled packages and checks their licenses.
+ *
+ * @remarks
+ * Packages installed at several roots with the same name and version are
+ * listed once. The result is sorted by name and version.
+ *
+ * @param roots - Package roots of the bundled modules
+ * @param options - Plugin configuration options
+ * @returns The bundled packages
+ * @throws Error listing the packages whose license is not allowed
+ *
+ * @internal
+ */
+export async function readBundledPackages(
+	roots: Iterable<string>,
+	options: ThirdPartyNoticesPluginOptions = {},
+): Promise<BundledPackage[]> {
+	const packages = new Map<string, BundledPackage>();
+	for (const root of roots) {
+		const pkg = await readBundledPackage(root);
+		packages.set(`${pkg.name}@${pkg.version}`, pkg);
+	}
+	const sorted = Array.from(packages.values()).sort(
+		(a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version),
+	);
+
+	const violations = findLicenseViolations(sorted, options);
+	if (violations.length > 0) {
+		throw new Error(
+			`Bundled packages have incompatible licenses:\n${violations.map((pkg) => `  ${pkg.name}@${pkg.version} (${pkg.license ?? "no license"})`).join("\n")}`,
+		);
+	}
+	return sorted;
+}
+
+/**
+ * Plugin to emit license notices for the third-party packages in the bundle.
+ *
+ * @remarks
+ * Bundled `devDependencies` are redistributed with the package, so their
+ * license texts have to ship with it. This plugin lists every module in the
+ * bundle, maps files under `node_modules` to their package, and reads each
+ * package's `license` field and LICENSE file. The notices are emitted as
+ * `THIRD_PARTY_NOTICES.md` or `THIRD_PARTY_NOTICES.json` and added to the
+ * shared files array. No file is emitted when nothing was bundled.
+ *
+ * With `allow` or `deny`, the build fails when a bundled package's license
+ * expression cannot be satisfied by the accepted licenses.
+ *
+ * ## Plugin Interoperability
+ *
+ * - Add the same instance to every lib writing to the output directory; each
+ *   lib's bundled packages are collected, and the lib that emits package.json
+ *   writes the notices
+ *
+ * @param options - Plugin configuration options
+ *
+ * @example
+ * ```typescript
+ * import { ThirdPartyNoticesPlugin } from '@savvy-web/rslib-builder';
+ *
+ * export default {
+ *   plugins: [ThirdPartyNoticesPlugin({ format: 'json' })],
+ * };
+ * ```
+ *
+ * @public
+ */
+/* v8 ignore start -- Integration plugin factory called by Rsbuild */
+export const ThirdPartyNoticesPlugin = (options: ThirdPartyNoticesPluginOptions = {}): RsbuildPlugin => {
+	const { format = "markdown" } = options;
+	// Shared by the libs of one build, cleared once the notices are emitted
+	const roots = new Set<string>();
+
+	return {
+		name: "third-party-notices-plugin",
+		setup(api: RsbuildPluginAPI): void {
+			api.processAssets(
+				{
+					stage: "optimize",
+				},
+				async (context) => {
+					const { compilation } = context;
+					collectPackageRoots(compilation.modules as unknown as Iterable<BundledModule>, roots);
+
+					// Only the lib that emits package.json writes the notices
+					if (!compilation.assets["package.json"] || roots.size === 0) {
+						return;
+					}
+
+					const packages = await readBundledPackages(roots, options);
+					roots.clear();
+
+					const fileName = THIRD_PARTY_NOTICES_FILES[format];
+					compilation.emitAsset(fileName, new context.sources.RawSource(createThirdPartyNotices(packages, format)));
+					api.useExposed<Set<string>>("files-array")?.add(fileName);
+
+					createEnvLogger(compilation.name || "unknown").info(
+						`${color.dim("[third-party-notices]")} wrote ${fileName} for ${packages.length} bundled package${packages.length === 1 ? "" : "s"}`,
+					);
+				},
+			);
+		},
+	};
+};
+/* v8 ignore stop */
@@ -91,5 +91,13 @@ describe("bin-transform-utils", () => {
 			const result = transformPackageBin("./bin/cli.ts");
 			expect(result).toBe("./bin/cli.js");
 		});
+
+		it("should keep the mirrored source path in bundleless builds", () => {
+			expect(transformPackageBin("./src/cli.ts", true, false)).toBe("./cli.js");
+			expect(transformPackageBin({ "my-cli": "./src/bin/cli.ts", "my-sh": "./scripts/cli.sh" }, true, false)).toEqual({
+				"my-cli": "./bin/cli.js",
+				"my-sh": "./scripts/cli.sh",
+			});
+		});
 	});
 });
@@ -1,7 +1,14 @@
-import { describe, expect, it } from "vitest";
+import { globSync } from "glob";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { PackageJson } from "../../../types/package-json.js";
 import { EntryExtractor, extractEntriesFromPackageJson } from "./entry-extractor.js";
 
+vi.mock("glob", () => ({
+	globSync: vi.fn(() => []),
+}));
+
+const mockGlobSync = vi.mocked(globSync) as unknown as ReturnType<typeof vi.fn<(pattern: string) => string[]>>;
+
 describe("extractEntriesFromPackageJson", () => {
 	it("should extract entries from exports field with string export", () => {
 		const packageJson: PackageJson = {
@@ -36,6 +43,26 @@ describe("extractEntriesFromPackageJson", () => {
 		});
 	});
 
+	it("should map export keys to entry names", () => {
+		const packageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+			exports: {
+				".": "./src/index.ts",
+				"./foo/bar": "./src/foo/bar.ts",
+				"./package.json": "./package.json",
+			},
+			bin: "./src/cli.ts",
+		};
+
+		const { exportEntries } = extractEntriesFromPackageJson(packageJson);
+
+		expect(exportEntries).toEqual({
+			".": "index",
+			"./foo/bar": "foo-bar",
+		});
+	});
+
 	it("should extract entries from exports with conditional exports", () => {
 		const packageJson: PackageJson = {
 			name: "test-package",
@@ -484,4 +511,127 @@ describe("EntryExtractor class", () => {
 			});
 		});
 	});
+
+	describe("custom export conditions", () => {
+		it("should add an entry for each condition with its own source", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				exports: {
+					".": {
+						browser: "./src/index.browser.ts",
+						node: { import: "./src/index.node.ts", types: "./src/index.node.d.ts" },
+						development: "./src/index.ts",
+						source: "./src/index.ts",
+						default: "./src/index.ts",
+					},
+					"./utils": { worker: "./src/utils/worker.ts", import: "./src/utils/index.ts" },
+				},
+			};
+
+			const { entries, exportEntries, exportSources } = extractEntriesFromPackageJson(packageJson);
+
+			expect(entries).toEqual({
+				"index.browser": "./src/index.browser.ts",
+				"index.node": "./src/index.node.ts",
+				index: "./src/index.ts",
+				"utils/worker": "./src/utils/worker.ts",
+				utils: "./src/utils/index.ts",
+			});
+			expect(exportEntries).toEqual({ ".": "index", "./utils": "utils" });
+			expect(exportSources).toEqual({ ".": "./src/index.ts", "./utils": "./src/utils/index.ts" });
+		});
+
+		it("should add entries for import, require and default targets other than the main source", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				exports: {
+					".": { import: "./src/index.ts", require: "./src/legacy.ts", default: "./src/index.ts" },
+				},
+			};
+
+			expect(extractEntriesFromPackageJson(packageJson).entries).toEqual({
+				legacy: "./src/legacy.ts",
+				index: "./src/index.ts",
+			});
+		});
+
+		it("should add condition entries when the export has no main source", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				exports: { ".": { node: "./src/node.ts", browser: "./dist/browser.js" } },
+			};
+
+			expect(extractEntriesFromPackageJson(packageJson).entries).toEqual({
+				node: "./src/node.ts",
+				browser: "./src/browser.ts",
+			});
+		});
+	});
+
+	describe("wildcard subpath patterns", () => {
+		beforeEach(() => {
+			mockGlobSync.mockReset();
+			mockGlobSync.mockReturnValue([
+				"src/icons/arrow.ts",
+				"src/icons/outline/star.ts",
+				"src/icons/readme.md",
+				"src/icons.ts",
+			]);
+		});
+
+		const packageJson: PackageJson = {
+			name: "test-package",
+			version: "1.0.0",
+			exports: {
+				".": "./src/index.ts",
+				"./icons/*": "./src/icons/*.ts",
+			},
+		};
+
+		it("should expand patterns into one entry per matching file", () => {
+			const { entries, exportEntries } = new EntryExtractor({ cwd: "/project" }).extract(packageJson);
+
+			expect(entries).toEqual({
+				index: "./src/index.ts",
+				"icons/arrow": "./src/icons/arrow.ts",
+				"icons/outline/star": "./src/icons/outline/star.ts",
+			});
+			expect(exportEntries).toEqual({
+				".": "index",
+				"./icons/arrow": "icons/arrow",
+				"./icons/outline/star": "icons/outline/star",
+			});
+		});
+
+		it("should search below the pattern directory", () => {
+			new EntryExtractor({ cwd: "/project" }).extract(packageJson);
+
+			expect(mockGlobSync).toHaveBeenCalledWith("src/icons/**/*", expect.objectContaining({ cwd: "/project" }));
+		});
+
+		it("should create index entries with exportsAsIndexes", () => {
+			const { entries } = new EntryExtractor({ exportsAsIndexes: true }).extract(packageJson);
+
+			expect(entries["icons/arrow/index"]).toBe("./src/icons/arrow.ts");
+		});
+
+		it("should resolve conditional pattern exports", () => {
+			const { entries } = extractEntriesFromPackageJson({
+				name: "test-package",
+				exports: { "./icons/*": { import: "./src/icons/*.ts" } },
+			});
+
+			expect(Object.keys(entries)).toEqual(["icons/arrow", "icons/outline/star"]);
+		});
+
+		it("should skip patterns with more than one wildcard", () => {
+			const { entries } = extractEntriesFromPackageJson({
+				name: "test-package",
+				exports: { "./icons/*/*": "./src/icons/*/*.ts" },
+			});
+
+			expect(entries).toEqual({});
+			expect(mockGlobSync).not.toHaveBeenCalled();
+		});
+	});
 });
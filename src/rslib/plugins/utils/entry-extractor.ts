@@ -1,4 +1,6 @@
+import { globSync } from "glob";
 import type { PackageJson } from "../../../types/package-json.js";
+import { transformExportPath } from "./package-json-transformer.js";
 
 /**
  * Options for entry extraction.
@@ -10,6 +12,13 @@ export interface EntryExtractorOptions {
 	 * "./foo/bar" becomes "foo/bar/index" instead of "foo-bar".
 	 */
 	exportsAsIndexes?: boolean;
+
+	/**
+	 * Directory that wildcard subpath patterns (`"./icons/*"`) are expanded against.
+	 *
+	 * @defaultValue `process.cwd()`
+	 */
+	cwd?: string;
 }
 
 /**
@@ -21,6 +30,20 @@ export interface ExtractedEntries {
 	 * Entry name to TypeScript source path mapping.
 	 */
 	entries: Record<string, string>;
+
+	/**
+	 * Export key to entry name mapping (e.g., `"./utils"` to `"utils"`).
+	 * Bin entries are not included. Wildcard patterns are listed by their
+	 * expanded keys (e.g., `"./icons/arrow"` to `"icons/arrow"`).
+	 */
+	exportEntries: Record<string, string>;
+
+	/**
+	 * Export key to TypeScript source path mapping, as written in package.json
+	 * (e.g., `"./utils"` to `"./src/utils.ts"`). Wildcard patterns keep their
+	 * `*` form. Bin entries are not included.
+	 */
+	exportSources: Record<string, string>;
 }
 
 /**
@@ -37,11 +60,18 @@ export interface ExtractedEntries {
  * - Maps the root export "." to "index" entry
  * - Replaces path separators with hyphens for nested exports (default)
  * - When `exportsAsIndexes` is true, preserves path structure
+ * - Expands wildcard subpath patterns (`"./icons/*"`) against the filesystem,
+ *   creating one entry per matching file. Their entry names always keep the
+ *   path structure (`icons/arrow`), so outputs line up with the wildcard form
+ *   written to the output package.json
  *
  * **Source Path Resolution:**
  * - Prioritizes TypeScript files (.ts/.tsx) over JavaScript files
  * - Maps /dist/ JavaScript paths back to /src/ TypeScript sources
  * - Supports conditional exports (import, default, types fields)
+ * - Custom conditions (`browser`, `node`, `development`) that point at a
+ *   different TypeScript file add an entry of their own, named after its
+ *   output path (`"./src/index.browser.ts"` becomes `index.browser`)
  *
  * @example
  * ```typescript
@@ -83,22 +113,31 @@ export class EntryExtractor {
 	 */
 	extract(packageJson: PackageJson): ExtractedEntries {
 		const entries: Record<string, string> = {};
+		const exportEntries: Record<string, string> = {};
+		const exportSources: Record<string, string> = {};
 
-		this.extractFromExports(packageJson.exports, entries);
+		this.extractFromExports(packageJson.exports, entries, exportEntries, exportSources);
 		this.extractFromBin(packageJson.bin, entries);
 
-		return { entries };
+		return { entries, exportEntries, exportSources };
 	}
 
 	/**
 	 * Extracts entries from the exports field.
 	 */
-	private extractFromExports(exports: PackageJson["exports"], entries: Record<string, string>): void {
+	private extractFromExports(
+		exports: PackageJson["exports"],
+		entries: Record<string, string>,
+		exportEntries: Record<string, string>,
+		exportSources: Record<string, string>,
+	): void {
 		if (!exports) return;
 
 		if (typeof exports === "string") {
 			if (this.isTypeScriptFile(exports)) {
 				entries.index = exports;
+				exportEntries["."] = "index";
+				exportSources["."] = exports;
 			}
 			return;
 		}
@@ -112,13 +151,87 @@ export class EntryExtractor {
 			}
 
 			const sourcePath = this.resolveSourcePath(value);
-			if (!sourcePath) continue;
+			const resolvedPath = sourcePath ? this.resolveToTypeScript(sourcePath) : undefined;
 
-			const resolvedPath = this.resolveToTypeScript(sourcePath);
-			if (!this.isTypeScriptFile(resolvedPath)) continue;
+			if (!key.includes("*")) {
+				this.extractFromConditions(value, resolvedPath, entries);
+			}
+
+			if (!resolvedPath || !this.isTypeScriptFile(resolvedPath)) continue;
+			exportSources[key] = resolvedPath;
+
+			if (key.includes("*")) {
+				this.extractFromPattern(key, resolvedPath, entries, exportEntries);
+				continue;
+			}
 
 			const entryName = this.createEntryName(key);
 			entries[entryName] = resolvedPath;
+			exportEntries[key] = entryName;
+		}
+	}
+
+	/**
+	 * Expands a wildcard subpath pattern into one entry per matching source file.
+	 */
+	private extractFromPattern(
+		key: string,
+		sourcePattern: string,
+		entries: Record<string, string>,
+		exportEntries: Record<string, string>,
+	): void {
+		// Node only allows a single "*" on each side of a pattern
+		if (key.split("*").length !== 2 || sourcePattern.split("*").length !== 2) return;
+
+		const [prefix, suffix] = sourcePattern.replace(/^\.\//, "").split("*");
+		// "*" matches across directories, so search everything below the pattern's directory
+		const searchDir = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+		const files = globSync(`${searchDir}**/*`, {
+			cwd: this.options.cwd ?? process.cwd(),
+			nodir: true,
+			posix: true,
+			ignore: ["**/node_modules/**", "**/__test__/**", "**/*.test.*", "**/*.spec.*", "**/*.d.ts"],
+		}).sort();
+
+		for (const file of files) {
+			if (file.length <= prefix.length + suffix.length || !file.startsWith(prefix) || !file.endsWith(suffix)) {
+				continue;
+			}
+			const match = file.slice(prefix.length, file.length - suffix.length);
+			const expandedKey = key.replace("*", match);
+			const withoutPrefix = expandedKey.replace(/^\.\//, "");
+			const entryName = this.options.exportsAsIndexes ? `${withoutPrefix}/index` : withoutPrefix;
+			entries[entryName] = `./${file}`;
+			exportEntries[expandedKey] = entryName;
+		}
+	}
+
+	/**
+	 * Adds an entry for each condition that selects a TypeScript source other than the export's main one.
+	 *
+	 * @remarks
+	 * Every condition is published as its own `{ types, default }` output, so
+	 * `import`, `require` and `default` targets that differ from the main
+	 * source need an entry just like custom conditions.
+	 */
+	private extractFromConditions(value: unknown, mainPath: string | undefined, entries: Record<string, string>): void {
+		if (!value || typeof value !== "object" || Array.isArray(value)) return;
+
+		for (const [condition, target] of Object.entries(value)) {
+			// "source" points at shipped sources, not at an entry
+			if (condition === "types" || condition === "source" || condition.startsWith(".")) continue;
+
+			if (typeof target !== "string") {
+				this.extractFromConditions(target, mainPath, entries);
+				continue;
+			}
+
+			const resolvedPath = this.resolveToTypeScript(target);
+			if (resolvedPath === mainPath || !this.isTypeScriptFile(resolvedPath) || resolvedPath.endsWith(".d.ts")) {
+				continue;
+			}
+			const entryName = transformExportPath(resolvedPath, true, true).replace(/^\.\//, "").replace(/\.js$/, "");
+			entries[entryName] ??= resolvedPath;
 		}
 	}
 
@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vitest";
 import type { FlexibleExports } from "./package-json-transformer.js";
-import { isConditionsObject, transformPackageExports } from "./package-json-transformer.js";
+import {
+	applyImportSourceConditions,
+	applySourceConditions,
+	isConditionsObject,
+	transformPackageExports,
+} from "./package-json-transformer.js";
 
 // Helper functions for backwards compatibility with the test structure
 // These are now internal to package-json-transformer.ts but we test through the public API
@@ -124,6 +129,11 @@ describe("export-transform-utils", () => {
 		it("should return false for empty object", () => {
 			expect(isConditionsObject({})).toBe(false);
 		});
+
+		it("should return true for custom conditions", () => {
+			expect(isConditionsObject({ development: "./src/index.ts", node: "./src/index.node.ts" })).toBe(true);
+			expect(isConditionsObject({ browser: "./src/index.browser.ts" })).toBe(true);
+		});
 	});
 
 	describe("transformStringExport", () => {
@@ -190,7 +200,7 @@ describe("export-transform-utils", () => {
 	describe("transformExportEntry", () => {
 		it("should transform condition values when isConditions is true", () => {
 			const result = transformExportEntry("import", "./src/index.ts", true, true);
-			expect(result).toBe("./index.js");
+			expect(result).toEqual({ types: "./index.d.ts", default: "./index.js" });
 		});
 
 		it("should recursively transform when isConditions is false", () => {
@@ -213,7 +223,7 @@ describe("export-transform-utils", () => {
 			};
 			const result = transformExportEntry("import", nestedExport, true, true);
 			expect(result).toEqual({
-				import: "./nested/index.js",
+				import: { types: "./nested/index.d.ts", default: "./nested/index.js" },
 				require: "./nested/index.cjs",
 			});
 		});
@@ -221,7 +231,7 @@ describe("export-transform-utils", () => {
 		it("should handle non-string condition values (arrays) when isConditions is true", () => {
 			const arrayExport = ["./src/modern.ts", "./src/fallback.js"];
 			const result = transformExportEntry("require", arrayExport, true, true);
-			expect(result).toEqual([{ types: "./modern.d.ts", import: "./modern.js" }, "./fallback.js"]);
+			expect(result).toEqual([{ types: "./modern.d.ts", default: "./modern.js" }, "./fallback.js"]);
 		});
 
 		it("should recursively transform non-string condition values for condition keys", () => {
@@ -251,10 +261,10 @@ describe("export-transform-utils", () => {
 			const result = transformExportEntry("default", complexExport, true, true);
 			expect(result).toEqual({
 				node: {
-					import: "./node.js",
+					import: { types: "./node.d.ts", default: "./node.js" },
 					require: "./node.cjs",
 				},
-				browser: { types: "./browser.d.ts", import: "./browser.js" },
+				browser: { types: "./browser.d.ts", default: "./browser.js" },
 			});
 		});
 
@@ -263,7 +273,7 @@ describe("export-transform-utils", () => {
 			const result = transformExportEntry("node", "./src/node.ts", true, true);
 			expect(result).toEqual({
 				types: "./node.d.ts",
-				import: "./node.js",
+				default: "./node.js",
 			});
 		});
 	});
@@ -323,7 +333,7 @@ describe("export-transform-utils", () => {
 				true,
 			);
 			expect(result).toEqual({
-				import: "./index.js",
+				import: { types: "./index.d.ts", default: "./index.js" },
 				require: "./index.cjs",
 			});
 		});
@@ -339,7 +349,7 @@ describe("export-transform-utils", () => {
 				true,
 			);
 			expect(result).toEqual({
-				import: "./index.js",
+				import: { types: "./index.d.ts", default: "./index.js" },
 				require: null,
 				types: undefined,
 				default: "./fallback.js",
@@ -374,14 +384,14 @@ describe("export-transform-utils", () => {
 			expect(result).toEqual({
 				"./feature": {
 					node: {
-						import: [{ types: "./feature/node.d.ts", import: "./feature/node.js" }, "./feature/fallback.js"],
+						import: [{ types: "./feature/node.d.ts", default: "./feature/node.js" }, "./feature/fallback.js"],
 						require: "./feature/node.cjs",
 					},
 					browser: {
-						development: { types: "./feature/browser.dev.d.ts", import: "./feature/browser.dev.js" },
-						production: { types: "./feature/browser.prod.d.ts", import: "./feature/browser.prod.js" },
+						development: { types: "./feature/browser.dev.d.ts", default: "./feature/browser.dev.js" },
+						production: { types: "./feature/browser.prod.d.ts", default: "./feature/browser.prod.js" },
 					},
-					default: "./feature/index.js",
+					default: { types: "./feature/index.d.ts", default: "./feature/index.js" },
 				},
 			});
 		});
@@ -410,7 +420,7 @@ describe("export-transform-utils", () => {
 			const result = transformPackageExports(mixedExports, true);
 			expect(result).toEqual({
 				".": {
-					import: "./index.js",
+					import: { types: "./index.d.ts", default: "./index.js" },
 					require: "./index.cjs",
 				},
 				"./utils": { types: "./utils.d.ts", import: "./utils.js" },
@@ -445,10 +455,10 @@ describe("export-transform-utils", () => {
 			const result = transformPackageExports(exports, true);
 			expect(result).toEqual({
 				"./a": {
-					import: "./a.js",
+					import: { types: "./a.d.ts", default: "./a.js" },
 					require: {
-						node: { types: "./a.node.d.ts", import: "./a.node.js" },
-						default: "./a.default.js",
+						node: { types: "./a.node.d.ts", default: "./a.node.js" },
+						default: { types: "./a.default.d.ts", default: "./a.default.js" },
 					},
 				},
 			});
@@ -470,11 +480,12 @@ describe("export-transform-utils", () => {
 				import: "./esm/index.js",
 				require: "./cjs/index.cjs",
 				types: "./types/index.d.ts",
+				// The declared types cover every condition
 				default: "./fallback.js",
-				node: { types: "./node/index.d.ts", import: "./node/index.js" },
-				browser: { types: "./browser/index.d.ts", import: "./browser/index.js" },
-				development: { types: "./dev/index.d.ts", import: "./dev/index.js" },
-				production: { types: "./prod/index.d.ts", import: "./prod/index.js" },
+				node: "./node/index.js",
+				browser: "./browser/index.js",
+				development: "./dev/index.js",
+				production: "./prod/index.js",
 			});
 		});
 
@@ -633,6 +644,22 @@ describe("export-transform-utils", () => {
 				});
 			});
 
+			it("should keep index declaration path for mapped outputs in bundle mode", () => {
+				const exportToOutputMap = new Map<string, string>([["./utils", "./utils/index.js"]]);
+				const result = transformStringExport(
+					"./src/utils/index.ts",
+					true,
+					"./utils",
+					undefined,
+					exportToOutputMap,
+					true,
+				);
+				expect(result).toEqual({
+					types: "./utils/index.d.ts",
+					import: "./utils/index.js",
+				});
+			});
+
 			it("should throw error when mapped path is undefined", () => {
 				const exportToOutputMap = new Map<string, string>([[".", undefined as unknown as string]]);
 				expect(() => {
@@ -641,6 +668,43 @@ describe("export-transform-utils", () => {
 			});
 		});
 
+		describe("transformPackageExports with wildcard patterns", () => {
+			it("should keep the wildcard form rewritten to the dist layout", () => {
+				const exports: FlexibleExports = { "./icons/*": "./src/icons/*.ts" };
+				const entrypoints = new Map([["icons/arrow.ts", "./src/icons/arrow.ts"]]);
+				const result = transformPackageExports(exports, true, undefined, entrypoints, undefined, true);
+				expect(result).toEqual({
+					"./icons/*": {
+						types: "./icons/*.d.ts",
+						import: "./icons/*.js",
+					},
+				});
+			});
+
+			it("should add CommonJS conditions in dual format builds", () => {
+				const exports: FlexibleExports = { "./icons/*": "./src/icons/*.ts" };
+				const result = transformPackageExports(exports, true, undefined, undefined, undefined, true, true);
+				expect(result).toEqual({
+					"./icons/*": {
+						import: { types: "./icons/*.d.ts", default: "./icons/*.js" },
+						require: { types: "./icons/*.d.cts", default: "./icons/*.cjs" },
+					},
+				});
+			});
+
+			it("should use the mapped index layout with exportsAsIndexes", () => {
+				const exports: FlexibleExports = { "./icons/*": "./src/icons/*.ts" };
+				const exportToOutputMap = new Map([["./icons/*", "./icons/*/index.js"]]);
+				const result = transformPackageExports(exports, true, undefined, undefined, exportToOutputMap, true);
+				expect(result).toEqual({
+					"./icons/*": {
+						types: "./icons/*/index.d.ts",
+						import: "./icons/*/index.js",
+					},
+				});
+			});
+		});
+
 		describe("transformPackageExports with collapseIndex", () => {
 			it("should handle simple string export when collapseIndex is true", () => {
 				const exports: FlexibleExports = "./src/rslib/index.ts";
@@ -739,4 +803,180 @@ describe("export-transform-utils", () => {
 			});
 		});
 	});
+
+	describe("dual format exports", () => {
+		it("should emit nested import and require conditions for TypeScript exports", () => {
+			const result = transformPackageExports("./src/index.ts", true, ".", undefined, undefined, true, true);
+			expect(result).toEqual({
+				import: {
+					types: "./index.d.ts",
+					default: "./index.js",
+				},
+				require: {
+					types: "./index.d.cts",
+					default: "./index.cjs",
+				},
+			});
+		});
+
+		it("should apply dual conditions to every subpath export", () => {
+			const exports: FlexibleExports = {
+				".": "./src/index.ts",
+				"./utils": "./src/utils/index.ts",
+				"./package.json": "./package.json",
+			};
+			const result = transformPackageExports(exports, true, undefined, undefined, undefined, true, true);
+			expect(result).toEqual({
+				".": {
+					import: { types: "./index.d.ts", default: "./index.js" },
+					require: { types: "./index.d.cts", default: "./index.cjs" },
+				},
+				"./utils": {
+					import: { types: "./utils.d.ts", default: "./utils.js" },
+					require: { types: "./utils.d.cts", default: "./utils.cjs" },
+				},
+				"./package.json": "./package.json",
+			});
+		});
+
+		it("should leave non-TypeScript string exports unchanged", () => {
+			const result = transformPackageExports("./src/index.js", true, ".", undefined, undefined, true, true);
+			expect(result).toBe("./index.js");
+		});
+	});
+
+	describe("custom export conditions", () => {
+		it("should give custom conditions their own output paths", () => {
+			const exports: FlexibleExports = {
+				".": {
+					browser: "./src/index.browser.ts",
+					node: { import: "./src/index.node.ts" },
+					default: "./src/index.ts",
+				},
+			};
+			const result = transformPackageExports(exports, true, undefined, new Map([[".", "./index.js"]]));
+			expect(result).toEqual({
+				".": {
+					browser: { types: "./index.browser.d.ts", default: "./index.browser.js" },
+					node: { import: { types: "./index.node.d.ts", default: "./index.node.js" } },
+					default: { types: "./index.d.ts", default: "./index.js" },
+				},
+			});
+		});
+
+		it("should point the main conditions at the mapped output", () => {
+			const result = transformPackageExports(
+				{ "./utils": { browser: "./src/utils/browser.ts", default: "./src/utils/index.ts" } },
+				true,
+				undefined,
+				undefined,
+				new Map([["./utils", "./utils/index.js"]]),
+				true,
+			);
+			expect(result).toEqual({
+				"./utils": {
+					browser: { types: "./utils/browser.d.ts", default: "./utils/browser.js" },
+					default: { types: "./utils/index.d.ts", default: "./utils/index.js" },
+				},
+			});
+		});
+
+		it("should keep source conditions verbatim", () => {
+			const result = transformPackageExports({ ".": { source: "./src/index.ts", default: "./src/index.ts" } }, true);
+			expect(result).toEqual({
+				".": { source: "./src/index.ts", default: { types: "./index.d.ts", default: "./index.js" } },
+			});
+		});
+
+		it("should split custom conditions into import and require in dual builds", () => {
+			const result = transformPackageExports(
+				{ ".": { development: "./src/dev.ts", default: "./src/index.ts" } },
+				true,
+				undefined,
+				undefined,
+				undefined,
+				true,
+				true,
+			);
+			expect(result).toEqual({
+				".": {
+					development: {
+						import: { types: "./dev.d.ts", default: "./dev.js" },
+						require: { types: "./dev.d.cts", default: "./dev.cjs" },
+					},
+					default: {
+						import: { types: "./index.d.ts", default: "./index.js" },
+						require: { types: "./index.d.cts", default: "./index.cjs" },
+					},
+				},
+			});
+		});
+	});
+
+	describe("applySourceConditions", () => {
+		it("should add source conditions after types", () => {
+			const exports: FlexibleExports = {
+				".": { types: "./index.d.ts", import: "./index.js" },
+				"./utils": { import: { types: "./utils.d.ts", default: "./utils.js" } },
+				"./package.json": "./package.json",
+			};
+			const result = applySourceConditions(exports, { ".": "./src/index.ts", "./utils": "./src/utils.ts" });
+			expect(result).toEqual({
+				".": { types: "./index.d.ts", source: "./src/index.ts", import: "./index.js" },
+				"./utils": { source: "./src/utils.ts", import: { types: "./utils.d.ts", default: "./utils.js" } },
+				"./package.json": "./package.json",
+			});
+			expect(Object.keys((result as Record<string, object>)["."])).toEqual(["types", "source", "import"]);
+		});
+
+		it("should remove source conditions without sources", () => {
+			const exports: FlexibleExports = {
+				".": {
+					types: "./index.d.ts",
+					source: "./src/index.ts",
+					node: { source: "./src/node.ts", default: "./node.js" },
+				},
+			};
+			expect(applySourceConditions(exports)).toEqual({
+				".": { types: "./index.d.ts", node: { default: "./node.js" } },
+			});
+		});
+
+		it("should treat a top-level conditions object as the root export", () => {
+			const result = applySourceConditions({ types: "./index.d.ts", import: "./index.js" }, { ".": "./src/index.ts" });
+			expect(result).toEqual({ types: "./index.d.ts", source: "./src/index.ts", import: "./index.js" });
+		});
+
+		it("should leave string exports alone", () => {
+			expect(applySourceConditions("./index.js", { ".": "./src/index.ts" })).toBe("./index.js");
+		});
+	});
+
+	describe("applyImportSourceConditions", () => {
+		it("should add a source condition pointing at the TypeScript target", () => {
+			const result = applyImportSourceConditions(
+				{ "#internal/*": "./internal/*.js", "#dual": { import: "./dual.js", require: "./dual.cjs" } },
+				{ "#internal/*": "./src/internal/*.ts", "#dual": "./src/dual.ts" },
+			);
+			expect(result).toEqual({
+				"#internal/*": { source: "./src/internal/*.ts", default: "./internal/*.js" },
+				"#dual": { source: "./src/dual.ts", import: "./dual.js", require: "./dual.cjs" },
+			});
+		});
+
+		it("should keep only the source condition of entries without emitted output", () => {
+			const result = applyImportSourceConditions({}, { "#internal/*": "./src/internal/*.ts", "#dep": "some-package" });
+			expect(result).toEqual({ "#internal/*": { source: "./src/internal/*.ts" } });
+		});
+
+		it("should leave entries without a TypeScript source target alone", () => {
+			const imports = { "#dep": "some-package", "#data": "./data.json", "#node": { node: "./node.js" } };
+			const result = applyImportSourceConditions(imports, {
+				"#dep": "some-package",
+				"#data": "./data.json",
+				"#node": { node: "./src/node.ts" },
+			});
+			expect(result).toEqual(imports);
+		});
+	});
 });
@@ -846,6 +846,57 @@ describe("ImportGraph", () => {
 	});
 });
 
+describe("subpath import resolution", () => {
+	it("should trace # imports through TypeScript's module resolution", () => {
+		const mockSys = createMockSys({
+			"/project/tsconfig.json": JSON.stringify({
+				compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext" },
+			}),
+			"/project/package.json": JSON.stringify({
+				name: "test",
+				type: "module",
+				imports: { "#internal/*": "./src/internal/*.ts" },
+			}),
+			"/project/src/index.ts": `export { helper } from "#internal/helper";`,
+			"/project/src/internal/helper.ts": "export const helper = () => {};",
+		});
+
+		const result = new ImportGraph({ rootDir: "/project", sys: mockSys }).traceFromEntries(["./src/index.ts"]);
+
+		expect(result.errors).toEqual([]);
+		expect(result.files).toEqual(["/project/src/index.ts", "/project/src/internal/helper.ts"]);
+	});
+
+	it("should fall back to the imports field when TypeScript does not read it", () => {
+		const mockSys = createMockSys({
+			"/project/tsconfig.json": JSON.stringify({
+				compilerOptions: { module: "CommonJS", moduleResolution: "node10" },
+			}),
+			"/project/package.json": JSON.stringify({
+				name: "test",
+				imports: {
+					"#config": { types: "./src/config.ts", default: "./dist/config.js" },
+					"#utils/*": "./src/utils/*.js",
+					"#external": "some-package",
+				},
+			}),
+			"/project/src/index.ts": `
+				import { config } from "#config";
+				import { format } from "#utils/format";
+				import { other } from "#external";
+				export { config, format, other };
+			`,
+			"/project/src/config.ts": "export const config = {};",
+			"/project/src/utils/format.ts": "export const format = () => {};",
+		});
+
+		const result = new ImportGraph({ rootDir: "/project", sys: mockSys }).traceFromEntries(["./src/index.ts"]);
+
+		expect(result.errors).toEqual([]);
+		expect(result.files).toEqual(["/project/src/config.ts", "/project/src/index.ts", "/project/src/utils/format.ts"]);
+	});
+});
+
 describe("ImportGraph.fromEntries (static method)", () => {
 	it("should trace imports from entries", () => {
 		const mockSys = createMockSys({
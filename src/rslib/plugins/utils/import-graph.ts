@@ -382,12 +382,12 @@ export class ImportGraph {
 			};
 		}
 
-		// Extract entry points
-		const extractor = new EntryExtractor();
+		// Extract entry points, expanding wildcard patterns next to package.json
+		const packageDir = dirname(absolutePath);
+		const extractor = new EntryExtractor({ cwd: packageDir });
 		const { entries } = extractor.extract(packageJson);
 
 		// Convert entry paths to absolute paths
-		const packageDir = dirname(absolutePath);
 		const entryPaths = Object.values(entries).map((p) => resolve(packageDir, p));
 
 		return this.traceFromEntries(entryPaths);
@@ -582,6 +582,11 @@ export class ImportGraph {
 	 * Resolve a module specifier to an absolute file path.
 	 */
 	private resolveImport(specifier: string, fromFile: string): string | null {
+		// Subpath imports (`#internal/foo`) map to files of this package
+		if (specifier.startsWith("#")) {
+			return this.resolveWithTypeScript(specifier, fromFile) ?? this.resolveSubpathImport(specifier);
+		}
+
 		// Skip external packages (not relative or alias imports)
 		if (!specifier.startsWith(".") && !specifier.startsWith("/")) {
 			// Could be a path alias - try to resolve via TS
@@ -590,6 +595,13 @@ export class ImportGraph {
 			}
 		}
 
+		return this.resolveWithTypeScript(specifier, fromFile);
+	}
+
+	/**
+	 * Resolve a module specifier with TypeScript's module resolution.
+	 */
+	private resolveWithTypeScript(specifier: string, fromFile: string): string | null {
 		if (!this.compilerOptions || !this.moduleResolutionCache) {
 			return null;
 		}
@@ -627,6 +639,83 @@ export class ImportGraph {
 		return null;
 	}
 
+	/**
+	 * Resolve a `#` specifier through the `imports` field of the package.json in rootDir.
+	 *
+	 * @remarks
+	 * Used when TypeScript's module resolution does not read `imports`
+	 * (`moduleResolution` other than `node16`, `nodenext` or `bundler`).
+	 * Exact keys win over `*` patterns, and the first string target of a
+	 * conditions object is used. Targets pointing at `.js` output are mapped
+	 * back to their `.ts` source.
+	 */
+	private resolveSubpathImport(specifier: string): string | null {
+		const content = this.sys.readFile(resolve(this.options.rootDir, "package.json"));
+		if (!content) {
+			return null;
+		}
+		let imports: unknown;
+		try {
+			imports = (JSON.parse(content) as { imports?: unknown }).imports;
+		} catch {
+			return null;
+		}
+		if (!imports || typeof imports !== "object") {
+			return null;
+		}
+
+		const entries = imports as Record<string, unknown>;
+		let target: string | undefined;
+		if (specifier in entries) {
+			target = this.getImportTarget(entries[specifier]);
+		} else {
+			for (const [key, value] of Object.entries(entries)) {
+				const star = key.indexOf("*");
+				if (star === -1) {
+					continue;
+				}
+				const prefix = key.slice(0, star);
+				const suffix = key.slice(star + 1);
+				if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= key.length - 1) {
+					const match = specifier.slice(prefix.length, specifier.length - suffix.length);
+					target = this.getImportTarget(value)?.replaceAll("*", match);
+					break;
+				}
+			}
+		}
+		if (!target?.startsWith("./")) {
+			return null;
+		}
+
+		const targetPath = resolve(this.options.rootDir, target);
+		const candidates = [
+			targetPath.replace(/\.(m|c)?js(x?)$/, ".$1ts$2"),
+			targetPath,
+			`${targetPath}.ts`,
+			`${targetPath}.tsx`,
+			resolve(targetPath, "index.ts"),
+		];
+		return candidates.find((candidate) => this.isSourceFile(candidate) && this.sys.fileExists(candidate)) ?? null;
+	}
+
+	/**
+	 * Pick the first string target of an `imports` value.
+	 */
+	private getImportTarget(value: unknown): string | undefined {
+		if (typeof value === "string") {
+			return value;
+		}
+		if (value && typeof value === "object" && !Array.isArray(value)) {
+			for (const nested of Object.values(value)) {
+				const target = this.getImportTarget(nested);
+				if (target) {
+					return target;
+				}
+			}
+		}
+		return undefined;
+	}
+
 	/**
 	 * Check if a path is an external module (node_modules).
 	 */
@@ -166,5 +166,80 @@ describe("package-json-builder-utils", () => {
 
 			expect(result.devDependencies).toBeUndefined();
 		});
+
+		it("should merge publishConfig overrides before transforming paths in production", async () => {
+			const originalPackageJson: PackageJson = {
+				name: "test-package",
+				exports: "./src/index.ts",
+				main: "./src/index.ts",
+				publishConfig: {
+					access: "public",
+					registry: "https://npm.example.com/",
+					tag: "next",
+					directory: "dist",
+					exports: { ".": "./src/index.ts", "./extra": "./src/extra.ts" },
+					bin: { cli: "./src/cli.ts" },
+					main: "./src/index.ts",
+					types: "./src/index.ts",
+					typesVersions: { "*": { extra: ["./src/extra.ts"] } },
+				},
+			};
+			mockResolvePackageJson.mockResolvedValue(originalPackageJson);
+
+			const result = await buildPackageJson(originalPackageJson, true);
+
+			expect(result.exports).toEqual({
+				".": { types: "./index.d.ts", import: "./index.js" },
+				"./extra": { types: "./extra.d.ts", import: "./extra.js" },
+			});
+			expect(result.bin).toEqual({ cli: "./bin/cli.js" });
+			expect(result.main).toBe("./index.js");
+			expect(result.types).toBe("./index.d.ts");
+			expect(result.typesVersions).toEqual({ "*": { extra: ["./extra.js"] } });
+			expect(result.publishConfig).toEqual({
+				access: "public",
+				registry: "https://npm.example.com/",
+				tag: "next",
+			});
+			expect(result.private).toBe(false);
+		});
+
+		it("should apply the manifest policy before the custom transform", async () => {
+			const originalPackageJson: PackageJson = {
+				name: "test-package",
+				scripts: { postinstall: "node setup.js" },
+				devDependencies: { typescript: "^5.0.0" },
+			};
+			const transform = vi.fn((pkg: PackageJson): PackageJson => pkg);
+
+			const result = await buildPackageJson(
+				originalPackageJson,
+				false,
+				true,
+				undefined,
+				undefined,
+				undefined,
+				transform,
+				undefined,
+				undefined,
+				{ omit: ["devDependencies"], keep: ["scripts.postinstall"] },
+			);
+
+			expect(transform).toHaveBeenCalledWith(expect.objectContaining({ scripts: { postinstall: "node setup.js" } }));
+			expect(result.devDependencies).toBeUndefined();
+		});
+
+		it("should ignore publishConfig overrides in development", async () => {
+			const originalPackageJson: PackageJson = {
+				name: "test-package",
+				exports: "./src/index.ts",
+				publishConfig: { exports: "./src/other.ts" },
+			};
+
+			const result = await buildPackageJson(originalPackageJson, false);
+
+			expect(result.exports).toEqual({ types: "./index.d.ts", import: "./index.js" });
+			expect(result.publishConfig).toBeUndefined();
+		});
 	});
 });
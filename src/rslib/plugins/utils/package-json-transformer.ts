@@ -1,5 +1,5 @@
 import sortPkg from "sort-package-json";
-import type { PackageJson } from "../../../types/package-json.js";
+import type { JsonValue, PackageJson } from "../../../types/package-json.js";
 import { getDefaultPnpmCatalog } from "./pnpm-catalog.js";
 
 /**
@@ -33,6 +33,53 @@ export interface PnpmWorkspace {
 	publicHoistPattern?: string[];
 }
 
+/**
+ * Declarative rules for the fields of an output package.json.
+ *
+ * @remarks
+ * Fields are addressed by dot-separated key paths, so `"publishConfig.provenance"`
+ * is the `provenance` key inside `publishConfig`. Keys that contain a dot cannot
+ * be addressed. The rules run in this order:
+ *
+ * 1. `omit` removes each path, unless a `keep` path equals it or contains it
+ * 2. `keep` paths missing from the output (removed by `omit` or by the
+ *    builder's own cleanup, like `scripts`) are copied from the source package.json
+ * 3. `set` assigns each value, creating parent objects as needed
+ *
+ * @example
+ * ```typescript
+ * import type { ManifestPolicy } from '@savvy-web/rslib-builder';
+ *
+ * const policy: ManifestPolicy = {
+ *   omit: ['lint-staged', 'publishConfig.provenance'],
+ *   keep: ['scripts.postinstall'],
+ *   set: { 'publishConfig.tag': 'next' },
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface ManifestPolicy {
+	/** Key paths to remove from the output package.json */
+	omit?: string[];
+	/** Key paths to keep from the source package.json, even when omitted */
+	keep?: string[];
+	/** Values to assign, by key path */
+	set?: Record<string, JsonValue>;
+}
+
+/**
+ * Default manifest policy of `npm` based targets.
+ *
+ * @remarks
+ * Drops fields that only matter inside the repository, and keeps the install
+ * lifecycle scripts, which run for consumers of the published package.
+ */
+export const NPM_MANIFEST_POLICY: ManifestPolicy = {
+	omit: ["devDependencies", "devEngines", "packageManager", "pnpm", "lint-staged", "simple-git-hooks", "commitlint"],
+	keep: ["scripts.preinstall", "scripts.install", "scripts.postinstall"],
+};
+
 /**
  * Prefix used by pnpm to reference catalog-defined dependency versions.
  */
@@ -43,6 +90,43 @@ export const CATALOG_PREFIX = "catalog:";
  */
 export const WORKSPACE_PREFIX = "workspace:";
 
+/**
+ * `publishConfig` fields that replace the top-level field of the same name at publish time.
+ *
+ * @remarks
+ * Matches the fields pnpm overrides when it packs a package.
+ */
+const PUBLISH_CONFIG_OVERRIDES: readonly string[] = [
+	"bin",
+	"browser",
+	"cpu",
+	"es2015",
+	"esnext",
+	"exports",
+	"imports",
+	"libc",
+	"main",
+	"module",
+	"os",
+	"type",
+	"types",
+	"typesVersions",
+	"typings",
+	"umd:main",
+	"unpkg",
+];
+
+/**
+ * `publishConfig` fields removed from the output package.json.
+ *
+ * @remarks
+ * The overrides have already replaced their top-level fields, and `directory`
+ * would point `pnpm publish` at a subdirectory of the build output. Every other
+ * field, such as `access`, `provenance`, `registry` and `tag`, is kept for the
+ * publish command to read.
+ */
+const PUBLISH_CONFIG_DROPPED: readonly string[] = [...PUBLISH_CONFIG_OVERRIDES, "directory"];
+
 /**
  * Transforms a single export path for RSLib compatibility.
  *
@@ -123,15 +207,39 @@ export function createTypePath(jsPath: string, collapseIndex: boolean = true): s
 	return `${jsPath}.d.ts`;
 }
 
+/**
+ * Converts an ESM output path to its CommonJS counterpart for dual format builds.
+ *
+ * @param path - The ESM JavaScript or declaration file path
+ * @returns The matching `.cjs` or `.d.cts` path
+ *
+ * @example
+ * ```typescript
+ * toCommonJsPath("./index.js"); // "./index.cjs"
+ * toCommonJsPath("./index.d.ts"); // "./index.d.cts"
+ * ```
+ */
+export function toCommonJsPath(path: string): string {
+	if (path.endsWith(".d.ts")) {
+		return `${path.slice(0, -".d.ts".length)}.d.cts`;
+	}
+	if (path.endsWith(".js")) {
+		return `${path.slice(0, -".js".length)}.cjs`;
+	}
+	return path;
+}
+
 /**
  * Transforms the package.json bin field for build output compatibility.
  *
  * @remarks
  * TypeScript bin entries are compiled to `./bin/{command-name}.js` by RSlib.
+ * In bundleless builds they keep their mirrored source path instead.
  * Non-TypeScript entries (shell scripts, compiled JS) are preserved as-is.
  *
  * @param bin - The bin field value from package.json
  * @param _processTSExports - Deprecated, kept for backwards compatibility
+ * @param bundle - Whether the build is in bundle mode
  * @returns The transformed bin field with updated paths
  *
  * @example
@@ -139,13 +247,18 @@ export function createTypePath(jsPath: string, collapseIndex: boolean = true): s
  * transformPackageBin("./src/cli.ts"); // "./bin/cli.js"
  * transformPackageBin({ "my-tool": "./src/cli.ts" }); // { "my-tool": "./bin/my-tool.js" }
  * transformPackageBin("./scripts/cli.sh"); // "./scripts/cli.sh" (preserved)
+ * transformPackageBin("./src/cli.ts", true, false); // "./cli.js" (bundleless)
  * ```
  */
-export function transformPackageBin(bin: PackageJson["bin"], _processTSExports: boolean = true): PackageJson["bin"] {
+export function transformPackageBin(
+	bin: PackageJson["bin"],
+	_processTSExports: boolean = true,
+	bundle: boolean = true,
+): PackageJson["bin"] {
 	if (typeof bin === "string") {
 		// Only transform TypeScript files to ./bin/cli.js
 		if (bin.endsWith(".ts") || bin.endsWith(".tsx")) {
-			return "./bin/cli.js";
+			return bundle ? "./bin/cli.js" : transformExportPath(bin);
 		}
 		// Non-TypeScript entries preserved as-is
 		return bin;
@@ -157,7 +270,7 @@ export function transformPackageBin(bin: PackageJson["bin"], _processTSExports:
 			if (path !== undefined) {
 				// Only transform TypeScript files to ./bin/{command}.js
 				if (path.endsWith(".ts") || path.endsWith(".tsx")) {
-					transformed[command] = `./bin/${command}.js`;
+					transformed[command] = bundle ? `./bin/${command}.js` : transformExportPath(path);
 				} else {
 					// Non-TypeScript entries preserved as-is
 					transformed[command] = path;
@@ -170,16 +283,44 @@ export function transformPackageBin(bin: PackageJson["bin"], _processTSExports:
 	return bin;
 }
 
+/**
+ * Transforms a `types` or `typings` path for build output compatibility.
+ *
+ * @param path - The declaration or TypeScript source path
+ * @param processTSExports - Whether to process TypeScript file extensions
+ * @param collapseIndex - Whether to collapse index files (bundled mode)
+ * @returns The declaration path in the build output
+ *
+ * @example
+ * ```typescript
+ * transformTypesPath("./src/index.ts"); // "./index.d.ts"
+ * transformTypesPath("./types/index.d.ts"); // "./types/index.d.ts"
+ * ```
+ */
+export function transformTypesPath(
+	path: string,
+	processTSExports: boolean = true,
+	collapseIndex: boolean = false,
+): string {
+	const transformedPath = transformExportPath(path, processTSExports, collapseIndex);
+	if (!processTSExports || !/\.tsx?$/.test(path) || path.endsWith(".d.ts")) {
+		return transformedPath;
+	}
+	return createTypePath(transformedPath, collapseIndex);
+}
+
 /**
  * Determines if an export object represents export conditions rather than subpath exports.
  *
+ * @remarks
+ * Subpath keys start with `.`; every other key is a condition, including
+ * custom ones such as `development`, `node`, `browser` and `source`.
+ *
  * @param exports - Export object to check
  * @returns True if the object contains export conditions, false for subpath exports
  */
 export function isConditionsObject(exports: Record<string, unknown>): boolean {
-	return Object.keys(exports).some(
-		(key) => key === "import" || key === "require" || key === "types" || key === "default",
-	);
+	return Object.keys(exports).some((key) => !key.startsWith("."));
 }
 
 /**
@@ -191,6 +332,7 @@ export function isConditionsObject(exports: Record<string, unknown>): boolean {
  * @param entrypoints - Map of export paths to entry files
  * @param exportToOutputMap - Map of export paths to output files
  * @param collapseIndex - Whether to collapse index files (bundled mode)
+ * @param dualFormat - Whether CommonJS output is emitted next to the ESM output
  * @returns The transformed exports value
  */
 export function transformPackageExports(
@@ -200,9 +342,18 @@ export function transformPackageExports(
 	entrypoints?: Map<string, string>,
 	exportToOutputMap?: Map<string, string>,
 	collapseIndex: boolean = false,
+	dualFormat: boolean = false,
 ): FlexibleExports {
 	if (typeof exports === "string") {
-		return transformStringExport(exports, processTSExports, exportKey, entrypoints, exportToOutputMap, collapseIndex);
+		return transformStringExport(
+			exports,
+			processTSExports,
+			exportKey,
+			entrypoints,
+			exportToOutputMap,
+			collapseIndex,
+			dualFormat,
+		);
 	}
 
 	if (Array.isArray(exports)) {
@@ -214,6 +365,7 @@ export function transformPackageExports(
 				entrypoints,
 				exportToOutputMap,
 				collapseIndex,
+				dualFormat,
 			);
 			return transformed ?? item;
 		});
@@ -227,6 +379,7 @@ export function transformPackageExports(
 			entrypoints,
 			exportToOutputMap,
 			collapseIndex,
+			dualFormat,
 		);
 	}
 
@@ -236,6 +389,10 @@ export function transformPackageExports(
 
 /**
  * Transforms string-based export values with special handling for TypeScript files.
+ *
+ * @remarks
+ * In dual format builds, TypeScript exports get separate `import` and `require`
+ * conditions, each with its own `types` so CommonJS consumers resolve `.d.cts`.
  */
 function transformStringExport(
 	exportString: string,
@@ -244,14 +401,18 @@ function transformStringExport(
 	entrypoints?: Map<string, string>,
 	exportToOutputMap?: Map<string, string>,
 	collapseIndex: boolean = false,
+	dualFormat: boolean = false,
 ): FlexibleExports {
 	let transformedPath: string;
+	// Mapped paths are the actual output files, so their declaration rollups sit right next to them
+	let isMappedOutput = false;
 	if (exportToOutputMap && exportKey && exportToOutputMap.has(exportKey)) {
 		const mappedPath = exportToOutputMap.get(exportKey);
 		if (!mappedPath) {
 			throw new Error(`Export key "${exportKey}" has no mapped path`);
 		}
 		transformedPath = mappedPath;
+		isMappedOutput = true;
 	} else if (entrypoints && exportKey) {
 		const keyWithoutPrefix = exportKey.startsWith("./") ? exportKey.slice(2) : exportKey;
 		if (entrypoints.has(exportKey)) {
@@ -270,8 +431,21 @@ function transformStringExport(
 		(exportString.endsWith(".ts") || exportString.endsWith(".tsx")) &&
 		!exportString.endsWith(".d.ts")
 	) {
+		const typesPath = createTypePath(transformedPath, collapseIndex && !isMappedOutput);
+		if (dualFormat) {
+			return {
+				import: {
+					types: typesPath,
+					default: transformedPath,
+				},
+				require: {
+					types: toCommonJsPath(typesPath),
+					default: toCommonJsPath(transformedPath),
+				},
+			};
+		}
 		return {
-			types: createTypePath(transformedPath, collapseIndex),
+			types: typesPath,
 			import: transformedPath,
 		};
 	}
@@ -279,6 +453,36 @@ function transformStringExport(
 	return transformedPath;
 }
 
+/**
+ * Transforms the string target of a single export condition.
+ *
+ * @remarks
+ * TypeScript targets become `{ types, default }`, so every condition of an
+ * export has the same shape. In dual format builds, conditions other than
+ * `import` and `require` get an `import` and a `require` branch of that shape.
+ */
+function transformConditionTarget(
+	condition: string,
+	target: string,
+	processTSExports: boolean,
+	mappedPath: string | undefined,
+	collapseIndex: boolean,
+	dualFormat: boolean,
+): unknown {
+	const outputPath = mappedPath ?? transformExportPath(target, processTSExports, collapseIndex);
+	if (!processTSExports || !/\.tsx?$/.test(target) || target.endsWith(".d.ts")) {
+		return outputPath;
+	}
+
+	// Mapped paths are the actual output files, so their declaration rollups sit right next to them
+	const esm = { types: createTypePath(outputPath, collapseIndex && !mappedPath), default: outputPath };
+	if (!dualFormat || condition === "import") {
+		return esm;
+	}
+	const cjs = { types: toCommonJsPath(esm.types), default: toCommonJsPath(outputPath) };
+	return condition === "require" ? cjs : { import: esm, require: cjs };
+}
+
 /**
  * Transforms object exports by processing each entry appropriately.
  */
@@ -289,9 +493,12 @@ function transformObjectExports(
 	entrypoints?: Map<string, string>,
 	exportToOutputMap?: Map<string, string>,
 	collapseIndex: boolean = false,
+	dualFormat: boolean = false,
 ): Record<string, unknown> {
 	const transformed: Record<string, unknown> = {};
 	const isConditions = isConditionsObject(exportsObject);
+	// Declared types already cover every sibling condition
+	const declaresTypes = isConditions && exportsObject.types !== undefined;
 
 	for (const [key, value] of Object.entries(exportsObject)) {
 		transformed[key] = transformExportEntry(
@@ -303,6 +510,8 @@ function transformObjectExports(
 			entrypoints,
 			exportToOutputMap,
 			collapseIndex,
+			dualFormat,
+			declaresTypes,
 		);
 	}
 
@@ -321,11 +530,37 @@ function transformExportEntry(
 	entrypoints?: Map<string, string>,
 	exportToOutputMap?: Map<string, string>,
 	collapseIndex: boolean = false,
+	dualFormat: boolean = false,
+	declaresTypes: boolean = false,
 ): unknown {
+	if (isConditions && key === "types" && typeof value === "string") {
+		return transformExportPath(value, processTSExports, collapseIndex);
+	}
+
+	if (isConditions && key !== "source" && key !== "types" && (typeof value === "string" || Array.isArray(value))) {
+		// Only the export's own import, require and default targets are its mapped main output
+		const isMain = key === "import" || key === "require" || key === "default";
+		const mappedPath = isMain && exportKey ? exportToOutputMap?.get(exportKey) : undefined;
+		const transformTarget = (target: unknown): unknown => {
+			if (typeof target !== "string") {
+				return transformPackageExports(
+					target as FlexibleExports,
+					processTSExports,
+					isMain ? exportKey : undefined,
+					entrypoints,
+					isMain ? exportToOutputMap : undefined,
+					collapseIndex,
+					dualFormat,
+				);
+			}
+			return declaresTypes
+				? transformExportPath(target, processTSExports, collapseIndex)
+				: transformConditionTarget(key, target, processTSExports, mappedPath, collapseIndex, dualFormat);
+		};
+		return Array.isArray(value) ? value.map(transformTarget) : transformTarget(value);
+	}
+
 	if (isConditions && (key === "import" || key === "require" || key === "types" || key === "default")) {
-		if (typeof value === "string") {
-			return transformExportPath(value, processTSExports, collapseIndex);
-		}
 		if (value !== undefined && value !== null) {
 			return transformPackageExports(
 				value as FlexibleExports,
@@ -334,6 +569,27 @@ function transformExportEntry(
 				entrypoints,
 				exportToOutputMap,
 				collapseIndex,
+				dualFormat,
+			);
+		}
+		return value;
+	}
+
+	if (isConditions) {
+		// Shipped TypeScript sources keep their paths, see applySourceConditions
+		if (key === "source") {
+			return value;
+		}
+		// Custom conditions (node, browser, development) select their own entries, not the export's main output
+		if (value !== undefined && value !== null) {
+			return transformPackageExports(
+				value as FlexibleExports,
+				processTSExports,
+				undefined,
+				entrypoints,
+				undefined,
+				collapseIndex,
+				dualFormat,
 			);
 		}
 		return value;
@@ -347,11 +603,307 @@ function transformExportEntry(
 			entrypoints,
 			exportToOutputMap,
 			collapseIndex,
+			dualFormat,
 		);
 	}
 	return value;
 }
 
+/**
+ * Removes `source` conditions from a single export value and, when a source is given, adds one.
+ */
+function withSourceCondition(value: unknown, source: string | undefined): unknown {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return value;
+	}
+	const conditions: Record<string, unknown> = {};
+	for (const [condition, target] of Object.entries(value)) {
+		if (condition !== "source") {
+			conditions[condition] = withSourceCondition(target, undefined);
+		}
+	}
+	if (!source) {
+		return conditions;
+	}
+	// "types" has to stay first for TypeScript to match it
+	const { types, ...rest } = conditions;
+	return types === undefined ? { source, ...rest } : { types, source, ...rest };
+}
+
+/**
+ * Points a `source` export condition at shipped TypeScript sources, or removes `source` conditions.
+ *
+ * @remarks
+ * Tools that understand the `source` condition (bundlers, test runners) can
+ * then consume the TypeScript directly. When `sources` is undefined, the
+ * `source` conditions carried over from the source package.json are removed,
+ * since they would point at files that are not shipped.
+ *
+ * @param exports - The transformed exports field
+ * @param sources - Export key to shipped TypeScript source path
+ * @returns The exports field with updated `source` conditions
+ *
+ * @example
+ * ```typescript
+ * applySourceConditions({ ".": { types: "./index.d.ts", import: "./index.js" } }, { ".": "./src/index.ts" });
+ * // { ".": { types: "./index.d.ts", source: "./src/index.ts", import: "./index.js" } }
+ * ```
+ */
+export function applySourceConditions(exports: FlexibleExports, sources?: Record<string, string>): FlexibleExports {
+	if (exports && typeof exports === "object" && !Array.isArray(exports) && !isConditionsObject(exports)) {
+		const transformed: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(exports)) {
+			transformed[key] = withSourceCondition(value, sources?.[key]);
+		}
+		return transformed;
+	}
+	return withSourceCondition(exports, sources?.["."]) as FlexibleExports;
+}
+
+/**
+ * Points a `source` condition of each `imports` entry at its TypeScript target in the source package.json.
+ *
+ * @remarks
+ * Shipped sources keep their `#` specifiers, so tools consuming them through
+ * the `source` export condition need the entries to resolve to sources as
+ * well. Only entries whose source target is a relative TypeScript path get a
+ * `source` condition. Source entries whose compiled output was not emitted
+ * are added with the `source` condition alone.
+ *
+ * @param imports - The transformed imports field
+ * @param sourceImports - The imports field of the source package.json, limited to the entries still referenced
+ * @returns The imports field with `source` conditions
+ *
+ * @example
+ * ```typescript
+ * applyImportSourceConditions({ "#internal/*": "./internal/*.js" }, { "#internal/*": "./src/internal/*.ts" });
+ * // { "#internal/*": { source: "./src/internal/*.ts", default: "./internal/*.js" } }
+ * ```
+ */
+export function applyImportSourceConditions(
+	imports: PackageJson.Imports,
+	sourceImports: PackageJson.Imports | undefined,
+): PackageJson.Imports {
+	const transformed: PackageJson.Imports = {};
+	const keys = new Set([...Object.keys(sourceImports ?? {}), ...Object.keys(imports)]) as Set<
+		keyof PackageJson.Imports
+	>;
+	for (const key of keys) {
+		const target = imports[key];
+		const source = sourceImports?.[key];
+		if (typeof source !== "string" || !source.startsWith("./") || !/\.(?:c|m)?tsx?$/.test(source)) {
+			if (target !== undefined) {
+				transformed[key] = target;
+			}
+		} else if (target === undefined) {
+			transformed[key] = { source };
+		} else if (target && typeof target === "object" && !Array.isArray(target)) {
+			transformed[key] = { source, ...target };
+		} else {
+			transformed[key] = { source, default: target };
+		}
+	}
+	return transformed;
+}
+
+/**
+ * Checks whether an output path, possibly a `*` pattern, matches an emitted file.
+ */
+function isEmittedPath(path: string, emittedFiles: ReadonlySet<string>): boolean {
+	const fileName = path.replace(/^\.\//, "");
+	const [prefix, suffix] = fileName.split("*");
+	if (suffix === undefined) {
+		return emittedFiles.has(fileName);
+	}
+	for (const emitted of emittedFiles) {
+		if (emitted.length > prefix.length + suffix.length && emitted.startsWith(prefix) && emitted.endsWith(suffix)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Rewrites a single `imports` target, splitting TypeScript sources into
+ * `import` and `require` conditions for dual format builds.
+ *
+ * @returns The rewritten target, or undefined when none of its outputs were emitted
+ */
+function transformImportTarget(
+	target: PackageJson.Exports,
+	processTSExports: boolean,
+	collapseIndex: boolean,
+	dualFormat: boolean,
+	emittedFiles: ReadonlySet<string> | undefined,
+): PackageJson.Exports | undefined {
+	if (typeof target === "string") {
+		// Targets outside the package (bare package names) resolve as-is
+		if (!target.startsWith("./")) {
+			return target;
+		}
+		const transformed = transformExportPath(target, processTSExports, collapseIndex);
+		const isCompiled = transformed !== target && transformed.endsWith(".js");
+		// Bundled builds inline the modules behind # specifiers instead of emitting them
+		if (isCompiled && emittedFiles && !isEmittedPath(transformed, emittedFiles)) {
+			return undefined;
+		}
+		// The CommonJS lib mirrors every emitted ESM file
+		if (dualFormat && isCompiled) {
+			return { import: transformed, require: toCommonJsPath(transformed) };
+		}
+		return transformed;
+	}
+	if (Array.isArray(target)) {
+		const transformed = target
+			.map((item) => transformImportTarget(item, processTSExports, collapseIndex, false, emittedFiles))
+			.filter((item) => item !== undefined) as Array<string | PackageJson.ExportConditions>;
+		return transformed.length > 0 ? transformed : undefined;
+	}
+	if (target && typeof target === "object") {
+		const transformed: PackageJson.ExportConditions = {};
+		for (const [condition, value] of Object.entries(target)) {
+			// Condition objects already choose between formats
+			const transformedValue = transformImportTarget(value, processTSExports, collapseIndex, false, emittedFiles);
+			if (transformedValue !== undefined) {
+				transformed[condition] = transformedValue;
+			}
+		}
+		return Object.keys(transformed).length > 0 ? transformed : undefined;
+	}
+	return target;
+}
+
+/**
+ * Transforms the package.json `imports` field (`#` subpath imports) for build output compatibility.
+ *
+ * @remarks
+ * Targets are rewritten with the same rules as exports ({@link transformExportPath}),
+ * including targets nested in condition objects. Targets that name another
+ * package are kept as-is. In dual format builds, TypeScript string targets
+ * get separate `import` and `require` conditions. When `emittedFiles` is
+ * given, compiled targets whose output was not emitted are dropped, along
+ * with entries left without targets.
+ *
+ * @param imports - The imports field value from package.json
+ * @param processTSExports - Whether to process TypeScript file extensions
+ * @param collapseIndex - Whether to collapse index files (bundled mode)
+ * @param dualFormat - Whether CommonJS output is emitted next to the ESM output
+ * @param emittedFiles - Names of the files the build emitted, relative to the output directory
+ * @returns The transformed imports field
+ *
+ * @example
+ * ```typescript
+ * transformPackageImports({ "#internal/*": "./src/internal/*.ts" });
+ * // { "#internal/*": "./internal/*.js" }
+ * ```
+ */
+export function transformPackageImports(
+	imports: PackageJson.Imports,
+	processTSExports: boolean = true,
+	collapseIndex: boolean = false,
+	dualFormat: boolean = false,
+	emittedFiles?: Iterable<string>,
+): PackageJson.Imports {
+	const emitted = emittedFiles ? new Set(emittedFiles) : undefined;
+	const transformed: PackageJson.Imports = {};
+	for (const [key, target] of Object.entries(imports) as Array<[keyof PackageJson.Imports, PackageJson.Exports]>) {
+		const transformedTarget = transformImportTarget(target, processTSExports, collapseIndex, dualFormat, emitted);
+		if (transformedTarget !== undefined) {
+			transformed[key] = transformedTarget;
+		}
+	}
+	return transformed;
+}
+
+/**
+ * Finds the `#` subpath import specifiers referenced by emitted JavaScript or declarations.
+ *
+ * @remarks
+ * Covers static imports and re-exports, side-effect imports, dynamic `import()`
+ * and `require()`.
+ *
+ * @param content - The emitted file content
+ * @returns The specifiers found (e.g., `"#internal/helper"`)
+ */
+export function findSubpathImportSpecifiers(content: string): Set<string> {
+	const specifiers = new Set<string>();
+	for (const match of content.matchAll(/(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)["'](#[^"'\s]+)["']/g)) {
+		specifiers.add(match[1]);
+	}
+	return specifiers;
+}
+
+/**
+ * Drops `imports` entries that no emitted file references.
+ *
+ * @remarks
+ * Bundled builds inline `#` imports and bundleless builds rewrite them to
+ * relative paths, so most entries are dead in the output. Entries still
+ * referenced (for example from declaration files, or specifiers marked as
+ * external) are kept. Pattern keys (`#internal/*`) match any specifier with
+ * the same prefix and suffix.
+ *
+ * @param imports - The imports field value
+ * @param specifiers - The `#` specifiers referenced by the emitted files
+ * @returns The entries still in use, or undefined when none are
+ */
+export function pruneSubpathImports(
+	imports: PackageJson.Imports,
+	specifiers: Iterable<string>,
+): PackageJson.Imports | undefined {
+	const used = Array.from(specifiers);
+	const pruned: PackageJson.Imports = {};
+	for (const [key, target] of Object.entries(imports) as Array<[keyof PackageJson.Imports, PackageJson.Exports]>) {
+		const [prefix, suffix] = key.split("*");
+		const isUsed =
+			suffix === undefined
+				? used.includes(key)
+				: used.some((specifier) => specifier.startsWith(prefix) && specifier.endsWith(suffix));
+		if (isUsed) {
+			pruned[key] = target;
+		}
+	}
+	return Object.keys(pruned).length > 0 ? pruned : undefined;
+}
+
+/**
+ * Merges pnpm-style `publishConfig` overrides into the top-level fields.
+ *
+ * @remarks
+ * Each field pnpm overrides at pack time (`exports`, `bin`, `main`, `types`,
+ * `module`, `imports` and the like) that is set in `publishConfig` replaces
+ * the top-level field, so `publishConfig.exports` wins over `exports`. Runs
+ * before entry discovery and path transformation, so override paths are built
+ * and rewritten like the top-level ones. `publishConfig` itself is left in
+ * place and trimmed later by {@link applyRslibTransformations}.
+ *
+ * @param packageJson - The package.json to merge overrides into
+ * @returns A new package.json with the overrides applied
+ *
+ * @example
+ * ```typescript
+ * applyPublishConfigOverrides({
+ *   exports: "./src/index.ts",
+ *   publishConfig: { exports: { ".": "./src/index.ts", "./extra": "./src/extra.ts" } },
+ * });
+ * // exports: { ".": "./src/index.ts", "./extra": "./src/extra.ts" }
+ * ```
+ */
+export function applyPublishConfigOverrides(packageJson: PackageJson): PackageJson {
+	const { publishConfig } = packageJson;
+	if (!publishConfig) {
+		return packageJson;
+	}
+
+	const result: Record<string, unknown> = { ...packageJson };
+	for (const field of PUBLISH_CONFIG_OVERRIDES) {
+		if (publishConfig[field] !== undefined) {
+			result[field] = publishConfig[field];
+		}
+	}
+	return result as PackageJson;
+}
+
 /**
  * Applies RSLib-specific transformations to package.json for build output compatibility.
  *
@@ -361,6 +913,9 @@ function transformExportEntry(
  * @param entrypoints - Map of export paths to entry files
  * @param exportToOutputMap - Map of export paths to output files
  * @param bundle - Whether the build is in bundle mode
+ * @param dualFormat - Whether CommonJS output is emitted next to the ESM output
+ * @param subpathImports - `#` specifiers still referenced by the emitted files; when given, unused `imports` entries are dropped
+ * @param emittedFiles - Names of the files the build emitted; when given, `imports` targets that were not emitted are dropped
  * @returns The transformed package.json ready for build output
  */
 export function applyRslibTransformations(
@@ -370,6 +925,9 @@ export function applyRslibTransformations(
 	entrypoints?: Map<string, string>,
 	exportToOutputMap?: Map<string, string>,
 	bundle?: boolean,
+	dualFormat?: boolean,
+	subpathImports?: Iterable<string>,
+	emittedFiles?: Iterable<string>,
 ): PackageJson {
 	const { publishConfig, scripts, ...rest } = packageJson;
 
@@ -383,6 +941,13 @@ export function applyRslibTransformations(
 		private: isPrivate,
 	} as PackageJson;
 
+	const keptPublishConfig = Object.fromEntries(
+		Object.entries(publishConfig ?? {}).filter(([field]) => !PUBLISH_CONFIG_DROPPED.includes(field)),
+	);
+	if (Object.keys(keptPublishConfig).length > 0) {
+		processedManifest.publishConfig = keptPublishConfig;
+	}
+
 	if (processedManifest.exports) {
 		processedManifest.exports = transformPackageExports(
 			processedManifest.exports,
@@ -391,17 +956,49 @@ export function applyRslibTransformations(
 			entrypoints,
 			exportToOutputMap,
 			bundle ?? false,
+			dualFormat ?? false,
 		) as PackageJson.Exports;
 	}
 
 	if (processedManifest.bin) {
-		processedManifest.bin = transformPackageBin(processedManifest.bin, processTSExports);
+		// Bundle mode is opt-out here since bin paths have always been rewritten to ./bin/
+		processedManifest.bin = transformPackageBin(processedManifest.bin, processTSExports, bundle !== false);
+	}
+
+	if (processedManifest.imports) {
+		const imports = subpathImports
+			? pruneSubpathImports(processedManifest.imports, subpathImports)
+			: processedManifest.imports;
+		const transformedImports = imports
+			? transformPackageImports(imports, processTSExports, bundle ?? false, dualFormat ?? false, emittedFiles)
+			: undefined;
+		if (transformedImports && Object.keys(transformedImports).length > 0) {
+			processedManifest.imports = transformedImports;
+		} else {
+			delete processedManifest.imports;
+		}
 	}
 
-	if (originalPackageJson.typesVersions) {
+	for (const field of ["main", "module"] as const) {
+		const path = processedManifest[field];
+		if (typeof path === "string") {
+			processedManifest[field] = transformExportPath(path, processTSExports, bundle ?? false);
+		}
+	}
+
+	for (const field of ["types", "typings"] as const) {
+		const path = processedManifest[field];
+		if (typeof path === "string") {
+			processedManifest[field] = transformTypesPath(path, processTSExports, bundle ?? false);
+		}
+	}
+
+	// A publishConfig override has already replaced the source typesVersions
+	const typesVersions = processedManifest.typesVersions ?? originalPackageJson.typesVersions;
+	if (typesVersions) {
 		const transformedTypesVersions: Record<string, Record<string, string[]>> = {};
 
-		for (const [version, paths] of Object.entries(originalPackageJson.typesVersions)) {
+		for (const [version, paths] of Object.entries(typesVersions)) {
 			const transformedPaths: Record<string, string[]> = {};
 
 			for (const [key, value] of Object.entries(paths as Record<string, string[]>)) {
@@ -427,6 +1024,108 @@ export function applyRslibTransformations(
 	return sortPkg(processedManifest);
 }
 
+/**
+ * Combines manifest policies, later ones extending the earlier ones.
+ *
+ * @param policies - The policies to combine; undefined entries are skipped
+ * @returns A policy with every `omit` and `keep` path, and the `set` values merged in order
+ */
+export function mergeManifestPolicies(...policies: Array<ManifestPolicy | undefined>): ManifestPolicy {
+	const merged: Required<ManifestPolicy> = { omit: [], keep: [], set: {} };
+	for (const policy of policies) {
+		merged.omit.push(...(policy?.omit ?? []));
+		merged.keep.push(...(policy?.keep ?? []));
+		Object.assign(merged.set, policy?.set);
+	}
+	return merged;
+}
+
+/**
+ * Checks whether `path` equals `ancestor` or is nested inside it.
+ */
+function isSameOrNestedPath(path: string, ancestor: string): boolean {
+	return path === ancestor || path.startsWith(`${ancestor}.`);
+}
+
+function getAtPath(target: Record<string, unknown>, segments: string[]): unknown {
+	let current: unknown = target;
+	for (const segment of segments) {
+		if (!current || typeof current !== "object" || !Object.hasOwn(current, segment)) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+function setAtPath(target: Record<string, unknown>, segments: string[], value: unknown): void {
+	let current = target;
+	for (const segment of segments.slice(0, -1)) {
+		const next = current[segment];
+		if (!next || typeof next !== "object" || Array.isArray(next)) {
+			current[segment] = {};
+		}
+		current = current[segment] as Record<string, unknown>;
+	}
+	current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Removes a key path, along with the parent objects the removal leaves empty.
+ */
+function deleteAtPath(target: Record<string, unknown>, segments: string[]): void {
+	const [segment, ...rest] = segments;
+	const value = target[segment];
+	if (rest.length === 0) {
+		delete target[segment];
+		return;
+	}
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return;
+	}
+	deleteAtPath(value as Record<string, unknown>, rest);
+	if (Object.keys(value).length === 0) {
+		delete target[segment];
+	}
+}
+
+/**
+ * Applies a declarative manifest policy to an output package.json.
+ *
+ * @param packageJson - The transformed package.json
+ * @param sourcePackageJson - The package.json `keep` paths are copied from
+ * @param policy - The rules to apply, see {@link ManifestPolicy}
+ * @returns A new package.json with the policy applied
+ */
+export function applyManifestPolicy(
+	packageJson: PackageJson,
+	sourcePackageJson: PackageJson,
+	policy: ManifestPolicy,
+): PackageJson {
+	const result = structuredClone(packageJson) as Record<string, unknown>;
+	const keep = policy.keep ?? [];
+
+	for (const path of policy.omit ?? []) {
+		if (!keep.some((kept) => isSameOrNestedPath(path, kept))) {
+			deleteAtPath(result, path.split("."));
+		}
+	}
+
+	for (const path of keep) {
+		const segments = path.split(".");
+		const value = getAtPath(sourcePackageJson as Record<string, unknown>, segments);
+		if (getAtPath(result, segments) === undefined && value !== undefined) {
+			setAtPath(result, segments, structuredClone(value));
+		}
+	}
+
+	for (const [path, value] of Object.entries(policy.set ?? {})) {
+		setAtPath(result, path.split("."), value);
+	}
+
+	return sortPkg(result as PackageJson);
+}
+
 /**
  * Applies pnpm-specific transformations to package.json for publishing compatibility.
  *
@@ -446,7 +1145,8 @@ export async function applyPnpmTransformations(
  *
  * @remarks
  * This is the main entry point for package.json transformation, orchestrating both
- * pnpm-specific and RSLib-specific transformations in the correct order.
+ * pnpm-specific and RSLib-specific transformations in the correct order. Production
+ * builds also merge `publishConfig` overrides before paths are transformed.
  *
  * @param packageJson - The source package.json to transform
  * @param isProduction - Whether this is a production build requiring dependency resolution
@@ -455,6 +1155,10 @@ export async function applyPnpmTransformations(
  * @param exportToOutputMap - Map of export paths to output files (for exportsAsIndexes mode)
  * @param bundle - Whether the build is in bundle mode
  * @param transform - Optional custom transform function to modify package.json after standard transformations
+ * @param dualFormat - Whether CommonJS output is emitted next to the ESM output
+ * @param subpathImports - `#` specifiers still referenced by the emitted files; when given, unused `imports` entries are dropped
+ * @param manifest - Declarative field rules, applied before the custom transform function
+ * @param emittedFiles - Names of the files the build emitted; when given, `imports` targets that were not emitted are dropped
  * @returns Promise resolving to the fully transformed package.json
  */
 export async function buildPackageJson(
@@ -465,17 +1169,26 @@ export async function buildPackageJson(
 	exportToOutputMap?: Map<string, string>,
 	bundle?: boolean,
 	transform?: (pkg: PackageJson) => PackageJson,
+	dualFormat?: boolean,
+	subpathImports?: Iterable<string>,
+	manifest?: ManifestPolicy,
+	emittedFiles?: Iterable<string>,
 ): Promise<PackageJson> {
 	let result: PackageJson;
+	let source = packageJson;
 	if (isProduction) {
 		const pnpmTransformed = await applyPnpmTransformations(packageJson);
+		source = pnpmTransformed;
 		result = applyRslibTransformations(
-			pnpmTransformed,
+			applyPublishConfigOverrides(pnpmTransformed),
 			packageJson,
 			processTSExports,
 			entrypoints,
 			exportToOutputMap,
 			bundle,
+			dualFormat,
+			subpathImports,
+			emittedFiles,
 		);
 	} else {
 		result = applyRslibTransformations(
@@ -485,9 +1198,16 @@ export async function buildPackageJson(
 			entrypoints,
 			exportToOutputMap,
 			bundle,
+			dualFormat,
+			subpathImports,
+			emittedFiles,
 		);
 	}
 
+	if (manifest) {
+		result = applyManifestPolicy(result, source, manifest);
+	}
+
 	if (transform) {
 		result = transform(result);
 	}
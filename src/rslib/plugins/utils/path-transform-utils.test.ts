@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { createTypePath, transformExportPath } from "./package-json-transformer.js";
+import { createTypePath, toCommonJsPath, transformExportPath } from "./package-json-transformer.js";
 
 describe("path-transform-utils", () => {
 	describe("transformExportPath", () => {
@@ -152,4 +152,18 @@ describe("path-transform-utils", () => {
 			});
 		});
 	});
+
+	describe("toCommonJsPath", () => {
+		it("should convert JavaScript paths to .cjs", () => {
+			expect(toCommonJsPath("./utils/index.js")).toBe("./utils/index.cjs");
+		});
+
+		it("should convert declaration paths to .d.cts", () => {
+			expect(toCommonJsPath("./index.d.ts")).toBe("./index.d.cts");
+		});
+
+		it("should leave other paths unchanged", () => {
+			expect(toCommonJsPath("./package.json")).toBe("./package.json");
+		});
+	});
 });
@@ -165,6 +165,59 @@ catalog:
 		});
 	});
 
+	describe("getCatalogs", () => {
+		beforeEach(() => {
+			vi.mocked(getWorkspaceRoot).mockReturnValue("/test/workspace");
+			vi.mocked(stat).mockResolvedValue(createMockStats(new Date(123456789)));
+		});
+
+		it("should read named catalogs next to the default catalog", async () => {
+			vi.mocked(readFile).mockResolvedValue(`
+catalog:
+  react: '^18.2.0'
+catalogs:
+  react17:
+    react: '^17.0.2'
+  testing:
+    vitest: '^3.0.0'
+`);
+
+			const result = await catalog.getCatalogs();
+
+			expect(result).toEqual({
+				default: { react: "^18.2.0" },
+				react17: { react: "^17.0.2" },
+				testing: { vitest: "^3.0.0" },
+			});
+		});
+
+		it("should accept the default catalog under catalogs.default", async () => {
+			vi.mocked(readFile).mockResolvedValue(`
+catalogs:
+  default:
+    react: '^18.2.0'
+  react17:
+    react: '^17.0.2'
+`);
+
+			expect(await catalog.getCatalog()).toEqual({ react: "^18.2.0" });
+			expect((await catalog.getCatalogs()).react17).toEqual({ react: "^17.0.2" });
+		});
+
+		it("should share the mtime cache with getCatalog", async () => {
+			vi.mocked(readFile).mockResolvedValue(`
+catalogs:
+  testing:
+    vitest: '^3.0.0'
+`);
+
+			await catalog.getCatalog();
+			await catalog.getCatalogs();
+
+			expect(readFile).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe("clearCache", () => {
 		it("should clear the cached catalog", async () => {
 			vi.mocked(getWorkspaceRoot).mockReturnValue("/test/workspace");
@@ -230,6 +283,66 @@ catalog:
 			});
 		});
 
+		it("should pass named catalogs to the manifest export", async () => {
+			vi.mocked(readFile).mockResolvedValue(`
+catalog:
+  react: '^18.2.0'
+catalogs:
+  react17:
+    react: '^17.0.2'
+`);
+			catalog.clearCache();
+
+			const pkg: PackageJson = {
+				name: "test",
+				version: "1.0.0",
+				dependencies: {
+					react: "catalog:react17",
+				},
+			};
+			const resolvedPkg: PackageJson = {
+				name: "test",
+				version: "1.0.0",
+				dependencies: {
+					react: "^17.0.2",
+				},
+			};
+			vi.mocked(createExportableManifest).mockResolvedValue(resolvedPkg as never);
+
+			const result = await catalog.resolvePackageJson(pkg);
+
+			expect(result).toEqual(resolvedPkg);
+			expect(createExportableManifest).toHaveBeenCalledWith(process.cwd(), pkg, {
+				catalogs: { default: { react: "^18.2.0" }, react17: { react: "^17.0.2" } },
+			});
+		});
+
+		it("should accept packages that only use named catalogs", async () => {
+			vi.mocked(readFile).mockResolvedValue(`
+catalogs:
+  testing:
+    vitest: '^3.0.0'
+`);
+			catalog.clearCache();
+
+			const pkg: PackageJson = {
+				name: "test",
+				version: "1.0.0",
+				devDependencies: {
+					vitest: "catalog:testing",
+				},
+			};
+			vi.mocked(createExportableManifest).mockResolvedValue({
+				name: "test",
+				version: "1.0.0",
+				devDependencies: { vitest: "^3.0.0" },
+			} as never);
+
+			await expect(catalog.resolvePackageJson(pkg)).resolves.toMatchObject({
+				devDependencies: { vitest: "^3.0.0" },
+			});
+		});
+
 		it("should resolve workspace: dependencies", async () => {
 			const pkg: PackageJson = {
 				name: "test",
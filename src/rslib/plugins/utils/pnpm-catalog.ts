@@ -13,6 +13,7 @@ import { createEnvLogger } from "./build-logger.js";
 interface PnpmWorkspace {
 	packages?: string[];
 	catalog?: Record<string, string>;
+	catalogs?: Record<string, Record<string, string>>;
 	onlyBuiltDependencies?: string[];
 	publicHoistPattern?: string[];
 }
@@ -25,7 +26,8 @@ const WORKSPACE_PREFIX = "workspace:";
  *
  * @remarks
  * This class handles the resolution of PNPM-specific dependency references:
- * - `catalog:` references to centralized version definitions
+ * - `catalog:` references to centralized version definitions, including named
+ *   catalogs such as `catalog:react18`
  * - `workspace:` references to local workspace packages
  *
  * The class caches the catalog data based on file modification time to avoid
@@ -40,6 +42,11 @@ const WORKSPACE_PREFIX = "workspace:";
  * console.log(versions);
  * // { "react": "^18.2.0", "typescript": "^5.0.0" }
  *
+ * // Get the default and named catalogs
+ * const catalogs = await catalog.getCatalogs();
+ * console.log(catalogs.react17);
+ * // { "react": "^17.0.2" }
+ *
  * // Resolve package.json dependencies
  * const resolved = await catalog.resolvePackageJson(packageJson);
  * ```
@@ -47,7 +54,7 @@ const WORKSPACE_PREFIX = "workspace:";
  * @public
  */
 export class PnpmCatalog {
-	private catalogCache: Record<string, string> | null = null;
+	private catalogCache: Record<string, Record<string, string>> | null = null;
 	private catalogCacheMtime: number | null = null;
 	private cachedWorkspaceRoot: string | undefined | null = null;
 
@@ -64,7 +71,7 @@ export class PnpmCatalog {
 	}
 
 	/**
-	 * Gets the PNPM catalog from pnpm-workspace.yaml.
+	 * Gets the default PNPM catalog from pnpm-workspace.yaml.
 	 *
 	 * @remarks
 	 * The catalog is cached based on file modification time. If the file hasn't
@@ -73,6 +80,21 @@ export class PnpmCatalog {
 	 * @returns The catalog mapping dependency names to versions
 	 */
 	async getCatalog(): Promise<Record<string, string>> {
+		const catalogs = await this.getCatalogs();
+		return catalogs.default ?? {};
+	}
+
+	/**
+	 * Gets the default and named PNPM catalogs from pnpm-workspace.yaml.
+	 *
+	 * @remarks
+	 * The top-level `catalog` key and `catalogs.default` both define the default
+	 * catalog. Catalogs are cached together, using the same file modification
+	 * time check as {@link PnpmCatalog.getCatalog}.
+	 *
+	 * @returns The catalogs keyed by name, with the default catalog under `default`
+	 */
+	async getCatalogs(): Promise<Record<string, Record<string, string>>> {
 		try {
 			if (!this.cachedWorkspaceRoot) {
 				this.cachedWorkspaceRoot = getWorkspaceRoot(process.cwd());
@@ -91,7 +113,11 @@ export class PnpmCatalog {
 
 			const content = await readFile(workspaceFile, "utf-8");
 			const workspace = parse(content) as PnpmWorkspace;
-			this.catalogCache = workspace.catalog ?? {};
+			const { default: defaultCatalog, ...namedCatalogs } = workspace.catalogs ?? {};
+			this.catalogCache = {
+				...namedCatalogs,
+				default: workspace.catalog ?? defaultCatalog ?? {},
+			};
 			this.catalogCacheMtime = currentMtime;
 			return this.catalogCache;
 		} catch (error) {
@@ -125,7 +151,7 @@ export class PnpmCatalog {
 		const logger = createEnvLogger("pnpm");
 
 		try {
-			const catalog = await this.getCatalog();
+			const catalogs = await this.getCatalogs();
 
 			// Collect dependencies that need resolution
 			const catalogDeps = this.collectDependencies(packageJson, CATALOG_PREFIX);
@@ -135,7 +161,8 @@ export class PnpmCatalog {
 			const hasWorkspaceDeps = workspaceDeps.length > 0;
 
 			// Validate catalog availability
-			if (hasCatalogDeps && Object.keys(catalog).length === 0) {
+			const hasCatalogs = Object.values(catalogs).some((entries) => Object.keys(entries).length > 0);
+			if (hasCatalogDeps && !hasCatalogs) {
 				const error = `Package contains ${CATALOG_PREFIX} dependencies but catalog configuration is missing`;
 				logger.error(error);
 				logger.error("  -> Catalog dependencies found:");
@@ -153,7 +180,7 @@ export class PnpmCatalog {
 			}
 
 			const result = await createExportableManifest(dir, packageJson as ProjectManifest, {
-				catalogs: { default: catalog },
+				catalogs,
 			});
 
 			// Log resolved dependencies
@@ -223,22 +250,33 @@ export class PnpmCatalog {
 	}
 
 	/**
-	 * Logs resolved dependencies in a formatted way.
+	 * Gets the catalog name referenced by a `catalog:` version.
+	 */
+	private getCatalogName(version: string): string {
+		return version.slice(CATALOG_PREFIX.length) || "default";
+	}
+
+	/**
+	 * Logs resolved dependencies in a formatted way, along with the catalog or
+	 * workspace reference each version came from.
 	 */
 	private logResolvedDependencies(
 		resultPkg: PackageJson,
-		originalDeps: Array<{ field: string; dependency: string }>,
+		originalDeps: Array<{ field: string; dependency: string; version: string }>,
 		logger: ReturnType<typeof createEnvLogger>,
 	): void {
-		const allResolved: Record<string, Array<{ dependency: string; version: string }>> = {};
+		const allResolved: Record<string, Array<{ dependency: string; version: string; source: string }>> = {};
 
-		for (const { field, dependency } of originalDeps) {
+		for (const { field, dependency, version: original } of originalDeps) {
 			const deps = resultPkg[field as keyof PackageJson] as Record<string, string> | undefined;
 			if (deps?.[dependency]) {
 				if (!allResolved[field]) {
 					allResolved[field] = [];
 				}
-				allResolved[field].push({ dependency, version: deps[dependency] });
+				const source = original.startsWith(CATALOG_PREFIX)
+					? `${CATALOG_PREFIX}${this.getCatalogName(original)}`
+					: original;
+				allResolved[field].push({ dependency, version: deps[dependency], source });
 			}
 		}
 
@@ -246,8 +284,8 @@ export class PnpmCatalog {
 			logger.info("Resolved dependencies:");
 			for (const [field, deps] of Object.entries(allResolved)) {
 				logger.info(`- ${field}:`);
-				for (const { dependency, version } of deps) {
-					logger.info(`    ${dependency}: ${version}`);
+				for (const { dependency, version, source } of deps) {
+					logger.info(`    ${dependency}: ${version} (${source})`);
 				}
 			}
 		}
@@ -1,10 +1,19 @@
 import { describe, expect, it } from "vitest";
 import type { PackageJson } from "../../../types/package-json.js";
-import { applyRslibTransformations } from "./package-json-transformer.js";
+import {
+	NPM_MANIFEST_POLICY,
+	applyManifestPolicy,
+	applyPublishConfigOverrides,
+	applyRslibTransformations,
+	findSubpathImportSpecifiers,
+	mergeManifestPolicies,
+	pruneSubpathImports,
+	transformPackageImports,
+} from "./package-json-transformer.js";
 
 describe("rslib-transform-utils", () => {
 	describe("applyRslibTransformations", () => {
-		it("should remove publishConfig and scripts but keep devDependencies", () => {
+		it("should remove scripts and publishConfig.directory but keep devDependencies", () => {
 			const packageJson: PackageJson = {
 				name: "test-package",
 				version: "1.0.0",
@@ -55,6 +64,9 @@ describe("rslib-transform-utils", () => {
 					vitest: "^1.0.0",
 				},
 				private: false, // Should be false because publishConfig.access is "public"
+				publishConfig: {
+					access: "public",
+				},
 			});
 		});
 
@@ -76,6 +88,29 @@ describe("rslib-transform-utils", () => {
 			expect(result.private).toBe(false);
 		});
 
+		it("should keep the publishConfig fields read at publish time", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				publishConfig: {
+					access: "public",
+					provenance: true,
+					registry: "https://npm.example.com/",
+					tag: "beta",
+					directory: "dist",
+					exports: "./src/index.ts",
+				},
+			};
+
+			const result = applyRslibTransformations(packageJson, packageJson);
+
+			expect(result.publishConfig).toEqual({
+				access: "public",
+				provenance: true,
+				registry: "https://npm.example.com/",
+				tag: "beta",
+			});
+		});
+
 		it("should transform exports from .ts to .js with types", () => {
 			const packageJson: PackageJson = {
 				name: "test-package",
@@ -179,8 +214,8 @@ describe("rslib-transform-utils", () => {
 
 			expect(result.exports).toEqual({
 				"./schema.json": {
-					import: "./schema.js", // TypeScript export - converted to .js
-					require: "./schema-cjs.js", // TypeScript export - converted to .js
+					import: { types: "./schema.d.ts", default: "./schema.js" }, // TypeScript export - converted to .js
+					require: { types: "./schema-cjs.d.ts", default: "./schema-cjs.js" },
 				},
 				".": {
 					types: "./index.d.ts",
@@ -244,6 +279,29 @@ describe("rslib-transform-utils", () => {
 			expect(result.bin).toBe("./bin/cli.js");
 		});
 
+		it("should point exports and bin at the mirrored layout in bundleless builds", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				version: "1.0.0",
+				exports: {
+					"./utils": "./src/utils/index.ts",
+				},
+				bin: {
+					"my-cli": "./src/cli.ts",
+				},
+			};
+
+			const result = applyRslibTransformations(packageJson, packageJson, true, undefined, undefined, false);
+
+			expect(result.exports).toEqual({
+				"./utils": {
+					types: "./utils/index.d.ts",
+					import: "./utils/index.js",
+				},
+			});
+			expect(result.bin).toEqual({ "my-cli": "./cli.js" });
+		});
+
 		it("should transform files array", () => {
 			const packageJson: PackageJson = {
 				name: "test-package",
@@ -349,5 +407,253 @@ describe("rslib-transform-utils", () => {
 			// Shell scripts should not be transformed
 			expect(result.bin).toBe("./bin/start.sh");
 		});
+
+		it("should rewrite imports and drop entries the output no longer uses", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				imports: {
+					"#internal/*": "./src/internal/*.ts",
+					"#config": "./src/config.ts",
+				},
+			};
+
+			const result = applyRslibTransformations(packageJson, packageJson, true, undefined, undefined, false, false, [
+				"#internal/helper",
+			]);
+
+			expect(result.imports).toEqual({ "#internal/*": "./internal/*.js" });
+		});
+
+		it("should remove imports when no emitted file references them", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				imports: { "#internal/*": "./src/internal/*.ts" },
+			};
+
+			const result = applyRslibTransformations(packageJson, packageJson, true, undefined, undefined, true, false, []);
+
+			expect(result.imports).toBeUndefined();
+		});
+
+		it("should keep every imports entry when references are unknown", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				imports: { "#config": "./src/config.ts" },
+			};
+
+			const result = applyRslibTransformations(packageJson, packageJson);
+
+			expect(result.imports).toEqual({ "#config": "./config.js" });
+		});
+	});
+
+	describe("applyPublishConfigOverrides", () => {
+		it("should replace top-level fields with their publishConfig overrides", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				exports: "./src/index.ts",
+				types: "./src/index.ts",
+				publishConfig: { exports: { ".": "./src/public.ts" }, types: "./public.d.ts", registry: "https://r.example/" },
+			};
+
+			const result = applyPublishConfigOverrides(packageJson);
+
+			expect(result.exports).toEqual({ ".": "./src/public.ts" });
+			expect(result.types).toBe("./public.d.ts");
+			expect(result).not.toHaveProperty("registry");
+			expect(packageJson.exports).toBe("./src/index.ts");
+		});
+
+		it("should return the package.json unchanged without publishConfig", () => {
+			const packageJson: PackageJson = { name: "test-package", main: "./index.js" };
+
+			expect(applyPublishConfigOverrides(packageJson)).toBe(packageJson);
+		});
+
+		it("should replace typesVersions with its publishConfig override", () => {
+			const packageJson: PackageJson = {
+				name: "test-package",
+				typesVersions: { "*": { "*": ["./src/*"] } },
+				publishConfig: { typesVersions: { "*": { extra: ["./src/extra.ts"] } } },
+			};
+
+			expect(applyPublishConfigOverrides(packageJson).typesVersions).toEqual({ "*": { extra: ["./src/extra.ts"] } });
+		});
+	});
+
+	describe("applyManifestPolicy", () => {
+		const createSource = (): PackageJson => ({
+			name: "test-package",
+			scripts: { build: "rslib build", postinstall: "node setup.js" },
+			publishConfig: { access: "public", provenance: true },
+			devDependencies: { vitest: "^1.0.0" },
+			"lint-staged": { "*.ts": "biome check" },
+		});
+		const createOutput = (): PackageJson => ({
+			name: "test-package",
+			devDependencies: { vitest: "^1.0.0" },
+			"lint-staged": { "*.ts": "biome check" },
+			publishConfig: { registry: "https://r.example/", tag: "next" },
+		});
+
+		it("should omit top-level and nested key paths", () => {
+			const result = applyManifestPolicy(createOutput(), createSource(), {
+				omit: ["devDependencies", "publishConfig.tag", "missing.key"],
+			});
+
+			expect(result).toEqual({
+				name: "test-package",
+				"lint-staged": { "*.ts": "biome check" },
+				publishConfig: { registry: "https://r.example/" },
+			});
+		});
+
+		it("should remove parents left empty by an omission", () => {
+			const result = applyManifestPolicy(createOutput(), createSource(), {
+				omit: ["publishConfig.registry", "publishConfig.tag"],
+			});
+
+			expect(result).not.toHaveProperty("publishConfig");
+		});
+
+		it("should let keep win over omit", () => {
+			const result = applyManifestPolicy(createOutput(), createSource(), {
+				omit: ["devDependencies", "publishConfig.tag"],
+				keep: ["devDependencies", "publishConfig"],
+			});
+
+			expect(result.devDependencies).toEqual({ vitest: "^1.0.0" });
+			expect(result.publishConfig).toEqual({ registry: "https://r.example/", tag: "next" });
+		});
+
+		it("should restore kept paths from the source package.json", () => {
+			const result = applyManifestPolicy(createOutput(), createSource(), {
+				keep: ["scripts.postinstall", "publishConfig.provenance", "scripts.missing"],
+			});
+
+			expect(result.scripts).toEqual({ postinstall: "node setup.js" });
+			expect(result.publishConfig).toEqual({ registry: "https://r.example/", tag: "next", provenance: true });
+		});
+
+		it("should set values and create parent objects", () => {
+			const result = applyManifestPolicy(createOutput(), createSource(), {
+				set: { "publishConfig.tag": "beta", "engines.node": ">=20", sideEffects: false },
+			});
+
+			expect(result.publishConfig).toEqual({ registry: "https://r.example/", tag: "beta" });
+			expect(result.engines).toEqual({ node: ">=20" });
+			expect(result.sideEffects).toBe(false);
+		});
+
+		it("should not mutate its input", () => {
+			const output = createOutput();
+
+			applyManifestPolicy(output, createSource(), { omit: ["publishConfig.tag"], set: { "publishConfig.x": 1 } });
+
+			expect(output).toEqual(createOutput());
+		});
+
+		it("should drop repository-only fields with the npm defaults", () => {
+			const result = applyManifestPolicy(createOutput(), createSource(), NPM_MANIFEST_POLICY);
+
+			expect(result).not.toHaveProperty("devDependencies");
+			expect(result).not.toHaveProperty("lint-staged");
+			expect(result.scripts).toEqual({ postinstall: "node setup.js" });
+		});
+	});
+
+	describe("mergeManifestPolicies", () => {
+		it("should concatenate lists and merge set values in order", () => {
+			expect(
+				mergeManifestPolicies({ omit: ["a"], keep: ["b"], set: { c: 1, d: 1 } }, undefined, {
+					omit: ["e"],
+					set: { d: 2 },
+				}),
+			).toEqual({ omit: ["a", "e"], keep: ["b"], set: { c: 1, d: 2 } });
+		});
+	});
+
+	describe("transformPackageImports", () => {
+		it("should rewrite targets inside condition objects", () => {
+			expect(
+				transformPackageImports({
+					"#env": { node: "./src/env/node.ts", default: "./src/env/browser.ts" },
+				}),
+			).toEqual({
+				"#env": { node: "./env/node.js", default: "./env/browser.js" },
+			});
+		});
+
+		it("should keep targets that name another package", () => {
+			expect(transformPackageImports({ "#dep": "some-package", "#list": ["./src/a.ts", "fallback"] })).toEqual({
+				"#dep": "some-package",
+				"#list": ["./a.js", "fallback"],
+			});
+		});
+
+		it("should add a require condition for TypeScript targets in dual format builds", () => {
+			expect(
+				transformPackageImports({ "#config": "./src/config.ts", "#data": "./data.json" }, true, false, true),
+			).toEqual({
+				"#config": { import: "./config.js", require: "./config.cjs" },
+				"#data": "./data.json",
+			});
+		});
+
+		it("should drop compiled targets that were not emitted", () => {
+			const imports: PackageJson.Imports = {
+				"#internal/*": "./src/internal/*.ts",
+				"#env": { node: "./src/env/node.ts", default: "./src/env/browser.ts" },
+				"#config": "./src/config.ts",
+				"#data": "./src/data.json",
+			};
+
+			expect(transformPackageImports(imports, true, false, true, ["index.js", "env/node.js"])).toEqual({
+				"#env": { node: "./env/node.js" },
+				"#data": "./data.json",
+			});
+			expect(transformPackageImports(imports, true, false, true, ["internal/a.js", "config.js"])).toEqual({
+				"#internal/*": { import: "./internal/*.js", require: "./internal/*.cjs" },
+				"#config": { import: "./config.js", require: "./config.cjs" },
+				"#data": "./data.json",
+			});
+		});
+	});
+
+	describe("findSubpathImportSpecifiers", () => {
+		it("should find # specifiers in imports, re-exports, import() and require()", () => {
+			const content = [
+				'import { a } from "#internal/a";',
+				"export * from '#internal/b';",
+				'import "#side-effect";',
+				'const c = await import("#lazy");',
+				'const d = require("#cjs");',
+				'const e = "#not-a-specifier";',
+				'import f from "./f.js";',
+			].join("\n");
+
+			expect(findSubpathImportSpecifiers(content)).toEqual(
+				new Set(["#internal/a", "#internal/b", "#side-effect", "#lazy", "#cjs"]),
+			);
+		});
+	});
+
+	describe("pruneSubpathImports", () => {
+		it("should keep exact and pattern entries that are referenced", () => {
+			const imports: PackageJson.Imports = {
+				"#internal/*.js": "./src/internal/*.ts",
+				"#config": "./src/config.ts",
+				"#unused": "./src/unused.ts",
+			};
+
+			expect(pruneSubpathImports(imports, ["#internal/a.js", "#config"])).toEqual({
+				"#internal/*.js": "./src/internal/*.ts",
+				"#config": "./src/config.ts",
+			});
+		});
+
+		it("should return undefined when nothing is referenced", () => {
+			expect(pruneSubpathImports({ "#config": "./src/config.ts" }, [])).toBeUndefined();
+		});
 	});
 });
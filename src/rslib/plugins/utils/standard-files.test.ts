@@ -0,0 +1,166 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	DEFAULT_STANDARD_FILES,
+	emitStandardFiles,
+	findStandardFiles,
+	resolveStandardFiles,
+} from "./standard-files.js";
+
+// Track created test directories for cleanup
+const testDirs: string[] = [];
+
+async function createTestDir(files: Record<string, string> = {}): Promise<string> {
+	const dir = join(tmpdir(), `standard-files-test-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+	testDirs.push(dir);
+	await mkdir(dir, { recursive: true });
+	for (const [file, content] of Object.entries(files)) {
+		await mkdir(dirname(join(dir, file)), { recursive: true });
+		await writeFile(join(dir, file), content);
+	}
+	return dir;
+}
+
+describe("standard-files", () => {
+	afterEach(async () => {
+		await Promise.all(testDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+		testDirs.length = 0;
+	});
+
+	describe("resolveStandardFiles", () => {
+		it("should default to the README, LICENSE and CHANGELOG", () => {
+			expect(resolveStandardFiles(undefined, "npm")).toEqual(DEFAULT_STANDARD_FILES);
+			expect(resolveStandardFiles(false, "npm")).toEqual([]);
+		});
+
+		it("should accept globs and keep files for their targets only", () => {
+			const standardFiles = ["readme.md", { pattern: "changelog.md", targets: ["npm"] }];
+
+			expect(resolveStandardFiles(standardFiles, "npm")).toEqual([
+				{ pattern: "readme.md" },
+				{ pattern: "changelog.md", targets: ["npm"] },
+			]);
+			expect(resolveStandardFiles(standardFiles, "dev")).toEqual([{ pattern: "readme.md" }]);
+			expect(resolveStandardFiles(standardFiles, undefined)).toEqual([{ pattern: "readme.md" }]);
+		});
+	});
+
+	describe("findStandardFiles", () => {
+		it("should match names in any case and with any extension", async () => {
+			const dir = await createTestDir({
+				"README.mdx": "",
+				"Licence.md": "",
+				"changelog.md": "",
+				"README-old/notes.md": "",
+				"readmeish.txt": "",
+				"src/LICENSE": "",
+			});
+
+			expect(await findStandardFiles(DEFAULT_STANDARD_FILES, dir)).toEqual([
+				{ fileName: "README.mdx", path: join(dir, "README.mdx") },
+				{ fileName: "Licence.md", path: join(dir, "Licence.md") },
+				{ fileName: "changelog.md", path: join(dir, "changelog.md") },
+			]);
+		});
+
+		it("should list files matched by several configs once", async () => {
+			const dir = await createTestDir({ "LICENSE.md": "", "README.md": "" });
+
+			const files = await findStandardFiles([{ pattern: "*.md" }, { pattern: "license.md" }], dir);
+
+			expect(files.map((file) => file.fileName)).toEqual(["LICENSE.md", "README.md"]);
+		});
+
+		it("should fall back to the workspace root", async () => {
+			const root = await createTestDir({
+				"pnpm-workspace.yaml": "packages:\n  - packages/*\n",
+				"package.json": "{}",
+				LICENSE: "MIT",
+				"README.md": "# Workspace",
+				"packages/lib/package.json": '{"name":"lib"}',
+			});
+			const dir = join(root, "packages/lib");
+
+			expect(await findStandardFiles(DEFAULT_STANDARD_FILES, dir)).toEqual([
+				{ fileName: "LICENSE", path: join(root, "LICENSE") },
+			]);
+		});
+
+		it("should prefer the package's own file to the workspace root", async () => {
+			const root = await createTestDir({
+				"pnpm-workspace.yaml": "packages:\n  - packages/*\n",
+				"package.json": "{}",
+				LICENSE: "MIT",
+				"packages/lib/package.json": '{"name":"lib"}',
+				"packages/lib/LICENSE.txt": "Apache-2.0",
+			});
+			const dir = join(root, "packages/lib");
+
+			expect(await findStandardFiles(DEFAULT_STANDARD_FILES, dir)).toEqual([
+				{ fileName: "LICENSE.txt", path: join(dir, "LICENSE.txt") },
+			]);
+		});
+	});
+
+	describe("emitStandardFiles", () => {
+		it("should emit the files that are not already assets", async () => {
+			const dir = await createTestDir({ "README.md": "# lib", LICENSE: "MIT" });
+			const context = {
+				assets: { "README.md": {} },
+				sources: {
+					RawSource: class {
+						constructor(public content: Buffer) {}
+					},
+				},
+				compilation: { emitAsset: vi.fn() },
+			};
+
+			const files = await emitStandardFiles(
+				context as unknown as Parameters<typeof emitStandardFiles>[0],
+				undefined,
+				"npm",
+				dir,
+			);
+
+			expect(files).toEqual(["README.md", "LICENSE"]);
+			expect(context.compilation.emitAsset).toHaveBeenCalledTimes(1);
+			expect(context.compilation.emitAsset).toHaveBeenCalledWith(
+				"LICENSE",
+				expect.objectContaining({ content: Buffer.from("MIT") }),
+				{ sourceFilename: "LICENSE" },
+			);
+		});
+
+		it("should record the source of workspace root files", async () => {
+			const root = await createTestDir({
+				"pnpm-workspace.yaml": "packages:\n  - packages/*\n",
+				"package.json": "{}",
+				"README.md": "# Workspace",
+				"packages/lib/package.json": '{"name":"lib"}',
+			});
+			const context = {
+				assets: {},
+				sources: {
+					RawSource: class {
+						constructor(public content: Buffer) {}
+					},
+				},
+				compilation: { emitAsset: vi.fn() },
+			};
+
+			const files = await emitStandardFiles(
+				context as unknown as Parameters<typeof emitStandardFiles>[0],
+				[{ pattern: "readme.md", workspaceFallback: true }],
+				"npm",
+				join(root, "packages/lib"),
+			);
+
+			expect(files).toEqual(["README.md"]);
+			expect(context.compilation.emitAsset).toHaveBeenCalledWith("README.md", expect.anything(), {
+				sourceFilename: "../../README.md",
+			});
+		});
+	});
+});
@@ -0,0 +1,152 @@
+import { readFile } from "node:fs/promises";
+import { join, relative, resolve } from "node:path";
+import type { ProcessAssetsHandler } from "@rsbuild/core";
+import { glob } from "glob";
+import { getWorkspaceRoot } from "workspace-tools";
+
+/**
+ * A standard file, such as a README or LICENSE, copied into the build output.
+ *
+ * @public
+ */
+export interface StandardFileConfig {
+	/**
+	 * Glob matched case-insensitively against the package directory.
+	 *
+	 * @remarks
+	 * For example, `"licen[cs]e{,.*}"` matches `LICENSE`, `License.md` and
+	 * `licence.txt`. Matches keep their name in the output.
+	 */
+	pattern: string;
+
+	/**
+	 * Whether to look in the workspace root when the package has no match.
+	 *
+	 * @defaultValue false
+	 */
+	workspaceFallback?: boolean;
+
+	/**
+	 * Build targets that include the file.
+	 *
+	 * @defaultValue every target
+	 */
+	targets?: string[];
+}
+
+/**
+ * Standard files to copy, as globs or full configs, or `false` for none.
+ *
+ * @public
+ */
+export type StandardFilesOption = Array<string | StandardFileConfig> | false;
+
+/**
+ * The README, LICENSE and CHANGELOG of the package in any case and with any
+ * extension. Only the license falls back to the workspace root, since a root
+ * README or CHANGELOG describes the repository rather than the package.
+ */
+export const DEFAULT_STANDARD_FILES: StandardFileConfig[] = [
+	{ pattern: "readme{,.*}" },
+	{ pattern: "licen[cs]e{,.*}", workspaceFallback: true },
+	{ pattern: "changelog{,.*}" },
+];
+
+/**
+ * A standard file found on disk.
+ */
+export interface StandardFile {
+	/** Asset name in the build output */
+	fileName: string;
+	/** Absolute path of the source file */
+	path: string;
+}
+
+/**
+ * Resolves the standard files option into the configs that apply to a target.
+ *
+ * @remarks
+ * Files limited to `targets` are left out when no target is known.
+ *
+ * @internal
+ */
+export function resolveStandardFiles(
+	standardFiles: StandardFilesOption | undefined,
+	target: string | undefined,
+): StandardFileConfig[] {
+	if (standardFiles === false) {
+		return [];
+	}
+	return (standardFiles ?? DEFAULT_STANDARD_FILES)
+		.map((file) => (typeof file === "string" ? { pattern: file } : file))
+		.filter((file) => !file.targets || (target !== undefined && file.targets.includes(target)));
+}
+
+async function matchStandardFile(pattern: string, cwd: string): Promise<StandardFile[]> {
+	const matches = await glob(pattern, { cwd, nocase: true, nodir: true, posix: true });
+	return matches.sort().map((fileName) => ({ fileName, path: join(cwd, fileName) }));
+}
+
+/**
+ * Finds the files matching each standard file config.
+ *
+ * @remarks
+ * Configs with `workspaceFallback` are matched against the workspace root
+ * when nothing in `cwd` matches. Files matched by more than one config are
+ * listed once.
+ *
+ * @internal
+ */
+export async function findStandardFiles(configs: StandardFileConfig[], cwd: string): Promise<StandardFile[]> {
+	const found = new Map<string, StandardFile>();
+	let workspaceRoot: string | undefined;
+
+	for (const { pattern, workspaceFallback } of configs) {
+		let matches = await matchStandardFile(pattern, cwd);
+		if (matches.length === 0 && workspaceFallback) {
+			workspaceRoot ??= getWorkspaceRoot(cwd) ?? cwd;
+			if (resolve(workspaceRoot) !== resolve(cwd)) {
+				matches = await matchStandardFile(pattern, workspaceRoot);
+			}
+		}
+		for (const match of matches) {
+			if (!found.has(match.fileName)) {
+				found.set(match.fileName, match);
+			}
+		}
+	}
+	return [...found.values()];
+}
+
+/**
+ * Emits the standard files of a target that are not already in the compilation.
+ *
+ * @remarks
+ * Each asset's `sourceFilename` info is the path of its source file relative
+ * to `cwd`, such as `../../LICENSE` for a workspace root fallback, so later
+ * plugins can tell where the file came from.
+ *
+ * @param context - The Rsbuild compilation context
+ * @param standardFiles - Standard files to copy, defaulting to {@link DEFAULT_STANDARD_FILES}
+ * @param target - Current build target, used to filter configs with `targets`
+ * @param cwd - Package directory to search
+ * @returns The asset names of every standard file found
+ *
+ * @internal
+ */
+export async function emitStandardFiles(
+	context: Parameters<ProcessAssetsHandler>[0],
+	standardFiles: StandardFilesOption | undefined,
+	target: string | undefined,
+	cwd: string = process.cwd(),
+): Promise<string[]> {
+	const files = await findStandardFiles(resolveStandardFiles(standardFiles, target), cwd);
+	for (const { fileName, path } of files) {
+		if (!context.assets[fileName]) {
+			context.compilation.emitAsset(fileName, new context.sources.RawSource(await readFile(path)), {
+				sourceFilename: relative(cwd, path).replace(/\\/g, "/"),
+			});
+		}
+	}
+	return files.map((file) => file.fileName);
+}
@@ -0,0 +1,74 @@
+import { gunzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createTarball } from "./tarball.js";
+
+interface TarEntry {
+	path: string;
+	mode: number;
+	mtime: number;
+	content: string;
+}
+
+/**
+ * Reads the entries of a gzipped ustar tarball.
+ */
+function readTarball(tarball: Buffer): TarEntry[] {
+	const tar = gunzipSync(tarball);
+	const entries: TarEntry[] = [];
+	for (let offset = 0; tar[offset] !== 0; ) {
+		const field = (start: number, length: number): string =>
+			tar.toString("utf-8", offset + start, offset + start + length).replace(/\0.*$/s, "");
+		const header = tar.subarray(offset, offset + 512);
+		const checksum = header.reduce((sum, byte, index) => sum + (index >= 148 && index < 156 ? 32 : byte), 0);
+		expect(Number.parseInt(field(148, 8), 8)).toBe(checksum);
+		expect(field(257, 6)).toBe("ustar");
+
+		const prefix = field(345, 155);
+		const size = Number.parseInt(field(124, 12), 8);
+		entries.push({
+			path: prefix ? `${prefix}/${field(0, 100)}` : field(0, 100),
+			mode: Number.parseInt(field(100, 8), 8),
+			mtime: Number.parseInt(field(136, 12), 8),
+			content: tar.toString("utf-8", offset + 512, offset + 512 + size),
+		});
+		offset += 512 + Math.ceil(size / 512) * 512;
+	}
+	return entries;
+}
+
+describe("createTarball", () => {
+	it("should pack sorted files below package/", () => {
+		const tarball = createTarball(
+			new Map([
+				["index.js", Buffer.from("export {};\n")],
+				["bin/cli.js", Buffer.from("#!/usr/bin/env node\n")],
+			]),
+			new Set(["bin/cli.js"]),
+		);
+
+		expect(readTarball(tarball)).toEqual([
+			{ path: "package/bin/cli.js", mode: 0o755, mtime: 499162500, content: "#!/usr/bin/env node\n" },
+			{ path: "package/index.js", mode: 0o644, mtime: 499162500, content: "export {};\n" },
+		]);
+	});
+
+	it("should split long paths into the prefix field", () => {
+		const path = `${"nested/".repeat(20)}index.js`;
+
+		expect(readTarball(createTarball(new Map([[path, Buffer.from("a".repeat(600))]])))).toEqual([
+			{ path: `package/${path}`, mode: 0o644, mtime: 499162500, content: "a".repeat(600) },
+		]);
+	});
+
+	it("should reject paths that do not fit a tar header", () => {
+		expect(() => createTarball(new Map([["a".repeat(120), Buffer.from("")]]))).toThrow(
+			"the path is too long for a tar header",
+		);
+	});
+
+	it("should produce identical tarballs for identical contents", () => {
+		const files = new Map([["index.js", Buffer.from("export {};\n")]]);
+
+		expect(createTarball(files).equals(createTarball(new Map(files)))).toBe(true);
+	});
+});
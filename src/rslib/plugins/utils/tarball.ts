@@ -0,0 +1,73 @@
+import { gzipSync } from "node:zlib";
+
+/**
+ * Modification time of every tarball entry, matching the fixed date npm uses
+ * (1985-10-26T08:15:00Z) so identical contents produce identical tarballs.
+ */
+const NPM_MTIME: number = 499162500;
+
+/**
+ * Splits a tar path into the ustar `prefix` and `name` header fields.
+ */
+function splitTarPath(path: string): [string, string] {
+	if (Buffer.byteLength(path) <= 100) {
+		return ["", path];
+	}
+	for (let index = path.indexOf("/"); index !== -1; index = path.indexOf("/", index + 1)) {
+		const prefix = path.slice(0, index);
+		const name = path.slice(index + 1);
+		if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+			return [prefix, name];
+		}
+	}
+	throw new Error(`Cannot pack "${path}": the path is too long for a tar header`);
+}
+
+function createTarHeader(path: string, size: number, mode: number): Buffer {
+	const header = Buffer.alloc(512);
+	const [prefix, name] = splitTarPath(path);
+	const octal = (value: number, length: number): string => `${value.toString(8).padStart(length - 1, "0")}\0`;
+
+	header.write(name, 0, 100);
+	header.write(octal(mode, 8), 100);
+	header.write(octal(0, 8), 108);
+	header.write(octal(0, 8), 116);
+	header.write(octal(size, 12), 124);
+	header.write(octal(NPM_MTIME, 12), 136);
+	header.write(" ".repeat(8), 148);
+	header.write("0", 156);
+	header.write("ustar\u000000", 257);
+	header.write(prefix, 345, 155);
+
+	let checksum = 0;
+	for (const byte of header) {
+		checksum += byte;
+	}
+	header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148);
+	return header;
+}
+
+/**
+ * Creates a gzipped ustar tarball with every file below a `package/` directory.
+ *
+ * @remarks
+ * Entries are sorted and share npm's fixed modification time, so the output
+ * only depends on the file contents and modes.
+ *
+ * @param files - File contents by path relative to the package directory
+ * @param executables - Paths packed with mode `0755` instead of `0644`
+ *
+ * @internal
+ */
+export function createTarball(files: Map<string, Buffer>, executables: Set<string> = new Set()): Buffer {
+	const blocks: Buffer[] = [];
+	for (const [file, content] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+		blocks.push(
+			createTarHeader(`package/${file}`, content.length, executables.has(file) ? 0o755 : 0o644),
+			content,
+			Buffer.alloc((512 - (content.length % 512)) % 512),
+		);
+	}
+	blocks.push(Buffer.alloc(1024));
+	return gzipSync(Buffer.concat(blocks), { level: 9 });
+}
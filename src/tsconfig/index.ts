@@ -229,9 +229,9 @@ export class LibraryTSConfigFile extends TSConfigFile {
 	 * - Setting outDir to just "dist"
 	 * - Changing tsBuildInfoFile to include target: `dist/.tsbuildinfo.{target}.bundle`
 	 *
-	 * @param target - Build target (dev, npm)
+	 * @param target - Build target (dev, npm, jsr)
 	 */
-	bundle(target: "dev" | "npm"): TSConfigJsonWithSchema {
+	bundle(target: "dev" | "npm" | "jsr"): TSConfigJsonWithSchema {
 		const config = transformStringsDeep(this.config, (str) =>
 			// biome-ignore lint/suspicious/noTemplateCurlyInString: replacing an actual literal
 			str.replace("${configDir}", "../../../../../.."),
@@ -273,10 +273,10 @@ export class LibraryTSConfigFile extends TSConfigFile {
 	 *
 	 * The temporary file will be automatically cleaned up when the process exits.
 	 *
-	 * @param target - Build target (dev, npm)
+	 * @param target - Build target (dev, npm, jsr)
 	 * @returns Absolute path to the temporary file
 	 */
-	writeBundleTempConfig(target: "dev" | "npm"): string {
+	writeBundleTempConfig(target: "dev" | "npm" | "jsr"): string {
 		const cwd = process.cwd();
 		const config = this.bundle(target);
 